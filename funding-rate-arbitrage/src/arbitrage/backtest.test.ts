@@ -0,0 +1,67 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { simulateCarry, type BacktestConfig, type BacktestData } from './backtest.js';
+
+const HOUR_MS = 3_600_000;
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+
+function near(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+const CONFIG: BacktestConfig = {
+  // Entry hurdle (10 + 20 bps) / 100h = 0.003 %/hr; no interest either way.
+  costs: { spotRoundTripBps: 10, perpRoundTripBps: 20, holdHours: 100, capitalAprPct: 0, borrowAprPct: 0 },
+  thresholds: { entryPctPerHour: 0, exitPctPerHour: 0, confirmations: 1 },
+  notionalUsd: 1000,
+  directions: ['long_spot_short_perp'],
+};
+
+// Opens long spot at 10, is paid 0.01 %/hr for two hours, then closes when funding turns.
+const DATA: BacktestData = {
+  funding: [
+    { at: T0, fundingPctPerHour: 0.01 },
+    { at: T0 + HOUR_MS, fundingPctPerHour: 0.01 },
+    { at: T0 + 2 * HOUR_MS, fundingPctPerHour: -0.01 },
+  ],
+  spot: [{ at: T0, price: 10 }, { at: T0 + 2 * HOUR_MS, price: 10.5 }],
+  mark: [{ at: T0, price: 10 }, { at: T0 + 2 * HOUR_MS, price: 10.4 }],
+};
+
+describe('simulateCarry', () => {
+  it('books each leg of a trade on a hand-checked series', () => {
+    const { trades, summary } = simulateCarry(DATA, CONFIG);
+    assert.equal(trades.length, 1);
+    const [trade] = trades;
+    assert.equal(trade.direction, 'long_spot_short_perp');
+    assert.equal(trade.holdHours, 2);
+    assert.equal(trade.quantity, 100);
+
+    // 100 APT short on the perp at a 10 mark, 0.01 %/hr for two hours.
+    near(trade.pnl.fundingUsd, 0.2);
+    // Half of 20 bps on 1000 USD in, half on 1040 USD out.
+    near(trade.pnl.feesUsd, -2.04);
+    // Half of 10 bps on 1000 USD of spot in, half on 1050 USD out.
+    near(trade.pnl.slippageUsd, -1.025);
+    near(trade.pnl.interestUsd, 0);
+    // Spot gained 0.50 and the perp short lost 0.40 per APT.
+    near(trade.pnl.basisUsd, 10);
+    near(trade.pnl.totalUsd, 7.135);
+
+    assert.equal(summary.winningTrades, 1);
+    near(summary.endingEquityUsd, 1007.135);
+    assert.equal(summary.exposureHours, 2);
+  });
+
+  it('closes a trade still open at the end of the data', () => {
+    const data = { ...DATA, funding: DATA.funding.slice(0, 2) };
+    const { trades } = simulateCarry(data, CONFIG);
+    assert.equal(trades[0].closeReason, 'end_of_data');
+    assert.equal(trades[0].holdHours, 1);
+  });
+
+  it('rejects an exit threshold above the entry threshold', () => {
+    const thresholds = { entryPctPerHour: 0.01, exitPctPerHour: 0.02, confirmations: 1 };
+    assert.throws(() => simulateCarry(DATA, { ...CONFIG, thresholds }), /must not exceed the entry threshold/);
+  });
+});
@@ -0,0 +1,695 @@
+import 'dotenv/config';
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { queryFundingHistory } from '../perp/funding-history.js';
+import { type PerpNetwork } from '../perp/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import { readJsonLines, writeJsonAtomic } from '../utils/jsonFile.js';
+import {
+  DEFAULT_BORROW_APR_PCT,
+  decideCarryAction,
+  evaluateCarry,
+  projectInterest,
+  type CarryInputs,
+  type CarryThresholds,
+  type SignalState,
+} from './carry.js';
+import { type HedgeDirection } from './position-book.js';
+
+/**
+ * Replays recorded funding, perp mark prices and spot prices through the
+ * daemon's carry rules (`evaluateCarry` + `decideCarryAction`) without
+ * touching a chain. Every open/close fills at the step's prices; the
+ * round-trip costs in the cost inputs are charged half on each side, spot as
+ * slippage and perp taker fee plus gas as fees, and interest comes from
+ * `projectInterest` over the hold.
+ */
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+export type FundingPoint = {
+  at: number;
+  /** Positive means longs pay. */
+  fundingPctPerHour: number;
+  markPrice?: number;
+};
+
+export type PricePoint = { at: number; price: number };
+
+export type BacktestData = {
+  funding: FundingPoint[];
+  /** Spot (Hyperion) APT price; the mark price stands in when empty. */
+  spot: PricePoint[];
+  /** Perp mark price; the funding points' own mark prices are used when empty. */
+  mark: PricePoint[];
+};
+
+export type BacktestConfig = {
+  costs: CarryInputs;
+  thresholds: CarryThresholds;
+  /** USD notional of each hedge at entry. */
+  notionalUsd: number;
+  /** Equity the curve starts from; the notional by default. */
+  startingEquityUsd?: number;
+  /** Evaluation step; one hour by default. */
+  stepHours?: number;
+  /** Directions the rules may open; both by default. */
+  directions?: HedgeDirection[];
+  /** Spot price slippage per fill on top of half the spot round trip, e.g. the live --slippage-bps as a worst case. */
+  slippageBps?: number;
+};
+
+export type TradePnl = {
+  /** Funding received by the perp leg (negative when it paid). */
+  fundingUsd: number;
+  /** Perp taker fees and gas, both sides. */
+  feesUsd: number;
+  /** Spot execution cost, both sides. */
+  slippageUsd: number;
+  /** Borrow interest (short spot), or supply yield minus capital cost (long spot). */
+  interestUsd: number;
+  /** Price moves of both legs; only the spot/perp basis survives the hedge. */
+  basisUsd: number;
+  totalUsd: number;
+};
+
+export type BacktestTrade = {
+  id: number;
+  direction: HedgeDirection;
+  openedAt: string;
+  closedAt: string;
+  holdHours: number;
+  /** APT held spot (long) or borrowed (short), and the perp size. */
+  quantity: number;
+  notionalUsd: number;
+  entrySpotPrice: number;
+  entryMarkPrice: number;
+  exitSpotPrice: number;
+  exitMarkPrice: number;
+  openReason: string;
+  closeReason: string;
+  pnl: TradePnl;
+};
+
+export type EquityPoint = {
+  at: string;
+  equityUsd: number;
+  fundingPctPerHour: number;
+  open?: HedgeDirection;
+};
+
+export type BacktestSummary = {
+  trades: number;
+  winningTrades: number;
+  pnl: TradePnl;
+  startingEquityUsd: number;
+  endingEquityUsd: number;
+  returnPct: number;
+  maxDrawdownUsd: number;
+  maxDrawdownPct: number;
+  /** Annualised Sharpe ratio of the per-step equity returns; 0 when flat. */
+  sharpe: number;
+  /** Hours with a hedge open. */
+  exposureHours: number;
+  from?: string;
+  to?: string;
+};
+
+export type BacktestResult = {
+  action: 'backtest_completed';
+  summary: BacktestSummary;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+};
+
+export type BacktestParams = {
+  /** CSV, JSON or JSON Lines with a timestamp and `fundingPctPerHour` (and optionally `markPrice`) per row. */
+  fundingFile?: string;
+  /** Spot price series (timestamp + `price`). */
+  spotFile?: string;
+  /** Perp mark price series (timestamp + `price`). */
+  markFile?: string;
+  /** Without a funding file, replay this pair's recorded funding history. */
+  perpPair?: string;
+  perpNetwork?: string;
+  historyDir?: string;
+  from?: string;
+  to?: string;
+  stepHours?: number;
+  notionalUsd?: number;
+  startingEquityUsd?: number;
+  directions?: HedgeDirection[];
+  slippageBps?: number;
+  entryThresholdPctPerHr?: number;
+  exitThresholdPctPerHr?: number;
+  confirmations?: number;
+  spotRoundTripBps?: number;
+  perpRoundTripBps?: number;
+  gasRoundTripBps?: number;
+  capitalAprPct?: number;
+  /** APT borrow APR (%) while short spot; 6% when omitted. */
+  borrowAprPct?: number;
+  /** APR (%) earned supplying the long-spot APT. */
+  supplyAprPct?: number;
+  holdHours?: number;
+  fundingStdPctPerHr?: number;
+  zScore?: number;
+  basisPremiumPctPerHr?: number;
+  /** Write the full result here; stdout then only gets the summary and trades. */
+  out?: string;
+};
+
+type OpenTrade = {
+  id: number;
+  direction: HedgeDirection;
+  openedAt: number;
+  quantity: number;
+  notionalUsd: number;
+  entrySpotPrice: number;
+  entryMarkPrice: number;
+  openReason: string;
+  fundingUsd: number;
+  entryFeesUsd: number;
+  entrySlippageUsd: number;
+};
+
+export function parseBacktestArgs(argv: string[]): BacktestParams {
+  const result: BacktestParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'funding-file':
+        result.fundingFile = next;
+        i += 1;
+        break;
+      case 'spot-file':
+        result.spotFile = next;
+        i += 1;
+        break;
+      case 'mark-file':
+        result.markFile = next;
+        i += 1;
+        break;
+      case 'perp-pair':
+        result.perpPair = next;
+        i += 1;
+        break;
+      case 'perp-network':
+        result.perpNetwork = next;
+        i += 1;
+        break;
+      case 'history-dir':
+        result.historyDir = next;
+        i += 1;
+        break;
+      case 'from':
+        result.from = next;
+        i += 1;
+        break;
+      case 'to':
+        result.to = next;
+        i += 1;
+        break;
+      case 'step-hours':
+        result.stepHours = Number(next);
+        i += 1;
+        break;
+      case 'notional-usd':
+        result.notionalUsd = Number(next);
+        i += 1;
+        break;
+      case 'starting-equity-usd':
+        result.startingEquityUsd = Number(next);
+        i += 1;
+        break;
+      case 'directions':
+        result.directions = parseDirections(next);
+        i += 1;
+        break;
+      case 'slippage-bps':
+        result.slippageBps = Number(next);
+        i += 1;
+        break;
+      case 'entry-threshold':
+        result.entryThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'exit-threshold':
+        result.exitThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'confirmations':
+        result.confirmations = Number(next);
+        i += 1;
+        break;
+      case 'spot-round-trip-bps':
+        result.spotRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'perp-round-trip-bps':
+        result.perpRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'gas-round-trip-bps':
+        result.gasRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'capital-apr-pct':
+        result.capitalAprPct = Number(next);
+        i += 1;
+        break;
+      case 'borrow-apr-pct':
+        result.borrowAprPct = Number(next);
+        i += 1;
+        break;
+      case 'supply-apr-pct':
+        result.supplyAprPct = Number(next);
+        i += 1;
+        break;
+      case 'hold-hours':
+        result.holdHours = Number(next);
+        i += 1;
+        break;
+      case 'funding-std-pct-per-hr':
+        result.fundingStdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'z-score':
+        result.zScore = Number(next);
+        i += 1;
+        break;
+      case 'basis-premium-pct-per-hr':
+        result.basisPremiumPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'out':
+        result.out = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function parseDirections(value: string | undefined): HedgeDirection[] {
+  const directions = (value ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  for (const direction of directions) {
+    if (direction !== 'long_spot_short_perp' && direction !== 'short_spot_long_perp') {
+      throw new Error(`Invalid direction '${direction}'. Use long_spot_short_perp and/or short_spot_long_perp.`);
+    }
+  }
+  return directions as HedgeDirection[];
+}
+
+/** Rows of a CSV (header line first), JSON array or JSON Lines file. */
+export function readSeriesFile(file: string): Record<string, unknown>[] {
+  if (!existsSync(file)) {
+    throw new Error(`Series file ${file} does not exist.`);
+  }
+  const extension = extname(file).toLowerCase();
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return readJsonLines<Record<string, unknown>>(file);
+  }
+  const text = readFileSync(file, 'utf8');
+  if (extension === '.csv') {
+    const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim());
+    const columns = (header ?? '').split(',').map((column) => column.trim());
+    return lines.map((line) => {
+      const cells = line.split(',');
+      return Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim()]));
+    });
+  }
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Series file ${file} must hold a JSON array.`);
+  }
+  return parsed;
+}
+
+/** Epoch ms from an ISO string or epoch seconds/ms. */
+function timestampOf(row: Record<string, unknown>): number | undefined {
+  const value = row.at ?? row.timestamp ?? row.time ?? row.date;
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function numberOf(row: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = row[key];
+    if (value === undefined || value === null || value === '') continue;
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric;
+  }
+  return undefined;
+}
+
+export function toFundingPoints(rows: Record<string, unknown>[]): FundingPoint[] {
+  const points: FundingPoint[] = [];
+  for (const row of rows) {
+    const at = timestampOf(row);
+    const fundingPctPerHour = numberOf(row, ['fundingPctPerHour', 'funding_pct_per_hour', 'funding']);
+    if (at === undefined || fundingPctPerHour === undefined) continue;
+    points.push({ at, fundingPctPerHour, markPrice: numberOf(row, ['markPrice', 'mark_price']) });
+  }
+  return points.sort((a, b) => a.at - b.at);
+}
+
+export function toPricePoints(rows: Record<string, unknown>[]): PricePoint[] {
+  const points: PricePoint[] = [];
+  for (const row of rows) {
+    const at = timestampOf(row);
+    const price = numberOf(row, ['price', 'close', 'markPrice', 'mark_price']);
+    if (at === undefined || price === undefined || price <= 0) continue;
+    points.push({ at, price });
+  }
+  return points.sort((a, b) => a.at - b.at);
+}
+
+/** Funding from `fundingFile`, else from the recorded history of `perpPair`, plus the price files. */
+export function loadBacktestData(params: BacktestParams): BacktestData {
+  const from = params.from ? Date.parse(params.from) : -Infinity;
+  const to = params.to ? Date.parse(params.to) : Infinity;
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error(`Invalid backtest range ${String(params.from)} .. ${String(params.to)}.`);
+  }
+  const inRange = <T extends { at: number }>(points: T[]) => points.filter((point) => point.at >= from && point.at <= to);
+
+  let funding: FundingPoint[];
+  if (params.fundingFile) {
+    funding = toFundingPoints(readSeriesFile(params.fundingFile));
+  } else {
+    const network = (params.perpNetwork ?? 'mainnet') as PerpNetwork;
+    funding = queryFundingHistory({ pair: params.perpPair ?? 'APT_USD', network, dir: params.historyDir })
+      .map((sample) => ({
+        at: Date.parse(sample.at),
+        fundingPctPerHour: sample.fundingPctPerHour,
+        markPrice: sample.markPrice ?? undefined,
+      }));
+  }
+
+  return {
+    funding: inRange(funding),
+    spot: inRange(params.spotFile ? toPricePoints(readSeriesFile(params.spotFile)) : []),
+    mark: inRange(params.markFile ? toPricePoints(readSeriesFile(params.markFile)) : []),
+  };
+}
+
+/** Walks a time-sorted series forward, returning the last point at or before each (non-decreasing) time asked for. */
+function cursor<T extends { at: number }>(points: T[]) {
+  let index = -1;
+  return (at: number): T | undefined => {
+    while (index + 1 < points.length && points[index + 1].at <= at) index += 1;
+    return index >= 0 ? points[index] : undefined;
+  };
+}
+
+function emptyPnl(): TradePnl {
+  return { fundingUsd: 0, feesUsd: 0, slippageUsd: 0, interestUsd: 0, basisUsd: 0, totalUsd: 0 };
+}
+
+/**
+ * P&L of `trade` if it were marked at `spotPrice`/`markPrice` at `at`; exit
+ * costs are only charged when `closing`.
+ */
+function markTrade(
+  trade: OpenTrade,
+  config: BacktestConfig,
+  at: number,
+  spotPrice: number,
+  markPrice: number,
+  closing: boolean,
+): TradePnl {
+  const { costs } = config;
+  const { quantity: q } = trade;
+  const days = Math.max(at - trade.openedAt, 0) / DAY_MS;
+  const longSpot = trade.direction === 'long_spot_short_perp';
+
+  const basisUsd = longSpot
+    ? q * (spotPrice - trade.entrySpotPrice) - q * (markPrice - trade.entryMarkPrice)
+    : q * (trade.entrySpotPrice - spotPrice) + q * (markPrice - trade.entryMarkPrice);
+
+  let interestUsd: number;
+  if (longSpot) {
+    const capital = projectInterest({ principal: trade.notionalUsd, apr: (costs.capitalAprPct ?? 0) / 100, days });
+    const supply = projectInterest({ principal: q, apr: (costs.supplyAprPct ?? 0) / 100, days });
+    interestUsd = supply.interest * spotPrice - capital.interest;
+  } else {
+    // The loan is in APT, so its interest is bought back at the exit price.
+    const borrow = projectInterest({ principal: q, apr: (costs.borrowAprPct ?? DEFAULT_BORROW_APR_PCT) / 100, days });
+    interestUsd = -borrow.interest * spotPrice;
+  }
+
+  const exitFeesUsd = closing ? -sideCost(q * markPrice, costs.perpRoundTripBps) - sideCost(q * spotPrice, costs.gasRoundTripBps) : 0;
+  const exitSlippageUsd = closing ? -spotSlippage(q * spotPrice, config) : 0;
+
+  const pnl: TradePnl = {
+    fundingUsd: trade.fundingUsd,
+    feesUsd: trade.entryFeesUsd + exitFeesUsd,
+    slippageUsd: trade.entrySlippageUsd + exitSlippageUsd,
+    interestUsd,
+    basisUsd,
+    totalUsd: 0,
+  };
+  pnl.totalUsd = pnl.fundingUsd + pnl.feesUsd + pnl.slippageUsd + pnl.interestUsd + pnl.basisUsd;
+  return pnl;
+}
+
+/** Spot execution cost of one fill of `notionalUsd`. */
+function spotSlippage(notionalUsd: number, config: BacktestConfig): number {
+  const extraBps = Number.isFinite(config.slippageBps) ? (config.slippageBps as number) : 0;
+  return sideCost(notionalUsd, config.costs.spotRoundTripBps) + (notionalUsd * extraBps) / 10_000;
+}
+
+/** Half of a round-trip cost in bps, on `notionalUsd`. */
+function sideCost(notionalUsd: number, roundTripBps: number | undefined): number {
+  return Number.isFinite(roundTripBps) ? (notionalUsd * (roundTripBps as number)) / 2 / 10_000 : 0;
+}
+
+/** Runs the carry rules over `data`; pure, so it can be called many times over the same data. */
+export function simulateCarry(data: BacktestData, config: BacktestConfig): BacktestResult {
+  const stepMs = (config.stepHours ?? 1) * HOUR_MS;
+  if (!(stepMs > 0)) {
+    throw new Error(`Backtest step must be positive; got ${config.stepHours}.`);
+  }
+  if (!(config.notionalUsd > 0)) {
+    throw new Error(`Backtest notional must be positive; got ${config.notionalUsd}.`);
+  }
+  if (config.thresholds.exitPctPerHour > config.thresholds.entryPctPerHour) {
+    throw new Error('The exit threshold must not exceed the entry threshold, or the rules would flap.');
+  }
+  const allowed = config.directions?.length ? config.directions : undefined;
+  const startingEquityUsd = config.startingEquityUsd ?? config.notionalUsd;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const totals = emptyPnl();
+  let realizedUsd = 0;
+  let exposureMs = 0;
+  let state: SignalState = {};
+  let open: OpenTrade | undefined;
+  let previous: { at: number; fundingPctPerHour: number; markPrice: number } | undefined;
+
+  const fundingAt = cursor(data.funding);
+  const spotAt = cursor(data.spot);
+  const markAt = cursor(data.mark);
+
+  const close = (at: number, spotPrice: number, markPrice: number, reason: string) => {
+    if (!open) return;
+    const pnl = markTrade(open, config, at, spotPrice, markPrice, true);
+    trades.push({
+      id: open.id,
+      direction: open.direction,
+      openedAt: new Date(open.openedAt).toISOString(),
+      closedAt: new Date(at).toISOString(),
+      holdHours: (at - open.openedAt) / HOUR_MS,
+      quantity: open.quantity,
+      notionalUsd: open.notionalUsd,
+      entrySpotPrice: open.entrySpotPrice,
+      entryMarkPrice: open.entryMarkPrice,
+      exitSpotPrice: spotPrice,
+      exitMarkPrice: markPrice,
+      openReason: open.openReason,
+      closeReason: reason,
+      pnl,
+    });
+    for (const key of Object.keys(totals) as (keyof TradePnl)[]) totals[key] += pnl[key];
+    realizedUsd += pnl.totalUsd;
+    open = undefined;
+  };
+
+  const first = data.funding.length > 0 ? data.funding[0].at : 0;
+  const last = data.funding.length > 0 ? data.funding[data.funding.length - 1].at : -1;
+  let lastPrices: { at: number; spot: number; mark: number } | undefined;
+
+  for (let at = first; at <= last; at += stepMs) {
+    const funding = fundingAt(at);
+    if (!funding) continue;
+    const markPrice = markAt(at)?.price ?? funding.markPrice ?? spotAt(at)?.price;
+    const spotPrice = spotAt(at)?.price ?? markPrice;
+    if (markPrice === undefined || spotPrice === undefined) continue;
+
+    // Funding over the last step accrued at the rate and mark price it started with.
+    if (open && previous) {
+      const hours = (at - previous.at) / HOUR_MS;
+      const rate = open.direction === 'long_spot_short_perp' ? previous.fundingPctPerHour : -previous.fundingPctPerHour;
+      open.fundingUsd += (rate / 100) * open.quantity * previous.markPrice * hours;
+      exposureMs += at - previous.at;
+    }
+    previous = { at, fundingPctPerHour: funding.fundingPctPerHour, markPrice };
+    lastPrices = { at, spot: spotPrice, mark: markPrice };
+
+    const carry = evaluateCarry(funding.fundingPctPerHour, config.costs);
+    if (allowed) {
+      const candidates = allowed.map((direction) => carry[direction]);
+      carry.best = candidates.reduce((best, candidate) =>
+        candidate.entryNetPctPerHour > best.entryNetPctPerHour ? candidate : best);
+    }
+    const { decision, state: nextState } = decideCarryAction(carry, state, config.thresholds);
+    state = nextState;
+
+    if (decision.action === 'close') {
+      close(at, spotPrice, markPrice, decision.reason);
+    } else if (decision.action === 'open') {
+      const quantity = config.notionalUsd / spotPrice;
+      open = {
+        id: trades.length + 1,
+        direction: decision.direction,
+        openedAt: at,
+        quantity,
+        notionalUsd: config.notionalUsd,
+        entrySpotPrice: spotPrice,
+        entryMarkPrice: markPrice,
+        openReason: decision.reason,
+        fundingUsd: 0,
+        entryFeesUsd: -sideCost(quantity * markPrice, config.costs.perpRoundTripBps)
+          - sideCost(config.notionalUsd, config.costs.gasRoundTripBps),
+        entrySlippageUsd: -spotSlippage(config.notionalUsd, config),
+      };
+    }
+
+    const unrealizedUsd = open ? markTrade(open, config, at, spotPrice, markPrice, false).totalUsd : 0;
+    equityCurve.push({
+      at: new Date(at).toISOString(),
+      equityUsd: startingEquityUsd + realizedUsd + unrealizedUsd,
+      fundingPctPerHour: funding.fundingPctPerHour,
+      open: open?.direction,
+    });
+  }
+
+  if (open && lastPrices) {
+    close(lastPrices.at, lastPrices.spot, lastPrices.mark, 'end_of_data');
+    const point = equityCurve[equityCurve.length - 1];
+    point.equityUsd = startingEquityUsd + realizedUsd;
+    point.open = undefined;
+  }
+
+  let peak = startingEquityUsd;
+  let maxDrawdownUsd = 0;
+  let maxDrawdownPct = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equityUsd);
+    const drawdown = peak - point.equityUsd;
+    if (drawdown > maxDrawdownUsd) {
+      maxDrawdownUsd = drawdown;
+      maxDrawdownPct = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  }
+  const endingEquityUsd = startingEquityUsd + realizedUsd;
+
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i += 1) {
+    const before = equityCurve[i - 1].equityUsd;
+    if (before > 0) returns.push(equityCurve[i].equityUsd / before - 1);
+  }
+  const meanReturn = returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : 0;
+  const returnStd = returns.length > 1
+    ? Math.sqrt(returns.reduce((sum, value) => sum + (value - meanReturn) ** 2, 0) / (returns.length - 1))
+    : 0;
+  const stepsPerYear = (365 * 24) / (config.stepHours ?? 1);
+
+  return {
+    action: 'backtest_completed',
+    summary: {
+      trades: trades.length,
+      winningTrades: trades.filter((trade) => trade.pnl.totalUsd > 0).length,
+      pnl: totals,
+      startingEquityUsd,
+      endingEquityUsd,
+      returnPct: startingEquityUsd > 0 ? ((endingEquityUsd - startingEquityUsd) / startingEquityUsd) * 100 : 0,
+      maxDrawdownUsd,
+      maxDrawdownPct,
+      sharpe: returnStd > 0 ? (meanReturn / returnStd) * Math.sqrt(stepsPerYear) : 0,
+      exposureHours: exposureMs / HOUR_MS,
+      from: equityCurve[0]?.at,
+      to: equityCurve[equityCurve.length - 1]?.at,
+    },
+    trades,
+    equityCurve,
+  };
+}
+
+/** Cost inputs and thresholds from the flat params, with the daemon's defaults. */
+export function backtestConfig(params: BacktestParams): BacktestConfig {
+  return {
+    costs: {
+      spotRoundTripBps: params.spotRoundTripBps,
+      perpRoundTripBps: params.perpRoundTripBps,
+      gasRoundTripBps: params.gasRoundTripBps,
+      capitalAprPct: params.capitalAprPct,
+      borrowAprPct: params.borrowAprPct,
+      supplyAprPct: params.supplyAprPct,
+      holdHours: params.holdHours,
+      fundingStdPctPerHr: params.fundingStdPctPerHr,
+      zScore: params.zScore,
+      extraBasisPremiumPctPerHr: params.basisPremiumPctPerHr,
+    },
+    thresholds: {
+      entryPctPerHour: params.entryThresholdPctPerHr ?? 0,
+      exitPctPerHour: params.exitThresholdPctPerHr ?? 0,
+      confirmations: Math.max(1, params.confirmations ?? 2),
+    },
+    notionalUsd: params.notionalUsd ?? 1000,
+    startingEquityUsd: params.startingEquityUsd,
+    stepHours: params.stepHours,
+    directions: params.directions,
+    slippageBps: params.slippageBps,
+  };
+}
+
+export function runBacktest(params: BacktestParams = {}): BacktestResult {
+  const data = loadBacktestData(params);
+  if (data.funding.length === 0) {
+    throw new Error('No funding data to backtest; pass --funding-file or record history for --perp-pair.');
+  }
+  return simulateCarry(data, backtestConfig(params));
+}
+
+export async function main() {
+  const params = parseBacktestArgs(process.argv.slice(2));
+  const result = runBacktest(params);
+  if (params.out) {
+    writeJsonAtomic(params.out, result);
+    console.log(JSON.stringify({ action: result.action, out: params.out, summary: result.summary, trades: result.trades }, null, 2));
+  } else {
+    console.log(JSON.stringify(result, null, 2));
+  }
+  return result;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Backtest error:', error);
+    process.exitCode = 1;
+  });
+}
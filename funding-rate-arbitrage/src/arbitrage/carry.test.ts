@@ -0,0 +1,72 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import {
+  decideCarryAction,
+  evaluateCarry,
+  type CarryInputs,
+  type CarryThresholds,
+  type SignalState,
+} from './carry.js';
+
+// 20 bps of round trips amortised over 10 hours: a 0.02 %/hr entry hurdle.
+const COSTS: CarryInputs = { spotRoundTripBps: 10, perpRoundTripBps: 10, holdHours: 10, borrowAprPct: 0 };
+const THRESHOLDS: CarryThresholds = { entryPctPerHour: 0.01, exitPctPerHour: 0, confirmations: 2 };
+
+function near(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-12, `expected ${expected}, got ${actual}`);
+}
+
+/** Feeds `fundings` through the rules from `state`, returning every decision and the final state. */
+function replay(fundings: number[], state: SignalState = {}) {
+  const actions: string[] = [];
+  for (const funding of fundings) {
+    const next = decideCarryAction(evaluateCarry(funding, COSTS), state, THRESHOLDS);
+    actions.push(next.decision.action);
+    state = next.state;
+  }
+  return { actions, state };
+}
+
+describe('evaluateCarry', () => {
+  it('credits positive funding to the short perp and charges it to the long perp', () => {
+    const carry = evaluateCarry(0.05, COSTS);
+    near(carry.long_spot_short_perp.entryNetPctPerHour, 0.03);
+    near(carry.long_spot_short_perp.holdNetPctPerHour, 0.05);
+    near(carry.short_spot_long_perp.entryNetPctPerHour, -0.07);
+    assert.equal(carry.best.direction, 'long_spot_short_perp');
+
+    assert.equal(evaluateCarry(-0.05, COSTS).best.direction, 'short_spot_long_perp');
+  });
+
+  it('charges the borrow APR to short spot only, 6% when unknown', () => {
+    const carry = evaluateCarry(0, { ...COSTS, borrowAprPct: undefined });
+    assert.equal(carry.short_spot_long_perp.breakdown.normalizedInputs.capitalAprPct, 6);
+    assert.equal(carry.long_spot_short_perp.breakdown.normalizedInputs.capitalAprPct, 0);
+  });
+});
+
+describe('decideCarryAction', () => {
+  it('opens only after the signal held for the confirmations', () => {
+    const { actions, state } = replay([0.05, 0.05]);
+    assert.deepEqual(actions, ['wait', 'open']);
+    assert.deepEqual(state, { open: 'long_spot_short_perp' });
+  });
+
+  it('restarts the streak when the signal lapses or changes direction', () => {
+    assert.deepEqual(replay([0.05, 0, 0.05]).actions, ['wait', 'idle', 'wait']);
+    assert.deepEqual(replay([0.05, -0.05, -0.05]).actions, ['wait', 'wait', 'open']);
+  });
+
+  it('holds between the exit and entry thresholds', () => {
+    // 0.025 %/hr clears the exit threshold on hold carry but not the entry threshold on entry carry.
+    assert.deepEqual(replay([0.025]).actions, ['idle']);
+    const open: SignalState = { open: 'long_spot_short_perp' };
+    assert.deepEqual(replay([0.025], open).actions, ['hold']);
+  });
+
+  it('closes once hold carry stays below the exit threshold', () => {
+    const { actions, state } = replay([-0.01, 0.005, -0.01, -0.01], { open: 'long_spot_short_perp' });
+    assert.deepEqual(actions, ['wait', 'hold', 'wait', 'close']);
+    assert.deepEqual(state, { open: undefined });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  computeMinFundingBreakdown,
+  type MinFundingBreakdown,
+  type MinFundingInputs,
+} from '../utils/minFunding.js';
+import { type HedgeDirection } from './position-book.js';
+
+/**
+ * Net carry of each hedge direction for a given funding rate, and the
+ * open/close decision the daemon takes from it. Everything here is pure so the
+ * same rules can be replayed against recorded funding.
+ */
+
+export type CarryInputs = MinFundingInputs & {
+  /** Aries APT borrow APR paid while short spot (6% when unknown); `capitalAprPct` applies to long spot. */
+  borrowAprPct?: number;
+};
+
+export type DirectionCarry = {
+  direction: HedgeDirection;
+  /** Funding received by this direction's perp leg (negative when it pays). */
+  fundingIncomePctPerHour: number;
+  breakdown: MinFundingBreakdown;
+  /** Income minus the full hurdle, including amortised entry/exit costs. */
+  entryNetPctPerHour: number;
+  /** Income minus recurring costs only; entry costs are sunk once open. */
+  holdNetPctPerHour: number;
+};
+
+export type CarryEvaluation = {
+  fundingPctPerHour: number;
+  long_spot_short_perp: DirectionCarry;
+  short_spot_long_perp: DirectionCarry;
+  best: DirectionCarry;
+};
+
+export type CarryThresholds = {
+  /** Minimum entry net carry (%/hr) before opening. */
+  entryPctPerHour: number;
+  /** Close once hold net carry (%/hr) drops below this; keep it under the entry threshold. */
+  exitPctPerHour: number;
+  /** Consecutive evaluations a signal must persist before it is acted on. */
+  confirmations: number;
+};
+
+export type SignalState = {
+  open?: HedgeDirection;
+  pending?: { action: 'open' | 'close'; direction: HedgeDirection; streak: number };
+};
+
+export type CarryDecision =
+  | { action: 'open' | 'close'; direction: HedgeDirection; reason: string }
+  | { action: 'wait'; direction: HedgeDirection; pending: 'open' | 'close'; streak: number; reason: string }
+  | { action: 'hold' | 'idle'; reason: string };
+
+export const DEFAULT_BORROW_APR_PCT = 6;
+
+/** Interest `principal` accrues over `days` at `apr` (decimal), compounded unless `compound` is false. */
+export function projectInterest({
+  principal,
+  apr,
+  days,
+  compound = true,
+}: {
+  principal: number;
+  apr: number;
+  days: number;
+  compound?: boolean;
+}): { interest: number; endDebt: number } {
+  const t = days / 365;
+  const interest = compound
+    ? principal * (Math.pow(1 + apr, t) - 1)
+    : principal * apr * t;
+  const endDebt = principal + interest;
+  return { interest, endDebt };
+}
+
+function directionCarry(
+  direction: HedgeDirection,
+  fundingPctPerHour: number,
+  inputs: CarryInputs,
+): DirectionCarry {
+  const { borrowAprPct, ...costInputs } = inputs;
+  const breakdown = computeMinFundingBreakdown({
+    ...costInputs,
+    capitalAprPct: direction === 'short_spot_long_perp'
+      ? borrowAprPct ?? DEFAULT_BORROW_APR_PCT
+      : costInputs.capitalAprPct,
+    // Only the long-spot leg holds APT that can be supplied.
+    supplyAprPct: direction === 'long_spot_short_perp' ? costInputs.supplyAprPct : undefined,
+  });
+  // Positive funding is paid by longs to shorts.
+  const fundingIncomePctPerHour = direction === 'long_spot_short_perp'
+    ? fundingPctPerHour
+    : -fundingPctPerHour;
+
+  return {
+    direction,
+    fundingIncomePctPerHour,
+    breakdown,
+    entryNetPctPerHour: fundingIncomePctPerHour - breakdown.totalPctPerHour,
+    holdNetPctPerHour: fundingIncomePctPerHour - breakdown.capitalCostPctPerHour + breakdown.supplyYieldPctPerHour,
+  };
+}
+
+export function evaluateCarry(fundingPctPerHour: number, inputs: CarryInputs): CarryEvaluation {
+  const longSpot = directionCarry('long_spot_short_perp', fundingPctPerHour, inputs);
+  const shortSpot = directionCarry('short_spot_long_perp', fundingPctPerHour, inputs);
+  return {
+    fundingPctPerHour,
+    long_spot_short_perp: longSpot,
+    short_spot_long_perp: shortSpot,
+    best: shortSpot.entryNetPctPerHour > longSpot.entryNetPctPerHour ? shortSpot : longSpot,
+  };
+}
+
+/**
+ * Opens when entry carry clears `entryPctPerHour`, closes when hold carry falls
+ * below `exitPctPerHour`, and only after the signal held for `confirmations`
+ * evaluations in a row. The gap between the two thresholds is the hysteresis.
+ */
+export function decideCarryAction(
+  carry: CarryEvaluation,
+  state: SignalState,
+  thresholds: CarryThresholds,
+): { decision: CarryDecision; state: SignalState } {
+  let candidate: { action: 'open' | 'close'; direction: HedgeDirection; reason: string } | undefined;
+
+  if (state.open) {
+    const held = carry[state.open];
+    if (held.holdNetPctPerHour >= thresholds.exitPctPerHour) {
+      return {
+        decision: { action: 'hold', reason: `Hold carry ${held.holdNetPctPerHour} %/hr is above the exit threshold.` },
+        state: { open: state.open },
+      };
+    }
+    candidate = {
+      action: 'close',
+      direction: state.open,
+      reason: `Hold carry ${held.holdNetPctPerHour} %/hr fell below ${thresholds.exitPctPerHour} %/hr.`,
+    };
+  } else {
+    const { best } = carry;
+    if (best.entryNetPctPerHour < thresholds.entryPctPerHour) {
+      return {
+        decision: { action: 'idle', reason: `Best entry carry ${best.entryNetPctPerHour} %/hr is below ${thresholds.entryPctPerHour} %/hr.` },
+        state: {},
+      };
+    }
+    candidate = {
+      action: 'open',
+      direction: best.direction,
+      reason: `Entry carry ${best.entryNetPctPerHour} %/hr clears ${thresholds.entryPctPerHour} %/hr.`,
+    };
+  }
+
+  const previous = state.pending;
+  const streak = previous && previous.action === candidate.action && previous.direction === candidate.direction
+    ? previous.streak + 1
+    : 1;
+
+  if (streak < thresholds.confirmations) {
+    return {
+      decision: {
+        action: 'wait',
+        direction: candidate.direction,
+        pending: candidate.action,
+        streak,
+        reason: candidate.reason,
+      },
+      state: { open: state.open, pending: { action: candidate.action, direction: candidate.direction, streak } },
+    };
+  }
+
+  return {
+    decision: candidate,
+    state: { open: candidate.action === 'open' ? candidate.direction : undefined },
+  };
+}
@@ -0,0 +1,106 @@
+import WebSocket from 'ws';
+import {
+  Account,
+  Aptos,
+  AptosConfig,
+  Ed25519PrivateKey,
+  Network as AptosNetwork,
+} from '@aptos-labs/ts-sdk';
+import { createPerpVenue, type PerpVenue } from '../perp/venue.js';
+import { createSpotRouter, type SpotRouter } from '../spot/router.js';
+import { createSpotVenue, resolveSpotVenueNames, type SpotVenue } from '../spot/venue.js';
+
+export type NetworkName = 'mainnet' | 'testnet';
+
+export type ArbitrageClients = {
+  account: Account;
+  aptos: Aptos;
+  /** Perp DEX the hedges trade on; Merkle unless configured otherwise. */
+  perp: PerpVenue;
+  /** Best-quote router over the configured spot DEXes; Hyperion unless configured otherwise. */
+  spot: SpotRouter;
+  hyperionNetwork: NetworkName;
+  perpNetwork: NetworkName;
+};
+
+export type ArbitrageClientOptions = {
+  hyperionNetwork?: string;
+  perpNetwork?: string;
+  /** Defaults to the account derived from PRIVATE_KEY. */
+  account?: Account;
+  /** Registered perp venue name (default: PERP_VENUE, else Merkle) or a pre-built venue. */
+  perpVenue?: string | PerpVenue;
+  /** Settings for the named perp venue, e.g. a journaled `describe()`. */
+  perpVenueConfig?: Record<string, unknown>;
+  /** Spot venues to route over, by registered name (default: SPOT_VENUES, else Hyperion) or pre-built. */
+  spotVenues?: Array<string | SpotVenue>;
+  /** Settings per named spot venue. */
+  spotVenueConfig?: Record<string, Record<string, unknown>>;
+};
+
+export function ensureWebSocketGlobal() {
+  const globalRef = globalThis as unknown as { WebSocket?: typeof WebSocket };
+  if (!globalRef.WebSocket) {
+    globalRef.WebSocket = WebSocket as unknown as typeof WebSocket;
+  }
+}
+
+export function resolveNetworkName(value: string | undefined, label: string): NetworkName {
+  const normalized = (value ?? 'mainnet').toLowerCase();
+  if (normalized !== 'mainnet' && normalized !== 'testnet') {
+    throw new Error(`Unsupported ${label} network '${normalized}'. Use 'mainnet' or 'testnet'.`);
+  }
+  return normalized;
+}
+
+export function accountFromEnv(): Account {
+  const privateKeyHex = process.env.PRIVATE_KEY?.trim();
+  if (!privateKeyHex) {
+    throw new Error('Missing PRIVATE_KEY in environment.');
+  }
+  return accountFromPrivateKey(privateKeyHex);
+}
+
+/** Hex or AIP-80 Ed25519 key, for callers that hold the key themselves (e.g. the bot's hot wallet). */
+export function accountFromPrivateKey(privateKey: string): Account {
+  return Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey.trim()) });
+}
+
+/**
+ * Builds the spot router, perp venue and Aptos clients every arbitrage flow needs.
+ * Callers running several flows in one process should build these once and
+ * pass them through the flow params.
+ */
+export async function createArbitrageClients(
+  options: ArbitrageClientOptions = {},
+): Promise<ArbitrageClients> {
+  const hyperionNetwork = resolveNetworkName(options.hyperionNetwork, 'Hyperion');
+  const perpNetwork = resolveNetworkName(options.perpNetwork, 'perp');
+
+  ensureWebSocketGlobal();
+
+  const named = (options.spotVenues ?? []).filter((venue): venue is string => typeof venue === 'string');
+  const prebuilt = (options.spotVenues ?? []).filter((venue): venue is SpotVenue => typeof venue === 'object');
+  const spotVenues = [
+    ...(named.length > 0 || prebuilt.length === 0 ? resolveSpotVenueNames(named) : []).map((name) =>
+      createSpotVenue(name, { network: hyperionNetwork, config: options.spotVenueConfig?.[name] })),
+    ...prebuilt,
+  ];
+  const spot = createSpotRouter(spotVenues);
+
+  const account = options.account ?? accountFromEnv();
+
+  const aptos = new Aptos(new AptosConfig({
+    network: perpNetwork === 'testnet' ? AptosNetwork.TESTNET : AptosNetwork.MAINNET,
+  }));
+  const perp = typeof options.perpVenue === 'object'
+    ? options.perpVenue
+    : await createPerpVenue(options.perpVenue, {
+      aptos,
+      account,
+      network: perpNetwork,
+      config: options.perpVenueConfig,
+    });
+
+  return { account, aptos, perp, spot, hyperionNetwork, perpNetwork };
+}
@@ -1,18 +1,28 @@
 import 'dotenv/config';
-import WebSocket from 'ws';
+import { createLendingVenue, type LendingVenue } from '../borrow/venue.js';
+import { findPerpPosition } from '../perp/venue.js';
+import { type SpotCandidate } from '../spot/router.js';
+import { type SpotQuote } from '../spot/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import { createCompensationPlan, submitPayload, withCompensation } from './compensation.js';
+import { openJournalRun } from './journal.js';
 import {
-  Account,
-  Aptos,
-  Ed25519PrivateKey,
-  Network as AptosNetwork,
-} from '@aptos-labs/ts-sdk';
-import { initHyperionSDK } from '@hyperionxyz/sdk';
+  findOpenPosition,
+  hedgePerpShare,
+  hedgeSupplyShare,
+  reducePosition,
+  scaleBase,
+  type HedgePosition,
+} from './position-book.js';
 import {
-  MerkleClient,
-  MerkleClientConfig,
-} from '@merkletrade/ts-sdk';
+  printResult,
+  type ArbitrageAbortResult,
+  type ArbitrageClosedResult,
+  type ArbitrageDryRunResult,
+} from './types.js';
 
-type Args = {
+export type CloseLongSpotShortPerpParams = {
   spotFromFa?: string;
   spotToFa?: string;
   spotOut?: string;
@@ -24,8 +34,81 @@ type Args = {
   submitSpot?: boolean;
   submitPerp?: boolean;
   perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
+  /** Position book entry to close; defaults to the latest open long-spot hedge. */
+  positionId?: string;
+  /** Share of the hedge to close, in (0, 1]; defaults to 1. */
+  fraction?: number;
+  /** Perp notional to close in USDC; converted to a fraction of the hedge's perp size. */
+  size?: string;
+  /**
+   * APT to sell in base units instead of the recorded quantity, with any
+   * supplied APT taken as already withdrawn; resume uses it to finish a close
+   * that stopped between the withdrawal and the sale.
+   */
+  spotInBase?: string;
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
 };
 
+type SpotLegQuote = {
+  /** Spot venue the router picked. */
+  venue: string;
+  network: string;
+  outputToken: string;
+  outputAmount: string | undefined;
+  inputToken: string;
+  amountIn: string;
+  amountOut: string;
+  routePath: unknown[] | undefined;
+  candidates: SpotCandidate[];
+};
+
+type SpotExecution = {
+  action: 'apt_swapped_for_usdc';
+  spotQuote: SpotLegQuote | null;
+  slippageBps: number;
+  /** APT withdrawn from the lending venue the hedge supplied it to. */
+  supplyWithdrawal?: {
+    venue: string;
+    amount: string;
+    transactionHash?: string;
+  };
+};
+
+type PerpPosition = {
+  pair: string;
+  openSize: string;
+  collateral: string;
+  direction: 'LONG' | 'SHORT';
+};
+
+export type CloseLongSpotShortPerpResult =
+  | ArbitrageDryRunResult<{
+    spotQuote?: SpotLegQuote | null;
+    perpPosition?: PerpPosition;
+  }>
+  | ArbitrageAbortResult
+  | ArbitrageClosedResult<{
+    spotQuote: SpotLegQuote | null;
+    spotExecution: SpotExecution | null;
+    perpPosition: PerpPosition;
+    perpClose: {
+      action: 'short_perp_position_closed';
+      transactionHash: string;
+      version?: string;
+      pair: string;
+      sizeClosed: string;
+      direction: 'SHORT';
+    };
+    fraction: number;
+    journalId?: string;
+    positionId?: string;
+  }>;
+
 const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>> = {
   mainnet: {
     apt: '0xa',
@@ -40,8 +123,8 @@ const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>>
 const APT_DECIMALS = 8;
 const USDC_DECIMALS = 6;
 
-function parseArgs(argv: string[]): Args {
-  const result: Args = {};
+function parseArgs(argv: string[]): CloseLongSpotShortPerpParams {
+  const result: CloseLongSpotShortPerpParams = {};
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
     if (!arg.startsWith('--')) continue;
@@ -92,6 +175,26 @@ function parseArgs(argv: string[]): Args {
         result.perpNetwork = next;
         i += 1;
         break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
+      case 'position-id':
+        result.positionId = next;
+        i += 1;
+        break;
+      case 'fraction':
+        result.fraction = Number(next);
+        i += 1;
+        break;
+      case 'size':
+        result.size = next;
+        i += 1;
+        break;
       default:
         break;
     }
@@ -105,15 +208,18 @@ function normalizeFa(address?: string): string {
   return match ? `0x${match[1].toLowerCase()}` : address;
 }
 
-function ensureWebSocketGlobal() {
-  const globalRef = globalThis as { WebSocket?: typeof WebSocket };
-  if (!globalRef.WebSocket) {
-    globalRef.WebSocket = WebSocket as unknown as typeof WebSocket;
-  }
-}
-
-export async function main() {
-  const args = parseArgs(process.argv.slice(2));
+/**
+ * Sells the spot APT back to USDC on the best-quoting spot venue and closes the perp short.
+ *
+ * Without `spotOut`, the APT quantity and pair recorded for the open position
+ * in the position book are used. `fraction`/`size` close only part of the
+ * hedge: the spot sale and the perp size and collateral shrink in proportion.
+ * APT the hedge supplied to a lending venue is withdrawn before the sale.
+ */
+export async function runCloseLongSpotShortPerp(
+  params: CloseLongSpotShortPerpParams = {},
+): Promise<CloseLongSpotShortPerpResult> {
+  const args = params;
 
   const hyperionNetwork = (args.hyperionNetwork ?? 'mainnet').toLowerCase();
   if (hyperionNetwork !== 'mainnet' && hyperionNetwork !== 'testnet') {
@@ -125,38 +231,50 @@ export async function main() {
   const spotOutDecimals = args.spotOutDecimals ?? USDC_DECIMALS;
   const slippageBps = args.slippageBps ?? 50;
   const safeMode = args.safeMode ?? false;
-  const perpPair = args.perpPair ?? 'BTC_USD';
+  const position = findOpenPosition({
+    direction: 'long_spot_short_perp',
+    perpPair: args.perpPair,
+    id: args.positionId,
+  });
+  if (args.positionId && !position) {
+    return {
+      action: 'abort',
+      reason: 'position_not_found',
+      positionId: args.positionId,
+      message: `No open position ${args.positionId} in the position book.`
+    };
+  }
+  const perpPair = args.perpPair ?? position?.perpPair ?? 'APT_USD';
   const submitSpot = args.submitSpot ?? true; // Default to true for close operations
   const submitPerp = args.submitPerp ?? true; // Default to true for close operations
-  const perpNetwork = (args.perpNetwork ?? 'mainnet').toLowerCase();
-
-  const sdk = initHyperionSDK({
-    network:
-      hyperionNetwork === 'testnet'
-        ? AptosNetwork.TESTNET
-        : AptosNetwork.MAINNET,
-    APTOS_API_KEY: process.env.APTOS_API_KEY ?? '',
-  });
-
-  ensureWebSocketGlobal();
 
-  const privateKeyHex = process.env.PRIVATE_KEY?.trim();
-  if (!privateKeyHex) {
-    throw new Error('Missing PRIVATE_KEY in environment.');
+  const clients = args.clients ?? await createArbitrageClients({
+    hyperionNetwork,
+    perpNetwork: args.perpNetwork,
+    perpVenue: args.perpVenue,
+    spotVenues: args.spotVenues,
+  });
+  const { account, aptos, perp, spot } = clients;
+
+
+  let fraction = args.fraction ?? 1;
+  if (args.size !== undefined) {
+    const open = await findPerpPosition(perp, perpPair);
+    if (!open || open.size === 0n) {
+      return {
+        action: 'abort',
+        reason: 'no_open_position',
+        pair: perpPair,
+        message: `No open ${perp.name} position found for ${perpPair}.`
+      };
+    }
+    const sizeBase = Math.round(Number(args.size) * 10 ** USDC_DECIMALS);
+    // Another hedge on the same pair shares the venue position; size against this one.
+    fraction = Math.min(1, sizeBase / Number(hedgePerpShare(position, open).size));
   }
-  const privateKey = new Ed25519PrivateKey(privateKeyHex);
-  const account = Account.fromPrivateKey({ privateKey });
-
-  let merkleConfig;
-  if (perpNetwork === 'mainnet') {
-    merkleConfig = await MerkleClientConfig.mainnet();
-  } else if (perpNetwork === 'testnet') {
-    merkleConfig = await MerkleClientConfig.testnet();
-  } else {
-    throw new Error(`Unsupported perp network '${perpNetwork}'. Use 'mainnet' or 'testnet'.`);
+  if (!(fraction > 0 && fraction <= 1)) {
+    throw new Error(`Close fraction must be in (0, 1]; got ${fraction}.`);
   }
-  const merkle = new MerkleClient(merkleConfig);
-  const aptos = new Aptos(merkleConfig.aptosConfig);
 
   // Get spot amount from args or use existing position size
   const spotOutBase = args.spotOut
@@ -165,177 +283,239 @@ export async function main() {
 
   let amountInBase = 0n;
   let amountOutBase = 0n;
-  let routePath: any[] | undefined;
+  let routedQuote: SpotQuote | undefined;
 
-  let hyperionQuote = null;
+  let spotQuote: SpotLegQuote | null = null;
 
-  if (spotOutBase && spotOutBase > 0n) {
-    const quote = await sdk.Swap.estToAmount({
+  // APT parked on a lending venue comes back first; size the withdrawal before
+  // quoting so the sale covers exactly what is withdrawn.
+  const supply = args.spotInBase === undefined ? position?.spotSupply : undefined;
+  const supplyVenue = position && supply && BigInt(supply.amount) > 0n
+    ? createLendingVenue(supply.venue, { aptos, account, config: supply.config })
+    : undefined;
+  const supplyWithdraw = position && supplyVenue
+    ? await supplyWithdrawAmount(supplyVenue, position, fraction)
+    : 0n;
+
+  // Sell exactly the recorded wallet APT plus the withdrawal when no USDC target was given.
+  const spotInBase = args.spotInBase !== undefined
+    ? BigInt(args.spotInBase)
+    : args.spotOut === undefined && position
+      ? scaleBase(BigInt(position.spotQuantity) - BigInt(supply?.amount ?? '0'), fraction) + supplyWithdraw
+      : undefined;
+
+  if ((spotOutBase && spotOutBase > 0n) || (spotInBase && spotInBase > 0n)) {
+    const { quote, candidates } = await spot.quote({
       from: spotFromFa,
       to: spotToFa,
-      amount: spotOutBase.toString(),
+      amount: spotOutBase ?? spotInBase!,
+      estimate: spotOutBase ? 'to' : 'from',
       safeMode,
     });
 
-    const bestRoute = (quote as any)?.bestRoute ?? quote;
-    if (!bestRoute?.path || bestRoute.path.length === 0) {
-      const errorResult = {
-        error: 'Hyperion returned no route',
-        rawResponse: quote
+    if (!quote) {
+      return {
+        action: 'abort',
+        reason: 'spot_no_route',
+        message: 'No spot venue returned a route for APT -> USDC swap',
+        rawResponse: candidates
       };
-      console.log(JSON.stringify(errorResult, null, 2));
-      return;
     }
 
-    amountInBase = BigInt(bestRoute.amountIn ?? 0);
-    amountOutBase = BigInt(bestRoute.amountOut ?? 0);
-    routePath = bestRoute.path;
+    amountInBase = quote.amountIn;
+    amountOutBase = quote.amountOut;
+    routedQuote = quote;
 
-    hyperionQuote = {
+    spotQuote = {
+      venue: quote.venue,
       network: hyperionNetwork,
       outputToken: spotToFa,
       outputAmount: args.spotOut,
       inputToken: spotFromFa,
-      amountIn: bestRoute.amountIn,
-      amountOut: bestRoute.amountOut,
-      routePath: routePath
+      amountIn: quote.amountIn.toString(),
+      amountOut: quote.amountOut.toString(),
+      routePath: quote.path,
+      candidates,
     };
   }
 
-  let spotExecution = null;
-
-  if (submitSpot && amountInBase > 0n) {
-    const payload = await sdk.Swap.swapTransactionPayload({
-      currencyA: spotFromFa,
-      currencyB: spotToFa,
-      currencyAAmount: amountInBase.toString(),
-      currencyBAmount: amountOutBase.toString(),
-      slippage: slippageBps / 100,
-      poolRoute: routePath ?? [],
-      recipient: account.accountAddress.toString(),
-    });
+  const journal = submitSpot || submitPerp
+    ? openJournalRun('close_long_spot_short_perp', {
+      hyperionNetwork,
+      perpNetwork: clients.perpNetwork,
+      perp: { venue: clients.perp.name, config: clients.perp.describe() },
+      spotVenues: clients.spot.venues.map((venue) => venue.name),
+      perpPair,
+      aptFa: spotFromFa,
+      usdcFa: spotToFa,
+      slippageBps,
+      positionId: position?.id,
+      fraction,
+      aptToSell: amountInBase.toString(),
+    })
+    : undefined;
+  const plan = createCompensationPlan({ journal });
+
+  return withCompensation(plan, async (): Promise<CloseLongSpotShortPerpResult> => {
+    let spotExecution: SpotExecution | null = null;
+    let spotHash: string | undefined;
+    let supplyWithdrawal: SpotExecution['supplyWithdrawal'];
+
+    if (submitSpot && routedQuote && amountInBase > 0n) {
+      if (supplyVenue && supplyWithdraw > 0n) {
+        const venue = supplyVenue;
+        const amount = supplyWithdraw;
+        const hash = await plan.run('supply_withdraw', () => venue.withdrawCollateral(amount), {
+          transactionHash: (withdrawHash) => withdrawHash,
+          detail: () => ({ venue: venue.name, supplyWithdrawn: amount.toString() }),
+        });
+        supplyWithdrawal = { venue: venue.name, amount: amount.toString(), transactionHash: hash };
+      }
+
+      const swapQuote = routedQuote;
+      const payload = await spot.buildSwapPayload({
+        quote: swapQuote,
+        slippageBps,
+        recipient: account.accountAddress.toString(),
+      });
+
+      spotHash = await plan.run(
+        'spot_close',
+        () => submitPayload(aptos, account, payload),
+        {
+          transactionHash: (hash) => hash,
+          detail: () => ({
+            venue: swapQuote.venue,
+            aptSold: amountInBase.toString(),
+            usdcQuoted: amountOutBase.toString(),
+          }),
+        },
+      );
+
+      spotExecution = {
+        action: 'apt_swapped_for_usdc',
+        spotQuote: spotQuote,
+        slippageBps: slippageBps,
+        supplyWithdrawal
+      };
+    } else if (amountInBase > 0n) {
+      return {
+        action: 'dry_run',
+        message: 'Spot leg dry run (pass --submit-spot true to execute swap).',
+        spotQuote: spotQuote
+      };
+    }
 
-    await submitAptosTransaction({ aptos, account, payload, label: 'Hyperion APT->USDC swap' });
+    // Close short perp position
+    const existing = await findPerpPosition(perp, perpPair);
 
-    spotExecution = {
-      action: 'apt_swapped_for_usdc',
-      hyperionQuote: hyperionQuote,
-      slippageBps: slippageBps
-    };
-  } else if (amountInBase > 0n) {
-    const dryRunResult = {
-      action: 'dry_run',
-      message: 'Spot leg dry run (pass --submit-spot true to execute swap).',
-      hyperionQuote: hyperionQuote
-    };
-    console.log(JSON.stringify(dryRunResult, null, 2));
-    return;
-  }
+    if (!existing || existing.size === 0n) {
+      return {
+        action: 'abort',
+        reason: 'no_open_position',
+        pair: perpPair,
+        message: `No open ${perp.name} position found for ${perpPair}.`
+      };
+    }
 
-  // Close short perp position
-  const positions = await merkle.getPositions({ address: account.accountAddress });
-  const existing = positions.find((pos) => normalizePair(pos.pairType) === perpPair);
+    if (existing.isLong) {
+      return {
+        action: 'abort',
+        reason: 'wrong_position_direction',
+        pair: perpPair,
+        isLong: existing.isLong,
+        message: `Existing ${perpPair} position is not short; skipping close.`
+      };
+    }
 
-  if (!existing || existing.size === 0n) {
-    const noPositionResult = {
-      action: 'abort',
-      reason: 'no_open_position',
-      pair: perpPair,
-      message: `No open Merkle position found for ${perpPair}.`
-    };
-    console.log(JSON.stringify(noPositionResult, null, 2));
-    return;
-  }
+    // Close only this hedge's share of the venue position. Closing all of it lets
+    // the venue release all collateral; anything less withdraws the hedge's share.
+    const hedge = hedgePerpShare(position, existing);
+    const sizeDelta = fraction >= 1 ? hedge.size : scaleBase(hedge.size, fraction);
+    const collateralDelta = fraction >= 1 && hedge.whole ? 0n : scaleBase(hedge.collateral, fraction);
 
-  if (existing.isLong) {
-    const wrongDirectionResult = {
-      action: 'abort',
-      reason: 'wrong_position_direction',
+    const perpPosition: PerpPosition = {
       pair: perpPair,
-      isLong: existing.isLong,
-      message: `Existing ${perpPair} position is not short; skipping close.`
+      openSize: existing.size.toString(),
+      collateral: existing.collateral.toString(),
+      direction: existing.isLong ? 'LONG' : 'SHORT'
     };
-    console.log(JSON.stringify(wrongDirectionResult, null, 2));
-    return;
-  }
-
-  const perpPosition = {
-    pair: perpPair,
-    openSize: existing.size.toString(),
-    collateral: existing.collateral.toString(),
-    direction: existing.isLong ? 'LONG' : 'SHORT'
-  };
 
-  if (!submitPerp) {
-    const dryRunResult = {
-      action: 'dry_run',
-      message: 'Perp close skipped (--submit-perp false was explicitly passed).',
-      perpPosition: perpPosition
-    };
-    console.log(JSON.stringify(dryRunResult, null, 2));
-    return;
-  }
-
-  const payload = await merkle.payloads.placeMarketOrder({
-    pair: perpPair,
-    userAddress: account.accountAddress,
-    sizeDelta: existing.size,
-    collateralDelta: 0n,
-    isLong: false,
-    isIncrease: false,
-  });
-
-  const rawTxn = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: payload,
-  });
+    if (!submitPerp) {
+      return {
+        action: 'dry_run',
+        message: 'Perp close skipped (--submit-perp false was explicitly passed).',
+        perpPosition: perpPosition
+      };
+    }
 
-  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
-  const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
+    const perpOrder = await plan.run('perp_close', () => perp.placeMarketOrder({
+      pair: perpPair,
+      sizeDelta,
+      collateralDelta,
+      isLong: false,
+      isIncrease: false,
+    }), {
+      transactionHash: (order) => order.transactionHash,
+      detail: () => ({ sizeClosed: sizeDelta.toString() }),
+    });
 
-  const perpClose = {
-    action: 'short_perp_position_closed',
-    transactionHash: pending.hash,
-    version: committed.version,
-    pair: perpPair,
-    sizeClosed: existing.size.toString(),
-    direction: 'SHORT'
-  };
+    if (position) {
+      reducePosition(position.id, fraction, {
+        spot: spotHash,
+        perp: perpOrder.transactionHash,
+        supply: supplyWithdrawal?.transactionHash,
+      });
+    }
 
-  const executionResult = {
-    action: 'arbitrage_closed',
-    strategy: 'close_long_spot_short_perp',
-    hyperionQuote: hyperionQuote,
-    spotExecution: spotExecution,
-    perpPosition: perpPosition,
-    perpClose: perpClose
-  };
+    return {
+      action: 'arbitrage_closed',
+      strategy: 'close_long_spot_short_perp',
+      spotQuote: spotQuote,
+      spotExecution: spotExecution,
+      perpPosition: perpPosition,
+      perpClose: {
+        action: 'short_perp_position_closed',
+        transactionHash: perpOrder.transactionHash,
+        version: perpOrder.version,
+        pair: perpPair,
+        sizeClosed: sizeDelta.toString(),
+        direction: 'SHORT'
+      },
+      fraction,
+      journalId: journal?.id,
+      positionId: position?.id
+    };
+  }, 'arbitrage_closed');
+}
 
-  console.log(JSON.stringify(executionResult, null, 2));
+export async function main() {
+  const result = await runCloseLongSpotShortPerp(parseArgs(process.argv.slice(2)));
+  printResult(result);
+  return result;
 }
 
-main().catch((error) => {
-  console.error('Close long-spot-short-perp error:', error);
-  process.exitCode = 1;
-});
-
-async function submitAptosTransaction(args: {
-  aptos: Aptos;
-  account: Account;
-  payload: any;
-  label: string;
-}) {
-  const { aptos, account, payload, label } = args;
-  const rawTxn = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: payload,
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Close long-spot-short-perp error:', error);
+    process.exitCode = 1;
   });
-  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
-  const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-  // Transaction details stored for JSON output
 }
 
-function normalizePair(pairType: string): string {
-  const parts = pairType.split('::');
-  return parts[parts.length - 1] ?? pairType;
+/**
+ * APT to take back off the lending venue: `fraction` of the hedge's supplied
+ * principal, or on a full close its share of what the venue holds, accrued
+ * interest included (the principal when that cannot be read). Other open
+ * hedges supplying to the same venue keep their share.
+ */
+async function supplyWithdrawAmount(venue: LendingVenue, position: HedgePosition, fraction: number): Promise<bigint> {
+  const principal = BigInt(position.spotSupply?.amount ?? '0');
+  if (fraction < 1) return scaleBase(principal, fraction);
+  try {
+    const { deposited } = await venue.getCollateral();
+    return hedgeSupplyShare(position, deposited).amount;
+  } catch (error) {
+    console.warn(`Unable to read the ${venue.name} supply balance; withdrawing the principal.`, (error as Error).message);
+    return principal;
+  }
 }
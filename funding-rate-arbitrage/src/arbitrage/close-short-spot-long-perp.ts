@@ -1,19 +1,32 @@
 import 'dotenv/config';
-import WebSocket from 'ws';
 import {
   Account,
   Aptos,
-  Ed25519PrivateKey,
-  Network as AptosNetwork,
 } from '@aptos-labs/ts-sdk';
-import { initHyperionSDK } from '@hyperionxyz/sdk';
+import { planFullRepay, planFullRepayLive, type RepayPlan } from '../borrow/repay.js';
+import { createLendingVenue, type LendingVenue } from '../borrow/venue.js';
+import { findPerpPosition } from '../perp/venue.js';
+import { gasFeeOctas, getFaBalance } from '../spot/balances.js';
+import { type SpotCandidate } from '../spot/router.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import { createCompensationPlan, reverseSpotSwap, submitPayload, withCompensation } from './compensation.js';
+import { openJournalRun } from './journal.js';
 import {
-  MerkleClient,
-  MerkleClientConfig,
-} from '@merkletrade/ts-sdk';
-import { borrowWithAries } from '../borrow/aries.js';
+  findOpenPosition,
+  hedgeLoanShare,
+  hedgePerpShare,
+  reducePosition,
+  scaleBase,
+} from './position-book.js';
+import {
+  printResult,
+  type ArbitrageAbortResult,
+  type ArbitrageClosedResult,
+  type ArbitrageDryRunResult,
+} from './types.js';
 
-type Args = {
+export type CloseShortSpotLongPerpParams = {
   spotFromFa?: string;
   spotToFa?: string;
   spotOut?: string;
@@ -25,6 +38,10 @@ type Args = {
   submitSpot?: boolean;
   submitPerp?: boolean;
   perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
   ariesCoreAddress?: string;
   ariesModuleName?: string;
   ariesWithdrawModuleName?: string;
@@ -32,8 +49,133 @@ type Args = {
   ariesBorrowType?: string;
   ariesBorrowKind?: string;
   ariesWaitForSuccess?: string;
+  /** Lender the loan is repaid to: a registered venue name (default LENDING_VENUE, else Aries) or a built venue. */
+  lendingVenue?: string | LendingVenue;
+  /** Withdraw the collateral the repay freed back to the wallet once the hedge is closed. */
+  ariesWithdrawCollateral?: boolean;
+  /** Collateral to leave deposited, in human units (USDC); defaults to 0. */
+  ariesCollateralResidual?: string;
+  /** Aries collateral reserve (as held on Aries); defaults to WrappedUSDC. */
+  ariesCollateralType?: string;
+  /** 'fa' (default) unwraps the withdrawal to native USDC; 'coin' keeps WrappedUSDC. */
+  ariesCollateralKind?: string;
+  /** Health factor a partially closed loan must keep after the withdrawal. */
+  ariesTargetHealth?: string;
+  /** Borrow APR used to project interest before a full repay; read from Aries when omitted. */
+  borrowAprPct?: number;
+  /** Expected seconds from reading the loan to the repay landing; defaults to 120. */
+  repayLeadSec?: number;
+  /** Extra APT bought for a full repay, in bps of the projected debt; defaults to 20. */
+  repayBufferBps?: number;
+  /** Sell the APT a full repay left over back to USDC; defaults to true. */
+  sellLeftoverApt?: boolean;
+  /** Position book entry to close; defaults to the latest open short-spot hedge. */
+  positionId?: string;
+  /** Share of the hedge to close, in (0, 1]; defaults to 1. */
+  fraction?: number;
+  /** Perp notional to close in USDC; converted to a fraction of the hedge's perp size. */
+  size?: string;
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+};
+
+type SpotLegQuote = {
+  /** Spot venue the router picked. */
+  venue: string;
+  network: string;
+  outputToken: string;
+  outputAmount: string;
+  inputToken: string;
+  amountIn: string;
+  amountOut: string;
+  routePath: unknown[] | undefined;
+  candidates: SpotCandidate[];
+};
+
+type LoanStatus = {
+  hasOutstandingLoan: boolean;
+  outstandingLoan: string;
+  /** Share of `outstandingLoan` this hedge borrowed, interest included. */
+  hedgeLoan: string;
+  message: string;
+};
+
+type SpotLegStatus = {
+  required: boolean;
+  spotOutBase: string;
+  message: string;
+};
+
+type SpotExecution = {
+  action: 'usdc_swapped_for_apt';
+  spotQuote: SpotLegQuote | null;
+  slippageBps: number;
 };
 
+type RepayResult =
+  | { action: 'loan_already_cleared'; message: string }
+  | {
+    action: 'apt_loan_repaid';
+    repayAmount: string;
+    transactionHash?: string;
+    /** Set on a full close: a second repay of debt that accrued past the first. */
+    followUpTransactionHash?: string;
+    /** Debt left on the profile after closing the whole loan, base units; '0' once cleared. */
+    remainingDebt: string;
+  };
+
+type LeftoverSale =
+  | { action: 'leftover_apt_sold'; amount: string; transactionHash?: string }
+  | { action: 'leftover_apt_kept'; amount: string; message: string };
+
+type CollateralWithdrawal =
+  | {
+    action: 'collateral_withdrawn';
+    amount: string;
+    residual: string;
+    collateralType: string;
+    transactionHash?: string;
+  }
+  | { action: 'collateral_kept'; deposited: string; keep: string; message: string }
+  | { action: 'collateral_withdraw_failed'; message: string };
+
+type PerpPosition = {
+  pair: string;
+  openSize: string;
+  collateral: string;
+  direction: 'LONG' | 'SHORT';
+};
+
+export type CloseShortSpotLongPerpResult =
+  | ArbitrageDryRunResult<{
+    spotQuote?: SpotLegQuote | null;
+    perpPosition?: PerpPosition;
+  }>
+  | ArbitrageAbortResult
+  | ArbitrageClosedResult<{
+    loanStatus: LoanStatus;
+    spotLegStatus: SpotLegStatus;
+    spotQuote: SpotLegQuote | null;
+    spotExecution: SpotExecution | null;
+    lendingVenue: string;
+    repayPlan: RepayPlan | null;
+    repayResult: RepayResult | null;
+    leftoverSale: LeftoverSale | null;
+    perpPosition: PerpPosition;
+    perpClose: {
+      action: 'long_perp_position_closed';
+      transactionHash: string;
+      version?: string;
+      pair: string;
+      sizeClosed: string;
+      direction: 'LONG';
+    };
+    collateralWithdrawal: CollateralWithdrawal | null;
+    fraction: number;
+    journalId?: string;
+    positionId?: string;
+  }>;
+
 const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>> = {
   mainnet: {
     apt: '0xa',
@@ -47,10 +189,9 @@ const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>>
 
 const APT_DECIMALS = 8;
 const USDC_DECIMALS = 6;
-const APT_TYPE_TAG = '0x1::aptos_coin::AptosCoin';
 
-function parseArgs(argv: string[]): Args {
-  const result: Args = {};
+function parseArgs(argv: string[]): CloseShortSpotLongPerpParams {
+  const result: CloseShortSpotLongPerpParams = {};
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
     if (!arg.startsWith('--')) continue;
@@ -101,6 +242,14 @@ function parseArgs(argv: string[]): Args {
         result.perpNetwork = next;
         i += 1;
         break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
       case 'aries-core-address':
         result.ariesCoreAddress = next;
         i += 1;
@@ -129,6 +278,58 @@ function parseArgs(argv: string[]): Args {
         result.ariesWaitForSuccess = next;
         i += 1;
         break;
+      case 'lending-venue':
+        result.lendingVenue = next;
+        i += 1;
+        break;
+      case 'aries-withdraw-collateral':
+        result.ariesWithdrawCollateral = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'aries-collateral-residual':
+        result.ariesCollateralResidual = next;
+        i += 1;
+        break;
+      case 'aries-collateral-type':
+        result.ariesCollateralType = next;
+        i += 1;
+        break;
+      case 'aries-collateral-kind':
+        result.ariesCollateralKind = next;
+        i += 1;
+        break;
+      case 'aries-target-health':
+        result.ariesTargetHealth = next;
+        i += 1;
+        break;
+      case 'borrow-apr-pct':
+        result.borrowAprPct = Number(next);
+        i += 1;
+        break;
+      case 'repay-lead-sec':
+        result.repayLeadSec = Number(next);
+        i += 1;
+        break;
+      case 'repay-buffer-bps':
+        result.repayBufferBps = Number(next);
+        i += 1;
+        break;
+      case 'sell-leftover-apt':
+        result.sellLeftoverApt = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'position-id':
+        result.positionId = next;
+        i += 1;
+        break;
+      case 'fraction':
+        result.fraction = Number(next);
+        i += 1;
+        break;
+      case 'size':
+        result.size = next;
+        i += 1;
+        break;
       default:
         break;
     }
@@ -142,15 +343,22 @@ function normalizeFa(address?: string): string {
   return match ? `0x${match[1].toLowerCase()}` : address;
 }
 
-function ensureWebSocketGlobal() {
-  const globalRef = globalThis as { WebSocket?: typeof WebSocket };
-  if (!globalRef.WebSocket) {
-    globalRef.WebSocket = WebSocket as unknown as typeof WebSocket;
-  }
-}
-
-export async function main() {
-  const args = parseArgs(process.argv.slice(2));
+/**
+ * Buys back the borrowed APT on the best-quoting spot venue, repays the Aries loan and closes the
+ * perp long. The pair defaults to the open position in the position book.
+ * `fraction`/`size` close only part of the hedge: the buy-back, the repayment
+ * and the perp size and collateral shrink in proportion. The loan and perp
+ * position are shared by every open hedge, so only this hedge's share of each
+ * is closed.
+ *
+ * A full close buys the loan plus the interest projected to accrue until the
+ * repay lands plus a buffer, repays all of it (repay_only keeps the excess in
+ * the wallet), confirms the debt reads zero and sells the leftover APT.
+ */
+export async function runCloseShortSpotLongPerp(
+  params: CloseShortSpotLongPerpParams = {},
+): Promise<CloseShortSpotLongPerpResult> {
+  const args = params;
 
   const hyperionNetwork = (args.hyperionNetwork ?? 'mainnet').toLowerCase();
   if (hyperionNetwork !== 'mainnet' && hyperionNetwork !== 'testnet') {
@@ -162,362 +370,485 @@ export async function main() {
   const spotOutDecimals = args.spotOutDecimals ?? APT_DECIMALS;
   const slippageBps = args.slippageBps ?? 50;
   const safeMode = args.safeMode ?? false;
-  const perpPair = args.perpPair ?? 'BTC_USD';
+  const position = findOpenPosition({
+    direction: 'short_spot_long_perp',
+    perpPair: args.perpPair,
+    id: args.positionId,
+  });
+  if (args.positionId && !position) {
+    return {
+      action: 'abort',
+      reason: 'position_not_found',
+      positionId: args.positionId,
+      message: `No open position ${args.positionId} in the position book.`
+    };
+  }
+  const perpPair = args.perpPair ?? position?.perpPair ?? 'APT_USD';
   const submitSpot = args.submitSpot ?? true; // Default to true for close operations
   const submitPerp = args.submitPerp ?? true; // Default to true for close operations
-  const perpNetwork = (args.perpNetwork ?? 'mainnet').toLowerCase();
-
-  const sdk = initHyperionSDK({
-    network:
-      hyperionNetwork === 'testnet'
-        ? AptosNetwork.TESTNET
-        : AptosNetwork.MAINNET,
-    APTOS_API_KEY: process.env.APTOS_API_KEY ?? '',
-  });
 
-  ensureWebSocketGlobal();
-
-  const privateKeyHex = process.env.PRIVATE_KEY?.trim();
-  if (!privateKeyHex) {
-    throw new Error('Missing PRIVATE_KEY in environment.');
+  const clients = args.clients ?? await createArbitrageClients({
+    hyperionNetwork,
+    perpNetwork: args.perpNetwork,
+    perpVenue: args.perpVenue,
+    spotVenues: args.spotVenues,
+  });
+  const { account, aptos, perp, spot } = clients;
+  const venue = lendingVenueFor(args, clients);
+
+
+  let fraction = args.fraction ?? 1;
+  if (args.size !== undefined) {
+    const open = await findPerpPosition(perp, perpPair);
+    if (!open || open.size === 0n) {
+      return {
+        action: 'abort',
+        reason: 'no_open_position',
+        pair: perpPair,
+        message: `No open ${perp.name} position found for ${perpPair}.`
+      };
+    }
+    const sizeBase = Math.round(Number(args.size) * 10 ** USDC_DECIMALS);
+    // Another hedge on the same pair shares the venue position; size against this one.
+    fraction = Math.min(1, sizeBase / Number(hedgePerpShare(position, open).size));
   }
-  const privateKey = new Ed25519PrivateKey(privateKeyHex);
-  const account = Account.fromPrivateKey({ privateKey });
-
-  let merkleConfig;
-  if (perpNetwork === 'mainnet') {
-    merkleConfig = await MerkleClientConfig.mainnet();
-  } else if (perpNetwork === 'testnet') {
-    merkleConfig = await MerkleClientConfig.testnet();
-  } else {
-    throw new Error(`Unsupported perp network '${perpNetwork}'. Use 'mainnet' or 'testnet'.`);
+  if (!(fraction > 0 && fraction <= 1)) {
+    throw new Error(`Close fraction must be in (0, 1]; got ${fraction}.`);
   }
-  const merkle = new MerkleClient(merkleConfig);
-  const aptos = new Aptos(merkleConfig.aptosConfig);
 
-  const outstandingLoan = await fetchOutstandingLoan({ aptos, account, args });
+  // A failed read must not pass for a cleared loan, so it fails the close.
+  const outstandingLoan = await venue.getLoan();
+  // Other open hedges may borrow on the same profile; repay only this one's share.
+  const hedgeLoan = hedgeLoanShare(position, outstandingLoan);
 
-  const loanStatus = {
+  const loanStatus: LoanStatus = {
     hasOutstandingLoan: outstandingLoan > 0n,
     outstandingLoan: outstandingLoan.toString(),
-    message: outstandingLoan === 0n ? 'No outstanding Aries APT loan detected.' : `Outstanding APT loan (base units): ${outstandingLoan.toString()}`
+    hedgeLoan: hedgeLoan.amount.toString(),
+    message: outstandingLoan === 0n
+      ? `No outstanding ${venue.name} loan detected.`
+      : `Outstanding ${venue.name} loan (base units): ${outstandingLoan.toString()}, this hedge: ${hedgeLoan.amount.toString()}`
   };
 
+  const fullClose = fraction >= 1;
+  // Only a close of the whole loan checks the debt reaches zero and may overpay it.
+  const clearsLoan = fullClose && hedgeLoan.whole;
+  const loanToClose = fullClose ? hedgeLoan.amount : scaleBase(hedgeLoan.amount, fraction);
+  const repayPlan = fullClose && hedgeLoan.amount > 0n
+    ? await planFullRepayLive({
+      venue,
+      loan: hedgeLoan.amount,
+      borrowAprPct: args.borrowAprPct,
+      leadSec: args.repayLeadSec,
+      bufferBps: args.repayBufferBps,
+    })
+    : null;
   const spotOutBase = args.spotOut
     ? toBaseUnits(args.spotOut, spotOutDecimals, 'spot-out')
-    : outstandingLoan;
+    : repayPlan ? BigInt(repayPlan.repayAmount) : loanToClose;
 
-  const spotLegStatus = {
+  const spotLegStatus: SpotLegStatus = {
     required: spotOutBase > 0n,
     spotOutBase: spotOutBase.toString(),
     message: spotOutBase === 0n ? 'No buy-back required; skipping spot leg.' : `Buy-back required: ${spotOutBase.toString()} APT`
   };
 
-  const quote = spotOutBase === 0n
+  const routing = spotOutBase === 0n
     ? null
-    : await sdk.Swap.estToAmount({
+    : await spot.quote({
       from: spotFromFa,
       to: spotToFa,
-      amount: spotOutBase.toString(),
+      amount: spotOutBase,
+      estimate: 'to',
       safeMode,
     });
+  const quote = routing?.quote ?? null;
 
   let amountInBase = 0n;
   let amountOutBase = 0n;
-  let routePath: any[] | undefined;
 
-  let hyperionQuote = null;
+  let spotQuote: SpotLegQuote | null = null;
 
-  if (quote) {
-    const bestRoute = (quote as any)?.bestRoute ?? quote;
-    if (!bestRoute?.path || bestRoute.path.length === 0) {
-      const errorResult = {
-        error: 'Hyperion returned no route',
-        rawResponse: quote
+  if (routing) {
+    if (!quote) {
+      return {
+        action: 'abort',
+        reason: 'spot_no_route',
+        message: 'No spot venue returned a route for USDC -> APT swap',
+        rawResponse: routing.candidates
       };
-      console.log(JSON.stringify(errorResult, null, 2));
-      return;
     }
-    amountInBase = BigInt(bestRoute.amountIn ?? 0);
-    amountOutBase = BigInt(bestRoute.amountOut ?? 0);
-    routePath = bestRoute.path;
+    amountInBase = quote.amountIn;
+    amountOutBase = quote.amountOut;
 
-    hyperionQuote = {
+    spotQuote = {
+      venue: quote.venue,
       network: hyperionNetwork,
       outputToken: spotToFa,
       outputAmount: args.spotOut ?? formatBaseAmount(spotOutBase, spotOutDecimals),
       inputToken: spotFromFa,
-      amountIn: bestRoute.amountIn,
-      amountOut: bestRoute.amountOut,
-      routePath: routePath
+      amountIn: quote.amountIn.toString(),
+      amountOut: quote.amountOut.toString(),
+      routePath: quote.path,
+      candidates: routing.candidates,
     };
   }
 
-  let spotExecution = null;
-
-  if (submitSpot && quote) {
-    const payload = await sdk.Swap.swapTransactionPayload({
-      currencyA: spotFromFa,
-      currencyB: spotToFa,
-      currencyAAmount: amountInBase.toString(),
-      currencyBAmount: amountOutBase.toString(),
-      slippage: slippageBps / 100,
-      poolRoute: routePath ?? [],
-      recipient: account.accountAddress.toString(),
-    });
+  const journal = submitSpot || submitPerp
+    ? openJournalRun('close_short_spot_long_perp', {
+      hyperionNetwork,
+      perpNetwork: clients.perpNetwork,
+      perp: { venue: clients.perp.name, config: clients.perp.describe() },
+      spotVenues: clients.spot.venues.map((venue) => venue.name),
+      perpPair,
+      usdcFa: spotFromFa,
+      aptFa: spotToFa,
+      slippageBps,
+      outstandingLoan: outstandingLoan.toString(),
+      lendingVenue: venue.name,
+      positionId: position?.id,
+      fraction,
+      repayAmount: repayPlan?.repayAmount,
+    })
+    : undefined;
+  const plan = createCompensationPlan({ journal });
+
+  return withCompensation(plan, async (): Promise<CloseShortSpotLongPerpResult> => {
+    let spotExecution: SpotExecution | null = null;
+    let spotHash: string | undefined;
+    const owner = account.accountAddress.toString();
+    // Leftover APT is measured against the wallet balance before the buy-back.
+    const aptBefore = fullClose && submitSpot && quote ? await getFaBalance(aptos, owner, spotToFa) : undefined;
+
+    if (submitSpot && quote) {
+      const payload = await spot.buildSwapPayload({
+        quote,
+        slippageBps,
+        recipient: account.accountAddress.toString(),
+      });
 
-    await submitAptosTransaction({ aptos, account, payload, label: 'Hyperion USDC->APT swap' });
+      spotHash = await plan.run(
+        'spot_close',
+        () => submitPayload(aptos, account, payload),
+        {
+          transactionHash: (hash) => hash,
+          detail: () => ({
+            venue: quote.venue,
+            aptBought: amountOutBase.toString(),
+            usdcQuoted: amountInBase.toString(),
+          }),
+        },
+      );
+
+      spotExecution = {
+        action: 'usdc_swapped_for_apt',
+        spotQuote: spotQuote,
+        slippageBps: slippageBps
+      };
+    } else if (quote) {
+      return {
+        action: 'dry_run',
+        message: 'Spot leg dry run (pass --submit-spot true to execute swap + repay).',
+        spotQuote: spotQuote
+      };
+    }
 
-    spotExecution = {
-      action: 'usdc_swapped_for_apt',
-      hyperionQuote: hyperionQuote,
-      slippageBps: slippageBps
-    };
-  } else if (quote) {
-    const dryRunResult = {
-      action: 'dry_run',
-      message: 'Spot leg dry run (pass --submit-spot true to execute swap + repay).',
-      hyperionQuote: hyperionQuote
-    };
-    console.log(JSON.stringify(dryRunResult, null, 2));
-    return;
-  }
+    let repayResult: RepayResult | null = null;
+    let leftoverSale: LeftoverSale | null = null;
+
+    if (submitSpot) {
+      const updatedLoan = await venue.getLoan();
+      if (updatedLoan === 0n) {
+        repayResult = {
+          action: 'loan_already_cleared',
+          message: 'Outstanding loan already cleared; skipping repay.'
+        };
+      } else {
+        const repayAll = clearsLoan && venue.repayCapsAtDebt;
+        const bought = spotHash ? spotOutBase : 0n;
+        // Interest accrued since the first read stays with the remaining loan on a partial close.
+        const hedgeDebt = fullClose ? hedgeLoanShare(position, updatedLoan).amount : loanToClose;
+        const repayAmount = repayAll && bought > updatedLoan
+          ? bought
+          : updatedLoan < hedgeDebt ? updatedLoan : hedgeDebt;
+        const repay = (amount: bigint) => plan.run('loan_repay', () => repayLoan(venue, amount), {
+          transactionHash: (hash) => hash,
+          detail: () => ({ repayAmount: amount.toString() }),
+        });
+        const repayTxHash = await repay(repayAmount);
+
+        let followUpTxHash: string | undefined;
+        let remainingDebt = clearsLoan ? await venue.getLoan() : 0n;
+        if (remainingDebt > 0n) {
+          // Interest outran the buffer: repay what is left once more out of the wallet.
+          const followUp = repayAll
+            ? BigInt(planFullRepay({
+              loan: remainingDebt,
+              borrowAprPct: repayPlan?.borrowAprPct ?? 0,
+              leadSec: repayPlan?.leadSec,
+              bufferBps: repayPlan?.bufferBps,
+            }).repayAmount)
+            : remainingDebt;
+          const wallet = await getFaBalance(aptos, owner, spotToFa);
+          if (wallet >= remainingDebt) {
+            followUpTxHash = await repay(followUp < wallet ? followUp : wallet);
+            remainingDebt = await venue.getLoan();
+          }
+        }
+
+        repayResult = {
+          action: 'apt_loan_repaid',
+          repayAmount: repayAmount.toString(),
+          transactionHash: repayTxHash,
+          followUpTransactionHash: followUpTxHash,
+          remainingDebt: remainingDebt.toString(),
+        };
+
+        if (aptBefore !== undefined) {
+          leftoverSale = remainingDebt > 0n
+            ? { action: 'leftover_apt_kept', amount: '0', message: 'Debt is not yet zero; keeping the APT to repay it.' }
+            : await sellLeftoverApt({
+              aptos,
+              account,
+              spot,
+              aptFa: spotToFa,
+              usdcFa: spotFromFa,
+              aptBefore,
+              transactionHashes: [spotHash, repayTxHash, followUpTxHash],
+              slippageBps,
+              sell: args.sellLeftoverApt ?? true,
+            });
+        }
+      }
+    }
 
-  let repayResult = null;
+    const existing = await findPerpPosition(perp, perpPair);
 
-  if (submitSpot) {
-    const updatedLoan = await fetchOutstandingLoan({ aptos, account, args });
-    if (updatedLoan === 0n) {
-      repayResult = {
-        action: 'loan_already_cleared',
-        message: 'Outstanding loan already cleared; skipping repay.'
+    if (!existing || existing.size === 0n) {
+      return {
+        action: 'abort',
+        reason: 'no_open_position',
+        pair: perpPair,
+        message: `No open ${perp.name} position found for ${perpPair}.`
       };
-    } else {
-      await repayAriesLoan({
-        aptos,
-        account,
-        args,
-        repayAmount: updatedLoan,
-      });
+    }
 
-      repayResult = {
-        action: 'apt_loan_repaid',
-        repayAmount: updatedLoan.toString()
+    if (!existing.isLong) {
+      return {
+        action: 'abort',
+        reason: 'wrong_position_direction',
+        pair: perpPair,
+        isLong: existing.isLong,
+        message: `Existing ${perpPair} position is not long; skipping close.`
       };
     }
-  }
 
-  const positions = await merkle.getPositions({ address: account.accountAddress });
-  const existing = positions.find((pos) => normalizePair(pos.pairType) === perpPair);
+    // Close only this hedge's share of the venue position. Closing all of it lets
+    // the venue release all collateral; anything less withdraws the hedge's share.
+    const hedge = hedgePerpShare(position, existing);
+    const sizeDelta = fraction >= 1 ? hedge.size : scaleBase(hedge.size, fraction);
+    const collateralDelta = fraction >= 1 && hedge.whole ? 0n : scaleBase(hedge.collateral, fraction);
 
-  if (!existing || existing.size === 0n) {
-    const noPositionResult = {
-      action: 'abort',
-      reason: 'no_open_position',
+    const perpPosition: PerpPosition = {
       pair: perpPair,
-      message: `No open Merkle position found for ${perpPair}.`
+      openSize: existing.size.toString(),
+      collateral: existing.collateral.toString(),
+      direction: existing.isLong ? 'LONG' : 'SHORT'
     };
-    console.log(JSON.stringify(noPositionResult, null, 2));
-    return;
-  }
 
-  if (!existing.isLong) {
-    const wrongDirectionResult = {
-      action: 'abort',
-      reason: 'wrong_position_direction',
+    if (!submitPerp) {
+      return {
+        action: 'dry_run',
+        message: 'Perp close skipped (--submit-perp false was explicitly passed).',
+        perpPosition: perpPosition
+      };
+    }
+
+    const perpOrder = await plan.run('perp_close', () => perp.placeMarketOrder({
       pair: perpPair,
-      isLong: existing.isLong,
-      message: `Existing ${perpPair} position is not long; skipping close.`
-    };
-    console.log(JSON.stringify(wrongDirectionResult, null, 2));
-    return;
-  }
+      sizeDelta,
+      collateralDelta,
+      isLong: true,
+      isIncrease: false,
+    }), {
+      transactionHash: (order) => order.transactionHash,
+      detail: () => ({ sizeClosed: sizeDelta.toString() }),
+    });
 
-  const perpPosition = {
-    pair: perpPair,
-    openSize: existing.size.toString(),
-    collateral: existing.collateral.toString(),
-    direction: existing.isLong ? 'LONG' : 'SHORT'
-  };
+    if (position) {
+      reducePosition(position.id, fraction, {
+        spot: spotHash,
+        repay: repayResult?.action === 'apt_loan_repaid' ? repayResult.transactionHash : undefined,
+        perp: perpOrder.transactionHash,
+      });
+    }
+
+    // The hedge is closed at this point, so a failed withdrawal is reported rather than unwound.
+    let collateralWithdrawal: CollateralWithdrawal | null = null;
+    if (args.ariesWithdrawCollateral) {
+      try {
+        collateralWithdrawal = await withdrawFreedCollateral(venue, args);
+      } catch (error) {
+        collateralWithdrawal = {
+          action: 'collateral_withdraw_failed',
+          message: (error as Error)?.message ?? String(error),
+        };
+      }
+    }
 
-  if (!submitPerp) {
-    const dryRunResult = {
-      action: 'dry_run',
-      message: 'Perp close skipped (--submit-perp false was explicitly passed).',
-      perpPosition: perpPosition
+    return {
+      action: 'arbitrage_closed',
+      strategy: 'close_short_spot_long_perp',
+      loanStatus: loanStatus,
+      spotLegStatus: spotLegStatus,
+      spotQuote: spotQuote,
+      spotExecution: spotExecution,
+      lendingVenue: venue.name,
+      repayPlan,
+      repayResult: repayResult,
+      leftoverSale,
+      perpPosition: perpPosition,
+      perpClose: {
+        action: 'long_perp_position_closed',
+        transactionHash: perpOrder.transactionHash,
+        version: perpOrder.version,
+        pair: perpPair,
+        sizeClosed: sizeDelta.toString(),
+        direction: 'LONG'
+      },
+      collateralWithdrawal,
+      fraction,
+      journalId: journal?.id,
+      positionId: position?.id
     };
-    console.log(JSON.stringify(dryRunResult, null, 2));
-    return;
-  }
+  }, 'arbitrage_closed');
+}
 
-  const payload = await merkle.payloads.placeMarketOrder({
-    pair: perpPair,
-    userAddress: account.accountAddress,
-    sizeDelta: existing.size,
-    collateralDelta: 0n,
-    isLong: true,
-    isIncrease: false,
-  });
+export async function main() {
+  const result = await runCloseShortSpotLongPerp(parseArgs(process.argv.slice(2)));
+  printResult(result);
+  return result;
+}
 
-  const rawTxn = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: payload,
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Close short-spot-long-perp error:', error);
+    process.exitCode = 1;
   });
-
-  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
-  const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-
-  const perpClose = {
-    action: 'long_perp_position_closed',
-    transactionHash: pending.hash,
-    version: committed.version,
-    pair: perpPair,
-    sizeClosed: existing.size.toString(),
-    direction: 'LONG'
-  };
-
-  const executionResult = {
-    action: 'arbitrage_closed',
-    strategy: 'close_short_spot_long_perp',
-    loanStatus: loanStatus,
-    spotLegStatus: spotLegStatus,
-    hyperionQuote: hyperionQuote,
-    spotExecution: spotExecution,
-    repayResult: repayResult,
-    perpPosition: perpPosition,
-    perpClose: perpClose
-  };
-
-  console.log(JSON.stringify(executionResult, null, 2));
 }
 
-main().catch((error) => {
-  console.error('Close short-spot-long-perp error:', error);
-  process.exitCode = 1;
-});
+function lendingVenueFor(args: CloseShortSpotLongPerpParams, clients: ArbitrageClients): LendingVenue {
+  if (args.lendingVenue && typeof args.lendingVenue !== 'string') {
+    return args.lendingVenue;
+  }
+  return createLendingVenue(args.lendingVenue, {
+    aptos: clients.aptos,
+    account: clients.account,
+    config: {
+      coreAddress: args.ariesCoreAddress,
+      moduleName: args.ariesModuleName,
+      withdrawModuleName: args.ariesWithdrawModuleName,
+      profileName: args.ariesProfile,
+      borrowType: args.ariesBorrowType,
+      borrowKind: args.ariesBorrowKind,
+      wrappedCollateralType: args.ariesCollateralType,
+      collateralKind: args.ariesCollateralKind,
+      waitForSuccess: args.ariesWaitForSuccess,
+      targetHealthFactor: args.ariesTargetHealth,
+    },
+  });
+}
 
-type LoanContext = {
-  aptos: Aptos;
-  account: Account;
-  args: Args;
-};
+async function repayLoan(venue: LendingVenue, repayAmount: bigint): Promise<string | undefined> {
+  if (repayAmount === 0n) {
+    // Repay amount is zero; skipping repay
+    return undefined;
+  }
+  return venue.repay(repayAmount);
+}
 
-type RepayContext = {
+/**
+ * Sells the APT bought for a full repay that the repay did not use. Gas paid
+ * in APT since `aptBefore` is added back, so only the surplus is sold, never
+ * APT the wallet held before the close.
+ */
+async function sellLeftoverApt(args: {
   aptos: Aptos;
   account: Account;
-  args: Args;
-  repayAmount: bigint;
-};
-
-async function fetchOutstandingLoan(context: LoanContext): Promise<bigint> {
-  const { aptos, account, args } = context;
-  const coreAddress = (args.ariesCoreAddress ?? process.env.ARIES_CORE_ADDRESS)?.toLowerCase();
-  if (!coreAddress) {
-    console.warn('ARIES_CORE_ADDRESS not set; assuming zero outstanding loan.');
-    return 0n;
+  spot: ArbitrageClients['spot'];
+  aptFa: string;
+  usdcFa: string;
+  aptBefore: bigint;
+  transactionHashes: (string | undefined)[];
+  slippageBps: number;
+  sell: boolean;
+}): Promise<LeftoverSale> {
+  const { aptos, account, aptBefore } = args;
+  const aptAfter = await getFaBalance(aptos, account.accountAddress.toString(), args.aptFa);
+  let gas = 0n;
+  for (const transactionHash of args.transactionHashes) {
+    if (transactionHash) gas += gasFeeOctas(await aptos.getTransactionByHash({ transactionHash }));
   }
-  const profile = args.ariesProfile ?? process.env.ARIES_PROFILE_NAME ?? 'main';
+  const surplus = aptAfter + gas - aptBefore;
+  const leftover = surplus <= 0n ? 0n : surplus < aptAfter ? surplus : aptAfter;
+  if (leftover === 0n || !args.sell) {
+    return {
+      action: 'leftover_apt_kept',
+      amount: leftover.toString(),
+      message: leftover === 0n ? 'No APT left over from the repay.' : 'Leftover APT kept (--sell-leftover-apt false).'
+    };
+  }
+
   try {
-    const result = await callAriesView({
+    const transactionHash = await reverseSpotSwap({
       aptos,
-      coreAddress,
-      module: 'profile',
-      functionName: 'profile_loan',
-      typeArguments: [args.ariesBorrowType ?? process.env.ARIES_BORROW_TYPE ?? APT_TYPE_TAG],
-      functionArguments: [account.accountAddress.toString(), profile],
+      account,
+      spot: args.spot,
+      fromFa: args.aptFa,
+      toFa: args.usdcFa,
+      amount: leftover,
+      slippageBps: args.slippageBps,
     });
-    const values = Array.isArray(result) ? result : [];
-    const mantissaRaw = values[1] ?? '0';
-    const mantissa = BigInt(mantissaRaw);
-    return mantissa / (10n ** 19n);
+    return { action: 'leftover_apt_sold', amount: leftover.toString(), transactionHash };
   } catch (error) {
-    console.warn('Unable to fetch Aries loan via view:', (error as Error).message);
-    return 0n;
+    // The loan is already repaid; a failed sale only leaves APT in the wallet.
+    return {
+      action: 'leftover_apt_kept',
+      amount: leftover.toString(),
+      message: `Selling leftover APT failed: ${(error as Error)?.message ?? String(error)}`
+    };
   }
 }
 
-async function repayAriesLoan(context: RepayContext) {
-  const { aptos, account, args, repayAmount } = context;
-  if (repayAmount === 0n) {
-    // Repay amount is zero; skipping Aries repay
-    return;
-  }
-
-  const coreAddress = args.ariesCoreAddress ?? process.env.ARIES_CORE_ADDRESS;
-  if (!coreAddress) {
-    throw new Error('Set ARIES_CORE_ADDRESS or pass --aries-core-address to repay.');
+/**
+ * Withdraws collateral down to the configured residual, or to what the
+ * remaining loan needs at the venue's target health after a partial close.
+ */
+async function withdrawFreedCollateral(
+  venue: LendingVenue,
+  args: CloseShortSpotLongPerpParams,
+): Promise<CollateralWithdrawal> {
+  const collateral = await venue.getCollateral();
+  const residual = toBaseUnits(args.ariesCollateralResidual ?? '0', USDC_DECIMALS, 'aries-collateral-residual');
+  const keep = residual > collateral.minimum ? residual : collateral.minimum;
+  if (collateral.deposited <= keep) {
+    return {
+      action: 'collateral_kept',
+      deposited: collateral.deposited.toString(),
+      keep: keep.toString(),
+      message: 'Nothing above the residual and the remaining loan\'s requirement to withdraw.'
+    };
   }
 
-  const moduleName = args.ariesModuleName ?? process.env.ARIES_MODULE_NAME ?? 'controller';
-  const withdrawModule = args.ariesWithdrawModuleName ?? process.env.ARIES_WITHDRAW_MODULE ?? moduleName;
-  const profileName = args.ariesProfile ?? process.env.ARIES_PROFILE_NAME ?? 'main';
-  const borrowType = args.ariesBorrowType ?? process.env.ARIES_BORROW_TYPE ?? APT_TYPE_TAG;
-  const borrowKind = inferKind(args.ariesBorrowKind ?? process.env.ARIES_BORROW_KIND, borrowType, 'coin');
-  const waitForSuccess = parseBool(args.ariesWaitForSuccess ?? process.env.ARIES_WAIT_FOR_SUCCESS) ?? true;
-
-  // Aries repay request details stored for JSON output
-
-  await borrowWithAries({
-    aptos,
-    account,
-    coreAddress,
-    moduleName,
-    withdrawModuleName: withdrawModule,
-    profileName,
-    collateralType: borrowType,
-    collateralAmount: '0',
-    borrowType,
-    borrowAmount: repayAmount.toString(),
-    collateralKind: borrowKind,
-    borrowKind,
-    skipRegistration: true,
-    skipDeposit: true,
-    repayOnly: true,
-    allowBorrow: false,
-    waitForSuccess,
-  });
-}
-
-async function submitAptosTransaction(args: {
-  aptos: Aptos;
-  account: Account;
-  payload: any;
-  label: string;
-}) {
-  const { aptos, account, payload, label } = args;
-  const rawTxn = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: payload,
-  });
-  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
-  const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-  // Transaction details stored for JSON output
-}
-
-async function callAriesView(args: {
-  aptos: Aptos;
-  coreAddress: string;
-  module: string;
-  functionName: string;
-  typeArguments: string[];
-  functionArguments: any[];
-}) {
-  const { aptos, coreAddress, module, functionName, typeArguments, functionArguments } = args;
-  const fqn = `${coreAddress}::${module}::${functionName}`;
-  return aptos.view({ payload: { function: fqn, typeArguments, functionArguments } });
-}
-
-function normalizePair(pairType: string): string {
-  const parts = pairType.split('::');
-  return parts[parts.length - 1] ?? pairType;
-}
-
-function parseBool(value: string | undefined): boolean | undefined {
-  if (value === undefined) return undefined;
-  const normalized = value.trim().toLowerCase();
-  if (normalized === 'true' || normalized === '1') return true;
-  if (normalized === 'false' || normalized === '0') return false;
-  return undefined;
+  const amount = collateral.deposited - keep;
+  const transactionHash = await venue.withdrawCollateral(amount);
+  return {
+    action: 'collateral_withdrawn',
+    amount: amount.toString(),
+    residual: keep.toString(),
+    collateralType: venue.collateralAsset,
+    transactionHash,
+  };
 }
 
 function toBaseUnits(value: string, decimals: number, label: string): bigint {
@@ -537,19 +868,3 @@ function formatBaseAmount(value: bigint, decimals: number): string {
   const fracStr = frac.toString().padStart(decimals, '0').replace(/0+$/, '');
   return `${whole.toString()}.${fracStr}`;
 }
-
-function inferKind(value: string | undefined, typeTag: string, defaultKind: 'coin' | 'fa'): 'coin' | 'fa' {
-  if (value) {
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'coin' || normalized === 'fa') {
-      return normalized;
-    }
-    throw new Error(`Invalid token kind '${value}'. Use 'coin' or 'fa'.`);
-  }
-
-  if (typeTag.includes('::fungible_asset::') || typeTag.endsWith('::coin::T')) {
-    return 'fa';
-  }
-
-  return defaultKind;
-}
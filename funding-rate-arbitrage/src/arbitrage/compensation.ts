@@ -0,0 +1,363 @@
+import {
+  Account,
+  Aptos,
+  type InputGenerateTransactionPayloadData,
+} from '@aptos-labs/ts-sdk';
+import { createAriesLendingVenue } from '../borrow/aries-venue.js';
+import { type LendingVenue } from '../borrow/venue.js';
+import { type PerpVenue } from '../perp/venue.js';
+import { getFaBalance } from '../spot/balances.js';
+import { type SpotRouter } from '../spot/router.js';
+import { STEP_STATES, type JournalRun } from './journal.js';
+import { type ArbitrageAbortResult, type PerpDepositResult } from './types.js';
+
+/**
+ * Per-step compensation for multi-leg flows. Every leg that lands on-chain is
+ * recorded with the action that undoes it; when a later leg throws, the
+ * recorded actions run newest-first and the result lists what was executed
+ * and what was rolled back.
+ */
+
+type Compensation = () => Promise<string | undefined>;
+
+export type ExecutedStep = {
+  step: string;
+  transactionHash?: string;
+};
+
+export type RolledBackStep = {
+  step: string;
+  status: 'rolled_back' | 'rollback_failed' | 'not_reversible';
+  transactionHash?: string;
+  error?: string;
+};
+
+export type CompensationReport = {
+  executed: ExecutedStep[];
+  rolledBack: RolledBackStep[];
+};
+
+export type CompensationPlan = {
+  /** Runs one leg; the step is only recorded as executed once `execute` resolves. */
+  run<T>(
+    step: string,
+    execute: () => Promise<T>,
+    options?: {
+      transactionHash?: (value: T) => string | undefined;
+      /** Extra values journaled with the step so `resume` can finish or undo it. */
+      detail?: (value: T) => Record<string, unknown>;
+      compensate?: (value: T) => Promise<string | undefined>;
+    },
+  ): Promise<T>;
+  /** Re-registers a step that already ran in an earlier process, without journaling it again. */
+  restore(step: string, transactionHash: string | undefined, compensate?: Compensation): void;
+  /** Name of the step currently running (or last started). */
+  currentStep(): string | undefined;
+  /** Undoes executed steps in reverse order. Failures are reported, not thrown. */
+  unwind(): Promise<RolledBackStep[]>;
+  journal(): JournalRun | undefined;
+  report(): CompensationReport;
+};
+
+/**
+ * When `journal` is given, every executed and rolled-back step is also
+ * committed to the on-disk journal.
+ */
+export function createCompensationPlan(options: { journal?: JournalRun } = {}): CompensationPlan {
+  const { journal } = options;
+  const executed: (ExecutedStep & { compensate?: Compensation })[] = [];
+  let unwound = 0;
+  const rolledBack: RolledBackStep[] = [];
+  let current: string | undefined;
+
+  return {
+    async run(step, execute, options = {}) {
+      current = step;
+      const value = await execute();
+      const { compensate } = options;
+      const transactionHash = options.transactionHash?.(value);
+      executed.push({
+        step,
+        transactionHash,
+        compensate: compensate ? () => compensate(value) : undefined,
+      });
+      journal?.commit(STEP_STATES[step] ?? 'started', {
+        step,
+        transactionHash,
+        data: options.detail?.(value),
+      });
+      return value;
+    },
+
+    restore(step, transactionHash, compensate) {
+      executed.push({ step, transactionHash, compensate });
+    },
+
+    currentStep() {
+      return current;
+    },
+
+    async unwind() {
+      while (unwound < executed.length) {
+        unwound += 1;
+        const entry = executed[executed.length - unwound];
+        if (!entry.compensate) {
+          rolledBack.push({ step: entry.step, status: 'not_reversible' });
+          continue;
+        }
+        try {
+          const transactionHash = await entry.compensate();
+          rolledBack.push({ step: entry.step, status: 'rolled_back', transactionHash });
+          journal?.commit('rolled_back', { step: entry.step, transactionHash });
+        } catch (error) {
+          rolledBack.push({
+            step: entry.step,
+            status: 'rollback_failed',
+            error: (error as Error)?.message ?? String(error),
+          });
+        }
+      }
+      return rolledBack;
+    },
+
+    journal() {
+      return journal;
+    },
+
+    report() {
+      return {
+        executed: executed.map(({ step, transactionHash }) => ({ step, transactionHash })),
+        rolledBack: [...rolledBack],
+      };
+    },
+  };
+}
+
+/**
+ * Runs `flow` under `plan`. If any leg throws, the executed legs are unwound
+ * and a `leg_failed` abort is returned instead of rethrowing.
+ *
+ * The plan's journal entry is closed as `completed` when the flow returns
+ * `completeAction`, `abandoned` when no step ran, and `unwound` once every
+ * executed step was rolled back. Anything else (a dry run after the spot leg,
+ * a fill mismatch, a failed rollback) stays `in_progress` for `resume`.
+ */
+export async function withCompensation<T extends { action: string }>(
+  plan: CompensationPlan,
+  flow: () => Promise<T>,
+  completeAction = 'arbitrage_executed',
+): Promise<T | ArbitrageAbortResult> {
+  const journal = plan.journal();
+  try {
+    const result = await flow();
+    if (result.action === completeAction) {
+      journal?.finish('completed');
+    } else if (plan.report().executed.length === 0) {
+      journal?.finish('abandoned');
+    }
+    return result;
+  } catch (error) {
+    const failedStep = plan.currentStep();
+    await plan.unwind();
+    const { executed, rolledBack } = plan.report();
+    const reversed = rolledBack.filter((entry) => entry.status === 'rolled_back').length;
+    if (executed.length === 0) {
+      journal?.finish('abandoned');
+    } else if (reversed === executed.length) {
+      journal?.finish('unwound');
+    }
+    return {
+      action: 'abort',
+      reason: 'leg_failed',
+      failedStep,
+      error: (error as Error)?.message ?? String(error),
+      steps: { executed, rolledBack },
+      journalId: journal?.id,
+      message: `Step '${failedStep}' failed; rolled back ${reversed} of ${executed.length} executed steps.`,
+    };
+  }
+}
+
+/** Signs and submits `payload` as `account` and waits for it to land; returns the hash. */
+export async function submitPayload(
+  aptos: Aptos,
+  account: Account,
+  payload: InputGenerateTransactionPayloadData,
+): Promise<string> {
+  const rawTxn = await aptos.transaction.build.simple({
+    sender: account.accountAddress,
+    data: payload,
+  });
+  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
+  await aptos.waitForTransaction({ transactionHash: pending.hash, options: { checkSuccess: true } });
+  return pending.hash;
+}
+
+/**
+ * Sells `amount` of `fromFa` back into `toFa` on the best spot venue, i.e.
+ * reverses a swap that delivered `amount` of `fromFa`.
+ */
+export async function reverseSpotSwap(args: {
+  aptos: Aptos;
+  account: Account;
+  spot: SpotRouter;
+  fromFa: string;
+  toFa: string;
+  amount: bigint;
+  slippageBps: number;
+}): Promise<string | undefined> {
+  const { aptos, account, spot, fromFa, toFa, amount, slippageBps } = args;
+  if (amount <= 0n) return undefined;
+
+  const { quote } = await spot.quote({
+    from: fromFa,
+    to: toFa,
+    amount,
+    estimate: 'from',
+  });
+  if (!quote) {
+    throw new Error(`No spot venue returned a route to reverse ${fromFa} -> ${toFa}`);
+  }
+
+  const payload = await spot.buildSwapPayload({
+    quote,
+    slippageBps,
+    recipient: account.accountAddress.toString(),
+  });
+  return submitPayload(aptos, account, payload);
+}
+
+/**
+ * Tops the perp venue's free collateral up to `required`. Runs as `step`,
+ * `merkle_deposit` by default (the name journals have always used), and is
+ * undone by withdrawing the deposit. Null when no deposit was needed.
+ */
+export async function depositPerpCollateral(
+  plan: CompensationPlan,
+  perp: PerpVenue,
+  required: bigint,
+  step = 'merkle_deposit',
+): Promise<PerpDepositResult | null> {
+  const balanceBefore = await perp.getCollateralBalance();
+  if (balanceBefore >= required) return null;
+
+  const deficit = required - balanceBefore;
+  return plan.run(step, async () => {
+    const { transactionHash } = await perp.depositCollateral(deficit);
+    return {
+      action: 'collateral_deposited' as const,
+      venue: perp.name,
+      deficit: deficit.toString(),
+      transactionHash,
+      balanceBefore: balanceBefore.toString(),
+    };
+  }, {
+    transactionHash: (deposit) => deposit.transactionHash,
+    detail: () => ({ depositAmount: deficit.toString() }),
+    compensate: () => withdrawPerpDeposit({ perp, amount: deficit }),
+  });
+}
+
+/** Withdraws collateral previously deposited into the perp venue. */
+export async function withdrawPerpDeposit(args: {
+  perp: PerpVenue;
+  amount: bigint;
+}): Promise<string | undefined> {
+  const { perp, amount } = args;
+  if (amount <= 0n) return undefined;
+  return (await perp.withdrawCollateral(amount)).transactionHash;
+}
+
+// Leave enough APT in the wallet to pay for the unwind transactions themselves.
+const REPAY_GAS_RESERVE_OCTAS = 2_000_000n;
+const APT_COIN_TYPE = '0x1::aptos_coin::AptosCoin';
+
+/**
+ * Compensation for an Aries borrow: repays up to `borrowAmount` of the
+ * borrowed asset from whatever the wallet still holds.
+ */
+export async function repayAriesBorrow(args: {
+  aptos: Aptos;
+  account: Account;
+  coreAddress: string;
+  moduleName?: string;
+  profileName?: string;
+  borrowType: string;
+  borrowKind: 'coin' | 'fa';
+  borrowAmount: bigint;
+}): Promise<string | undefined> {
+  const { aptos, account, borrowAmount } = args;
+  const venue = createAriesLendingVenue({
+    aptos,
+    account,
+    config: {
+      coreAddress: args.coreAddress,
+      depositModuleName: args.moduleName,
+      profileName: args.profileName,
+      borrowType: args.borrowType,
+      borrowKind: args.borrowKind,
+    },
+  });
+  return repayVenueBorrow({ aptos, account, venue, borrowAmount });
+}
+
+/**
+ * Compensation for a lending-venue borrow: repays up to `borrowAmount` from
+ * whatever the wallet still holds, keeping a gas reserve back on APT loans.
+ */
+export async function repayVenueBorrow(args: {
+  aptos: Aptos;
+  account: Account;
+  venue: LendingVenue;
+  borrowAmount: bigint;
+}): Promise<string | undefined> {
+  const { aptos, account, venue, borrowAmount } = args;
+  let repayAmount = borrowAmount;
+  if (venue.borrowAsset === APT_COIN_TYPE) {
+    const walletApt = await getFaBalance(aptos, account.accountAddress.toString(), '0xa');
+    const spendable = walletApt > REPAY_GAS_RESERVE_OCTAS ? walletApt - REPAY_GAS_RESERVE_OCTAS : 0n;
+    repayAmount = spendable < borrowAmount ? spendable : borrowAmount;
+  }
+  if (repayAmount === 0n) {
+    throw new Error(`No spendable balance left in the wallet to repay the ${venue.name} borrow.`);
+  }
+  return venue.repay(repayAmount);
+}
+
+/**
+ * Supplies `amount` of the lending venue's collateral asset (the spot APT of a
+ * long-spot hedge) as the `aries_supply` step; undone by withdrawing it.
+ */
+export async function supplySpotToVenue(
+  plan: CompensationPlan,
+  venue: LendingVenue,
+  amount: bigint,
+): Promise<string | undefined> {
+  if (amount <= 0n) return undefined;
+  await venue.register();
+  return plan.run('aries_supply', () => venue.depositCollateral(amount), {
+    transactionHash: (hash) => hash,
+    detail: () => ({ supplyAmount: amount.toString() }),
+    compensate: () => venue.withdrawCollateral(amount),
+  });
+}
+
+/** Closes `size` of a perp position opened by an earlier leg. */
+export async function closePerpPosition(args: {
+  perp: PerpVenue;
+  pair: string;
+  size: bigint;
+  isLong: boolean;
+}): Promise<string | undefined> {
+  const { perp, pair, size, isLong } = args;
+  if (size <= 0n) return undefined;
+
+  const { transactionHash } = await perp.placeMarketOrder({
+    pair,
+    sizeDelta: size,
+    collateralDelta: 0n,
+    isLong,
+    isIncrease: false,
+  });
+  return transactionHash;
+}
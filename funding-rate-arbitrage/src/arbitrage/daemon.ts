@@ -0,0 +1,402 @@
+import 'dotenv/config';
+import { createLendingVenue, type LendingVenue } from '../borrow/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import {
+  decideCarryAction,
+  evaluateCarry,
+  type CarryDecision,
+  type CarryInputs,
+  type CarryThresholds,
+  type SignalState,
+} from './carry.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import { runCloseLongSpotShortPerp } from './close-long-spot-short-perp.js';
+import { runCloseShortSpotLongPerp } from './close-short-spot-long-perp.js';
+import { readFundingSnapshot, type FundingSnapshot } from './funding.js';
+import { runLongSpotShortPerp } from './long-spot-short-perp.js';
+import { findOpenPosition, type HedgePosition } from './position-book.js';
+import { runShortSpotLongPerp } from './short-spot-long-perp.js';
+import { readStrategyConfig } from './strategy-config.js';
+import { type ArbitrageResult } from './types.js';
+
+export type DaemonParams = {
+  perpPair?: string;
+  hyperionNetwork?: string;
+  perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
+  /** Lender short-spot hedges borrow from and the carry is priced off; defaults to LENDING_VENUE, else Aries. */
+  lendingVenue?: string | LendingVenue;
+  intervalSec?: number;
+  /** Stop after this many iterations; runs until signalled when omitted. */
+  maxIterations?: number;
+  /** Without `true`, decisions are logged but no flow is submitted. */
+  submit?: boolean;
+  /** APT to buy for a long-spot hedge (human units). */
+  longSpotOut?: string;
+  /** USDC to raise for a short-spot hedge (human units). */
+  shortSpotOut?: string;
+  /** USD notional of either hedge; overrides `longSpotOut` and `shortSpotOut`. */
+  notionalUsd?: number;
+  slippageBps?: number;
+  entryThresholdPctPerHr?: number;
+  exitThresholdPctPerHr?: number;
+  confirmations?: number;
+  spotRoundTripBps?: number;
+  /** Defaults to twice the live perp taker fee. */
+  perpRoundTripBps?: number;
+  gasRoundTripBps?: number;
+  capitalAprPct?: number;
+  /** APT borrow APR (%); read from the lending venue each iteration when omitted. */
+  borrowAprPct?: number;
+  holdHours?: number;
+  fundingStdPctPerHr?: number;
+  zScore?: number;
+  basisPremiumPctPerHr?: number;
+  /** Strategy config (see `arb:optimize`) applied under the flags; ARB_STRATEGY_CONFIG when omitted. */
+  config?: string;
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+  /** Called with every iteration's record; defaults to one JSON line on stdout. */
+  onIteration?: (record: DaemonIteration) => void;
+  /** Aborting stops the loop after the current iteration. */
+  signal?: AbortSignal;
+};
+
+export type DaemonIteration = {
+  iteration: number;
+  at: string;
+  funding?: FundingSnapshot;
+  carry?: {
+    fundingPctPerHour: number;
+    borrowAprPct?: number;
+    longSpotEntryNet: number;
+    longSpotHoldNet: number;
+    shortSpotEntryNet: number;
+    shortSpotHoldNet: number;
+  };
+  openPosition?: { id: string; direction: HedgePosition['direction'] };
+  decision?: CarryDecision;
+  submitted?: boolean;
+  result?: ArbitrageResult;
+  error?: string;
+};
+
+export type DaemonSummary = {
+  action: 'daemon_stopped';
+  iterations: number;
+  failures: number;
+  opened: number;
+  closed: number;
+};
+
+function parseArgs(argv: string[]): DaemonParams {
+  const result: DaemonParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'perp-pair':
+        result.perpPair = next;
+        i += 1;
+        break;
+      case 'hyperion-network':
+        result.hyperionNetwork = next;
+        i += 1;
+        break;
+      case 'perp-network':
+        result.perpNetwork = next;
+        i += 1;
+        break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
+      case 'lending-venue':
+        result.lendingVenue = next;
+        i += 1;
+        break;
+      case 'interval-sec':
+        result.intervalSec = Number(next);
+        i += 1;
+        break;
+      case 'max-iterations':
+        result.maxIterations = Number(next);
+        i += 1;
+        break;
+      case 'submit':
+        result.submit = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'long-spot-out':
+        result.longSpotOut = next;
+        i += 1;
+        break;
+      case 'short-spot-out':
+        result.shortSpotOut = next;
+        i += 1;
+        break;
+      case 'notional-usd':
+        result.notionalUsd = Number(next);
+        i += 1;
+        break;
+      case 'config':
+        result.config = next;
+        i += 1;
+        break;
+      case 'slippage-bps':
+        result.slippageBps = Number(next);
+        i += 1;
+        break;
+      case 'entry-threshold':
+        result.entryThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'exit-threshold':
+        result.exitThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'confirmations':
+        result.confirmations = Number(next);
+        i += 1;
+        break;
+      case 'spot-round-trip-bps':
+        result.spotRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'perp-round-trip-bps':
+        result.perpRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'gas-round-trip-bps':
+        result.gasRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'capital-apr-pct':
+        result.capitalAprPct = Number(next);
+        i += 1;
+        break;
+      case 'borrow-apr-pct':
+        result.borrowAprPct = Number(next);
+        i += 1;
+        break;
+      case 'hold-hours':
+        result.holdHours = Number(next);
+        i += 1;
+        break;
+      case 'funding-std-pct-per-hr':
+        result.fundingStdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'z-score':
+        result.zScore = Number(next);
+        i += 1;
+        break;
+      case 'basis-premium-pct-per-hr':
+        result.basisPremiumPctPerHr = Number(next);
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+async function liveBorrowAprPct(lending: LendingVenue): Promise<number | undefined> {
+  try {
+    return (await lending.getRates()).borrowAprPct;
+  } catch (error) {
+    console.warn(`Unable to read the ${lending.name} borrow APR:`, (error as Error).message);
+    return undefined;
+  }
+}
+
+function currentPosition(perpPair: string): HedgePosition | undefined {
+  return findOpenPosition({ direction: 'long_spot_short_perp', perpPair })
+    ?? findOpenPosition({ direction: 'short_spot_long_perp', perpPair });
+}
+
+/**
+ * Polls perp funding for `perpPair` and opens or closes one hedge at a time
+ * from the net carry signal. The position book is the source of truth for
+ * what is open, so manual opens/closes between iterations are picked up.
+ * A failing iteration is logged and the loop carries on.
+ */
+export async function runDaemon(params: DaemonParams = {}): Promise<DaemonSummary> {
+  const perpPair = params.perpPair ?? 'APT_USD';
+  const intervalMs = (params.intervalSec ?? 300) * 1000;
+  const submit = params.submit ?? false;
+  const thresholds: CarryThresholds = {
+    entryPctPerHour: params.entryThresholdPctPerHr ?? 0,
+    exitPctPerHour: params.exitThresholdPctPerHr ?? 0,
+    confirmations: Math.max(1, params.confirmations ?? 2),
+  };
+  if (thresholds.exitPctPerHour > thresholds.entryPctPerHour) {
+    throw new Error('--exit-threshold must not exceed --entry-threshold, or the daemon would flap.');
+  }
+  const report = params.onIteration ?? ((record: DaemonIteration) => console.log(JSON.stringify(record)));
+
+  const clients = params.clients ?? await createArbitrageClients({
+    hyperionNetwork: params.hyperionNetwork,
+    perpNetwork: params.perpNetwork,
+    perpVenue: params.perpVenue,
+    spotVenues: params.spotVenues,
+  });
+  // Built once so the carry is priced off the same venue the short-spot flows borrow from.
+  const lending = params.lendingVenue && typeof params.lendingVenue !== 'string'
+    ? params.lendingVenue
+    : createLendingVenue(params.lendingVenue, { aptos: clients.aptos, account: clients.account });
+
+  const summary: DaemonSummary = { action: 'daemon_stopped', iterations: 0, failures: 0, opened: 0, closed: 0 };
+  let signalState: SignalState = {};
+
+  while (!params.signal?.aborted) {
+    summary.iterations += 1;
+    const record: DaemonIteration = { iteration: summary.iterations, at: new Date().toISOString() };
+
+    try {
+      const position = currentPosition(perpPair);
+      if (position) {
+        record.openPosition = { id: position.id, direction: position.direction };
+      }
+      // A close/open done outside the daemon resets any pending signal.
+      if (signalState.open !== position?.direction) {
+        signalState = { open: position?.direction };
+      }
+
+      const funding = await readFundingSnapshot(clients.perp, perpPair);
+      record.funding = funding;
+
+      const borrowAprPct = params.borrowAprPct ?? await liveBorrowAprPct(lending);
+      const costs: CarryInputs = {
+        spotRoundTripBps: params.spotRoundTripBps,
+        perpRoundTripBps: params.perpRoundTripBps ?? funding.perpRoundTripBps,
+        gasRoundTripBps: params.gasRoundTripBps,
+        capitalAprPct: params.capitalAprPct,
+        borrowAprPct,
+        holdHours: params.holdHours,
+        fundingStdPctPerHr: params.fundingStdPctPerHr,
+        zScore: params.zScore,
+        extraBasisPremiumPctPerHr: params.basisPremiumPctPerHr,
+      };
+      const carry = evaluateCarry(funding.fundingPctPerHour, costs);
+      record.carry = {
+        fundingPctPerHour: carry.fundingPctPerHour,
+        borrowAprPct,
+        longSpotEntryNet: carry.long_spot_short_perp.entryNetPctPerHour,
+        longSpotHoldNet: carry.long_spot_short_perp.holdNetPctPerHour,
+        shortSpotEntryNet: carry.short_spot_long_perp.entryNetPctPerHour,
+        shortSpotHoldNet: carry.short_spot_long_perp.holdNetPctPerHour,
+      };
+
+      const { decision, state } = decideCarryAction(carry, signalState, thresholds);
+      record.decision = decision;
+      record.submitted = submit && (decision.action === 'open' || decision.action === 'close');
+
+      if (record.submitted) {
+        const result = await executeDecision(decision, { perpPair, position, clients, lending, params });
+        record.result = result;
+        if (result?.action === 'arbitrage_executed') {
+          summary.opened += 1;
+          signalState = state;
+        } else if (result?.action === 'arbitrage_closed') {
+          summary.closed += 1;
+          signalState = state;
+        } else {
+          // The flow aborted; stay confirmed so the next iteration retries.
+          signalState = { open: position?.direction, pending: signalState.pending };
+        }
+      } else if (decision.action === 'open' || decision.action === 'close') {
+        // Dry run: nothing changed on-chain, so keep reporting the confirmed signal.
+        signalState = { open: position?.direction, pending: signalState.pending };
+      } else {
+        signalState = state;
+      }
+    } catch (error) {
+      summary.failures += 1;
+      record.error = (error as Error)?.message ?? String(error);
+    }
+
+    report(record);
+
+    if (params.maxIterations && summary.iterations >= params.maxIterations) break;
+    await sleep(intervalMs, params.signal);
+  }
+
+  return summary;
+}
+
+async function executeDecision(
+  decision: CarryDecision,
+  context: {
+    perpPair: string;
+    position: HedgePosition | undefined;
+    clients: ArbitrageClients;
+    lending: LendingVenue;
+    params: DaemonParams;
+  },
+): Promise<ArbitrageResult | undefined> {
+  const { perpPair, position, clients, lending, params } = context;
+  const common = {
+    perpPair,
+    slippageBps: params.slippageBps,
+    clients,
+  };
+
+  if (decision.action === 'close' && position) {
+    return decision.direction === 'long_spot_short_perp'
+      ? runCloseLongSpotShortPerp({ ...common, positionId: position.id })
+      : runCloseShortSpotLongPerp({ ...common, positionId: position.id, lendingVenue: lending });
+  }
+
+  if (decision.action === 'open') {
+    // The carry check already ran here, so the flows skip their own.
+    const open = { ...common, notionalUsd: params.notionalUsd, submitSpot: true, submitPerp: true };
+    return decision.direction === 'long_spot_short_perp'
+      ? runLongSpotShortPerp({ ...open, spotOut: params.longSpotOut })
+      : runShortSpotLongPerp({ ...open, spotOut: params.shortSpotOut, lendingVenue: lending });
+  }
+
+  return undefined;
+}
+
+export async function main() {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const args = parseArgs(process.argv.slice(2));
+  const summary = await runDaemon({ ...readStrategyConfig(args.config), ...args, signal: controller.signal });
+  console.log(JSON.stringify(summary, null, 2));
+  return summary;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Arbitrage daemon error:', error);
+    process.exitCode = 1;
+  });
+}
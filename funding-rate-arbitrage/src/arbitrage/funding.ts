@@ -0,0 +1,156 @@
+import {
+  forecastFunding,
+  type FundingForecast,
+  type FundingForecastOptions,
+} from '../perp/funding-forecast.js';
+import { loadFundingStats, loadHourlyFunding, type FundingStats } from '../perp/funding-stats.js';
+import { type PerpNetwork, type PerpVenue } from '../perp/venue.js';
+import { type FundingPathPoint, type MinFundingInputs } from '../utils/minFunding.js';
+import { type HedgeDirection } from './position-book.js';
+
+/**
+ * Perp funding for one pair, live or from the recorded history, in the %/hr
+ * units the cost model in `utils/minFunding` works in.
+ */
+
+export type FundingSnapshot = {
+  pair: string;
+  /** Signed; positive means longs pay shorts. */
+  fundingPctPerHour: number;
+  /** Open + close taker fee on the perp leg. */
+  perpRoundTripBps: number;
+  timestamp: string;
+};
+
+export async function readFundingSnapshot(
+  perp: PerpVenue,
+  pair: string,
+): Promise<FundingSnapshot> {
+  const [pairInfo, funding] = await Promise.all([
+    perp.getPairInfo(pair),
+    perp.getFunding(pair),
+  ]);
+
+  return {
+    pair,
+    fundingPctPerHour: funding.fundingPctPerHour,
+    perpRoundTripBps: pairInfo.takerFeeBps * 2,
+    timestamp: funding.timestamp,
+  };
+}
+
+/** One-sided 95%: the buffer covers all but the worst 1 in 20 hold periods. */
+export const DEFAULT_RISK_Z_SCORE = 1.645;
+/** Fewer recorded hours than this is too little history to size a buffer from. */
+export const MIN_RISK_HISTORY_HOURS = 24;
+
+/** Hold window forecast when no --hold-hours is given. */
+export const DEFAULT_FORECAST_HORIZON_HOURS = 168;
+
+export type FundingRiskInputs = Required<
+  Pick<MinFundingInputs, 'fundingStdPctPerHr' | 'zScore' | 'extraBasisPremiumPctPerHr'>
+>;
+
+/**
+ * Risk-buffer inputs for holding `direction` for `holdHours`, from funding
+ * stats. The buffer is about the average funding over the hold, so the hourly
+ * standard deviation is scaled down by the hold length and back up for
+ * autocorrelation (an AR(1) series averages out slower). The basis premium is
+ * the funding the hedge's side historically paid out per hour, which is what
+ * the sign flips cost it.
+ */
+export function fundingRiskInputs(
+  stats: FundingStats,
+  options: { direction: HedgeDirection; holdHours?: number; zScore?: number },
+): FundingRiskInputs {
+  const holdHours = Number.isFinite(options.holdHours) && (options.holdHours as number) > 0
+    ? (options.holdHours as number)
+    : 1;
+  // Negative autocorrelation would shrink the buffer; don't count on it.
+  const rho = Math.min(Math.max(stats.autocorrelation, 0), 0.99);
+  const holdStd = stats.stdPctPerHour * Math.sqrt((1 + rho) / (1 - rho) / holdHours);
+  return {
+    fundingStdPctPerHr: Math.min(holdStd, stats.stdPctPerHour),
+    zScore: options.zScore ?? DEFAULT_RISK_Z_SCORE,
+    // The short perp leg pays when funding is negative, the long perp leg when it is positive.
+    extraBasisPremiumPctPerHr: options.direction === 'long_spot_short_perp'
+      ? stats.meanNegativePctPerHour
+      : stats.meanPositivePctPerHour,
+  };
+}
+
+/**
+ * Funding stats of `pair` from the recorded history, or undefined when the
+ * venue has no recorded history or the window holds too few hours.
+ */
+export function readHistoricalFundingStats(
+  perp: PerpVenue,
+  network: PerpNetwork,
+  pair: string,
+  windowHours?: number,
+): FundingStats | undefined {
+  // The recorder only samples Merkle.
+  if (perp.name !== 'merkle') return undefined;
+  const stats = loadFundingStats({ pair, network, windowHours });
+  return stats.hours >= MIN_RISK_HISTORY_HOURS ? stats : undefined;
+}
+
+/**
+ * Forecast of `pair`'s funding from the recorded history, or undefined when
+ * the venue has no recorded history or the window holds too few hours.
+ */
+export function readHistoricalFundingForecast(
+  perp: PerpVenue,
+  network: PerpNetwork,
+  pair: string,
+  options: FundingForecastOptions & { windowHours?: number },
+): FundingForecast | undefined {
+  if (perp.name !== 'merkle') return undefined;
+  const hourly = loadHourlyFunding({ pair, network, windowHours: options.windowHours });
+  return hourly.length >= MIN_RISK_HISTORY_HOURS ? forecastFunding(hourly, options) : undefined;
+}
+
+/** The forecast as funding received by `direction`'s perp leg; the short leg receives positive funding. */
+export function receivedFundingPath(forecast: FundingForecast, direction: HedgeDirection): FundingPathPoint[] {
+  return forecast.path.map((point) => direction === 'long_spot_short_perp'
+    ? {
+      hours: point.hours,
+      expectedCumulativePct: point.expectedCumulativePct,
+      lowerCumulativePct: point.lowerCumulativePct,
+    }
+    : {
+      hours: point.hours,
+      expectedCumulativePct: -point.expectedCumulativePct,
+      lowerCumulativePct: -point.upperCumulativePct,
+    });
+}
+
+/** The forecast as the flows report it next to their breakeven, without the hourly path. */
+export type FundingForecastSummary = Pick<FundingForecast,
+  | 'model'
+  | 'horizonHours'
+  | 'historyHours'
+  | 'expectedPctPerHour'
+  | 'expectedCumulativePct'
+  | 'stdCumulativePct'
+  | 'lowerCumulativePct'
+  | 'upperCumulativePct'
+  | 'zScore'
+  | 'params'
+> & { unit: '%' };
+
+export function summarizeFundingForecast(forecast: FundingForecast): FundingForecastSummary {
+  return {
+    model: forecast.model,
+    horizonHours: forecast.horizonHours,
+    historyHours: forecast.historyHours,
+    expectedPctPerHour: forecast.expectedPctPerHour,
+    expectedCumulativePct: forecast.expectedCumulativePct,
+    stdCumulativePct: forecast.stdCumulativePct,
+    lowerCumulativePct: forecast.lowerCumulativePct,
+    upperCumulativePct: forecast.upperCumulativePct,
+    zScore: forecast.zScore,
+    params: forecast.params,
+    unit: '%',
+  };
+}
@@ -0,0 +1,169 @@
+import { randomUUID } from 'crypto';
+import { readJsonArray, upsertJsonItem } from '../utils/jsonFile.js';
+import { type ArbitrageStrategy } from './types.js';
+
+/**
+ * On-disk journal of arbitrage runs. Each open/close flow is a sequence of
+ * explicit states; the entry is rewritten after every confirmed transaction so
+ * a crashed run can be resumed (or unwound) from its last committed state.
+ */
+
+export type JournalState =
+  | 'started'
+  | 'borrowed'
+  | 'swapped'
+  | 'deposited'
+  | 'perp_opened'
+  | 'supplied'
+  | 'supply_withdrawn'
+  | 'spot_closed'
+  | 'loan_repaid'
+  | 'perp_closed'
+  | 'rolled_back';
+
+export type JournalStatus = 'in_progress' | 'completed' | 'unwound' | 'abandoned';
+
+export type JournalTransition = {
+  state: JournalState;
+  step?: string;
+  transactionHash?: string;
+  at: string;
+  data?: Record<string, unknown>;
+};
+
+export type JournalEntry = {
+  id: string;
+  flow: ArbitrageStrategy;
+  state: JournalState;
+  status: JournalStatus;
+  /** Everything resume needs to finish or unwind the run; amounts are base-unit strings. */
+  context: Record<string, unknown>;
+  transitions: JournalTransition[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type JournalRun = {
+  readonly id: string;
+  /** Records a confirmed transaction; `data` is also merged into the entry context. */
+  commit(state: JournalState, details?: {
+    step?: string;
+    transactionHash?: string;
+    data?: Record<string, unknown>;
+  }): void;
+  /** Merges values learned mid-flow (fills, sizes) into the entry context. */
+  annotate(data: Record<string, unknown>): void;
+  finish(status: Exclude<JournalStatus, 'in_progress'>): void;
+  entry(): JournalEntry;
+};
+
+/** Compensation steps and the state each one commits. */
+export const STEP_STATES: Record<string, JournalState> = {
+  aries_borrow: 'borrowed',
+  hyperion_swap: 'swapped',
+  merkle_deposit: 'deposited',
+  perp_open: 'perp_opened',
+  spot_close: 'spot_closed',
+  loan_repay: 'loan_repaid',
+  perp_close: 'perp_closed',
+  aries_supply: 'supplied',
+  supply_withdraw: 'supply_withdrawn',
+  // Perp-vs-perp spreads run one deposit/open/close per leg.
+  long_deposit: 'deposited',
+  short_deposit: 'deposited',
+  long_open: 'perp_opened',
+  short_open: 'perp_opened',
+  long_close: 'perp_closed',
+  short_close: 'perp_closed',
+};
+
+export function journalPath(path?: string): string {
+  return path ?? process.env.ARB_JOURNAL_PATH ?? '.arb-journal.json';
+}
+
+export function readJournal(path?: string): JournalEntry[] {
+  return readJsonArray<JournalEntry>(journalPath(path));
+}
+
+function writeEntry(entry: JournalEntry, path?: string) {
+  upsertJsonItem(journalPath(path), entry);
+}
+
+/** Starts a journal entry for a flow that is about to submit transactions. */
+export function openJournalRun(
+  flow: ArbitrageStrategy,
+  context: Record<string, unknown>,
+  path?: string,
+): JournalRun {
+  const now = new Date().toISOString();
+  const entry: JournalEntry = {
+    id: randomUUID(),
+    flow,
+    state: 'started',
+    status: 'in_progress',
+    context: { ...context },
+    transitions: [{ state: 'started', at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeEntry(entry, path);
+  return resumeJournalRun(entry, path);
+}
+
+/** Reattaches to an existing entry, e.g. from the resume command. */
+export function resumeJournalRun(entry: JournalEntry, path?: string): JournalRun {
+  const touch = () => {
+    entry.updatedAt = new Date().toISOString();
+    writeEntry(entry, path);
+  };
+
+  return {
+    id: entry.id,
+    commit(state, details = {}) {
+      entry.state = state;
+      entry.transitions.push({ state, at: new Date().toISOString(), ...details });
+      if (details.data) {
+        entry.context = { ...entry.context, ...details.data };
+      }
+      touch();
+    },
+    annotate(data) {
+      entry.context = { ...entry.context, ...data };
+      touch();
+    },
+    finish(status) {
+      entry.status = status;
+      touch();
+    },
+    entry() {
+      return entry;
+    },
+  };
+}
+
+/** The entry with `id`, or the most recently updated run still in progress. */
+export function findResumableEntry(id?: string, path?: string): JournalEntry | undefined {
+  const entries = readJournal(path);
+  if (id) return entries.find((entry) => entry.id === id);
+  return entries
+    .filter((entry) => entry.status === 'in_progress')
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+/**
+ * States whose transactions are still in effect, oldest first: `started` is
+ * skipped and every `rolled_back` cancels the latest commit of its step.
+ */
+export function committedTransitions(entry: JournalEntry): JournalTransition[] {
+  const live: JournalTransition[] = [];
+  for (const transition of entry.transitions) {
+    if (transition.state === 'started') continue;
+    if (transition.state === 'rolled_back') {
+      const index = live.map((t) => t.step).lastIndexOf(transition.step);
+      if (index !== -1) live.splice(index, 1);
+      continue;
+    }
+    live.push(transition);
+  }
+  return live;
+}
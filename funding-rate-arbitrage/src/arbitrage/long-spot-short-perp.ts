@@ -1,30 +1,78 @@
 import 'dotenv/config';
-import WebSocket from 'ws';
-import {
-  Account,
-  Aptos,
-  Ed25519PrivateKey,
-  Network as AptosNetwork,
-} from '@aptos-labs/ts-sdk';
-import { initHyperionSDK } from '@hyperionxyz/sdk';
-import {
-  MerkleClient,
-  MerkleClientConfig,
-  calcFundingInfo,
-} from '@merkletrade/ts-sdk';
 import {
   computeMinFundingBreakdown,
   computeBreakevenHoldDuration,
+  computeForecastBreakevenHold,
+  type BreakevenHoldResult,
+  type ForecastBreakevenResult,
   type MinFundingInputs,
   type MinFundingBreakdown,
 } from '../utils/minFunding';
+import { ariesSpotSupplyConfig } from '../borrow/aries-venue.js';
+import { createLendingVenue } from '../borrow/venue.js';
+import { getFaBalance, gasFeeOctas } from '../spot/balances.js';
+import { type SpotCandidate } from '../spot/router.js';
+import {
+  isFundingForecastModel,
+  type FundingForecast,
+  type FundingForecastModel,
+} from '../perp/funding-forecast.js';
+import { type FundingStats } from '../perp/funding-stats.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import {
+  DEFAULT_FORECAST_HORIZON_HOURS,
+  fundingRiskInputs,
+  readHistoricalFundingForecast,
+  readHistoricalFundingStats,
+  receivedFundingPath,
+  summarizeFundingForecast,
+  type FundingForecastSummary,
+  type FundingRiskInputs,
+} from './funding.js';
+import {
+  closePerpPosition,
+  createCompensationPlan,
+  depositPerpCollateral,
+  reverseSpotSwap,
+  supplySpotToVenue,
+  withCompensation,
+  type CompensationReport,
+} from './compensation.js';
+import { openJournalRun } from './journal.js';
+import {
+  addSpotSupply,
+  fetchPerpEntryPrice,
+  findOpenPosition,
+  recordOpenPosition,
+  scaleInPosition,
+  spotFillPrice,
+} from './position-book.js';
+import {
+  perpSizeForSpot,
+  residualDelta,
+  sizeHedge,
+  type ResidualDelta,
+} from './sizing.js';
+import { readStrategyConfig } from './strategy-config.js';
+import {
+  printResult,
+  type ArbitrageAbortResult,
+  type ArbitrageDryRunResult,
+  type ArbitrageExecutedResult,
+  type PerpDepositResult,
+} from './types.js';
 
-type Args = {
+export type LongSpotShortPerpParams = {
   spotFromFa?: string;
   spotToFa?: string;
   spotInDecimals?: number;
   spotOut?: string;
   spotOutDecimals?: number;
+  /** USD notional to hedge; overrides `spotOut` and is converted at the perp venue's mark price. */
+  notionalUsd?: number;
+  /** Strategy config (see `arb:optimize`) applied under the flags; ARB_STRATEGY_CONFIG when omitted. */
+  config?: string;
   slippageBps?: number;
   hyperionNetwork?: string;
   safeMode?: boolean;
@@ -32,8 +80,13 @@ type Args = {
   perpCollateral?: string;
   submitSpot?: boolean;
   submitPerp?: boolean;
-  minFundingRate?: string;
+  /** 'auto' uses the live perp funding rate; a number is a manual %/hr funding assumption. */
+  minFunding?: 'auto' | number;
   perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
   spotRoundTripBps?: number;
   perpRoundTripBps?: number;
   gasRoundTripBps?: number;
@@ -42,8 +95,147 @@ type Args = {
   fundingStdPctPerHr?: number;
   zScore?: number;
   basisPremiumPctPerHr?: number;
+  /** Recorded funding history the 'auto' risk buffer is derived from; one week by default. */
+  fundingWindowHours?: number;
+  /**
+   * Model the 'auto' breakeven projects funding with over the hold (default
+   * `mean_reverting`); 'none' assumes the live rate holds flat.
+   */
+  fundingForecast?: FundingForecastModel | 'none';
+  /** Add to the open long-spot hedge instead of recording a new one. */
+  scaleIn?: boolean;
+  /** Position book entry to scale into; defaults to the latest open long-spot hedge on the pair. */
+  positionId?: string;
+  /** Supply the bought APT to a lending venue while the hedge is open; its supply APR counts toward the carry. */
+  supplySpot?: boolean;
+  /** Lending venue to supply on; defaults to LENDING_VENUE, else Aries. */
+  supplyVenue?: string;
+  /** Aries profile holding the supply; defaults to ARIES_SUPPLY_PROFILE, else `spot-supply`. */
+  supplyProfile?: string;
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+};
+
+type SpotLegQuote = {
+  /** Spot venue the router picked. */
+  venue: string;
+  network: string;
+  outputToken: string;
+  outputAmount: string;
+  inputToken: string;
+  slippageBps: number;
+  routePath: unknown[];
+  amountIn: string;
+  amountOut: string;
+  amountInBase: string;
+  amountOutBase: string;
+  candidates: SpotCandidate[];
+};
+
+type SpotExecution = {
+  action: 'usdc_swapped_for_apt';
+  transactionHash: string;
+  version: string;
+  usdcSpent: string;
+  aptQuoted: string;
+  aptReceived: string;
+  minAptOut: string;
+  gasFeeOctas: string;
+};
+
+type SpotSupplyExecution = {
+  venue: string;
+  amount: string;
+  transactionHash?: string;
+};
+
+type PerpLeg = {
+  pair: string;
+  sizeDelta: string;
+  collateralDelta: string;
+  direction: 'SHORT';
+  markPrice: number;
+  residualDelta: ResidualDelta;
+  sizeSource: 'spot_fill' | 'quote';
+  submitPerp: boolean;
+};
+
+type CostValue<Source extends string> = { value: number | undefined; source: Source; unit: 'bps' };
+
+/** The hold cost model's inputs and per-hour terms, with where each input came from. */
+export type LongSpotCostAnalysis = {
+  spotRoundTrip: CostValue<'override' | 'auto'>;
+  perpRoundTrip: CostValue<'override' | 'auto'>;
+  gasRoundTrip: CostValue<'override' | 'default'>;
+  tradingCostPerHour: { value: number; unit: '%/hr'; holdHours: number };
+  capitalCostPerHour: { value: number; unit: '%/hr'; apr: number };
+  supplyYieldPerHour: { value: number; unit: '%/hr'; apr: number; venue?: string };
+  breakevenPerHour: { value: number; unit: '%/hr' };
+  riskBufferPerHour: {
+    value: number;
+    unit: '%/hr';
+    zScore: number;
+    fundingStd: number;
+    source: 'history' | 'override';
+  };
+  basisPremiumPerHour: { value: number; unit: '%/hr'; source: 'history' | 'override' };
+  fundingHistory: FundingStats | null;
 };
 
+/** Funding assumed over the hold and the breakeven it implies. */
+export type LongSpotFundingAnalysis = {
+  currentFundingRate: { value: number; unit: '%/hr'; source: 'pair_state' };
+  fundingForHold: {
+    value: number;
+    unit: '%/hr';
+    mode: 'auto' | 'manual';
+    source: 'forecast' | 'pair_state' | 'manual';
+    manualInput: number | undefined;
+  };
+  forecast: FundingForecastSummary | null;
+  breakeven: {
+    possible: boolean;
+    holdHours?: number;
+    holdDays?: number;
+    expectedHoldHours?: number;
+    expectedNetPct?: number;
+    lowerNetPct?: number;
+    tradingCostPct: number;
+    netFundingPerHour: number;
+  };
+};
+
+export type LongSpotShortPerpResult =
+  | ArbitrageDryRunResult<{
+    perpLeg: PerpLeg;
+    spotQuote: SpotLegQuote;
+    spotExecution: SpotExecution | null;
+    costAnalysis: LongSpotCostAnalysis | null;
+    fundingAnalysis: LongSpotFundingAnalysis | null;
+    steps?: CompensationReport;
+    journalId?: string;
+  }>
+  | ArbitrageAbortResult
+  | ArbitrageExecutedResult<{
+    spotQuote: SpotLegQuote;
+    spotExecution: SpotExecution | null;
+    perpLeg: PerpLeg;
+    costAnalysis: LongSpotCostAnalysis | null;
+    fundingAnalysis: LongSpotFundingAnalysis | null;
+    depositResult: PerpDepositResult | null;
+    spotSupply: SpotSupplyExecution | null;
+    perpTransaction: {
+      hash: string;
+      version?: string;
+      pair: string;
+      sizeDelta: string;
+      collateralDelta: string;
+    };
+    steps: CompensationReport;
+    journalId?: string;
+    positionId: string;
+  }>;
+
 const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>> = {
   mainnet: {
     apt: '0xa',
@@ -55,11 +247,8 @@ const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>>
   },
 };
 
-const MERKLE_FUNDING_RATE_SCALE = 10 ** 8;
-const HOURS_IN_DAY = 24;
-
-function parseArgs(argv: string[]): Args {
-  const result: Args = {};
+function parseArgs(argv: string[]): LongSpotShortPerpParams {
+  const result: LongSpotShortPerpParams = {};
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
     if (!arg.startsWith('--')) continue;
@@ -82,6 +271,10 @@ function parseArgs(argv: string[]): Args {
         result.spotOutDecimals = Number(next);
         i += 1;
         break;
+      case 'notional-usd':
+        result.notionalUsd = Number(next);
+        i += 1;
+        break;
       case 'spot-in-decimals':
         result.spotInDecimals = Number(next);
         i += 1;
@@ -115,13 +308,21 @@ function parseArgs(argv: string[]): Args {
         i += 1;
         break;
       case 'min-funding':
-        result.minFundingRate = next;
+        result.minFunding = parseMinFunding(next);
         i += 1;
         break;
       case 'perp-network':
         result.perpNetwork = next;
         i += 1;
         break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
       case 'spot-round-trip-bps':
         result.spotRoundTripBps = Number(next);
         i += 1;
@@ -154,6 +355,41 @@ function parseArgs(argv: string[]): Args {
         result.basisPremiumPctPerHr = Number(next);
         i += 1;
         break;
+      case 'funding-window-hours':
+        result.fundingWindowHours = Number(next);
+        i += 1;
+        break;
+      case 'funding-forecast':
+        if (next !== 'none' && !isFundingForecastModel(next)) {
+          throw new Error(`Invalid --funding-forecast '${next}'. Use ewma, mean_reverting or none.`);
+        }
+        result.fundingForecast = next;
+        i += 1;
+        break;
+      case 'scale-in':
+        result.scaleIn = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'position-id':
+        result.positionId = next;
+        i += 1;
+        break;
+      case 'supply-spot':
+        result.supplySpot = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'supply-venue':
+        result.supplyVenue = next;
+        i += 1;
+        break;
+      case 'supply-profile':
+        result.supplyProfile = next;
+        i += 1;
+        break;
+      case 'config':
+        result.config = next;
+        i += 1;
+        break;
       default:
         break;
     }
@@ -167,17 +403,25 @@ function normalizeFa(address?: string): string {
   return match ? `0x${match[1].toLowerCase()}` : address;
 }
 
-function ensureWebSocketGlobal() {
-  const globalRef = globalThis as unknown as { WebSocket?: typeof WebSocket };
-  if (!globalRef.WebSocket) {
-    globalRef.WebSocket = WebSocket as unknown as typeof WebSocket;
-  }
+function parseMinFunding(value: string | undefined): 'auto' | number | undefined {
+  if (value === undefined) return undefined;
+  if (value.toLowerCase() === 'auto') return 'auto';
+  const parsed = Number(value);
+  if (Number.isFinite(parsed)) return parsed;
+  console.warn(
+    `Invalid --min-funding value '${value}'. Ignoring hold-duration request.`,
+  );
+  return undefined;
 }
 
-export async function main() {
-  console.log('🚀 [DEBUG] Starting long-spot-short-perp main function');
-  const args = parseArgs(process.argv.slice(2));
-  console.log('🔧 [DEBUG] Parsed args:', JSON.stringify(args, null, 2));
+/**
+ * Buys spot APT on the best-quoting spot venue and hedges it with a perp short. Never touches
+ * process.argv or stdout, so it can be driven in-process (bot, daemon, ...).
+ */
+export async function runLongSpotShortPerp(
+  params: LongSpotShortPerpParams = {},
+): Promise<LongSpotShortPerpResult> {
+  const args = params;
 
   const hyperionNetwork = (args.hyperionNetwork ?? 'mainnet').toLowerCase();
   if (hyperionNetwork !== 'mainnet' && hyperionNetwork !== 'testnet') {
@@ -191,125 +435,99 @@ export async function main() {
   const spotOutDecimals = args.spotOutDecimals ?? 8;
   const slippageBps = args.slippageBps ?? 50;
   const safeMode = args.safeMode ?? false;
-  const perpPair = args.perpPair ?? 'APT_USD';
   const submitSpot = args.submitSpot ?? false;
   const submitPerp = args.submitPerp ?? false;
-  const perpNetwork = (args.perpNetwork ?? 'mainnet').toLowerCase();
 
-  const minFundingArg = args.minFundingRate;
+  const scaleTarget = args.scaleIn
+    ? findOpenPosition({ direction: 'long_spot_short_perp', perpPair: args.perpPair, id: args.positionId })
+    : undefined;
+  if (args.scaleIn && !scaleTarget) {
+    return {
+      action: 'abort',
+      reason: 'no_position_to_scale',
+      positionId: args.positionId,
+      message: 'Scale-in needs an open long-spot hedge in the position book.'
+    };
+  }
+  if (args.scaleIn && submitSpot !== submitPerp) {
+    // Adding one leg alone would leave the hedge's notionals mismatched.
+    return {
+      action: 'abort',
+      reason: 'scale_in_requires_both_legs',
+      message: 'Scale-in submits both legs or neither (use --submit-spot and --submit-perp together).'
+    };
+  }
+  const perpPair = args.perpPair ?? scaleTarget?.perpPair ?? 'APT_USD';
+
   let holdAnalysisMode: 'auto' | 'manual' | undefined;
   let manualFundingRatePct: number | undefined;
-  if (typeof minFundingArg === 'string') {
-    if (minFundingArg.toLowerCase() === 'auto') {
-      holdAnalysisMode = 'auto';
-    } else {
-      const parsed = Number(minFundingArg);
-      if (Number.isFinite(parsed)) {
-        holdAnalysisMode = 'manual';
-        manualFundingRatePct = parsed;
-      } else {
-        console.warn(
-          `Invalid --min-funding value '${minFundingArg}'. Ignoring hold-duration request.`,
-        );
-      }
-    }
+  if (args.minFunding === 'auto') {
+    holdAnalysisMode = 'auto';
+  } else if (typeof args.minFunding === 'number' && Number.isFinite(args.minFunding)) {
+    holdAnalysisMode = 'manual';
+    manualFundingRatePct = args.minFunding;
   }
 
-  ensureWebSocketGlobal();
-
-  const sdk = initHyperionSDK({
-    network:
-      hyperionNetwork === 'testnet'
-        ? AptosNetwork.TESTNET
-        : AptosNetwork.MAINNET,
-    APTOS_API_KEY: process.env.APTOS_API_KEY ?? '',
+  const clients = args.clients ?? await createArbitrageClients({
+    hyperionNetwork,
+    perpNetwork: args.perpNetwork,
+    perpVenue: args.perpVenue,
+    spotVenues: args.spotVenues,
   });
+  const { account, aptos, perp, spot } = clients;
+  const supplyVenue = args.supplySpot
+    ? createLendingVenue(args.supplyVenue, { aptos, account, config: ariesSpotSupplyConfig(args.supplyProfile) })
+    : undefined;
 
   const spotOutBaseUnits = BigInt(
     Math.round(Number(spotOutHuman) * 10 ** spotOutDecimals),
   );
 
-  const quote = await sdk.Swap.estToAmount({
-    from: spotFromFa,
-    to: spotToFa,
-    amount: spotOutBaseUnits.toString(),
+  const sized = await sizeHedge({
+    perp,
+    spot,
+    pair: perpPair,
+    direction: 'long_spot_short_perp',
+    aptFa: spotToFa,
+    usdcFa: spotFromFa,
+    target: args.notionalUsd !== undefined
+      ? { notionalUsd: args.notionalUsd }
+      : { spotQuantity: spotOutBaseUnits },
     safeMode,
   });
-
-  const bestRoute = (quote as any)?.bestRoute ?? quote;
-  if (!bestRoute?.path || bestRoute.path.length === 0) {
-    const errorResult = {
-      error: 'Hyperion returned no route',
-      rawResponse: quote
+  if (!sized.ok) {
+    return {
+      action: 'abort',
+      reason: 'spot_no_route',
+      message: 'No spot venue returned a route for USDC -> APT swap',
+      rawResponse: sized.rawQuote
     };
-    console.log(JSON.stringify(errorResult, null, 2));
-    return;
   }
+  const { sizing } = sized;
 
-  const { amountIn, amountOut, path } = bestRoute;
+  const { amountIn, amountOut, path } = sizing.route;
   const amountInBase = BigInt(amountIn);
   const amountOutBase = BigInt(amountOut);
 
-  const hyperionQuote = {
+  const spotQuote: SpotLegQuote = {
+    venue: sizing.route.venue,
     network: hyperionNetwork,
     outputToken: spotToFa,
-    outputAmount: spotOutHuman,
+    outputAmount: (Number(sizing.spotQuantity) / 10 ** spotOutDecimals).toString(),
     inputToken: spotFromFa,
     slippageBps: slippageBps,
     routePath: path,
     amountIn: amountIn,
     amountOut: amountOut,
     amountInBase: amountInBase.toString(),
-    amountOutBase: amountOutBase.toString()
+    amountOutBase: amountOutBase.toString(),
+    candidates: sizing.candidates,
   };
 
-  const slippagePercent = slippageBps / 100;
-
-  if (submitSpot) {
-    const payload = await sdk.Swap.swapTransactionPayload({
-      currencyA: spotFromFa,
-      currencyB: spotToFa,
-      currencyAAmount: amountIn,
-      currencyBAmount: amountOut,
-      slippage: slippagePercent,
-      poolRoute: path ?? [],
-      recipient: process.env.HYPERION_RECIPIENT ?? '',
-    });
-
-    const spotExecution = {
-      action: 'spot_swap_payload_generated',
-      payload: payload,
-      message: 'Submit via Aptos SDK to execute spot leg.'
-    };
-    console.log(JSON.stringify(spotExecution, null, 2));
-  }
-
-  const requiredUsdc = amountInBase;
-
-  ensureWebSocketGlobal();
-
-  const privateKeyHex = process.env.PRIVATE_KEY?.trim();
-  if (!privateKeyHex) {
-    throw new Error('Missing PRIVATE_KEY in environment.');
-  }
-  const privateKey = new Ed25519PrivateKey(privateKeyHex);
-  const account = Account.fromPrivateKey({ privateKey });
-
-  let merkleConfig;
-  if (perpNetwork === 'mainnet') {
-    merkleConfig = await MerkleClientConfig.mainnet();
-  } else if (perpNetwork === 'testnet') {
-    merkleConfig = await MerkleClientConfig.testnet();
-  } else {
-    throw new Error(`Unsupported perp network '${perpNetwork}'. Use 'mainnet' or 'testnet'.`);
-  }
-  const merkle = new MerkleClient(merkleConfig);
-  const aptos = new Aptos(merkleConfig.aptosConfig);
-
-  console.log('📊 [DEBUG] Getting pair info and state for:', perpPair);
-  const pairInfo = await merkle.getPairInfo({ pairId: perpPair });
-  const pairState = await merkle.getPairState({ pairId: perpPair });
-  console.log('📈 [DEBUG] Pair info retrieved, funding rate:', Number(pairState.fundingRate) / 1_000_000);
+  const [pairInfo, perpFunding] = await Promise.all([
+    perp.getPairInfo(perpPair),
+    perp.getFunding(perpPair),
+  ]);
   let autoSpotRoundTripBps: number | undefined;
   let autoPerpRoundTripBps: number | undefined;
   let spotRoundTripUsed: number | undefined;
@@ -317,8 +535,8 @@ export async function main() {
   let gasRoundTripBpsUsed: number | undefined;
   let costInputs: MinFundingInputs | undefined;
   let costBreakdown: MinFundingBreakdown | undefined;
-  let costAnalysis: any = null;
-  let fundingAnalysis: any = null;
+  let costAnalysis: LongSpotCostAnalysis | null = null;
+  let fundingAnalysis: LongSpotFundingAnalysis | null = null;
 
   if (holdAnalysisMode) {
     const userSpotRoundTripBps =
@@ -345,16 +563,17 @@ export async function main() {
       holdAnalysisMode === 'auto' || userSpotRoundTripBps === undefined;
     if (shouldEstimateSpotCost) {
       try {
-        const closeQuote = await sdk.Swap.estToAmount({
+        const { quote: closeQuote } = await spot.quote({
           from: spotToFa,
           to: spotFromFa,
-          amount: amountOutBase.toString(),
+          amount: amountOutBase,
+          estimate: 'from',
           safeMode,
         });
 
         const openUsdcSpent = amountInBase;
-        const closeUsdcReceived = BigInt(closeQuote?.amountOut ?? 0);
-        const closeAptRequired = BigInt(closeQuote?.amountIn ?? 0);
+        const closeUsdcReceived = closeQuote?.amountOut ?? 0n;
+        const closeAptRequired = closeQuote?.amountIn ?? 0n;
 
         if (closeAptRequired !== amountOutBase) {
           console.warn(
@@ -382,13 +601,41 @@ export async function main() {
       }
     }
 
-    const takerFeeFraction = Number(pairInfo.takerFee) / 1_000_000;
-    autoPerpRoundTripBps = takerFeeFraction * 2 * 10_000;
+    autoPerpRoundTripBps = pairInfo.takerFeeBps * 2;
     if (Number.isFinite(autoPerpRoundTripBps)) {
       // Store for later JSON output
     } else {
       autoPerpRoundTripBps = undefined;
-      console.warn('Failed to auto-estimate perp round-trip cost from Merkle fees.');
+      console.warn(`Failed to auto-estimate perp round-trip cost from ${perp.name} fees.`);
+    }
+
+    let supplyAprPct: number | undefined;
+    if (supplyVenue) {
+      try {
+        supplyAprPct = (await supplyVenue.getRates(supplyVenue.collateralAsset)).supplyAprPct;
+      } catch (error) {
+        console.warn(`Failed to read the ${supplyVenue.name} supply APR:`, (error as Error).message);
+      }
+    }
+
+    // In auto mode the risk buffer comes from the recorded funding history; explicit flags still win.
+    let fundingRisk: FundingRiskInputs | undefined;
+    let fundingStats: FundingStats | undefined;
+    if (holdAnalysisMode === 'auto') {
+      try {
+        fundingStats = readHistoricalFundingStats(perp, clients.perpNetwork, perpPair, args.fundingWindowHours);
+      } catch (error) {
+        console.warn('Failed to read the recorded funding history:', (error as Error).message);
+      }
+      if (fundingStats) {
+        fundingRisk = fundingRiskInputs(fundingStats, {
+          direction: 'long_spot_short_perp',
+          holdHours: args.holdHours,
+          zScore: args.zScore,
+        });
+      } else {
+        console.warn(`[cost inputs] Not enough recorded ${perp.name} funding history for ${perpPair}; the risk buffer uses the CLI flags only.`);
+      }
     }
 
     spotRoundTripUsed = userSpotRoundTripBps ?? autoSpotRoundTripBps;
@@ -400,9 +647,10 @@ export async function main() {
       gasRoundTripBps: gasRoundTripBpsUsed,
       capitalAprPct: args.capitalAprPct,
       holdHours: args.holdHours,
-      fundingStdPctPerHr: args.fundingStdPctPerHr,
-      zScore: args.zScore,
-      extraBasisPremiumPctPerHr: args.basisPremiumPctPerHr,
+      fundingStdPctPerHr: args.fundingStdPctPerHr ?? fundingRisk?.fundingStdPctPerHr,
+      zScore: args.zScore ?? fundingRisk?.zScore,
+      extraBasisPremiumPctPerHr: args.basisPremiumPctPerHr ?? fundingRisk?.extraBasisPremiumPctPerHr,
+      supplyAprPct,
     } satisfies MinFundingInputs;
 
     costBreakdown = computeMinFundingBreakdown(costInputs);
@@ -433,6 +681,12 @@ export async function main() {
         unit: '%/hr',
         apr: costBreakdown.normalizedInputs.capitalAprPct
       },
+      supplyYieldPerHour: {
+        value: costBreakdown.supplyYieldPctPerHour,
+        unit: '%/hr',
+        apr: costBreakdown.normalizedInputs.supplyAprPct,
+        venue: supplyVenue?.name
+      },
       breakevenPerHour: {
         value: costBreakdown.breakevenPctPerHour,
         unit: '%/hr'
@@ -441,34 +695,50 @@ export async function main() {
         value: costBreakdown.riskBufferPctPerHour,
         unit: '%/hr',
         zScore: costBreakdown.normalizedInputs.zScore,
-        fundingStd: costBreakdown.normalizedInputs.fundingStdPctPerHr
+        fundingStd: costBreakdown.normalizedInputs.fundingStdPctPerHr,
+        source: args.fundingStdPctPerHr === undefined && fundingRisk ? 'history' : 'override'
       },
       basisPremiumPerHour: {
         value: costBreakdown.basisPremiumPctPerHour,
-        unit: '%/hr'
-      }
+        unit: '%/hr',
+        source: args.basisPremiumPctPerHr === undefined && fundingRisk ? 'history' : 'override'
+      },
+      fundingHistory: fundingStats ?? null
     };
   }
 
-  const minSize = pairInfo.minimumPositionSize as unknown as bigint;
-  const minCollateral = pairInfo.minimumOrderCollateral as unknown as bigint;
+  const minSize = pairInfo.minimumPositionSize;
+  const minCollateral = pairInfo.minimumOrderCollateral;
 
   if (holdAnalysisMode) {
-    const nowSec = BigInt(Math.floor(Date.now() / 1000));
-    const { currentFundingRate } = calcFundingInfo({
-      pairInfo,
-      pairState,
-      timestampSec: nowSec,
-    });
-    const fundingRatePerDay = Number(currentFundingRate) /
-      MERKLE_FUNDING_RATE_SCALE;
-    const fundingPctPerHourActual = (fundingRatePerDay / HOURS_IN_DAY) * 100;
+    const fundingPctPerHourActual = perpFunding.fundingPctPerHour;
+
+    // Auto mode projects funding over the hold from the recorded history; without enough of it
+    // the live rate is assumed to hold flat.
+    let forecast: FundingForecast | undefined;
+    if (holdAnalysisMode === 'auto' && args.fundingForecast !== 'none') {
+      try {
+        forecast = readHistoricalFundingForecast(perp, clients.perpNetwork, perpPair, {
+          model: args.fundingForecast,
+          horizonHours: args.holdHours ?? DEFAULT_FORECAST_HORIZON_HOURS,
+          currentPctPerHour: fundingPctPerHourActual,
+          zScore: args.zScore,
+          windowHours: args.fundingWindowHours,
+        });
+      } catch (error) {
+        console.warn('Failed to forecast funding from the recorded history:', (error as Error).message);
+      }
+    }
 
-    const fundingForHold = holdAnalysisMode === 'auto'
-      ? fundingPctPerHourActual
-      : manualFundingRatePct ?? fundingPctPerHourActual;
+    const fundingForHold = forecast
+      ? forecast.expectedPctPerHour
+      : holdAnalysisMode === 'auto'
+        ? fundingPctPerHourActual
+        : manualFundingRatePct ?? fundingPctPerHourActual;
 
-    const breakeven = computeBreakevenHoldDuration(costInputs ?? {}, fundingForHold);
+    const breakeven: BreakevenHoldResult & Partial<ForecastBreakevenResult> = forecast
+      ? computeForecastBreakevenHold(costInputs ?? {}, receivedFundingPath(forecast, 'long_spot_short_perp'))
+      : computeBreakevenHoldDuration(costInputs ?? {}, fundingForHold);
 
     const tradingCostPct = breakeven.tradingCostPct;
     const netFundingPerHour = breakeven.netFundingPerHour;
@@ -483,19 +753,24 @@ export async function main() {
         value: fundingForHold,
         unit: '%/hr',
         mode: holdAnalysisMode,
+        source: forecast ? 'forecast' : holdAnalysisMode === 'auto' ? 'pair_state' : 'manual',
         manualInput: manualFundingRatePct
       },
+      forecast: forecast ? summarizeFundingForecast(forecast) : null,
       breakeven: {
         possible: breakeven.breakevenPossible,
         holdHours: breakeven.holdHours,
         holdDays: breakeven.holdDays,
+        expectedHoldHours: breakeven.expectedHoldHours,
+        expectedNetPct: breakeven.expectedNetPct,
+        lowerNetPct: breakeven.lowerNetPct,
         tradingCostPct: tradingCostPct,
         netFundingPerHour: netFundingPerHour
       }
     };
 
     if (!breakeven.breakevenPossible || netFundingPerHour <= 0) {
-      const abortResult = {
+      return {
         action: 'abort',
         reason: 'insufficient_funding',
         fundingRate: fundingForHold,
@@ -503,116 +778,269 @@ export async function main() {
         netFunding: netFundingPerHour,
         analysis: fundingAnalysis
       };
-      console.log(JSON.stringify(abortResult, null, 2));
-      return;
     }
   }
 
-  const sizeDelta = requiredUsdc > minSize ? requiredUsdc : minSize;
+  // The spot leg only runs once the funding checks pass, and the perp leg
+  // only runs once the spot fill is confirmed on-chain. If the perp side
+  // throws, the spot swap is reversed so the wallet is not left unhedged.
+  const journal = submitSpot || submitPerp
+    ? openJournalRun('long_spot_short_perp', {
+      hyperionNetwork,
+      perpNetwork: clients.perpNetwork,
+      perp: { venue: clients.perp.name, config: clients.perp.describe() },
+      spotVenues: clients.spot.venues.map((venue) => venue.name),
+      perpPair,
+      usdcFa: spotFromFa,
+      aptFa: spotToFa,
+      slippageBps,
+      perpCollateral: args.perpCollateral,
+      scaleInto: scaleTarget?.id,
+      supply: supplyVenue && { venue: supplyVenue.name, config: supplyVenue.describe() },
+    })
+    : undefined;
+  const plan = createCompensationPlan({ journal });
 
-  // Default to 1x leverage (collateral = size) unless specified otherwise
-  const collateralInput = args.perpCollateral
-    ? BigInt(Math.round(Number(args.perpCollateral) * 1_000_000))
-    : sizeDelta;
-  const collateralDelta = collateralInput > minCollateral
-    ? collateralInput
-    : minCollateral;
+  return withCompensation(plan, async (): Promise<LongSpotShortPerpResult> => {
+    let spotExecution: SpotExecution | null = null;
+    let spotSupply: SpotSupplyExecution | null = null;
+    // APT the perp leg has to offset: the quoted amount until the fill is known.
+    let hedgedApt = amountOutBase;
 
-  const perpLeg = {
-    pair: perpPair,
-    sizeDelta: sizeDelta.toString(),
-    collateralDelta: collateralDelta.toString(),
-    direction: 'SHORT',
-    submitPerp: submitPerp
-  };
+    if (submitSpot) {
+      const owner = account.accountAddress.toString();
+      const [usdcBefore, aptBefore] = await Promise.all([
+        getFaBalance(aptos, owner, spotFromFa),
+        getFaBalance(aptos, owner, spotToFa),
+      ]);
 
-  if (!submitPerp) {
-    const dryRunResult = {
-      action: 'dry_run',
-      message: 'Perp leg dry run (pass --submit-perp true to execute).',
-      perpLeg: perpLeg,
-      hyperionQuote: hyperionQuote,
-      costAnalysis: costAnalysis,
-      fundingAnalysis: fundingAnalysis
-    };
-    console.log(JSON.stringify(dryRunResult, null, 2));
-    return;
-  }
+      if (usdcBefore < amountInBase) {
+        return {
+          action: 'abort',
+          reason: 'insufficient_spot_balance',
+          required: amountInBase.toString(),
+          available: usdcBefore.toString(),
+          spotQuote: spotQuote,
+          message: `Wallet USDC balance does not cover the ${spotQuote.venue} quote; nothing was submitted.`
+        };
+      }
 
-  // Check and deposit USDC to Merkle if needed
-  const merkleBalance = await merkle.getUsdcBalance({ accountAddress: account.accountAddress });
-  let depositResult = null;
+      const payload = await spot.buildSwapPayload({
+        quote: sizing.quote,
+        slippageBps,
+        recipient: owner,
+      });
 
-  if (merkleBalance < collateralDelta) {
-    const deficit = collateralDelta - merkleBalance;
+      const { swapPending, swapCommitted } = await plan.run('hyperion_swap', async () => {
+        const swapTxn = await aptos.transaction.build.simple({
+          sender: account.accountAddress,
+          data: payload,
+        });
+        const swapPending = await aptos.signAndSubmitTransaction({
+          signer: account,
+          transaction: swapTxn,
+        });
+        const swapCommitted = await aptos.waitForTransaction({
+          transactionHash: swapPending.hash,
+          options: { checkSuccess: true },
+        });
+        return { swapPending, swapCommitted };
+      }, {
+        transactionHash: ({ swapPending }) => swapPending.hash,
+        detail: () => ({ venue: spotQuote.venue }),
+        compensate: async () => {
+          // Sell back only the APT this swap delivered, keeping the rest of the wallet intact.
+          const aptNow = await getFaBalance(aptos, owner, spotToFa);
+          const available = aptNow > aptBefore ? aptNow - aptBefore : 0n;
+          return reverseSpotSwap({
+            aptos,
+            account,
+            spot,
+            fromFa: spotToFa,
+            toFa: spotFromFa,
+            amount: available,
+            slippageBps,
+          });
+        },
+      });
 
-    // Deposit USDC to Merkle vault using SDK
-    const depositPayload = await merkle.payloads.depositUsdc({
-      userAddress: account.accountAddress,
-      amount: deficit,
-    });
+      const [usdcAfter, aptAfter] = await Promise.all([
+        getFaBalance(aptos, owner, spotFromFa),
+        getFaBalance(aptos, owner, spotToFa),
+      ]);
 
-    const depositTxn = await aptos.transaction.build.simple({
-      sender: account.accountAddress,
-      data: depositPayload,
-    });
-    const depositPending = await aptos.signAndSubmitTransaction({
-      signer: account,
-      transaction: depositTxn,
-    });
-    await aptos.waitForTransaction({
-      transactionHash: depositPending.hash,
+      // Gas is paid in APT, so add it back to get the amount the swap delivered.
+      const gasFee = spotToFa === '0xa' ? gasFeeOctas(swapCommitted) : 0n;
+      const aptReceived = aptAfter - aptBefore + gasFee;
+      const usdcSpent = usdcBefore - usdcAfter;
+      const minAptOut = (amountOutBase * BigInt(10_000 - slippageBps)) / 10_000n;
+
+      spotExecution = {
+        action: 'usdc_swapped_for_apt',
+        transactionHash: swapPending.hash,
+        version: swapCommitted.version,
+        usdcSpent: usdcSpent.toString(),
+        aptQuoted: amountOutBase.toString(),
+        aptReceived: aptReceived.toString(),
+        minAptOut: minAptOut.toString(),
+        gasFeeOctas: gasFee.toString()
+      };
+      journal?.annotate({
+        aptReceived: aptReceived.toString(),
+        usdcSpent: usdcSpent.toString(),
+      });
+
+      if (aptReceived < minAptOut || usdcSpent <= 0n) {
+        return {
+          action: 'abort',
+          reason: 'spot_fill_mismatch',
+          spotQuote: spotQuote,
+          spotExecution: spotExecution,
+          steps: plan.report(),
+          journalId: journal?.id,
+          message: 'Spot swap confirmed but the APT received is below the slippage floor; perp leg not opened.'
+        };
+      }
+
+      hedgedApt = aptReceived;
+
+      if (supplyVenue) {
+        // Supplied before the perp leg, so a perp failure withdraws it ahead of the swap reversal.
+        spotSupply = {
+          venue: supplyVenue.name,
+          amount: aptReceived.toString(),
+          transactionHash: await supplySpotToVenue(plan, supplyVenue, aptReceived),
+        };
+      }
+    }
+
+    const matchedSize = perpSizeForSpot(hedgedApt, sizing.markPrice);
+    const sizeDelta = matchedSize > minSize ? matchedSize : minSize;
+
+    // Default to 1x leverage (collateral = size) unless specified otherwise
+    const collateralInput = args.perpCollateral
+      ? BigInt(Math.round(Number(args.perpCollateral) * 1_000_000))
+      : sizeDelta;
+    const collateralDelta = collateralInput > minCollateral
+      ? collateralInput
+      : minCollateral;
+
+    journal?.annotate({
+      sizeDelta: sizeDelta.toString(),
+      collateralDelta: collateralDelta.toString(),
     });
 
-    depositResult = {
-      action: 'usdc_deposited',
-      deficit: deficit.toString(),
-      transactionHash: depositPending.hash,
-      merkleBalanceBefore: merkleBalance.toString()
+    const perpLeg: PerpLeg = {
+      pair: perpPair,
+      sizeDelta: sizeDelta.toString(),
+      collateralDelta: collateralDelta.toString(),
+      direction: 'SHORT',
+      markPrice: sizing.markPrice,
+      residualDelta: residualDelta(hedgedApt, sizeDelta, sizing.markPrice),
+      sizeSource: spotExecution ? 'spot_fill' : 'quote',
+      submitPerp: submitPerp
     };
-  }
 
-  const payload = await merkle.payloads.placeMarketOrder({
-    pair: perpPair,
-    userAddress: account.accountAddress,
-    sizeDelta,
-    collateralDelta,
-    isLong: false,
-    isIncrease: true,
-  });
+    if (!submitPerp) {
+      return {
+        action: 'dry_run',
+        message: 'Perp leg dry run (pass --submit-perp true to execute).',
+        perpLeg: perpLeg,
+        spotQuote: spotQuote,
+        spotExecution: spotExecution,
+        costAnalysis: costAnalysis,
+        fundingAnalysis: fundingAnalysis,
+        steps: plan.report(),
+        journalId: journal?.id
+      };
+    }
 
-  const rawTxn = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: payload,
-  });
+    const depositResult = await depositPerpCollateral(plan, perp, collateralDelta);
 
-  const pending = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction: rawTxn,
-  });
-  const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-
-  const executionResult = {
-    action: 'arbitrage_executed',
-    strategy: 'long_spot_short_perp',
-    hyperionQuote: hyperionQuote,
-    perpLeg: perpLeg,
-    costAnalysis: costAnalysis,
-    fundingAnalysis: fundingAnalysis,
-    depositResult: depositResult,
-    perpTransaction: {
-      hash: pending.hash,
-      version: committed.version,
+    const perpOrder = await plan.run('perp_open', () => perp.placeMarketOrder({
       pair: perpPair,
-      sizeDelta: sizeDelta.toString(),
-      collateralDelta: collateralDelta.toString()
+      sizeDelta,
+      collateralDelta,
+      isLong: false,
+      isIncrease: true,
+    }), {
+      transactionHash: (order) => order.transactionHash,
+      // Recording the hedge can still fail; never leave the short open without its spot leg.
+      compensate: () => closePerpPosition({ perp, pair: perpPair, size: sizeDelta, isLong: false }),
+    });
+
+    const legs = {
+      spotQuantity: spotExecution?.aptReceived ?? '0',
+      perpSize: sizeDelta.toString(),
+      perpCollateral: collateralDelta.toString(),
+      ariesLoanAmount: '0',
+      entryPrices: {
+        spot: spotExecution
+          ? spotFillPrice(BigInt(spotExecution.usdcSpent), BigInt(spotExecution.aptReceived))
+          : null,
+        perp: await fetchPerpEntryPrice(perp, perpPair),
+      },
+      transactions: {
+        spot: spotExecution?.transactionHash,
+        deposit: depositResult?.transactionHash,
+        perp: perpOrder.transactionHash,
+        supply: spotSupply?.transactionHash,
+      },
+    };
+    const supplied = supplyVenue && spotSupply
+      ? { venue: supplyVenue.name, config: supplyVenue.describe(), amount: spotSupply.amount }
+      : undefined;
+    let position = scaleTarget
+      ? scaleInPosition(scaleTarget.id, legs) ?? scaleTarget
+      : recordOpenPosition({
+        direction: 'long_spot_short_perp',
+        perpPair,
+        spotAsset: spotToFa,
+        ...legs,
+        spotSupply: supplied,
+        journalId: journal?.id,
+      });
+    if (scaleTarget && supplied) {
+      position = addSpotSupply(position.id, supplied) ?? position;
     }
-  };
 
-  console.log(JSON.stringify(executionResult, null, 2));
+    return {
+      action: 'arbitrage_executed',
+      strategy: 'long_spot_short_perp',
+      spotQuote: spotQuote,
+      spotExecution: spotExecution,
+      perpLeg: perpLeg,
+      costAnalysis: costAnalysis,
+      fundingAnalysis: fundingAnalysis,
+      depositResult: depositResult,
+      spotSupply: spotSupply,
+      perpTransaction: {
+        hash: perpOrder.transactionHash,
+        version: perpOrder.version,
+        pair: perpPair,
+        sizeDelta: sizeDelta.toString(),
+        collateralDelta: collateralDelta.toString()
+      },
+      steps: plan.report(),
+      journalId: journal?.id,
+      positionId: position.id
+    };
+  });
 }
 
-main().catch((error) => {
-  console.error('Arbitrage script error:', error);
-  process.exitCode = 1;
-});
+export async function main() {
+  console.log('🚀 [DEBUG] Starting long-spot-short-perp main function');
+  const args = parseArgs(process.argv.slice(2));
+  const params: LongSpotShortPerpParams = { ...readStrategyConfig(args.config), ...args };
+  console.log('🔧 [DEBUG] Parsed args:', JSON.stringify(params, null, 2));
+  const result = await runLongSpotShortPerp(params);
+  printResult(result);
+  return result;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Arbitrage script error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,153 @@
+import assert from 'assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { after, describe, it } from 'node:test';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { type Account, type Aptos } from '@aptos-labs/ts-sdk';
+import { type MemoryLendingVenue } from '../borrow/memory-venue.js';
+import { planFullRepayLive } from '../borrow/repay.js';
+import { createLendingVenue, openVenueBorrow } from '../borrow/venue.js';
+import { type MemoryPerpVenue } from '../perp/memory-venue.js';
+import { createPerpVenue, findPerpPosition } from '../perp/venue.js';
+import {
+  hedgeLoanShare,
+  hedgePerpShare,
+  hedgeSupplyShare,
+  recordOpenPosition,
+  type NewHedgePosition,
+} from './position-book.js';
+
+// The memory venues never touch the chain, so the client handles stay unused.
+const context = { aptos: {} as Aptos, account: {} as Account };
+const PAIR = 'APT_USD';
+
+async function memoryVenues() {
+  const lending = createLendingVenue('memory', {
+    ...context,
+    config: { collateralPerBorrow: 2, borrowAprPct: 10 },
+  }) as MemoryLendingVenue;
+  const perp = await createPerpVenue('memory', {
+    ...context,
+    network: 'mainnet',
+    config: { collateral: '1000000000', markPrices: { [PAIR]: 10 } },
+  }) as MemoryPerpVenue;
+  return { lending, perp };
+}
+
+function shortSpotHedge(perpSize: bigint, perpCollateral: bigint, loan: bigint): NewHedgePosition {
+  return {
+    direction: 'short_spot_long_perp',
+    perpPair: PAIR,
+    spotAsset: '0xa',
+    spotQuantity: loan.toString(),
+    perpSize: perpSize.toString(),
+    perpCollateral: perpCollateral.toString(),
+    ariesLoanAmount: loan.toString(),
+    entryPrices: { spot: 10, perp: 10 },
+    transactions: {},
+  };
+}
+
+describe('memory venues', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'arb-memory-venues-'));
+  const bookPath = join(dir, 'positions.json');
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('are selected by name from the venue registries', async () => {
+    const { lending, perp } = await memoryVenues();
+    assert.equal(lending.name, 'memory');
+    assert.equal(perp.name, 'memory');
+    assert.equal(await perp.getCollateralBalance(), 1_000_000_000n);
+  });
+
+  it('open and fully close a short-spot hedge', async () => {
+    const { lending, perp } = await memoryVenues();
+
+    // Open: borrow 10 APT against twice the collateral and go long the perp.
+    const borrowed = await openVenueBorrow(lending, 1_000_000_000n);
+    assert.equal(borrowed.collateralDeposited, 2_000_000_000n);
+    assert.equal(await lending.getLoan(), 1_000_000_000n);
+    await perp.placeMarketOrder({
+      pair: PAIR,
+      isLong: true,
+      isIncrease: true,
+      sizeDelta: 100_000_000n,
+      collateralDelta: 10_000_000n,
+    });
+    assert.equal(await perp.getCollateralBalance(), 990_000_000n);
+
+    // A day of interest, then repay the buffered plan and free the collateral.
+    lending.accrue(24 * 60 * 60);
+    const loan = await lending.getLoan();
+    assert.ok(loan > 1_000_000_000n);
+    const plan = await planFullRepayLive({ venue: lending, loan });
+    assert.equal(plan.borrowAprSource, 'venue');
+    assert.ok(BigInt(plan.repayAmount) > loan);
+    await lending.repay(BigInt(plan.repayAmount));
+    assert.equal(await lending.getLoan(), 0n);
+    const { deposited, minimum } = await lending.getCollateral();
+    await lending.withdrawCollateral(deposited - minimum);
+    assert.equal(lending.state().collateral, 0n);
+
+    // APT rallied 10%: the full close releases the margin plus the long's PnL.
+    perp.setMarkPrice(PAIR, 11);
+    await perp.placeMarketOrder({
+      pair: PAIR,
+      isLong: true,
+      isIncrease: false,
+      sizeDelta: 100_000_000n,
+      collateralDelta: 0n,
+    });
+    assert.equal(await findPerpPosition(perp, PAIR), undefined);
+    assert.equal(await perp.getCollateralBalance(), 1_010_000_000n);
+  });
+
+  it('close only their own share when two hedges share the venue position and loan', async () => {
+    const { perp } = await memoryVenues();
+    for (let i = 0; i < 2; i += 1) {
+      await perp.placeMarketOrder({
+        pair: PAIR,
+        isLong: true,
+        isIncrease: true,
+        sizeDelta: 50_000_000n,
+        collateralDelta: 5_000_000n,
+      });
+    }
+    const first = recordOpenPosition(shortSpotHedge(50_000_000n, 5_000_000n, 500_000_000n), bookPath);
+    recordOpenPosition(shortSpotHedge(50_000_000n, 5_000_000n, 1_500_000_000n), bookPath);
+
+    const open = await findPerpPosition(perp, PAIR);
+    assert.ok(open);
+    const share = hedgePerpShare(first, open);
+    assert.deepEqual(share, { size: 50_000_000n, collateral: 5_000_000n, whole: false });
+    await perp.placeMarketOrder({
+      pair: PAIR,
+      isLong: true,
+      isIncrease: false,
+      sizeDelta: share.size,
+      collateralDelta: share.collateral,
+    });
+    const remaining = await findPerpPosition(perp, PAIR);
+    assert.equal(remaining?.size, 50_000_000n);
+    assert.equal(remaining?.collateral, 5_000_000n);
+
+    // Accrued interest is split in proportion to each hedge's principal.
+    assert.deepEqual(hedgeLoanShare(first, 2_000_400_000n, bookPath), { amount: 500_100_000n, whole: false });
+    assert.deepEqual(hedgeLoanShare(undefined, 2_000_400_000n, bookPath), { amount: 2_000_400_000n, whole: true });
+  });
+
+  it('withdraw only their own share of a supply balance other hedges also use', () => {
+    const supplied = (amount: bigint, profile: string): NewHedgePosition => ({
+      ...shortSpotHedge(0n, 0n, 0n),
+      direction: 'long_spot_short_perp',
+      spotQuantity: amount.toString(),
+      spotSupply: { venue: 'memory', config: { profile }, amount: amount.toString() },
+    });
+    const first = recordOpenPosition(supplied(100_000_000n, 'supply'), bookPath);
+    recordOpenPosition(supplied(300_000_000n, 'supply'), bookPath);
+    const alone = recordOpenPosition(supplied(50_000_000n, 'other'), bookPath);
+
+    assert.deepEqual(hedgeSupplyShare(first, 400_800_000n, bookPath), { amount: 100_200_000n, whole: false });
+    assert.deepEqual(hedgeSupplyShare(alone, 50_010_000n, bookPath), { amount: 50_010_000n, whole: true });
+  });
+});
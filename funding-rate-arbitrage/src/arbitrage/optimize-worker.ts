@@ -0,0 +1,111 @@
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { computeFundingStats, hourlyFunding } from '../perp/funding-stats.js';
+import {
+  simulateCarry,
+  type BacktestConfig,
+  type BacktestData,
+  type FundingPoint,
+} from './backtest.js';
+import { MIN_RISK_HISTORY_HOURS, fundingRiskInputs } from './funding.js';
+
+/**
+ * Worker side of `arb:optimize`: holds the replay data it was started with
+ * and answers one `SweepTask` message per backtest. Kept out of
+ * `optimize.ts` because a worker inherits the parent's argv, so the CLI
+ * entry check there would start a second optimizer inside every worker.
+ */
+
+/** Half-open range of epoch milliseconds. */
+export type SweepWindow = { from: number; to: number };
+
+export type SweepTask = {
+  id: number;
+  config: BacktestConfig;
+  /** Funding replayed; earlier prices stay visible so the first step has one. */
+  window: SweepWindow;
+  /**
+   * History the funding std behind `zScore` is estimated from when the config
+   * does not fix it: the fold's train window, so a test never sees itself.
+   */
+  riskWindow?: SweepWindow;
+};
+
+export type SweepMetrics = {
+  /** Annualised, from per-step equity returns. */
+  sharpe: number;
+  maxDrawdownPct: number;
+  /** Funding plus interest, before execution costs and basis. */
+  carryUsd: number;
+  totalPnlUsd: number;
+  returnPct: number;
+  trades: number;
+  exposureHours: number;
+};
+
+export type SweepTaskResult = {
+  id: number;
+  metrics?: SweepMetrics;
+  fundingStdPctPerHr?: number;
+  error?: string;
+};
+
+function inWindow(at: number, window: SweepWindow): boolean {
+  return at >= window.from && at < window.to;
+}
+
+/**
+ * Hold-horizon funding std (%/hr) over `window`, as the live flows derive it
+ * from recorded history, or undefined with under a day of hours.
+ */
+export function estimateFundingStd(
+  funding: FundingPoint[],
+  window: SweepWindow,
+  holdHours?: number,
+): number | undefined {
+  const hourly = hourlyFunding(funding
+    .filter((point) => inWindow(point.at, window))
+    .map((point) => ({ at: new Date(point.at).toISOString(), fundingPctPerHour: point.fundingPctPerHour })));
+  if (hourly.length < MIN_RISK_HISTORY_HOURS) return undefined;
+  // The std does not depend on the direction, only the basis premium does.
+  return fundingRiskInputs(computeFundingStats(hourly), { direction: 'long_spot_short_perp', holdHours })
+    .fundingStdPctPerHr;
+}
+
+export function evaluateSweepTask(data: BacktestData, task: SweepTask): SweepTaskResult {
+  const config: BacktestConfig = { ...task.config, costs: { ...task.config.costs } };
+  if (task.riskWindow && config.costs.fundingStdPctPerHr === undefined) {
+    config.costs.fundingStdPctPerHr = estimateFundingStd(data.funding, task.riskWindow, config.costs.holdHours);
+  }
+
+  const { summary } = simulateCarry({
+    funding: data.funding.filter((point) => inWindow(point.at, task.window)),
+    spot: data.spot.filter((point) => point.at < task.window.to),
+    mark: data.mark.filter((point) => point.at < task.window.to),
+  }, config);
+
+  return {
+    id: task.id,
+    fundingStdPctPerHr: config.costs.fundingStdPctPerHr,
+    metrics: {
+      sharpe: summary.sharpe,
+      maxDrawdownPct: summary.maxDrawdownPct,
+      carryUsd: summary.pnl.fundingUsd + summary.pnl.interestUsd,
+      totalPnlUsd: summary.pnl.totalUsd,
+      returnPct: summary.returnPct,
+      trades: summary.trades,
+      exposureHours: summary.exposureHours,
+    },
+  };
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  const data = (workerData as { data: BacktestData }).data;
+  port.on('message', (task: SweepTask) => {
+    try {
+      port.postMessage(evaluateSweepTask(data, task));
+    } catch (error) {
+      port.postMessage({ id: task.id, error: (error as Error)?.message ?? String(error) } satisfies SweepTaskResult);
+    }
+  });
+}
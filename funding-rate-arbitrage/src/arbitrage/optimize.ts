@@ -0,0 +1,516 @@
+import 'dotenv/config';
+import { availableParallelism } from 'os';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { isCliEntry } from '../utils/cli.js';
+import {
+  backtestConfig,
+  loadBacktestData,
+  parseBacktestArgs,
+  type BacktestData,
+  type BacktestParams,
+} from './backtest.js';
+import {
+  estimateFundingStd,
+  type SweepMetrics,
+  type SweepTask,
+  type SweepTaskResult,
+  type SweepWindow,
+} from './optimize-worker.js';
+import { strategyConfigPath, writeStrategyConfig, type StrategyParams } from './strategy-config.js';
+
+/**
+ * Parameter sweep over the backtester. Every set is replayed on walk-forward
+ * folds: the history is cut into `folds + 1` chronological chunks and fold k
+ * trains on chunks 1..k and tests on chunk k + 1, so each test only follows
+ * the data a set could have been chosen on. Sets are ranked by their
+ * out-of-sample (test) metrics; each fold also reports the set its train
+ * window alone would have picked, which is what a periodically re-tuned
+ * strategy would actually have traded. Backtests run in worker threads.
+ */
+
+export type SweepDimension = 'holdHours' | 'zScore' | 'entryThresholdPctPerHr' | 'slippageBps' | 'notionalUsd';
+
+/** A list of values, or a range: walked in `step`s by the grid, drawn uniformly by random search. */
+export type ValueSpec = { values: number[] } | { min: number; max: number; step?: number };
+
+export type RankBy = 'sharpe' | 'max_drawdown' | 'total_carry' | 'combined';
+
+export const RANK_BY: RankBy[] = ['sharpe', 'max_drawdown', 'total_carry', 'combined'];
+
+export type OptimizeParams = BacktestParams & {
+  sweep?: Partial<Record<SweepDimension, ValueSpec>>;
+  /** Draw this many random sets instead of walking the full grid. */
+  samples?: number;
+  /** Seed of the random search, for repeatable draws. */
+  seed?: number;
+  /** Walk-forward folds; 4 by default, 0 ranks on the whole history in-sample. */
+  folds?: number;
+  /** Worker threads; one less than the CPUs by default. */
+  workers?: number;
+  /** `combined` (the default) averages each set's rank under the other three. */
+  rankBy?: RankBy;
+  /** Sets listed in the output; 10 by default. */
+  top?: number;
+  /** Write the winning set as a strategy config to this file. */
+  exportPath?: string;
+};
+
+export type SweepSet = {
+  id: number;
+  params: Partial<Record<SweepDimension, number>>;
+};
+
+export type SetEvaluation = SweepSet & {
+  /** Aggregate over the test windows (the whole history with no folds). */
+  test: SweepMetrics;
+  /** Aggregate over the train windows; a large gap to `test` points to overfitting. */
+  train?: SweepMetrics;
+};
+
+export type WalkForwardFold = {
+  fold: number;
+  train: { from: string; to: string };
+  test: { from: string; to: string };
+  /** The set ranked best on this fold's train window. */
+  setId: number;
+  params: SweepSet['params'];
+  trainMetrics: SweepMetrics;
+  testMetrics: SweepMetrics;
+};
+
+export type OptimizeResult = {
+  action: 'optimize_completed';
+  search: 'grid' | 'random';
+  /** Seed of the random search; pass it back as --seed to draw the same sets. */
+  seed?: number;
+  sets: number;
+  /** Sets dropped because their entry threshold fell below the exit threshold. */
+  skipped: number;
+  folds: number;
+  workers: number;
+  rankBy: RankBy;
+  from: string;
+  to: string;
+  ranking: Array<SetEvaluation & { rank: number }>;
+  walkForward: {
+    folds: WalkForwardFold[];
+    /** Test metrics of the per-fold picks chained together. */
+    outOfSample?: SweepMetrics;
+  };
+  winner: SetEvaluation;
+  /** Params written by `--export`, including the fixed flags. */
+  config: StrategyParams;
+  exported?: string;
+};
+
+const SWEEP_FLAGS: Record<string, SweepDimension> = {
+  'sweep-hold-hours': 'holdHours',
+  'sweep-z-score': 'zScore',
+  'sweep-min-net-funding': 'entryThresholdPctPerHr',
+  'sweep-slippage-bps': 'slippageBps',
+  'sweep-notional-usd': 'notionalUsd',
+};
+
+/** Flags the live scripts share with the backtester, carried into the exported config. */
+const STRATEGY_KEYS: (keyof StrategyParams)[] = [
+  'holdHours',
+  'zScore',
+  'fundingStdPctPerHr',
+  'basisPremiumPctPerHr',
+  'entryThresholdPctPerHr',
+  'exitThresholdPctPerHr',
+  'confirmations',
+  'slippageBps',
+  'notionalUsd',
+  'spotRoundTripBps',
+  'perpRoundTripBps',
+  'gasRoundTripBps',
+  'capitalAprPct',
+  'borrowAprPct',
+];
+
+/** `a,b,c` lists values; `min:max:step` is a stepped range and `min:max` a continuous one. */
+export function parseValueSpec(value: string | undefined, flag: string): ValueSpec {
+  if (!value) {
+    throw new Error(`--${flag} needs a value list 'a,b,c' or a range 'min:max[:step]'.`);
+  }
+  if (value.includes(':')) {
+    const [min, max, step] = value.split(':').map(Number);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      throw new Error(`Invalid --${flag} range '${value}'.`);
+    }
+    if (step !== undefined && !(step > 0)) {
+      throw new Error(`Invalid --${flag} step in '${value}'; it must be positive.`);
+    }
+    return step === undefined ? { min, max } : { min, max, step };
+  }
+  const values = value.split(',').map((entry) => Number(entry.trim()));
+  if (values.some((entry) => !Number.isFinite(entry))) {
+    throw new Error(`Invalid --${flag} value list '${value}'.`);
+  }
+  return { values };
+}
+
+/** Every value of `spec` for a grid search. */
+export function expandValueSpec(spec: ValueSpec, dimension: SweepDimension): number[] {
+  if ('values' in spec) return spec.values;
+  if (spec.step === undefined) {
+    if (spec.min === spec.max) return [spec.min];
+    throw new Error(`The ${dimension} range needs a step for a grid search; pass --samples for a random search.`);
+  }
+  const count = Math.floor((spec.max - spec.min) / spec.step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, k) => Number((spec.min + k * spec.step!).toFixed(10)));
+}
+
+/** Deterministic PRNG (mulberry32) so a seeded search draws the same sets. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function drawValue(spec: ValueSpec, random: () => number, dimension: SweepDimension): number {
+  if ('values' in spec || spec.step !== undefined) {
+    const values = expandValueSpec(spec, dimension);
+    return values[Math.floor(random() * values.length)];
+  }
+  return Number((spec.min + random() * (spec.max - spec.min)).toPrecision(6));
+}
+
+/**
+ * The sets to evaluate: the full grid, or `samples` distinct random draws.
+ * Sets that would open below the exit threshold are dropped, as the
+ * backtester rejects them.
+ */
+export function buildSweepSets(params: OptimizeParams): { sets: SweepSet[]; skipped: number } {
+  const dimensions = Object.entries(params.sweep ?? {}) as [SweepDimension, ValueSpec][];
+  const exit = params.exitThresholdPctPerHr ?? 0;
+  const valid = (set: SweepSet['params']) => (set.entryThresholdPctPerHr ?? params.entryThresholdPctPerHr ?? 0) >= exit;
+
+  let candidates: SweepSet['params'][];
+  if (params.samples !== undefined) {
+    if (!(params.samples > 0)) {
+      throw new Error(`--samples must be positive; got ${params.samples}.`);
+    }
+    const random = seededRandom(params.seed ?? 0);
+    const seen = new Map<string, SweepSet['params']>();
+    for (let attempt = 0; attempt < params.samples * 20 && seen.size < params.samples; attempt += 1) {
+      const set = Object.fromEntries(dimensions.map(([dimension, spec]) => [dimension, drawValue(spec, random, dimension)]));
+      seen.set(JSON.stringify(set), set);
+    }
+    candidates = [...seen.values()];
+  } else {
+    candidates = dimensions.reduce<SweepSet['params'][]>(
+      (sets, [dimension, spec]) => sets.flatMap((set) =>
+        expandValueSpec(spec, dimension).map((value) => ({ ...set, [dimension]: value }))),
+      [{}],
+    );
+  }
+
+  const kept = candidates.filter(valid);
+  return {
+    sets: kept.map((set, index) => ({ id: index + 1, params: set })),
+    skipped: candidates.length - kept.length,
+  };
+}
+
+/** Anchored walk-forward splits of `[from, to)`; a single in-sample window with no folds. */
+export function walkForwardSplits(
+  from: number,
+  to: number,
+  folds: number,
+): Array<{ train: SweepWindow; test: SweepWindow }> {
+  if (folds <= 0) return [{ train: { from, to }, test: { from, to } }];
+  const chunk = (to - from) / (folds + 1);
+  return Array.from({ length: folds }, (_, index) => {
+    const split = from + chunk * (index + 1);
+    return {
+      train: { from, to: split },
+      test: { from: split, to: index === folds - 1 ? to : split + chunk },
+    };
+  });
+}
+
+/** Sharpe averaged, drawdown the worst, P&L and counts summed. */
+export function aggregateMetrics(metrics: SweepMetrics[]): SweepMetrics {
+  const sum = (pick: (entry: SweepMetrics) => number) => metrics.reduce((total, entry) => total + pick(entry), 0);
+  return {
+    sharpe: metrics.length > 0 ? sum((entry) => entry.sharpe) / metrics.length : 0,
+    maxDrawdownPct: Math.max(0, ...metrics.map((entry) => entry.maxDrawdownPct)),
+    carryUsd: sum((entry) => entry.carryUsd),
+    totalPnlUsd: sum((entry) => entry.totalPnlUsd),
+    returnPct: sum((entry) => entry.returnPct),
+    trades: sum((entry) => entry.trades),
+    exposureHours: sum((entry) => entry.exposureHours),
+  };
+}
+
+/** Lower is better for every key. */
+const RANK_KEYS: Record<Exclude<RankBy, 'combined'>, (metrics: SweepMetrics) => number> = {
+  sharpe: (metrics) => -metrics.sharpe,
+  max_drawdown: (metrics) => metrics.maxDrawdownPct,
+  total_carry: (metrics) => -metrics.carryUsd,
+};
+
+/** `entries` best first; ties go to the higher total P&L, then the lower id. */
+export function rankEntries<T extends { id: number }>(
+  entries: T[],
+  metricsOf: (entry: T) => SweepMetrics,
+  rankBy: RankBy,
+): T[] {
+  const positions = (key: (metrics: SweepMetrics) => number) => {
+    const values = entries.map((entry) => key(metricsOf(entry)));
+    // Tied values share the best position.
+    return values.map((value) => 1 + values.filter((other) => other < value).length);
+  };
+  const scores = rankBy === 'combined'
+    ? Object.values(RANK_KEYS)
+      .map(positions)
+      .reduce((total, ranks) => total.map((value, index) => value + ranks[index] / 3), entries.map(() => 0))
+    : entries.map((entry) => RANK_KEYS[rankBy](metricsOf(entry)));
+
+  return entries
+    .map((entry, index) => ({ entry, score: scores[index] }))
+    .sort((a, b) => a.score - b.score
+      || metricsOf(b.entry).totalPnlUsd - metricsOf(a.entry).totalPnlUsd
+      || a.entry.id - b.entry.id)
+    .map(({ entry }) => entry);
+}
+
+/** The worker is this file's sibling in whatever form is running: .ts under tsx, .js once built. */
+function spawnWorker(data: BacktestData): Worker {
+  const extension = extname(fileURLToPath(import.meta.url));
+  const script = new URL(`./optimize-worker${extension}`, import.meta.url);
+  if (extension !== '.ts') return new Worker(script, { workerData: { data } });
+  // Node applies tsx's loader to the main thread only, so a worker run from source registers it itself.
+  const tsx = import.meta.resolve('tsx/esm/api');
+  return new Worker(
+    `import(${JSON.stringify(tsx)}).then(({ register }) => { register(); return import(${JSON.stringify(script.href)}); });`,
+    { eval: true, workerData: { data } },
+  );
+}
+
+/** Runs `tasks` across `workers` threads, each holding its own copy of `data`. */
+async function runWorkerPool(data: BacktestData, tasks: SweepTask[], workers: number): Promise<Map<number, SweepTaskResult>> {
+  const queue = [...tasks];
+  const results = new Map<number, SweepTaskResult>();
+  const pool: Worker[] = [];
+
+  const runOne = () => new Promise<void>((resolve, reject) => {
+    const worker = spawnWorker(data);
+    pool.push(worker);
+    let finished = false;
+    const next = () => {
+      const task = queue.shift();
+      if (!task) {
+        finished = true;
+        worker.terminate().then(() => resolve(), reject);
+        return;
+      }
+      worker.postMessage(task);
+    };
+    worker.on('message', (result: SweepTaskResult) => {
+      results.set(result.id, result);
+      next();
+    });
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (!finished) reject(new Error(`Optimizer worker exited with code ${code} before the sweep finished.`));
+    });
+    next();
+  });
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(workers, tasks.length)) }, runOne));
+  } finally {
+    await Promise.all(pool.map((worker) => worker.terminate()));
+  }
+  return results;
+}
+
+function strategyParamsOf(params: BacktestParams): StrategyParams {
+  return Object.fromEntries(STRATEGY_KEYS
+    .map((key) => [key, params[key as keyof BacktestParams]])
+    .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))) as StrategyParams;
+}
+
+function isoWindow(window: SweepWindow) {
+  return { from: new Date(window.from).toISOString(), to: new Date(window.to).toISOString() };
+}
+
+export async function runOptimize(params: OptimizeParams = {}): Promise<OptimizeResult> {
+  const rankBy = params.rankBy ?? 'combined';
+  const folds = params.folds ?? 4;
+  if (!Number.isInteger(folds) || folds < 0) {
+    throw new Error(`--folds must be a whole number; got ${params.folds}.`);
+  }
+  const workers = params.workers ?? Math.max(1, availableParallelism() - 1);
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new Error(`--workers must be at least 1; got ${params.workers}.`);
+  }
+
+  const data = loadBacktestData(params);
+  if (data.funding.length === 0) {
+    throw new Error('No funding data to optimize on; pass --funding-file or record history for --perp-pair.');
+  }
+  const seed = params.samples !== undefined ? params.seed ?? Date.now() % 4_294_967_296 : undefined;
+  const { sets, skipped } = buildSweepSets({ ...params, seed });
+  if (sets.length === 0) {
+    throw new Error('Every parameter set was dropped; the swept entry thresholds all fall below --exit-threshold.');
+  }
+
+  const from = data.funding[0].at;
+  const to = data.funding[data.funding.length - 1].at + 1;
+  const splits = walkForwardSplits(from, to, folds);
+
+  // Task ids: set-major, then fold, then train (even) / test (odd).
+  const tasks: SweepTask[] = [];
+  for (const set of sets) {
+    const config = backtestConfig({ ...params, ...set.params });
+    splits.forEach((split, fold) => {
+      const id = ((set.id - 1) * splits.length + fold) * 2;
+      if (folds > 0) tasks.push({ id, config, window: split.train, riskWindow: split.train });
+      tasks.push({ id: id + 1, config, window: split.test, riskWindow: split.train });
+    });
+  }
+
+  const results = await runWorkerPool(data, tasks, workers);
+  const metricsOf = (id: number): SweepMetrics => {
+    const result = results.get(id);
+    if (!result?.metrics) {
+      throw new Error(`Backtest ${id} failed: ${result?.error ?? 'no result'}.`);
+    }
+    return result.metrics;
+  };
+  const taskId = (set: SweepSet, fold: number, test: boolean) => ((set.id - 1) * splits.length + fold) * 2 + (test ? 1 : 0);
+
+  const evaluations: SetEvaluation[] = sets.map((set) => ({
+    ...set,
+    test: aggregateMetrics(splits.map((_, fold) => metricsOf(taskId(set, fold, true)))),
+    train: folds > 0 ? aggregateMetrics(splits.map((_, fold) => metricsOf(taskId(set, fold, false)))) : undefined,
+  }));
+  const ranked = rankEntries(evaluations, (entry) => entry.test, rankBy);
+  const winner = ranked[0];
+
+  const walkForward: WalkForwardFold[] = folds > 0
+    ? splits.map((split, fold) => {
+      const best = rankEntries(sets, (set) => metricsOf(taskId(set, fold, false)), rankBy)[0];
+      return {
+        fold: fold + 1,
+        train: isoWindow(split.train),
+        test: isoWindow(split.test),
+        setId: best.id,
+        params: best.params,
+        trainMetrics: metricsOf(taskId(best, fold, false)),
+        testMetrics: metricsOf(taskId(best, fold, true)),
+      };
+    })
+    : [];
+
+  const config: StrategyParams = { ...strategyParamsOf(params), ...winner.params };
+  if (config.fundingStdPctPerHr === undefined) {
+    // The live daemon has no history lookup of its own, so hand it the std over everything replayed.
+    const std = estimateFundingStd(data.funding, { from, to }, config.holdHours);
+    if (std !== undefined) config.fundingStdPctPerHr = std;
+  }
+  const exported = params.exportPath
+    ? writeStrategyConfig({ pair: params.perpPair, metrics: winner.test, params: config }, params.exportPath)
+    : undefined;
+
+  return {
+    action: 'optimize_completed',
+    search: seed !== undefined ? 'random' : 'grid',
+    seed,
+    sets: sets.length,
+    skipped,
+    folds,
+    workers,
+    rankBy,
+    from: new Date(from).toISOString(),
+    to: new Date(to - 1).toISOString(),
+    ranking: ranked.slice(0, params.top ?? 10).map((entry, index) => ({ rank: index + 1, ...entry })),
+    walkForward: {
+      folds: walkForward,
+      outOfSample: walkForward.length > 0 ? aggregateMetrics(walkForward.map((fold) => fold.testMetrics)) : undefined,
+    },
+    winner,
+    config,
+    exported,
+  };
+}
+
+function parseArgs(argv: string[]): OptimizeParams {
+  const result: OptimizeParams = parseBacktestArgs(argv);
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (SWEEP_FLAGS[key]) {
+      result.sweep = { ...result.sweep, [SWEEP_FLAGS[key]]: parseValueSpec(next, key) };
+      i += 1;
+      continue;
+    }
+    switch (key) {
+      case 'samples':
+        result.samples = Number(next);
+        i += 1;
+        break;
+      case 'seed':
+        result.seed = Number(next);
+        i += 1;
+        break;
+      case 'folds':
+        result.folds = Number(next);
+        i += 1;
+        break;
+      case 'workers':
+        result.workers = Number(next);
+        i += 1;
+        break;
+      case 'rank-by':
+        if (!RANK_BY.includes(next as RankBy)) {
+          throw new Error(`Invalid --rank-by '${next}'. Use ${RANK_BY.join(', ')}.`);
+        }
+        result.rankBy = next as RankBy;
+        i += 1;
+        break;
+      case 'top':
+        result.top = Number(next);
+        i += 1;
+        break;
+      case 'export':
+        // A bare --export writes to the default strategy config path.
+        if (next && !next.startsWith('--')) {
+          result.exportPath = next;
+          i += 1;
+        } else {
+          result.exportPath = strategyConfigPath();
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+export async function main() {
+  const result = await runOptimize(parseArgs(process.argv.slice(2)));
+  console.log(JSON.stringify(result, null, 2));
+  return result;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Optimize error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,654 @@
+import 'dotenv/config';
+import { createMemoryPerpVenue, type MemoryPerpVenue } from '../perp/memory-venue.js';
+import { createPerpVenue, findPerpPosition, type PerpVenue } from '../perp/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import {
+  closePerpPosition,
+  createCompensationPlan,
+  depositPerpCollateral,
+  withCompensation,
+  type CompensationReport,
+} from './compensation.js';
+import { readFundingSnapshot } from './funding.js';
+import { openJournalRun } from './journal.js';
+import {
+  decidePerpSpreadAction,
+  evaluatePerpSpread,
+  spreadCarry,
+  type PerpSpreadCarry,
+  type PerpSpreadDecision,
+  type PerpSpreadInputs,
+  type PerpSpreadSignalState,
+  type PerpSpreadThresholds,
+  type SpreadLegs,
+  type VenueFunding,
+} from './perp-spread.js';
+import {
+  findOpenSpread,
+  markSpreadClosed,
+  recordOpenSpread,
+  type PerpSpreadPosition,
+  type SpreadTransactions,
+} from './perp-spread-book.js';
+import { fetchPerpEntryPrice } from './position-book.js';
+import {
+  type ArbitrageAbortResult,
+  type ArbitrageClosedResult,
+  type ArbitrageExecutedResult,
+  type ArbitrageResult,
+  type PerpDepositResult,
+} from './types.js';
+
+/**
+ * Perp-vs-perp funding arbitrage: long the pair where funding is lower, short
+ * it where funding is higher, equal notional on both legs, so price moves
+ * cancel and the funding spread is the carry. Polls both venues like the
+ * daemon and opens or closes one spread at a time on the `perp-spread.ts`
+ * rules.
+ *
+ * Either venue can be `mock`: an in-memory venue marked at the other leg's
+ * price with a fixed funding rate (`--mock-funding`), for exercising the
+ * strategy without a second exchange. Mock legs only live as long as the
+ * process, so such runs are not journaled.
+ */
+
+const MOCK_VENUE = 'mock';
+
+export type PerpPerpParams = {
+  perpPair?: string;
+  perpNetwork?: string;
+  /** Registered perp venue for one leg; defaults to PERP_VENUE, else Merkle. */
+  venueA?: string;
+  /** Registered perp venue for the other leg, or `mock`. */
+  venueB?: string;
+  /** Notional per leg in USD; raised to the larger of the two venues' minimum sizes. */
+  notionalUsd?: number;
+  /** Size over collateral on each leg; 1 by default. */
+  leverage?: number;
+  intervalSec?: number;
+  /** Stop after this many iterations; runs until signalled when omitted. */
+  maxIterations?: number;
+  /** Without `true`, decisions are logged but nothing is submitted. */
+  submit?: boolean;
+  entryThresholdPctPerHr?: number;
+  exitThresholdPctPerHr?: number;
+  confirmations?: number;
+  gasRoundTripBps?: number;
+  capitalAprPct?: number;
+  holdHours?: number;
+  fundingStdPctPerHr?: number;
+  zScore?: number;
+  basisPremiumPctPerHr?: number;
+  /** Funding of a `mock` leg (%/hr). */
+  mockFundingPctPerHr?: number;
+  mockTakerFeeBps?: number;
+  /** Free collateral on a `mock` leg (human USDC); 10,000 by default. */
+  mockCollateral?: string;
+  /** Pre-built legs; take precedence over `venueA` / `venueB`. */
+  venues?: [PerpVenue, PerpVenue];
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+  /** Called with every iteration's record; defaults to one JSON line on stdout. */
+  onIteration?: (record: PerpPerpIteration) => void;
+  /** Aborting stops the loop after the current iteration. */
+  signal?: AbortSignal;
+};
+
+export type PerpPerpIteration = {
+  iteration: number;
+  at: string;
+  funding?: VenueFunding[];
+  carry?: Pick<PerpSpreadCarry, 'longVenue' | 'shortVenue' | 'spreadPctPerHour' | 'entryNetPctPerHour' | 'holdNetPctPerHour'>;
+  openSpread?: { id: string } & SpreadLegs;
+  decision?: PerpSpreadDecision;
+  submitted?: boolean;
+  result?: PerpSpreadResult;
+  error?: string;
+};
+
+export type PerpPerpSummary = {
+  action: 'perp_perp_stopped';
+  iterations: number;
+  failures: number;
+  opened: number;
+  closed: number;
+};
+
+export type PerpSpreadResult =
+  | ArbitrageAbortResult
+  | ArbitrageExecutedResult<{
+    spreadId: string;
+    pair: string;
+    legs: SpreadLegs;
+    sizeDelta: string;
+    collateral: { long: string; short: string };
+    deposits: { long: PerpDepositResult | null; short: PerpDepositResult | null };
+    transactions: SpreadTransactions;
+    spreadPctPerHour: number;
+    steps: CompensationReport;
+    journalId?: string;
+  }>
+  | ArbitrageClosedResult<{
+    spreadId: string;
+    pair: string;
+    legs: SpreadLegs;
+    transactions: SpreadTransactions;
+    /** Legs with no live position left to close (liquidated, closed by hand or a restarted mock). */
+    missingLegs: string[];
+    steps: CompensationReport;
+    journalId?: string;
+  }>;
+
+function parseArgs(argv: string[]): PerpPerpParams {
+  const result: PerpPerpParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'perp-pair':
+        result.perpPair = next;
+        i += 1;
+        break;
+      case 'perp-network':
+        result.perpNetwork = next;
+        i += 1;
+        break;
+      case 'venue-a':
+        result.venueA = next;
+        i += 1;
+        break;
+      case 'venue-b':
+        result.venueB = next;
+        i += 1;
+        break;
+      case 'notional-usd':
+        result.notionalUsd = Number(next);
+        i += 1;
+        break;
+      case 'leverage':
+        result.leverage = Number(next);
+        i += 1;
+        break;
+      case 'interval-sec':
+        result.intervalSec = Number(next);
+        i += 1;
+        break;
+      case 'max-iterations':
+        result.maxIterations = Number(next);
+        i += 1;
+        break;
+      case 'submit':
+        result.submit = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'entry-threshold':
+        result.entryThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'exit-threshold':
+        result.exitThresholdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'confirmations':
+        result.confirmations = Number(next);
+        i += 1;
+        break;
+      case 'gas-round-trip-bps':
+        result.gasRoundTripBps = Number(next);
+        i += 1;
+        break;
+      case 'capital-apr-pct':
+        result.capitalAprPct = Number(next);
+        i += 1;
+        break;
+      case 'hold-hours':
+        result.holdHours = Number(next);
+        i += 1;
+        break;
+      case 'funding-std-pct-per-hr':
+        result.fundingStdPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'z-score':
+        result.zScore = Number(next);
+        i += 1;
+        break;
+      case 'basis-premium-pct-per-hr':
+        result.basisPremiumPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'mock-funding':
+        result.mockFundingPctPerHr = Number(next);
+        i += 1;
+        break;
+      case 'mock-taker-fee-bps':
+        result.mockTakerFeeBps = Number(next);
+        i += 1;
+        break;
+      case 'mock-collateral':
+        result.mockCollateral = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+type SpreadVenues = {
+  venues: [PerpVenue, PerpVenue];
+  /** Mock legs and the real leg they are marked against. */
+  mocks: { mock: MemoryPerpVenue; reference: PerpVenue }[];
+};
+
+async function buildSpreadVenues(params: PerpPerpParams, perpPair: string): Promise<SpreadVenues> {
+  if (params.venues) {
+    if (params.venues[0].name === params.venues[1].name) {
+      throw new Error(`Both legs are on ${params.venues[0].name}; a spread needs two venues.`);
+    }
+    return { venues: params.venues, mocks: [] };
+  }
+
+  const nameA = (params.venueA ?? process.env.PERP_VENUE ?? 'merkle').toLowerCase();
+  const nameB = params.venueB?.toLowerCase();
+  if (!nameB) {
+    throw new Error('Missing --venue-b: name a second registered perp venue, or `mock`.');
+  }
+  if (nameA === nameB) {
+    throw new Error(`Both legs are on ${nameA}; a spread needs two venues.`);
+  }
+  if (nameA === MOCK_VENUE) {
+    throw new Error('Put the mock on --venue-b; it is marked against the real --venue-a leg.');
+  }
+
+  const clients = params.clients ?? await createArbitrageClients({
+    perpNetwork: params.perpNetwork,
+    perpVenue: nameA,
+  });
+  const venueA = clients.perp;
+  if (nameB !== MOCK_VENUE) {
+    const venueB = await createPerpVenue(nameB, {
+      aptos: clients.aptos,
+      account: clients.account,
+      network: clients.perpNetwork,
+    });
+    return { venues: [venueA, venueB], mocks: [] };
+  }
+
+  const [markPrice, pairInfo] = await Promise.all([
+    venueA.getMarkPrice(perpPair),
+    venueA.getPairInfo(perpPair),
+  ]);
+  const mock = createMemoryPerpVenue({
+    name: MOCK_VENUE,
+    collateralAsset: venueA.collateralAsset,
+    collateralDecimals: venueA.collateralDecimals,
+    markPrices: { [perpPair]: markPrice },
+    fundingPctPerHour: { [perpPair]: params.mockFundingPctPerHr ?? 0 },
+    takerFeeBps: params.mockTakerFeeBps ?? pairInfo.takerFeeBps,
+    makerFeeBps: pairInfo.makerFeeBps,
+    minimumPositionSize: pairInfo.minimumPositionSize,
+    minimumOrderCollateral: pairInfo.minimumOrderCollateral,
+    maxLeverage: pairInfo.maxLeverage,
+    collateral: toBaseUnits(params.mockCollateral ?? '10000', venueA.collateralDecimals),
+  });
+  return { venues: [venueA, mock], mocks: [{ mock, reference: venueA }] };
+}
+
+function toBaseUnits(amount: string, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.split('.');
+  return BigInt(`${whole}${fraction.slice(0, decimals).padEnd(decimals, '0')}`);
+}
+
+function maxBig(...values: bigint[]): bigint {
+  return values.reduce((max, value) => (value > max ? value : max));
+}
+
+async function readVenueFunding(venue: PerpVenue, pair: string): Promise<VenueFunding> {
+  const snapshot = await readFundingSnapshot(venue, pair);
+  return {
+    venue: venue.name,
+    fundingPctPerHour: snapshot.fundingPctPerHour,
+    perpRoundTripBps: snapshot.perpRoundTripBps,
+  };
+}
+
+function legVenues(venues: [PerpVenue, PerpVenue], legs: SpreadLegs) {
+  const byName = new Map(venues.map((venue) => [venue.name, venue]));
+  const long = byName.get(legs.longVenue);
+  const short = byName.get(legs.shortVenue);
+  if (!long || !short) {
+    throw new Error(`Spread legs ${legs.longVenue}/${legs.shortVenue} are not among the configured venues.`);
+  }
+  return { long, short };
+}
+
+/**
+ * Opens both legs at the same notional: long on `legs.longVenue`, then short
+ * on `legs.shortVenue`. If the short leg fails, the long leg and any deposits
+ * are unwound.
+ */
+export async function openPerpSpread(args: {
+  venues: [PerpVenue, PerpVenue];
+  legs: SpreadLegs;
+  perpPair: string;
+  notionalUsd: number;
+  leverage?: number;
+  spreadPctPerHour: number;
+  perpNetwork?: string;
+}): Promise<PerpSpreadResult> {
+  const { perpPair, legs } = args;
+  const { long, short } = legVenues(args.venues, legs);
+  const leverage = args.leverage ?? 1;
+  if (!(leverage > 0)) {
+    throw new Error(`Leverage must be positive; got ${leverage}.`);
+  }
+
+  const [longInfo, shortInfo] = await Promise.all([
+    long.getPairInfo(perpPair),
+    short.getPairInfo(perpPair),
+  ]);
+  // Both legs carry the same size, so take the larger minimum.
+  const requested = BigInt(Math.round(args.notionalUsd * 10 ** long.collateralDecimals));
+  const sizeDelta = maxBig(requested, longInfo.minimumPositionSize, shortInfo.minimumPositionSize);
+  const margin = BigInt(Math.ceil(Number(sizeDelta) / leverage));
+  const longCollateral = maxBig(margin, longInfo.minimumOrderCollateral);
+  const shortCollateral = maxBig(margin, shortInfo.minimumOrderCollateral);
+
+  const journaled = long.name !== MOCK_VENUE && short.name !== MOCK_VENUE;
+  const journal = journaled
+    ? openJournalRun('perp_spread', {
+      perpNetwork: args.perpNetwork,
+      perpPair,
+      legs: {
+        long: { venue: long.name, config: long.describe() },
+        short: { venue: short.name, config: short.describe() },
+      },
+      sizeDelta: sizeDelta.toString(),
+      longCollateral: longCollateral.toString(),
+      shortCollateral: shortCollateral.toString(),
+    })
+    : undefined;
+  const plan = createCompensationPlan({ journal });
+
+  return withCompensation(plan, async (): Promise<PerpSpreadResult> => {
+    const longDeposit = await depositPerpCollateral(plan, long, longCollateral, 'long_deposit');
+    const longOrder = await plan.run('long_open', () => long.placeMarketOrder({
+      pair: perpPair,
+      sizeDelta,
+      collateralDelta: longCollateral,
+      isLong: true,
+      isIncrease: true,
+    }), {
+      transactionHash: (order) => order.transactionHash,
+      compensate: () => closePerpPosition({ perp: long, pair: perpPair, size: sizeDelta, isLong: true }),
+    });
+
+    const shortDeposit = await depositPerpCollateral(plan, short, shortCollateral, 'short_deposit');
+    const shortOrder = await plan.run('short_open', () => short.placeMarketOrder({
+      pair: perpPair,
+      sizeDelta,
+      collateralDelta: shortCollateral,
+      isLong: false,
+      isIncrease: true,
+    }), {
+      transactionHash: (order) => order.transactionHash,
+      compensate: () => closePerpPosition({ perp: short, pair: perpPair, size: sizeDelta, isLong: false }),
+    });
+
+    const transactions: SpreadTransactions = {
+      longDeposit: longDeposit?.transactionHash,
+      long: longOrder.transactionHash,
+      shortDeposit: shortDeposit?.transactionHash,
+      short: shortOrder.transactionHash,
+    };
+    const [longEntry, shortEntry] = await Promise.all([
+      fetchPerpEntryPrice(long, perpPair),
+      fetchPerpEntryPrice(short, perpPair),
+    ]);
+    const spread = recordOpenSpread({
+      perpPair,
+      long: {
+        venue: long.name,
+        isLong: true,
+        size: sizeDelta.toString(),
+        collateral: longCollateral.toString(),
+        entryPrice: longEntry,
+      },
+      short: {
+        venue: short.name,
+        isLong: false,
+        size: sizeDelta.toString(),
+        collateral: shortCollateral.toString(),
+        entryPrice: shortEntry,
+      },
+      entrySpreadPctPerHour: args.spreadPctPerHour,
+      transactions,
+      journalId: journal?.id,
+    });
+
+    return {
+      action: 'arbitrage_executed',
+      strategy: 'perp_spread',
+      spreadId: spread.id,
+      pair: perpPair,
+      legs,
+      sizeDelta: sizeDelta.toString(),
+      collateral: { long: longCollateral.toString(), short: shortCollateral.toString() },
+      deposits: { long: longDeposit, short: shortDeposit },
+      transactions,
+      spreadPctPerHour: args.spreadPctPerHour,
+      steps: plan.report(),
+      journalId: journal?.id,
+    };
+  });
+}
+
+/**
+ * Closes both legs of `spread`, short first. A leg with no live position is
+ * reported instead of failing the close. Collateral stays on the venues.
+ */
+export async function closePerpSpread(args: {
+  venues: [PerpVenue, PerpVenue];
+  spread: PerpSpreadPosition;
+  perpNetwork?: string;
+}): Promise<PerpSpreadResult> {
+  const { spread } = args;
+  const legs = { longVenue: spread.long.venue, shortVenue: spread.short.venue };
+  const { long, short } = legVenues(args.venues, legs);
+  const pair = spread.perpPair;
+
+  const journaled = long.name !== MOCK_VENUE && short.name !== MOCK_VENUE;
+  const journal = journaled
+    ? openJournalRun('close_perp_spread', {
+      perpNetwork: args.perpNetwork,
+      perpPair: pair,
+      legs: {
+        long: { venue: long.name, config: long.describe() },
+        short: { venue: short.name, config: short.describe() },
+      },
+      spreadId: spread.id,
+    })
+    : undefined;
+  const plan = createCompensationPlan({ journal });
+
+  return withCompensation(plan, async (): Promise<PerpSpreadResult> => {
+    const missingLegs: string[] = [];
+    const closeLeg = async (perp: PerpVenue, isLong: boolean, recorded: string) => {
+      const live = await findPerpPosition(perp, pair);
+      if (!live || live.isLong !== isLong) {
+        missingLegs.push(perp.name);
+        return undefined;
+      }
+      const size = live.size < BigInt(recorded) ? live.size : BigInt(recorded);
+      return plan.run(isLong ? 'long_close' : 'short_close', () => closePerpPosition({ perp, pair, size, isLong }), {
+        transactionHash: (hash) => hash,
+      });
+    };
+
+    const transactions: SpreadTransactions = {
+      short: await closeLeg(short, false, spread.short.size),
+      long: await closeLeg(long, true, spread.long.size),
+    };
+    markSpreadClosed(spread.id, transactions);
+
+    return {
+      action: 'arbitrage_closed',
+      strategy: 'close_perp_spread',
+      spreadId: spread.id,
+      pair,
+      legs,
+      transactions,
+      missingLegs,
+      steps: plan.report(),
+      journalId: journal?.id,
+    };
+  }, 'arbitrage_closed');
+}
+
+/**
+ * Polls funding on both venues and opens or closes one spread at a time. The
+ * spread book is the source of truth for what is open; a failing iteration is
+ * logged and the loop carries on.
+ */
+export async function runPerpPerp(params: PerpPerpParams = {}): Promise<PerpPerpSummary> {
+  const perpPair = params.perpPair ?? 'APT_USD';
+  const intervalMs = (params.intervalSec ?? 300) * 1000;
+  const submit = params.submit ?? false;
+  const thresholds: PerpSpreadThresholds = {
+    entryPctPerHour: params.entryThresholdPctPerHr ?? 0,
+    exitPctPerHour: params.exitThresholdPctPerHr ?? 0,
+    confirmations: Math.max(1, params.confirmations ?? 2),
+  };
+  if (thresholds.exitPctPerHour > thresholds.entryPctPerHour) {
+    throw new Error('--exit-threshold must not exceed --entry-threshold, or the strategy would flap.');
+  }
+  const costs: PerpSpreadInputs = {
+    gasRoundTripBps: params.gasRoundTripBps,
+    capitalAprPct: params.capitalAprPct,
+    holdHours: params.holdHours,
+    fundingStdPctPerHr: params.fundingStdPctPerHr,
+    zScore: params.zScore,
+    extraBasisPremiumPctPerHr: params.basisPremiumPctPerHr,
+  };
+  const report = params.onIteration ?? ((record: PerpPerpIteration) => console.log(JSON.stringify(record)));
+
+  const { venues, mocks } = await buildSpreadVenues(params, perpPair);
+  const venueNames = venues.map((venue) => venue.name);
+
+  const summary: PerpPerpSummary = { action: 'perp_perp_stopped', iterations: 0, failures: 0, opened: 0, closed: 0 };
+  let signalState: PerpSpreadSignalState = {};
+
+  while (!params.signal?.aborted) {
+    summary.iterations += 1;
+    const record: PerpPerpIteration = { iteration: summary.iterations, at: new Date().toISOString() };
+
+    try {
+      for (const { mock, reference } of mocks) {
+        mock.setMarkPrice(perpPair, await reference.getMarkPrice(perpPair));
+      }
+
+      const spread = findOpenSpread({ perpPair, venues: venueNames });
+      const open = spread ? { longVenue: spread.long.venue, shortVenue: spread.short.venue } : undefined;
+      if (spread && open) {
+        record.openSpread = { id: spread.id, ...open };
+      }
+      // A close/open done outside this loop resets any pending signal.
+      const stateOpen = signalState.open;
+      if (stateOpen?.longVenue !== open?.longVenue || stateOpen?.shortVenue !== open?.shortVenue) {
+        signalState = { open };
+      }
+
+      const [fundingA, fundingB] = await Promise.all(venues.map((venue) => readVenueFunding(venue, perpPair)));
+      record.funding = [fundingA, fundingB];
+
+      const best = evaluatePerpSpread(fundingA, fundingB, costs);
+      const current = open ? spreadCarry(open, fundingA, fundingB, costs) : best;
+      record.carry = {
+        longVenue: current.longVenue,
+        shortVenue: current.shortVenue,
+        spreadPctPerHour: current.spreadPctPerHour,
+        entryNetPctPerHour: current.entryNetPctPerHour,
+        holdNetPctPerHour: current.holdNetPctPerHour,
+      };
+
+      const { decision, state } = decidePerpSpreadAction(
+        (legs) => (legs ? spreadCarry(legs, fundingA, fundingB, costs) : best),
+        signalState,
+        thresholds,
+      );
+      record.decision = decision;
+      record.submitted = submit && (decision.action === 'open' || decision.action === 'close');
+
+      if (record.submitted && decision.action === 'open') {
+        const result = await openPerpSpread({
+          venues,
+          legs: decision.legs,
+          perpPair,
+          notionalUsd: params.notionalUsd ?? 10,
+          leverage: params.leverage,
+          spreadPctPerHour: best.spreadPctPerHour,
+          perpNetwork: params.perpNetwork,
+        });
+        record.result = result;
+        if (result.action === 'arbitrage_executed') summary.opened += 1;
+        signalState = result.action === 'arbitrage_executed' ? state : { open, pending: signalState.pending };
+      } else if (record.submitted && decision.action === 'close' && spread) {
+        const result = await closePerpSpread({ venues, spread, perpNetwork: params.perpNetwork });
+        record.result = result;
+        if (result.action === 'arbitrage_closed') summary.closed += 1;
+        signalState = result.action === 'arbitrage_closed' ? state : { open, pending: signalState.pending };
+      } else if (decision.action === 'open' || decision.action === 'close') {
+        // Dry run: nothing changed on-chain, so keep reporting the confirmed signal.
+        signalState = { open, pending: signalState.pending };
+      } else {
+        signalState = state;
+      }
+    } catch (error) {
+      summary.failures += 1;
+      record.error = (error as Error)?.message ?? String(error);
+    }
+
+    report(record);
+
+    if (params.maxIterations && summary.iterations >= params.maxIterations) break;
+    await sleep(intervalMs, params.signal);
+  }
+
+  return summary;
+}
+
+export async function main() {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const summary = await runPerpPerp({ ...parseArgs(process.argv.slice(2)), signal: controller.signal });
+  console.log(JSON.stringify(summary, null, 2));
+  return summary;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Perp-vs-perp arbitrage error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { readJsonArray, upsertJsonItem } from '../utils/jsonFile.js';
+
+/**
+ * Local book of perp-vs-perp spreads, kept apart from the hedge position book
+ * because a spread has two perp legs on different venues and no spot leg.
+ */
+
+export type SpreadLeg = {
+  venue: string;
+  isLong: boolean;
+  /** Notional in the venue's collateral base units. */
+  size: string;
+  collateral: string;
+  entryPrice: number | null;
+};
+
+export type SpreadTransactions = {
+  longDeposit?: string;
+  long?: string;
+  shortDeposit?: string;
+  short?: string;
+};
+
+export type PerpSpreadPosition = {
+  id: string;
+  status: 'open' | 'closed';
+  perpPair: string;
+  long: SpreadLeg;
+  short: SpreadLeg;
+  /** Funding spread (%/hr) when the position was opened. */
+  entrySpreadPctPerHour: number;
+  transactions: SpreadTransactions;
+  closeTransactions?: SpreadTransactions;
+  journalId?: string;
+  openedAt: string;
+  closedAt?: string;
+};
+
+export function spreadBookPath(path?: string): string {
+  return path ?? process.env.ARB_SPREAD_BOOK_PATH ?? '.arb-spreads.json';
+}
+
+export function readSpreadBook(path?: string): PerpSpreadPosition[] {
+  return readJsonArray<PerpSpreadPosition>(spreadBookPath(path));
+}
+
+export function recordOpenSpread(
+  spread: Omit<PerpSpreadPosition, 'id' | 'status' | 'openedAt' | 'closedAt' | 'closeTransactions'>,
+  path?: string,
+): PerpSpreadPosition {
+  const entry: PerpSpreadPosition = {
+    id: randomUUID(),
+    status: 'open',
+    openedAt: new Date().toISOString(),
+    ...spread,
+  };
+  upsertJsonItem(spreadBookPath(path), entry);
+  return entry;
+}
+
+/** The open spread with `id`, or else the most recent one on `perpPair` between `venues`. */
+export function findOpenSpread(
+  query: { perpPair?: string; venues?: string[]; id?: string },
+  path?: string,
+): PerpSpreadPosition | undefined {
+  const open = readSpreadBook(path).filter((spread) => spread.status === 'open');
+  if (query.id) return open.find((spread) => spread.id === query.id);
+  return open
+    .filter((spread) => !query.perpPair || spread.perpPair === query.perpPair)
+    .filter((spread) => !query.venues
+      || (query.venues.includes(spread.long.venue) && query.venues.includes(spread.short.venue)))
+    .sort((a, b) => b.openedAt.localeCompare(a.openedAt))[0];
+}
+
+export function markSpreadClosed(
+  id: string,
+  closeTransactions: SpreadTransactions,
+  path?: string,
+): PerpSpreadPosition | undefined {
+  const spread = readSpreadBook(path).find((entry) => entry.id === id);
+  if (!spread) return undefined;
+  const closed: PerpSpreadPosition = {
+    ...spread,
+    status: 'closed',
+    closedAt: new Date().toISOString(),
+    closeTransactions,
+  };
+  upsertJsonItem(spreadBookPath(path), closed);
+  return closed;
+}
@@ -0,0 +1,161 @@
+import {
+  computeMinFundingBreakdown,
+  type MinFundingBreakdown,
+  type MinFundingInputs,
+} from '../utils/minFunding.js';
+
+/**
+ * Net carry of a perp-vs-perp funding spread: long the pair on the venue with
+ * the lower funding rate, short it on the one with the higher rate, equal
+ * size on both. There is no spot leg or borrow, so the hurdle is both venues'
+ * taker round trips plus gas, capital and risk buffers from `utils/minFunding`.
+ * Pure, like `carry.ts`, so the rules can be replayed against recorded funding.
+ */
+
+export type VenueFunding = {
+  venue: string;
+  /** Signed; positive means longs pay shorts. */
+  fundingPctPerHour: number;
+  /** Open + close taker fee on this venue. */
+  perpRoundTripBps: number;
+};
+
+/** Which venue holds which side. */
+export type SpreadLegs = {
+  longVenue: string;
+  shortVenue: string;
+};
+
+export type PerpSpreadInputs = Omit<MinFundingInputs, 'spotRoundTripBps' | 'perpRoundTripBps' | 'supplyAprPct'>;
+
+export type PerpSpreadCarry = SpreadLegs & {
+  /** Short venue funding minus long venue funding: what the pair earns per hour. */
+  spreadPctPerHour: number;
+  breakdown: MinFundingBreakdown;
+  /** Spread minus the full hurdle, including amortised entry/exit costs. */
+  entryNetPctPerHour: number;
+  /** Spread minus recurring costs only; entry costs are sunk once open. */
+  holdNetPctPerHour: number;
+};
+
+export type PerpSpreadThresholds = {
+  /** Minimum entry net carry (%/hr) before opening. */
+  entryPctPerHour: number;
+  /** Close once hold net carry (%/hr) drops below this; keep it under the entry threshold. */
+  exitPctPerHour: number;
+  /** Consecutive evaluations a signal must persist before it is acted on. */
+  confirmations: number;
+};
+
+export type PerpSpreadSignalState = {
+  open?: SpreadLegs;
+  pending?: { action: 'open' | 'close'; legs: SpreadLegs; streak: number };
+};
+
+export type PerpSpreadDecision =
+  | { action: 'open' | 'close'; legs: SpreadLegs; reason: string }
+  | { action: 'wait'; legs: SpreadLegs; pending: 'open' | 'close'; streak: number; reason: string }
+  | { action: 'hold' | 'idle'; reason: string };
+
+/** Carry of holding `legs` at the funding in `a` and `b`. */
+export function spreadCarry(
+  legs: SpreadLegs,
+  a: VenueFunding,
+  b: VenueFunding,
+  inputs: PerpSpreadInputs,
+): PerpSpreadCarry {
+  const byVenue = new Map([[a.venue, a], [b.venue, b]]);
+  const long = byVenue.get(legs.longVenue);
+  const short = byVenue.get(legs.shortVenue);
+  if (!long || !short || long === short) {
+    throw new Error(`Funding for ${legs.longVenue} and ${legs.shortVenue} is needed to price the spread.`);
+  }
+  const breakdown = computeMinFundingBreakdown({
+    ...inputs,
+    perpRoundTripBps: long.perpRoundTripBps + short.perpRoundTripBps,
+  });
+  // The long leg pays its venue's funding, the short leg receives its own.
+  const spreadPctPerHour = short.fundingPctPerHour - long.fundingPctPerHour;
+  return {
+    ...legs,
+    spreadPctPerHour,
+    breakdown,
+    entryNetPctPerHour: spreadPctPerHour - breakdown.totalPctPerHour,
+    holdNetPctPerHour: spreadPctPerHour - breakdown.capitalCostPctPerHour,
+  };
+}
+
+/** Carry of the better orientation: long where funding is lower, short where it is higher. */
+export function evaluatePerpSpread(
+  a: VenueFunding,
+  b: VenueFunding,
+  inputs: PerpSpreadInputs,
+): PerpSpreadCarry {
+  const legs = a.fundingPctPerHour <= b.fundingPctPerHour
+    ? { longVenue: a.venue, shortVenue: b.venue }
+    : { longVenue: b.venue, shortVenue: a.venue };
+  return spreadCarry(legs, a, b, inputs);
+}
+
+function sameLegs(x: SpreadLegs, y: SpreadLegs): boolean {
+  return x.longVenue === y.longVenue && x.shortVenue === y.shortVenue;
+}
+
+/**
+ * Same rules as `decideCarryAction`: open when the best orientation's entry
+ * carry clears `entryPctPerHour`, close when the open orientation's hold carry
+ * falls below `exitPctPerHour`, each only after `confirmations` evaluations in
+ * a row. A flipped spread shows up as negative hold carry on the open legs.
+ */
+export function decidePerpSpreadAction(
+  evaluate: (legs?: SpreadLegs) => PerpSpreadCarry,
+  state: PerpSpreadSignalState,
+  thresholds: PerpSpreadThresholds,
+): { decision: PerpSpreadDecision; state: PerpSpreadSignalState } {
+  let candidate: { action: 'open' | 'close'; legs: SpreadLegs; reason: string } | undefined;
+
+  if (state.open) {
+    const held = evaluate(state.open);
+    if (held.holdNetPctPerHour >= thresholds.exitPctPerHour) {
+      return {
+        decision: { action: 'hold', reason: `Hold carry ${held.holdNetPctPerHour} %/hr is above the exit threshold.` },
+        state: { open: state.open },
+      };
+    }
+    candidate = {
+      action: 'close',
+      legs: state.open,
+      reason: `Hold carry ${held.holdNetPctPerHour} %/hr fell below ${thresholds.exitPctPerHour} %/hr.`,
+    };
+  } else {
+    const best = evaluate();
+    if (best.entryNetPctPerHour < thresholds.entryPctPerHour) {
+      return {
+        decision: { action: 'idle', reason: `Best entry carry ${best.entryNetPctPerHour} %/hr is below ${thresholds.entryPctPerHour} %/hr.` },
+        state: {},
+      };
+    }
+    candidate = {
+      action: 'open',
+      legs: { longVenue: best.longVenue, shortVenue: best.shortVenue },
+      reason: `Entry carry ${best.entryNetPctPerHour} %/hr clears ${thresholds.entryPctPerHour} %/hr.`,
+    };
+  }
+
+  const previous = state.pending;
+  const streak = previous && previous.action === candidate.action && sameLegs(previous.legs, candidate.legs)
+    ? previous.streak + 1
+    : 1;
+
+  if (streak < thresholds.confirmations) {
+    return {
+      decision: { action: 'wait', legs: candidate.legs, pending: candidate.action, streak, reason: candidate.reason },
+      state: { open: state.open, pending: { action: candidate.action, legs: candidate.legs, streak } },
+    };
+  }
+
+  return {
+    decision: candidate,
+    state: { open: candidate.action === 'open' ? candidate.legs : undefined },
+  };
+}
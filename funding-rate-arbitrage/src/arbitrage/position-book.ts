@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import { findPerpPosition, type PerpVenue } from '../perp/venue.js';
+import { readJsonArray, upsertJsonItem } from '../utils/jsonFile.js';
+
+/**
+ * Local book of hedged positions opened by the arbitrage flows, one entry per
+ * hedge. Close flows read it to default the pair and spot size instead of
+ * relying on CLI guesses.
+ */
+
+export type HedgeDirection = 'long_spot_short_perp' | 'short_spot_long_perp';
+
+export type PositionTransactions = {
+  borrow?: string;
+  spot?: string;
+  deposit?: string;
+  perp?: string;
+  repay?: string;
+  /** Spot supplied to a lending venue on open, withdrawn again on close. */
+  supply?: string;
+};
+
+/** Spot asset parked on a lending venue while the hedge is open (long spot only). */
+export type SpotSupply = {
+  /** Lending venue registry name and config, to rebuild it on close. */
+  venue: string;
+  config: Record<string, unknown>;
+  /** Principal supplied, in base units of the spot asset. */
+  amount: string;
+};
+
+/**
+ * A scale-in, partial close or delta rebalance applied to an open hedge;
+ * amounts are the base-unit change (signed for rebalances).
+ */
+export type PositionAdjustment = {
+  kind: 'scale_in' | 'partial_close' | 'rebalance';
+  /** Share of the hedge closed, for partial closes. */
+  fraction?: number;
+  spotQuantity: string;
+  perpSize: string;
+  perpCollateral: string;
+  ariesLoanAmount: string;
+  transactions: PositionTransactions;
+  at: string;
+};
+
+export type HedgePosition = {
+  id: string;
+  direction: HedgeDirection;
+  status: 'open' | 'closed';
+  perpPair: string;
+  /** FA address of the spot asset (APT). */
+  spotAsset: string;
+  /** Spot quantity held (long spot) or sold from the loan (short spot), base units. */
+  spotQuantity: string;
+  perpSize: string;
+  perpCollateral: string;
+  /** Aries loan principal in base units; '0' for long-spot hedges. */
+  ariesLoanAmount: string;
+  /** USDC per spot unit at entry; null when the fill was not measured. */
+  entryPrices: {
+    spot: number | null;
+    perp: number | null;
+  };
+  /** Part of `spotQuantity` earning supply yield; the wallet holds the rest. */
+  spotSupply?: SpotSupply;
+  transactions: PositionTransactions;
+  closeTransactions?: PositionTransactions;
+  journalId?: string;
+  adjustments?: PositionAdjustment[];
+  openedAt: string;
+  closedAt?: string;
+};
+
+export type NewHedgePosition = Omit<
+  HedgePosition,
+  'id' | 'status' | 'openedAt' | 'closedAt' | 'closeTransactions' | 'adjustments'
+>;
+
+const APT_DECIMALS = 8;
+const USDC_DECIMALS = 6;
+
+export function positionBookPath(path?: string): string {
+  return path ?? process.env.ARB_POSITION_BOOK_PATH ?? '.arb-positions.json';
+}
+
+export function readPositionBook(path?: string): HedgePosition[] {
+  return readJsonArray<HedgePosition>(positionBookPath(path));
+}
+
+export function recordOpenPosition(position: NewHedgePosition, path?: string): HedgePosition {
+  const entry: HedgePosition = {
+    id: randomUUID(),
+    status: 'open',
+    openedAt: new Date().toISOString(),
+    ...position,
+  };
+  upsertJsonItem(positionBookPath(path), entry);
+  return entry;
+}
+
+/**
+ * The open position with `id`, or else the most recently opened one in
+ * `direction` (optionally restricted to `perpPair`).
+ */
+export function findOpenPosition(
+  query: { direction: HedgeDirection; perpPair?: string; id?: string },
+  path?: string,
+): HedgePosition | undefined {
+  const open = readPositionBook(path).filter((position) => position.status === 'open');
+  if (query.id) return open.find((position) => position.id === query.id);
+  return open
+    .filter((position) => position.direction === query.direction)
+    .filter((position) => !query.perpPair || position.perpPair === query.perpPair)
+    .sort((a, b) => b.openedAt.localeCompare(a.openedAt))[0];
+}
+
+export function markPositionClosed(
+  id: string,
+  closeTransactions: HedgePosition['closeTransactions'],
+  path?: string,
+): HedgePosition | undefined {
+  const position = readPositionBook(path).find((entry) => entry.id === id);
+  if (!position) return undefined;
+  const closed: HedgePosition = {
+    ...position,
+    status: 'closed',
+    closedAt: new Date().toISOString(),
+    closeTransactions,
+  };
+  upsertJsonItem(positionBookPath(path), closed);
+  return closed;
+}
+
+/** `fraction` (0..1) of a base-unit amount, rounded down to the unit. */
+export function scaleBase(value: bigint | string, fraction: number): bigint {
+  const ppm = BigInt(Math.round(fraction * 1_000_000));
+  return (BigInt(value) * ppm) / 1_000_000n;
+}
+
+/**
+ * The part of the venue's combined perp position that belongs to `position`:
+ * its recorded size and collateral, capped at what the venue holds. Without a
+ * book entry the whole venue position is taken as the hedge. `whole` is set
+ * when the hedge is everything the venue holds.
+ */
+export function hedgePerpShare(
+  position: HedgePosition | undefined,
+  open: { size: bigint; collateral: bigint },
+): { size: bigint; collateral: bigint; whole: boolean } {
+  if (!position) return { size: open.size, collateral: open.collateral, whole: true };
+  const size = BigInt(position.perpSize) < open.size ? BigInt(position.perpSize) : open.size;
+  const collateral = BigInt(position.perpCollateral) < open.collateral
+    ? BigInt(position.perpCollateral)
+    : open.collateral;
+  return { size, collateral, whole: size === open.size };
+}
+
+/**
+ * The part of the lending venue's loan that belongs to `position`: the loan
+ * split across the open short-spot hedges in proportion to their recorded
+ * principal, so accrued interest is shared the same way. Without a book
+ * entry, or when no other hedge borrows, the whole loan is the hedge's.
+ */
+export function hedgeLoanShare(
+  position: HedgePosition | undefined,
+  loan: bigint,
+  path?: string,
+): { amount: bigint; whole: boolean } {
+  if (!position) return { amount: loan, whole: true };
+  const principal = BigInt(position.ariesLoanAmount);
+  const borrowed = readPositionBook(path)
+    .filter((entry) => entry.status === 'open' && entry.direction === 'short_spot_long_perp')
+    .reduce((total, entry) => total + BigInt(entry.ariesLoanAmount), 0n);
+  if (borrowed <= principal) return { amount: loan, whole: true };
+  return { amount: (loan * principal) / borrowed, whole: false };
+}
+
+/**
+ * The part of a lending venue's supply balance that belongs to `position`:
+ * the balance split across the open long-spot hedges supplying to the same
+ * venue and config in proportion to their recorded principal, so accrued
+ * interest is shared the same way. When no other hedge supplies there, the
+ * whole balance is the hedge's.
+ */
+export function hedgeSupplyShare(
+  position: HedgePosition,
+  deposited: bigint,
+  path?: string,
+): { amount: bigint; whole: boolean } {
+  const supply = position.spotSupply;
+  if (!supply) return { amount: 0n, whole: false };
+  const principal = BigInt(supply.amount);
+  const sameSupply = (other?: SpotSupply) => other?.venue === supply.venue
+    && JSON.stringify(other.config) === JSON.stringify(supply.config);
+  const supplied = readPositionBook(path)
+    .filter((entry) => entry.status === 'open' && entry.direction === 'long_spot_short_perp')
+    .filter((entry) => sameSupply(entry.spotSupply))
+    .reduce((total, entry) => total + BigInt(entry.spotSupply?.amount ?? '0'), 0n);
+  if (supplied <= principal) return { amount: deposited, whole: true };
+  return { amount: (deposited * principal) / supplied, whole: false };
+}
+
+/**
+ * Adds a scale-in to an open hedge, growing every leg by the amounts given.
+ * The spot entry price becomes the quantity-weighted average; the perp entry
+ * price is replaced by the venue's (already averaged) one when known.
+ */
+export function scaleInPosition(
+  id: string,
+  scaleIn: Omit<PositionAdjustment, 'kind' | 'fraction' | 'at'> & {
+    entryPrices?: HedgePosition['entryPrices'];
+  },
+  path?: string,
+): HedgePosition | undefined {
+  const position = readPositionBook(path).find((entry) => entry.id === id);
+  if (!position) return undefined;
+  const { entryPrices, ...added } = scaleIn;
+  const sum = (a: string, b: string) => (BigInt(a) + BigInt(b)).toString();
+  const oldQty = Number(position.spotQuantity);
+  const addQty = Number(added.spotQuantity);
+  const spot = position.entryPrices.spot !== null && entryPrices?.spot != null && oldQty + addQty > 0
+    ? (position.entryPrices.spot * oldQty + entryPrices.spot * addQty) / (oldQty + addQty)
+    : position.entryPrices.spot ?? entryPrices?.spot ?? null;
+  const updated: HedgePosition = {
+    ...position,
+    entryPrices: {
+      spot,
+      perp: entryPrices?.perp ?? position.entryPrices.perp,
+    },
+    spotQuantity: sum(position.spotQuantity, added.spotQuantity),
+    perpSize: sum(position.perpSize, added.perpSize),
+    perpCollateral: sum(position.perpCollateral, added.perpCollateral),
+    ariesLoanAmount: sum(position.ariesLoanAmount, added.ariesLoanAmount),
+    adjustments: [
+      ...(position.adjustments ?? []),
+      { kind: 'scale_in', ...added, at: new Date().toISOString() },
+    ],
+  };
+  upsertJsonItem(positionBookPath(path), updated);
+  return updated;
+}
+
+/** Adds `supply` to the hedge's supplied spot, e.g. after a scale-in supplied its APT too. */
+export function addSpotSupply(id: string, supply: SpotSupply, path?: string): HedgePosition | undefined {
+  const position = readPositionBook(path).find((entry) => entry.id === id);
+  if (!position) return undefined;
+  const updated: HedgePosition = {
+    ...position,
+    spotSupply: {
+      ...supply,
+      amount: (BigInt(position.spotSupply?.amount ?? '0') + BigInt(supply.amount)).toString(),
+    },
+  };
+  upsertJsonItem(positionBookPath(path), updated);
+  return updated;
+}
+
+/**
+ * Shrinks every leg of an open hedge by `fraction`. A fraction of 1 closes the
+ * position instead.
+ */
+export function reducePosition(
+  id: string,
+  fraction: number,
+  transactions: PositionTransactions,
+  path?: string,
+): HedgePosition | undefined {
+  if (fraction >= 1) {
+    return markPositionClosed(id, transactions, path);
+  }
+  const position = readPositionBook(path).find((entry) => entry.id === id);
+  if (!position) return undefined;
+  const removed = {
+    spotQuantity: scaleBase(position.spotQuantity, fraction),
+    perpSize: scaleBase(position.perpSize, fraction),
+    perpCollateral: scaleBase(position.perpCollateral, fraction),
+    ariesLoanAmount: scaleBase(position.ariesLoanAmount, fraction),
+  };
+  const updated: HedgePosition = {
+    ...position,
+    spotQuantity: (BigInt(position.spotQuantity) - removed.spotQuantity).toString(),
+    perpSize: (BigInt(position.perpSize) - removed.perpSize).toString(),
+    perpCollateral: (BigInt(position.perpCollateral) - removed.perpCollateral).toString(),
+    ariesLoanAmount: (BigInt(position.ariesLoanAmount) - removed.ariesLoanAmount).toString(),
+    spotSupply: position.spotSupply && {
+      ...position.spotSupply,
+      amount: (BigInt(position.spotSupply.amount) - scaleBase(position.spotSupply.amount, fraction)).toString(),
+    },
+    adjustments: [
+      ...(position.adjustments ?? []),
+      {
+        kind: 'partial_close',
+        fraction,
+        spotQuantity: removed.spotQuantity.toString(),
+        perpSize: removed.perpSize.toString(),
+        perpCollateral: removed.perpCollateral.toString(),
+        ariesLoanAmount: removed.ariesLoanAmount.toString(),
+        transactions,
+        at: new Date().toISOString(),
+      },
+    ],
+  };
+  upsertJsonItem(positionBookPath(path), updated);
+  return updated;
+}
+
+/**
+ * Applies a corrective trade from the rebalancer. Unlike scale-ins the legs
+ * move independently, so deltas are signed and only the touched leg changes.
+ */
+export function rebalancePosition(
+  id: string,
+  delta: Pick<PositionAdjustment, 'spotQuantity' | 'perpSize' | 'perpCollateral' | 'transactions'>,
+  path?: string,
+): HedgePosition | undefined {
+  const position = readPositionBook(path).find((entry) => entry.id === id);
+  if (!position) return undefined;
+  const add = (a: string, b: string) => {
+    const next = BigInt(a) + BigInt(b);
+    return (next > 0n ? next : 0n).toString();
+  };
+  const updated: HedgePosition = {
+    ...position,
+    spotQuantity: add(position.spotQuantity, delta.spotQuantity),
+    perpSize: add(position.perpSize, delta.perpSize),
+    perpCollateral: add(position.perpCollateral, delta.perpCollateral),
+    adjustments: [
+      ...(position.adjustments ?? []),
+      { kind: 'rebalance', ...delta, ariesLoanAmount: '0', at: new Date().toISOString() },
+    ],
+  };
+  upsertJsonItem(positionBookPath(path), updated);
+  return updated;
+}
+
+/** USDC per APT implied by a fill, from base-unit amounts. */
+export function spotFillPrice(usdcBase: bigint, aptBase: bigint): number | null {
+  if (aptBase <= 0n) return null;
+  return (Number(usdcBase) / 10 ** USDC_DECIMALS) / (Number(aptBase) / 10 ** APT_DECIMALS);
+}
+
+/** Average entry price of the account's perp position on `pair`, if any. */
+export async function fetchPerpEntryPrice(perp: PerpVenue, pair: string): Promise<number | null> {
+  try {
+    const position = await findPerpPosition(perp, pair);
+    return position ? position.avgPrice : null;
+  } catch (error) {
+    console.warn(`Unable to read the ${perp.name} entry price:`, (error as Error).message);
+    return null;
+  }
+}
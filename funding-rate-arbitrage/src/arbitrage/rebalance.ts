@@ -0,0 +1,571 @@
+import 'dotenv/config';
+import { createLendingVenue, type LendingVenue } from '../borrow/venue.js';
+import { findPerpPosition } from '../perp/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import { reverseSpotSwap, submitPayload } from './compensation.js';
+import {
+  findOpenPosition,
+  hedgeLoanShare,
+  hedgePerpShare,
+  rebalancePosition,
+  type HedgeDirection,
+  type HedgePosition,
+} from './position-book.js';
+
+export type RebalanceParams = {
+  perpPair?: string;
+  /** Position book entry to keep neutral; defaults to the open hedge on the pair. */
+  positionId?: string;
+  /** Net delta (USD) tolerated before correcting. */
+  bandUsd?: number;
+  /** Band as a percentage of the hedge notional; the wider of the two bands applies. */
+  bandPct?: number;
+  /** Leg that absorbs the correction. Spot trades are only placed for long-spot hedges. */
+  leg?: 'perp' | 'spot';
+  /** Caps a single corrective order (USD); larger drifts are corrected over several iterations. */
+  maxOrderUsd?: number;
+  slippageBps?: number;
+  /** Without `true`, corrections are planned and logged but not submitted. */
+  submit?: boolean;
+  intervalSec?: number;
+  /** Stop after this many iterations; runs until signalled when omitted. */
+  maxIterations?: number;
+  hyperionNetwork?: string;
+  perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
+  /** Lender short-spot loans are read from: a registered venue name (default LENDING_VENUE, else Aries) or a built venue. */
+  lendingVenue?: string | LendingVenue;
+  ariesCoreAddress?: string;
+  ariesProfile?: string;
+  ariesBorrowType?: string;
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+  /** Called with every iteration's record; defaults to one JSON line on stdout. */
+  onIteration?: (record: RebalanceIteration) => void;
+  /** Aborting stops the loop after the current iteration. */
+  signal?: AbortSignal;
+};
+
+export type HedgeDelta = {
+  positionId: string;
+  direction: HedgeDirection;
+  pair: string;
+  markPrice: number;
+  /** Signed spot APT: held (long spot) or owed to the lending venue with interest (short spot). */
+  spotApt: number;
+  spotSource: 'position_book' | 'venue_loan';
+  /** Signed APT exposure of the perp position (size / entry price). */
+  perpApt: number;
+  perpPnlUsd: number;
+  /** Positive means the hedge is net long APT. */
+  netApt: number;
+  netUsd: number;
+  notionalUsd: number;
+};
+
+type PerpState = {
+  isLong: boolean;
+  /** Perp size in collateral base units, valued at the entry price. */
+  size: bigint;
+  collateral: bigint;
+  avgPrice: number;
+};
+
+export type RebalancePlan =
+  | { action: 'within_band'; netUsd: number; bandUsd: number }
+  | { action: 'skip'; reason: string; netUsd?: number; bandUsd?: number }
+  | {
+    action: 'perp_order';
+    isLong: boolean;
+    isIncrease: boolean;
+    sizeDelta: string;
+    collateralDelta: string;
+    /** Net USD delta this order removes. */
+    correctsUsd: number;
+    netUsd: number;
+    bandUsd: number;
+  }
+  | {
+    action: 'spot_trade';
+    side: 'buy' | 'sell';
+    /** APT base units bought or sold. */
+    aptAmount: string;
+    correctsUsd: number;
+    netUsd: number;
+    bandUsd: number;
+  };
+
+export type RebalanceIteration = {
+  iteration: number;
+  at: string;
+  delta?: HedgeDelta;
+  plan?: RebalancePlan;
+  submitted?: boolean;
+  transactionHash?: string;
+  error?: string;
+};
+
+export type RebalanceSummary = {
+  action: 'rebalancer_stopped';
+  iterations: number;
+  failures: number;
+  corrections: number;
+};
+
+type PlanLimits = {
+  bandUsd: number;
+  bandPct: number;
+  leg: 'perp' | 'spot';
+  maxOrderUsd?: number;
+  minSize: bigint;
+  minCollateral: bigint;
+};
+
+const APT_DECIMALS = 8;
+const USDC_DECIMALS = 6;
+
+const DEFAULT_USDC_FA: Record<'mainnet' | 'testnet', string> = {
+  mainnet: '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b',
+  testnet: '0xf42db730eb3286e430e47d7bd4449e4dd687b1165039dedf990c56304f723987',
+};
+
+function parseArgs(argv: string[]): RebalanceParams {
+  const result: RebalanceParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'perp-pair':
+        result.perpPair = next;
+        i += 1;
+        break;
+      case 'position-id':
+        result.positionId = next;
+        i += 1;
+        break;
+      case 'band-usd':
+        result.bandUsd = Number(next);
+        i += 1;
+        break;
+      case 'band-pct':
+        result.bandPct = Number(next);
+        i += 1;
+        break;
+      case 'leg':
+        if (next !== 'perp' && next !== 'spot') {
+          throw new Error(`--leg must be 'perp' or 'spot'; got '${next}'.`);
+        }
+        result.leg = next;
+        i += 1;
+        break;
+      case 'max-order-usd':
+        result.maxOrderUsd = Number(next);
+        i += 1;
+        break;
+      case 'slippage-bps':
+        result.slippageBps = Number(next);
+        i += 1;
+        break;
+      case 'submit':
+        result.submit = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'interval-sec':
+        result.intervalSec = Number(next);
+        i += 1;
+        break;
+      case 'max-iterations':
+        result.maxIterations = Number(next);
+        i += 1;
+        break;
+      case 'hyperion-network':
+        result.hyperionNetwork = next;
+        i += 1;
+        break;
+      case 'perp-network':
+        result.perpNetwork = next;
+        i += 1;
+        break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
+      case 'lending-venue':
+        result.lendingVenue = next;
+        i += 1;
+        break;
+      case 'aries-core-address':
+        result.ariesCoreAddress = next;
+        i += 1;
+        break;
+      case 'aries-profile':
+        result.ariesProfile = next;
+        i += 1;
+        break;
+      case 'aries-borrow-type':
+        result.ariesBorrowType = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * The hedge's share of the venue's perp position on its pair; other hedges on
+ * the same pair keep theirs, so they never show up as drift.
+ */
+async function readPerpState(
+  clients: ArbitrageClients,
+  position: HedgePosition,
+): Promise<PerpState | undefined> {
+  const live = await findPerpPosition(clients.perp, position.perpPair);
+  if (!live) return undefined;
+  const { size, collateral } = hedgePerpShare(position, live);
+  return {
+    isLong: live.isLong,
+    size,
+    collateral,
+    avgPrice: live.avgPrice,
+  };
+}
+
+/**
+ * Live APT the spot leg carries. Short-spot hedges read their share of the
+ * lending venue's loan, so accrued interest shows up as drift; long-spot
+ * hedges use the quantity in the position book, which keeps unrelated wallet
+ * APT out.
+ */
+async function readSpotApt(
+  lending: LendingVenue,
+  position: HedgePosition,
+): Promise<{ apt: number; source: HedgeDelta['spotSource'] }> {
+  if (position.direction === 'long_spot_short_perp') {
+    return { apt: Number(position.spotQuantity) / 10 ** APT_DECIMALS, source: 'position_book' };
+  }
+
+  const loan = hedgeLoanShare(position, await lending.getLoan()).amount;
+  return { apt: -Number(loan) / 10 ** APT_DECIMALS, source: 'venue_loan' };
+}
+
+export function measureHedgeDelta(
+  position: HedgePosition,
+  spot: { apt: number; source: HedgeDelta['spotSource'] },
+  perp: PerpState,
+  markPrice: number,
+): HedgeDelta {
+  const perpAptAbs = Number(perp.size) / 10 ** USDC_DECIMALS / perp.avgPrice;
+  const perpApt = perp.isLong ? perpAptAbs : -perpAptAbs;
+  const netApt = spot.apt + perpApt;
+  return {
+    positionId: position.id,
+    direction: position.direction,
+    pair: position.perpPair,
+    markPrice,
+    spotApt: spot.apt,
+    spotSource: spot.source,
+    perpApt,
+    perpPnlUsd: perpApt * (markPrice - perp.avgPrice),
+    netApt,
+    netUsd: netApt * markPrice,
+    notionalUsd: Math.abs(spot.apt) * markPrice,
+  };
+}
+
+/**
+ * Picks the order that brings the hedge back to neutral when its net delta
+ * leaves the band. Perp corrections grow or shrink the perp position at its
+ * current leverage; spot corrections buy or sell APT against USDC.
+ */
+export function planRebalance(delta: HedgeDelta, perp: PerpState, limits: PlanLimits): RebalancePlan {
+  const bandUsd = Math.max(limits.bandUsd, (limits.bandPct / 100) * delta.notionalUsd);
+  const { netUsd, markPrice } = delta;
+  if (Math.abs(netUsd) <= bandUsd) {
+    return { action: 'within_band', netUsd, bandUsd };
+  }
+
+  const correctsUsd = Math.min(Math.abs(netUsd), limits.maxOrderUsd ?? Infinity);
+
+  if (limits.leg === 'spot') {
+    if (delta.direction !== 'long_spot_short_perp') {
+      return {
+        action: 'skip',
+        reason: 'Spot corrections need a long-spot hedge; use --leg perp for short-spot hedges.',
+        netUsd,
+        bandUsd,
+      };
+    }
+    const aptAmount = BigInt(Math.round((correctsUsd / markPrice) * 10 ** APT_DECIMALS));
+    return {
+      action: 'spot_trade',
+      side: netUsd > 0 ? 'sell' : 'buy',
+      aptAmount: aptAmount.toString(),
+      correctsUsd,
+      netUsd,
+      bandUsd,
+    };
+  }
+
+  // Net long needs more short exposure: grow a short perp or shrink a long one.
+  const isIncrease = netUsd > 0 ? !perp.isLong : perp.isLong;
+  if (isIncrease) {
+    let sizeDelta = BigInt(Math.round(correctsUsd * 10 ** USDC_DECIMALS));
+    if (sizeDelta < limits.minSize) {
+      // Rounding up to the minimum only helps while it lands closer to neutral.
+      if (Number(limits.minSize) / 10 ** USDC_DECIMALS >= 2 * Math.abs(netUsd)) {
+        return { action: 'skip', reason: 'Correction is below the perp venue\'s minimum order size.', netUsd, bandUsd };
+      }
+      sizeDelta = limits.minSize;
+    }
+    const atLeverage = perp.size > 0n ? (sizeDelta * perp.collateral) / perp.size : sizeDelta;
+    const collateralDelta = atLeverage > limits.minCollateral ? atLeverage : limits.minCollateral;
+    return {
+      action: 'perp_order',
+      isLong: perp.isLong,
+      isIncrease,
+      sizeDelta: sizeDelta.toString(),
+      collateralDelta: collateralDelta.toString(),
+      correctsUsd: Number(sizeDelta) / 10 ** USDC_DECIMALS,
+      netUsd,
+      bandUsd,
+    };
+  }
+
+  // Perp sizes are valued at the entry price, so shrink by the APT to remove.
+  const aptToRemove = correctsUsd / markPrice;
+  const wanted = BigInt(Math.round(aptToRemove * perp.avgPrice * 10 ** USDC_DECIMALS));
+  const sizeDelta = wanted < perp.size ? wanted : perp.size;
+  const collateralDelta = perp.size > 0n ? (perp.collateral * sizeDelta) / perp.size : 0n;
+  return {
+    action: 'perp_order',
+    isLong: perp.isLong,
+    isIncrease,
+    sizeDelta: sizeDelta.toString(),
+    collateralDelta: collateralDelta.toString(),
+    correctsUsd: (Number(sizeDelta) / 10 ** USDC_DECIMALS / perp.avgPrice) * markPrice,
+    netUsd,
+    bandUsd,
+  };
+}
+
+async function submitPerpOrder(
+  clients: ArbitrageClients,
+  pair: string,
+  plan: Extract<RebalancePlan, { action: 'perp_order' }>,
+): Promise<string> {
+  const { perp } = clients;
+  const collateralDelta = BigInt(plan.collateralDelta);
+  if (plan.isIncrease) {
+    const balance = await perp.getCollateralBalance();
+    if (balance < collateralDelta) {
+      throw new Error(
+        `${perp.name} balance ${balance} is below the ${collateralDelta} collateral the correction needs.`,
+      );
+    }
+  }
+  const { transactionHash } = await perp.placeMarketOrder({
+    pair,
+    sizeDelta: BigInt(plan.sizeDelta),
+    collateralDelta,
+    isLong: plan.isLong,
+    isIncrease: plan.isIncrease,
+  });
+  return transactionHash;
+}
+
+async function submitSpotTrade(
+  clients: ArbitrageClients,
+  position: HedgePosition,
+  plan: Extract<RebalancePlan, { action: 'spot_trade' }>,
+  slippageBps: number,
+): Promise<string> {
+  const { account, aptos, spot } = clients;
+  const aptFa = position.spotAsset;
+  const usdcFa = DEFAULT_USDC_FA[clients.hyperionNetwork];
+  const aptAmount = BigInt(plan.aptAmount);
+
+  if (plan.side === 'sell') {
+    const hash = await reverseSpotSwap({
+      aptos,
+      account,
+      spot,
+      fromFa: aptFa,
+      toFa: usdcFa,
+      amount: aptAmount,
+      slippageBps,
+    });
+    if (!hash) throw new Error('Spot correction rounded to zero APT.');
+    return hash;
+  }
+
+  const { quote } = await spot.quote({
+    from: usdcFa,
+    to: aptFa,
+    amount: aptAmount,
+    estimate: 'to',
+  });
+  if (!quote) {
+    throw new Error('No spot venue returned a route for the USDC -> APT correction.');
+  }
+  const payload = await spot.buildSwapPayload({
+    quote,
+    slippageBps,
+    recipient: account.accountAddress.toString(),
+  });
+  return submitPayload(aptos, account, payload);
+}
+
+/**
+ * Keeps an open hedge delta-neutral. Each iteration values the spot leg
+ * (position book or live lending-venue loan) and its perp position at the mark
+ * price, and once the net delta leaves the band places one corrective perp
+ * order or spot trade sized back to neutral. Corrections are recorded on the
+ * position so later closes see the adjusted legs.
+ */
+export async function runRebalancer(params: RebalanceParams = {}): Promise<RebalanceSummary> {
+  const perpPair = params.perpPair ?? 'APT_USD';
+  const intervalMs = (params.intervalSec ?? 60) * 1000;
+  const slippageBps = params.slippageBps ?? 50;
+  const report = params.onIteration ?? ((record: RebalanceIteration) => console.log(JSON.stringify(record)));
+
+  const clients = params.clients ?? await createArbitrageClients({
+    hyperionNetwork: params.hyperionNetwork,
+    perpNetwork: params.perpNetwork,
+    perpVenue: params.perpVenue,
+    spotVenues: params.spotVenues,
+  });
+  const lending = lendingVenueFor(params, clients);
+  const pairInfo = await clients.perp.getPairInfo(perpPair);
+  const limits: PlanLimits = {
+    bandUsd: params.bandUsd ?? 5,
+    bandPct: params.bandPct ?? 1,
+    leg: params.leg ?? 'perp',
+    maxOrderUsd: params.maxOrderUsd,
+    minSize: pairInfo.minimumPositionSize,
+    minCollateral: pairInfo.minimumOrderCollateral,
+  };
+
+  const summary: RebalanceSummary = { action: 'rebalancer_stopped', iterations: 0, failures: 0, corrections: 0 };
+
+  while (!params.signal?.aborted) {
+    summary.iterations += 1;
+    const record: RebalanceIteration = { iteration: summary.iterations, at: new Date().toISOString() };
+
+    try {
+      const position = params.positionId
+        ? findOpenPosition({ direction: 'long_spot_short_perp', id: params.positionId })
+        : findOpenPosition({ direction: 'long_spot_short_perp', perpPair })
+          ?? findOpenPosition({ direction: 'short_spot_long_perp', perpPair });
+      const perp = position ? await readPerpState(clients, position) : undefined;
+
+      if (!position) {
+        record.plan = { action: 'skip', reason: 'No open hedge in the position book.' };
+      } else if (!perp) {
+        record.plan = { action: 'skip', reason: `No open ${clients.perp.name} position on ${position.perpPair}.` };
+      } else {
+        const [spot, markPrice] = await Promise.all([
+          readSpotApt(lending, position),
+          clients.perp.getMarkPrice(position.perpPair),
+        ]);
+        const delta = measureHedgeDelta(position, spot, perp, markPrice);
+        const plan = planRebalance(delta, perp, limits);
+        record.delta = delta;
+        record.plan = plan;
+        record.submitted = Boolean(params.submit) && (plan.action === 'perp_order' || plan.action === 'spot_trade');
+
+        if (record.submitted && plan.action === 'perp_order') {
+          record.transactionHash = await submitPerpOrder(clients, position.perpPair, plan);
+          const sign = plan.isIncrease ? '' : '-';
+          rebalancePosition(position.id, {
+            spotQuantity: '0',
+            perpSize: `${sign}${plan.sizeDelta}`,
+            perpCollateral: `${sign}${plan.collateralDelta}`,
+            transactions: { perp: record.transactionHash },
+          });
+          summary.corrections += 1;
+        } else if (record.submitted && plan.action === 'spot_trade') {
+          record.transactionHash = await submitSpotTrade(clients, position, plan, slippageBps);
+          rebalancePosition(position.id, {
+            spotQuantity: plan.side === 'buy' ? plan.aptAmount : `-${plan.aptAmount}`,
+            perpSize: '0',
+            perpCollateral: '0',
+            transactions: { spot: record.transactionHash },
+          });
+          summary.corrections += 1;
+        }
+      }
+    } catch (error) {
+      summary.failures += 1;
+      record.error = (error as Error)?.message ?? String(error);
+    }
+
+    report(record);
+
+    if (params.maxIterations && summary.iterations >= params.maxIterations) break;
+    await sleep(intervalMs, params.signal);
+  }
+
+  return summary;
+}
+
+export async function main() {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const summary = await runRebalancer({ ...parseArgs(process.argv.slice(2)), signal: controller.signal });
+  console.log(JSON.stringify(summary, null, 2));
+  return summary;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Rebalancer error:', error);
+    process.exitCode = 1;
+  });
+}
+
+/**
+ * The venue named by `--lending-venue` (or LENDING_VENUE, else Aries). The
+ * `--aries-*` flags are handed over as config; other venues ignore them.
+ */
+function lendingVenueFor(params: RebalanceParams, clients: ArbitrageClients): LendingVenue {
+  if (params.lendingVenue && typeof params.lendingVenue !== 'string') {
+    return params.lendingVenue;
+  }
+  return createLendingVenue(params.lendingVenue, {
+    aptos: clients.aptos,
+    account: clients.account,
+    config: {
+      coreAddress: params.ariesCoreAddress,
+      profileName: params.ariesProfile,
+      borrowType: params.ariesBorrowType,
+    },
+  });
+}
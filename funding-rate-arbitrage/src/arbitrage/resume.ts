@@ -0,0 +1,694 @@
+import 'dotenv/config';
+import { createLendingVenue } from '../borrow/venue.js';
+import { createPerpVenue } from '../perp/venue.js';
+import { isCliEntry } from '../utils/cli.js';
+import { getFaBalance } from '../spot/balances.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import {
+  closePerpPosition,
+  createCompensationPlan,
+  depositPerpCollateral,
+  repayAriesBorrow,
+  repayVenueBorrow,
+  reverseSpotSwap,
+  submitPayload,
+  withCompensation,
+  withdrawPerpDeposit,
+  type CompensationPlan,
+  type CompensationReport,
+} from './compensation.js';
+import {
+  committedTransitions,
+  findResumableEntry,
+  readJournal,
+  resumeJournalRun,
+  type JournalEntry,
+  type JournalRun,
+  type JournalState,
+  type JournalTransition,
+} from './journal.js';
+import {
+  addSpotSupply,
+  fetchPerpEntryPrice,
+  markPositionClosed,
+  recordOpenPosition,
+  scaleInPosition,
+  spotFillPrice,
+} from './position-book.js';
+import { runCloseLongSpotShortPerp } from './close-long-spot-short-perp.js';
+import { runCloseShortSpotLongPerp } from './close-short-spot-long-perp.js';
+import { perpSizeForSpot } from './sizing.js';
+import {
+  printResult,
+  type ArbitrageAbortResult,
+  type ArbitrageResult,
+  type ArbitrageResumedResult,
+  type PerpDepositResult,
+} from './types.js';
+
+export type ResumeParams = {
+  /** Journal entry to resume; defaults to the most recent run still in progress. */
+  id?: string;
+  /** `continue` finishes the remaining steps, `unwind` reverses the committed ones. */
+  mode?: 'continue' | 'unwind';
+  journalPath?: string;
+  /** Pre-built clients; created from the journaled networks and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+};
+
+export type ResumeResult =
+  | ArbitrageAbortResult
+  | ArbitrageResumedResult<{
+    fromState: JournalState;
+    status: JournalEntry['status'];
+    steps?: CompensationReport;
+    depositResult?: PerpDepositResult | null;
+    closeResult?: ArbitrageResult;
+    positionId?: string;
+  }>;
+
+/** Fields the flows journal for resume; amounts are base-unit strings. */
+type JournalContext = {
+  hyperionNetwork?: string;
+  perpNetwork?: string;
+  perpPair: string;
+  aptFa: string;
+  usdcFa: string;
+  slippageBps: number;
+  borrowAmount?: string;
+  usdcReceived?: string;
+  aptReceived?: string;
+  usdcSpent?: string;
+  sizeDelta?: string;
+  collateralDelta?: string;
+  depositAmount?: string;
+  positionId?: string;
+  fraction?: number;
+  /** APT a long-spot close set out to sell. */
+  aptToSell?: string;
+  /** Open position a scale-in run adds to. */
+  scaleInto?: string;
+  /** Entries journaled before lending venues; newer ones record `lending`. */
+  aries?: {
+    coreAddress: string;
+    moduleName?: string;
+    profileName?: string;
+    borrowType: string;
+    borrowKind: 'coin' | 'fa';
+  };
+  lending?: {
+    venue: string;
+    config: Record<string, unknown>;
+  };
+  /** Missing on entries journaled before perp venues, which all ran on Merkle. */
+  perp?: {
+    venue: string;
+    config: Record<string, unknown>;
+  };
+  /** Spot venues the run routed over; entries journaled before routing only used Hyperion. */
+  spotVenues?: string[];
+  /** Lending venue a long-spot run supplies its APT to. */
+  supply?: {
+    venue: string;
+    config: Record<string, unknown>;
+  };
+  supplyAmount?: string;
+  /** Perp-vs-perp spreads journal a venue per leg instead of `perp`. */
+  legs?: Record<'long' | 'short', {
+    venue: string;
+    config: Record<string, unknown>;
+  }>;
+};
+
+// Leave enough APT in the wallet to pay for the resumed transactions.
+const GAS_RESERVE_OCTAS = 2_000_000n;
+
+function parseArgs(argv: string[]): ResumeParams & { list?: boolean } {
+  const result: ResumeParams & { list?: boolean } = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'id':
+        result.id = next;
+        i += 1;
+        break;
+      case 'mode':
+        if (next !== 'continue' && next !== 'unwind') {
+          throw new Error(`Invalid --mode '${next}'. Use 'continue' or 'unwind'.`);
+        }
+        result.mode = next;
+        i += 1;
+        break;
+      case 'journal':
+        result.journalPath = next;
+        i += 1;
+        break;
+      case 'list':
+        result.list = next?.toLowerCase() !== 'false';
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Picks up a journaled run from its last committed state and either finishes
+ * the remaining legs or unwinds the ones already on-chain.
+ */
+export async function runResume(params: ResumeParams = {}): Promise<ResumeResult> {
+  const mode = params.mode ?? 'continue';
+  const entry = findResumableEntry(params.id, params.journalPath);
+
+  if (!entry) {
+    return {
+      action: 'abort',
+      reason: 'no_resumable_run',
+      id: params.id,
+      message: params.id
+        ? `No journal entry with id ${params.id}.`
+        : 'No journaled run is in progress.'
+    };
+  }
+
+  if (entry.status !== 'in_progress') {
+    return {
+      action: 'abort',
+      reason: 'run_not_in_progress',
+      journalId: entry.id,
+      status: entry.status,
+      message: `Journal entry ${entry.id} is already ${entry.status}.`
+    };
+  }
+
+  const run = resumeJournalRun(entry, params.journalPath);
+  const fromState = entry.state;
+  const committed = committedTransitions(entry);
+
+  if (committed.length === 0) {
+    run.finish('abandoned');
+    return {
+      action: 'abort',
+      reason: 'nothing_committed',
+      journalId: entry.id,
+      message: 'No transaction of this run was confirmed; re-run the flow instead.'
+    };
+  }
+
+  const context = entry.context as JournalContext;
+  const clients = params.clients ?? await createArbitrageClients({
+    hyperionNetwork: context.hyperionNetwork,
+    perpNetwork: context.perpNetwork,
+    perpVenue: context.perp?.venue ?? context.legs?.long.venue ?? 'merkle',
+    perpVenueConfig: context.perp?.config ?? context.legs?.long.config,
+    spotVenues: context.spotVenues ?? ['hyperion'],
+  });
+
+  if (entry.flow === 'perp_spread' || entry.flow === 'close_perp_spread') {
+    return resumeSpread(entry, run, committed, mode, clients);
+  }
+
+  const isCloseFlow = entry.flow === 'close_long_spot_short_perp'
+    || entry.flow === 'close_short_spot_long_perp';
+
+  if (isCloseFlow) {
+    if (mode === 'unwind') {
+      return {
+        action: 'abort',
+        reason: 'not_reversible',
+        journalId: entry.id,
+        message: 'Close flows cannot be unwound; resume with --mode continue to finish closing.'
+      };
+    }
+    return continueClose(entry, run, clients, fromState);
+  }
+
+  const plan = createCompensationPlan({ journal: run });
+  for (const transition of committed) {
+    if (!transition.step) continue;
+    plan.restore(
+      transition.step,
+      transition.transactionHash,
+      () => compensateStep(entry, transition.step!, clients),
+    );
+  }
+
+  if (mode === 'unwind') {
+    const rolledBack = await plan.unwind();
+    if (rolledBack.every((step) => step.status === 'rolled_back')) {
+      run.finish('unwound');
+    }
+    return {
+      action: 'arbitrage_resumed',
+      strategy: entry.flow,
+      journalId: entry.id,
+      mode,
+      fromState,
+      status: run.entry().status,
+      steps: plan.report()
+    };
+  }
+
+  const states = new Set(committed.map((transition) => transition.state));
+  return withCompensation(plan, async (): Promise<ResumeResult> => {
+    if (!states.has('swapped')) {
+      // Only the short flow can get here: APT is borrowed but not yet sold.
+      await swapBorrowedApt(entry, plan, clients);
+    }
+
+    const depositResult = states.has('deposited') || states.has('perp_opened')
+      ? null
+      : await depositCollateral(entry, plan, run, clients);
+
+    if (!states.has('perp_opened')) {
+      await openPerp(entry, plan, run, clients);
+    }
+
+    const position = await recordResumedPosition(run.entry(), plan, clients);
+
+    return {
+      action: 'arbitrage_resumed',
+      strategy: entry.flow,
+      journalId: entry.id,
+      mode,
+      fromState,
+      status: 'completed',
+      steps: plan.report(),
+      depositResult,
+      positionId: position.id
+    };
+  }, 'arbitrage_resumed');
+}
+
+/**
+ * Spreads only unwind: a half-open spread is closed leg by leg rather than
+ * completed at whatever the funding is now, and an interrupted close is
+ * finished by the next perp-perp close, which skips legs already gone.
+ */
+async function resumeSpread(
+  entry: JournalEntry,
+  run: JournalRun,
+  committed: JournalTransition[],
+  mode: 'continue' | 'unwind',
+  clients: ArbitrageClients,
+): Promise<ResumeResult> {
+  const fromState = entry.state;
+  if (entry.flow === 'close_perp_spread') {
+    return {
+      action: 'abort',
+      reason: 'not_reversible',
+      journalId: entry.id,
+      message: 'Spread closes cannot be resumed; re-run perp-perp and it closes the legs still open.'
+    };
+  }
+  if (mode === 'continue') {
+    return {
+      action: 'abort',
+      reason: 'not_resumable',
+      journalId: entry.id,
+      message: 'A half-open spread can only be unwound; resume with --mode unwind.'
+    };
+  }
+
+  const plan = createCompensationPlan({ journal: run });
+  for (const transition of committed) {
+    if (!transition.step) continue;
+    plan.restore(
+      transition.step,
+      transition.transactionHash,
+      () => compensateSpreadStep(entry, transition, clients),
+    );
+  }
+  const rolledBack = await plan.unwind();
+  if (rolledBack.every((step) => step.status === 'rolled_back')) {
+    run.finish('unwound');
+  }
+  return {
+    action: 'arbitrage_resumed',
+    strategy: entry.flow,
+    journalId: entry.id,
+    mode,
+    fromState,
+    status: run.entry().status,
+    steps: plan.report()
+  };
+}
+
+async function compensateSpreadStep(
+  entry: JournalEntry,
+  transition: JournalTransition,
+  clients: ArbitrageClients,
+): Promise<string | undefined> {
+  const context = entry.context as JournalContext;
+  const side = transition.step?.startsWith('long_') ? 'long' : 'short';
+  const leg = context.legs?.[side];
+  if (!leg) {
+    throw new Error(`Journal entry does not record the ${side} leg's venue; unwind it manually.`);
+  }
+  const perp = await createPerpVenue(leg.venue, {
+    aptos: clients.aptos,
+    account: clients.account,
+    network: clients.perpNetwork,
+    config: leg.config,
+  });
+
+  switch (transition.step) {
+    case 'long_deposit':
+    case 'short_deposit':
+      // Both legs journal `depositAmount`, so read it off the transition, not the merged context.
+      return withdrawPerpDeposit({
+        perp,
+        amount: BigInt(String(transition.data?.depositAmount ?? '0')),
+      });
+    case 'long_open':
+    case 'short_open':
+      return closePerpPosition({
+        perp,
+        pair: context.perpPair,
+        size: BigInt(context.sizeDelta ?? '0'),
+        isLong: side === 'long',
+      });
+    default:
+      throw new Error(`No compensation known for step '${transition.step}'.`);
+  }
+}
+
+/** Adds the hedge a resumed open flow just finished to the position book (or to the hedge it scales). */
+async function recordResumedPosition(
+  entry: JournalEntry,
+  plan: CompensationPlan,
+  clients: ArbitrageClients,
+) {
+  const context = entry.context as JournalContext;
+  const isShortSpot = entry.flow === 'short_spot_long_perp';
+  const hashes = new Map(plan.report().executed.map((step) => [step.step, step.transactionHash]));
+  const aptAmount = BigInt((isShortSpot ? context.borrowAmount : context.aptReceived) ?? '0');
+  const usdcAmount = BigInt((isShortSpot ? context.usdcReceived : context.usdcSpent) ?? '0');
+
+  const legs = {
+    spotQuantity: aptAmount.toString(),
+    perpSize: context.sizeDelta ?? '0',
+    perpCollateral: context.collateralDelta ?? '0',
+    ariesLoanAmount: isShortSpot ? context.borrowAmount ?? '0' : '0',
+    entryPrices: {
+      spot: spotFillPrice(usdcAmount, aptAmount),
+      perp: await fetchPerpEntryPrice(clients.perp, context.perpPair),
+    },
+    transactions: {
+      borrow: hashes.get('aries_borrow'),
+      spot: hashes.get('hyperion_swap'),
+      deposit: hashes.get('merkle_deposit'),
+      perp: hashes.get('perp_open'),
+      supply: hashes.get('aries_supply'),
+    },
+  };
+  const supplied = hashes.has('aries_supply') && context.supply && context.supplyAmount
+    ? { ...context.supply, amount: context.supplyAmount }
+    : undefined;
+  const scaled = context.scaleInto ? scaleInPosition(context.scaleInto, legs) : undefined;
+  if (scaled && supplied) {
+    return addSpotSupply(scaled.id, supplied) ?? scaled;
+  }
+  return scaled ?? recordOpenPosition({
+    direction: isShortSpot ? 'short_spot_long_perp' : 'long_spot_short_perp',
+    perpPair: context.perpPair,
+    spotAsset: context.aptFa,
+    ...legs,
+    spotSupply: supplied,
+    journalId: entry.id,
+  });
+}
+
+async function compensateStep(
+  entry: JournalEntry,
+  step: string,
+  clients: ArbitrageClients,
+): Promise<string | undefined> {
+  const { aptos, account, perp, spot } = clients;
+  const context = entry.context as JournalContext;
+  const owner = account.accountAddress.toString();
+  const isShortSpot = entry.flow === 'short_spot_long_perp';
+
+  switch (step) {
+    case 'aries_borrow': {
+      if (context.lending && context.borrowAmount) {
+        return repayVenueBorrow({
+          aptos,
+          account,
+          venue: createLendingVenue(context.lending.venue, { aptos, account, config: context.lending.config }),
+          borrowAmount: BigInt(context.borrowAmount),
+        });
+      }
+      if (!context.aries || !context.borrowAmount) {
+        throw new Error('Journal entry is missing the borrow details needed to repay.');
+      }
+      return repayAriesBorrow({
+        aptos,
+        account,
+        ...context.aries,
+        borrowAmount: BigInt(context.borrowAmount),
+      });
+    }
+    case 'hyperion_swap': {
+      // Short spot sold APT for USDC; long spot bought APT with USDC.
+      const fromFa = isShortSpot ? context.usdcFa : context.aptFa;
+      const toFa = isShortSpot ? context.aptFa : context.usdcFa;
+      const received = isShortSpot ? context.usdcReceived : context.aptReceived;
+      if (!received) {
+        throw new Error('Journal entry does not record the swap fill; reverse it manually.');
+      }
+      const available = await getFaBalance(aptos, owner, fromFa);
+      const spendable = fromFa === '0xa' && available > GAS_RESERVE_OCTAS
+        ? available - GAS_RESERVE_OCTAS
+        : available;
+      const amount = BigInt(received);
+      return reverseSpotSwap({
+        aptos,
+        account,
+        spot,
+        fromFa,
+        toFa,
+        amount: spendable < amount ? spendable : amount,
+        slippageBps: context.slippageBps,
+      });
+    }
+    case 'aries_supply': {
+      if (!context.supply || !context.supplyAmount) {
+        throw new Error('Journal entry is missing the supply details needed to withdraw.');
+      }
+      const venue = createLendingVenue(context.supply.venue, { aptos, account, config: context.supply.config });
+      return venue.withdrawCollateral(BigInt(context.supplyAmount));
+    }
+    case 'merkle_deposit':
+      return withdrawPerpDeposit({
+        perp,
+        amount: BigInt(context.depositAmount ?? '0'),
+      });
+    case 'perp_open':
+      return closePerpPosition({
+        perp,
+        pair: context.perpPair,
+        size: BigInt(context.sizeDelta ?? '0'),
+        isLong: isShortSpot,
+      });
+    default:
+      throw new Error(`No compensation known for step '${step}'.`);
+  }
+}
+
+async function swapBorrowedApt(entry: JournalEntry, plan: CompensationPlan, clients: ArbitrageClients) {
+  const { aptos, account, spot } = clients;
+  const context = entry.context as JournalContext;
+  if (entry.flow !== 'short_spot_long_perp' || !context.borrowAmount) {
+    throw new Error(`Cannot resume ${entry.flow} before its spot swap; re-run the flow instead.`);
+  }
+
+  const owner = account.accountAddress.toString();
+  const walletApt = await getFaBalance(aptos, owner, context.aptFa);
+  const spendable = walletApt > GAS_RESERVE_OCTAS ? walletApt - GAS_RESERVE_OCTAS : 0n;
+  const borrowAmount = BigInt(context.borrowAmount);
+  const amountIn = spendable < borrowAmount ? spendable : borrowAmount;
+
+  const { quote } = await spot.quote({
+    from: context.aptFa,
+    to: context.usdcFa,
+    amount: amountIn,
+    estimate: 'from',
+  });
+  if (!quote) {
+    throw new Error('No spot venue returned a route for APT -> USDC swap');
+  }
+
+  const usdcBefore = await getFaBalance(aptos, owner, context.usdcFa);
+  await plan.run('hyperion_swap', async () => {
+    const payload = await spot.buildSwapPayload({
+      quote,
+      slippageBps: context.slippageBps,
+      recipient: owner,
+    });
+    const hash = await submitPayload(aptos, account, payload);
+    const usdcAfter = await getFaBalance(aptos, owner, context.usdcFa);
+    return { hash, usdcReceived: usdcAfter - usdcBefore };
+  }, {
+    transactionHash: (swap) => swap.hash,
+    detail: (swap) => ({ venue: quote.venue, usdcReceived: swap.usdcReceived.toString() }),
+    compensate: () => compensateStep(entry, 'hyperion_swap', clients),
+  });
+}
+
+/** Recomputes perp size and collateral when the run died before journaling them. */
+async function resolvePerpSizing(entry: JournalEntry, run: JournalRun, clients: ArbitrageClients) {
+  const context = entry.context as JournalContext;
+  if (context.sizeDelta && context.collateralDelta) {
+    return { sizeDelta: BigInt(context.sizeDelta), collateralDelta: BigInt(context.collateralDelta) };
+  }
+
+  // Long spot hedges the APT actually received at the mark, as the open flow does.
+  const aptReceived = entry.context.aptReceived as string | undefined;
+  const notional = entry.flow === 'short_spot_long_perp'
+    ? context.usdcReceived
+    : aptReceived
+      ? perpSizeForSpot(BigInt(aptReceived), await clients.perp.getMarkPrice(context.perpPair)).toString()
+      : (entry.context.usdcSpent as string | undefined);
+  if (!notional) {
+    throw new Error('Journal entry does not record the spot fill needed to size the perp leg.');
+  }
+
+  const pairInfo = await clients.perp.getPairInfo(context.perpPair);
+  const minSize = pairInfo.minimumPositionSize;
+  const minCollateral = pairInfo.minimumOrderCollateral;
+  const filled = BigInt(notional);
+  const sizeDelta = filled > minSize ? filled : minSize;
+  const collateralDelta = sizeDelta > minCollateral ? sizeDelta : minCollateral;
+
+  run.annotate({ sizeDelta: sizeDelta.toString(), collateralDelta: collateralDelta.toString() });
+  return { sizeDelta, collateralDelta };
+}
+
+async function depositCollateral(
+  entry: JournalEntry,
+  plan: CompensationPlan,
+  run: JournalRun,
+  clients: ArbitrageClients,
+): Promise<PerpDepositResult | null> {
+  const { collateralDelta } = await resolvePerpSizing(entry, run, clients);
+  return depositPerpCollateral(plan, clients.perp, collateralDelta);
+}
+
+async function openPerp(
+  entry: JournalEntry,
+  plan: CompensationPlan,
+  run: JournalRun,
+  clients: ArbitrageClients,
+) {
+  const context = entry.context as JournalContext;
+  const { sizeDelta, collateralDelta } = await resolvePerpSizing(entry, run, clients);
+  const isLong = entry.flow === 'short_spot_long_perp';
+
+  await plan.run('perp_open', () => clients.perp.placeMarketOrder({
+    pair: context.perpPair,
+    sizeDelta,
+    collateralDelta,
+    isLong,
+    isIncrease: true,
+  }), {
+    transactionHash: (order) => order.transactionHash,
+    compensate: () => compensateStep(entry, 'perp_open', clients),
+  });
+}
+
+/** Sum of a base-unit amount the committed `step`s recorded. */
+function committedAmount(entry: JournalEntry, step: string, key: string): bigint {
+  return committedTransitions(entry)
+    .filter((transition) => transition.step === step)
+    .reduce((total, transition) => {
+      const value = transition.data?.[key];
+      return total + (typeof value === 'string' || typeof value === 'number' ? BigInt(value) : 0n);
+    }, 0n);
+}
+
+/**
+ * Finishes an interrupted close by re-running the close flow with its spot
+ * leg disabled, so only the remaining repay/perp legs execute. A long-spot
+ * close that withdrew its supplied APT but stopped before selling it sells
+ * what is left first, so the perp short is never closed over naked APT.
+ */
+async function continueClose(
+  entry: JournalEntry,
+  run: JournalRun,
+  clients: ArbitrageClients,
+  fromState: JournalState,
+): Promise<ResumeResult> {
+  const context = entry.context as JournalContext;
+  const common = {
+    perpPair: context.perpPair,
+    positionId: context.positionId,
+    fraction: context.fraction,
+    slippageBps: context.slippageBps,
+    clients,
+  };
+
+  let closeResult: ArbitrageResult;
+  if (entry.flow === 'close_long_spot_short_perp') {
+    const withdrawn = committedAmount(entry, 'supply_withdraw', 'supplyWithdrawn');
+    const sold = committedAmount(entry, 'spot_close', 'aptSold');
+    // Entries journaled before `aptToSell` only know what came off the lending venue.
+    const planned = context.aptToSell !== undefined ? BigInt(context.aptToSell) : withdrawn;
+    const remaining = withdrawn > 0n && planned > sold ? planned - sold : 0n;
+    closeResult = await runCloseLongSpotShortPerp(remaining > 0n
+      ? { ...common, spotInBase: remaining.toString(), submitSpot: true }
+      : { ...common, spotOut: '0' });
+  } else {
+    const repaid = committedTransitions(entry).some((transition) => transition.state === 'loan_repaid');
+    closeResult = await runCloseShortSpotLongPerp({
+      ...common,
+      spotOut: '0',
+      // Skipping the spot leg also skips a repay that already landed.
+      submitSpot: !repaid,
+    });
+  }
+
+  const positionGone = closeResult.action === 'abort' && closeResult.reason === 'no_open_position';
+  if (positionGone && context.positionId) {
+    markPositionClosed(context.positionId, {});
+  }
+  if (closeResult.action === 'arbitrage_closed' || positionGone) {
+    run.finish('completed');
+  }
+
+  return {
+    action: 'arbitrage_resumed',
+    strategy: entry.flow,
+    journalId: entry.id,
+    mode: 'continue',
+    fromState,
+    status: run.entry().status,
+    closeResult
+  };
+}
+
+export async function main() {
+  const params = parseArgs(process.argv.slice(2));
+  if (params.list) {
+    const entries = readJournal(params.journalPath)
+      .filter((entry) => entry.status === 'in_progress')
+      .map(({ id, flow, state, updatedAt }) => ({ id, flow, state, updatedAt }));
+    console.log(JSON.stringify(entries, null, 2));
+    return entries;
+  }
+  const result = await runResume(params);
+  printResult(result);
+  return result;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Resume error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,337 @@
+import 'dotenv/config';
+import { gasFeeOctas } from '../spot/balances.js';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import { runCloseLongSpotShortPerp } from './close-long-spot-short-perp.js';
+import { runCloseShortSpotLongPerp } from './close-short-spot-long-perp.js';
+import { runLongSpotShortPerp } from './long-spot-short-perp.js';
+import {
+  findOpenPosition,
+  readPositionBook,
+  type HedgeDirection,
+  type HedgePosition,
+} from './position-book.js';
+import { runShortSpotLongPerp } from './short-spot-long-perp.js';
+import {
+  printResult,
+  type ArbitrageAbortResult,
+  type ArbitrageDryRunResult,
+  type ArbitrageResult,
+  type ArbitrageRotatedResult,
+} from './types.js';
+
+export type RotateParams = {
+  perpPair?: string;
+  /** Position book entry to rotate; defaults to the latest open hedge on the pair. */
+  positionId?: string;
+  /**
+   * Size of the new hedge: APT to buy when rotating into long spot, USDC to
+   * raise when rotating into short spot. Defaults to the closed hedge's size.
+   */
+  spotOut?: string;
+  slippageBps?: number;
+  /** Passed to the opening flow; 'auto' re-checks live funding before opening. */
+  minFunding?: 'auto' | number;
+  /** Without `true` the rotation is only planned. */
+  submit?: boolean;
+  hyperionNetwork?: string;
+  perpNetwork?: string;
+  /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+  perpVenue?: string;
+  /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+  spotVenues?: string[];
+  /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+  clients?: ArbitrageClients;
+};
+
+type RotationPlan = {
+  positionId: string;
+  from: HedgeDirection;
+  to: HedgeDirection;
+  perpPair: string;
+  spotOut: string;
+};
+
+export type RotationCost = {
+  /** Gas across every rotation transaction. */
+  gasOctas: string;
+  /** Taker fees on the perp size closed plus the size opened. */
+  perpFeesUsdc: number;
+  /** Spot execution cost of both swaps against the perp venue's mark price. */
+  spotCostUsdc: number | null;
+  markPrice: number | null;
+  /** Perp fees, spot cost and gas valued at the mark price. */
+  totalUsdc: number | null;
+};
+
+export type RotateResult =
+  | ArbitrageDryRunResult<{ plan: RotationPlan }>
+  | ArbitrageAbortResult
+  | ArbitrageRotatedResult<{
+    plan: RotationPlan;
+    closedPositionId: string;
+    openedPositionId: string;
+    /** USDC released into the perp venue account by the close and reused as collateral. */
+    collateralReused: string;
+    cost: RotationCost;
+    closeResult: ArbitrageResult;
+    openResult: ArbitrageResult;
+  }>;
+
+const APT_DECIMALS = 8;
+const USDC_DECIMALS = 6;
+
+const OPPOSITE: Record<HedgeDirection, HedgeDirection> = {
+  long_spot_short_perp: 'short_spot_long_perp',
+  short_spot_long_perp: 'long_spot_short_perp',
+};
+
+function parseArgs(argv: string[]): RotateParams {
+  const result: RotateParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'perp-pair':
+        result.perpPair = next;
+        i += 1;
+        break;
+      case 'position-id':
+        result.positionId = next;
+        i += 1;
+        break;
+      case 'spot-out':
+        result.spotOut = next;
+        i += 1;
+        break;
+      case 'slippage-bps':
+        result.slippageBps = Number(next);
+        i += 1;
+        break;
+      case 'min-funding':
+        result.minFunding = next?.toLowerCase() === 'auto' ? 'auto' : Number(next);
+        i += 1;
+        break;
+      case 'submit':
+        result.submit = next?.toLowerCase() === 'true';
+        i += 1;
+        break;
+      case 'hyperion-network':
+        result.hyperionNetwork = next;
+        i += 1;
+        break;
+      case 'perp-network':
+        result.perpNetwork = next;
+        i += 1;
+        break;
+      case 'perp-venue':
+        result.perpVenue = next;
+        i += 1;
+        break;
+      case 'spot-venues':
+        result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function toHuman(base: string, decimals: number): string {
+  return (Number(base) / 10 ** decimals).toString();
+}
+
+/**
+ * Closes the open hedge on a pair and opens the opposite one in a single run.
+ * The USDC the close releases into the perp venue account is passed as the new
+ * perp leg's collateral, so nothing is withdrawn and re-deposited in between.
+ */
+export async function runRotate(params: RotateParams = {}): Promise<RotateResult> {
+  const position = params.positionId
+    ? findOpenPosition({ direction: 'long_spot_short_perp', id: params.positionId })
+    : findOpenPosition({ direction: 'long_spot_short_perp', perpPair: params.perpPair })
+      ?? findOpenPosition({ direction: 'short_spot_long_perp', perpPair: params.perpPair });
+
+  if (!position) {
+    return {
+      action: 'abort',
+      reason: 'no_open_position',
+      positionId: params.positionId,
+      message: 'No open hedge in the position book to rotate.'
+    };
+  }
+
+  const to = OPPOSITE[position.direction];
+  const plan: RotationPlan = {
+    positionId: position.id,
+    from: position.direction,
+    to,
+    perpPair: position.perpPair,
+    // Keep the same exposure: APT held becomes APT borrowed and vice versa.
+    spotOut: params.spotOut ?? (to === 'short_spot_long_perp'
+      ? toHuman(position.perpSize, USDC_DECIMALS)
+      : toHuman(position.spotQuantity, APT_DECIMALS)),
+  };
+
+  if (!params.submit) {
+    return {
+      action: 'dry_run',
+      message: 'Rotation planned (pass --submit true to close and reopen).',
+      plan
+    };
+  }
+
+  const clients = params.clients ?? await createArbitrageClients({
+    hyperionNetwork: params.hyperionNetwork,
+    perpNetwork: params.perpNetwork,
+    perpVenue: params.perpVenue,
+    spotVenues: params.spotVenues,
+  });
+  const { perp } = clients;
+  const common = { perpPair: position.perpPair, slippageBps: params.slippageBps, clients };
+
+  const collateralBefore = await perp.getCollateralBalance();
+  const closeResult = position.direction === 'long_spot_short_perp'
+    ? await runCloseLongSpotShortPerp({ ...common, positionId: position.id })
+    : await runCloseShortSpotLongPerp({ ...common, positionId: position.id });
+
+  if (closeResult.action !== 'arbitrage_closed') {
+    return {
+      action: 'abort',
+      reason: 'close_failed',
+      plan,
+      closeResult,
+      message: 'The existing hedge was not closed; nothing was opened.'
+    };
+  }
+
+  const collateralAfter = await perp.getCollateralBalance();
+  const freed = collateralAfter > collateralBefore ? collateralAfter - collateralBefore : 0n;
+  const perpCollateral = freed > 0n ? toHuman(freed.toString(), USDC_DECIMALS) : undefined;
+
+  const open = {
+    ...common,
+    spotOut: plan.spotOut,
+    perpCollateral,
+    minFunding: params.minFunding,
+    submitSpot: true,
+    submitPerp: true,
+  };
+  const openResult = to === 'long_spot_short_perp'
+    ? await runLongSpotShortPerp(open)
+    : await runShortSpotLongPerp(open);
+
+  if (openResult.action !== 'arbitrage_executed') {
+    return {
+      action: 'abort',
+      reason: 'open_failed',
+      plan,
+      closedPositionId: position.id,
+      closeResult,
+      openResult,
+      message: `Closed ${position.direction} but ${to} did not open; the account is flat.`
+    };
+  }
+
+  const book = readPositionBook();
+  const closed = book.find((entry) => entry.id === position.id) ?? position;
+  const opened = book.find((entry) => entry.id === openResult.positionId);
+
+  return {
+    action: 'arbitrage_rotated',
+    from: position.direction,
+    to,
+    plan,
+    closedPositionId: position.id,
+    openedPositionId: openResult.positionId,
+    collateralReused: freed.toString(),
+    cost: await rotationCost(clients, closed, opened, closeResult.spotQuote),
+    closeResult,
+    openResult
+  };
+}
+
+async function rotationCost(
+  clients: ArbitrageClients,
+  closed: HedgePosition,
+  opened: HedgePosition | undefined,
+  closeQuote: { amountIn: string; amountOut: string } | null,
+): Promise<RotationCost> {
+  const { aptos, perp } = clients;
+  const pair = closed.perpPair;
+
+  const hashes = [
+    ...Object.values(closed.closeTransactions ?? {}),
+    ...Object.values(opened?.transactions ?? {}),
+  ].filter((hash): hash is string => Boolean(hash));
+  let gasOctas = 0n;
+  for (const transactionHash of hashes) {
+    gasOctas += gasFeeOctas(await aptos.getTransactionByHash({ transactionHash }));
+  }
+
+  const pairInfo = await perp.getPairInfo(pair);
+  const takerFee = pairInfo.takerFeeBps / 10_000;
+  const sizeTraded = Number(closed.perpSize) + Number(opened?.perpSize ?? 0);
+  const perpFeesUsdc = (sizeTraded / 10 ** USDC_DECIMALS) * takerFee;
+
+  let markPrice: number | null = null;
+  try {
+    markPrice = await perp.getMarkPrice(pair);
+  } catch (error) {
+    console.warn(`Unable to read the ${perp.name} mark price:`, (error as Error).message);
+  }
+
+  let spotCostUsdc: number | null = null;
+  if (markPrice !== null) {
+    spotCostUsdc = 0;
+    // The close leg sells APT out of a long-spot hedge and buys it back for a short one.
+    if (closeQuote) {
+      spotCostUsdc += closed.direction === 'long_spot_short_perp'
+        ? spotLegCost('sell', closeQuote.amountIn, closeQuote.amountOut, markPrice)
+        : spotLegCost('buy', closeQuote.amountOut, closeQuote.amountIn, markPrice);
+    }
+    if (opened?.entryPrices.spot) {
+      const usdcBase = (Number(opened.spotQuantity) / 10 ** APT_DECIMALS)
+        * opened.entryPrices.spot * 10 ** USDC_DECIMALS;
+      spotCostUsdc += spotLegCost(
+        opened.direction === 'long_spot_short_perp' ? 'buy' : 'sell',
+        opened.spotQuantity,
+        usdcBase.toString(),
+        markPrice,
+      );
+    }
+  }
+
+  const gasUsdc = markPrice !== null ? (Number(gasOctas) / 10 ** APT_DECIMALS) * markPrice : null;
+  return {
+    gasOctas: gasOctas.toString(),
+    perpFeesUsdc,
+    spotCostUsdc,
+    markPrice,
+    totalUsdc: spotCostUsdc !== null && gasUsdc !== null ? perpFeesUsdc + spotCostUsdc + gasUsdc : null,
+  };
+}
+
+/** USDC lost against the mark price when trading `aptBase` APT for `usdcBase` USDC. */
+function spotLegCost(side: 'buy' | 'sell', aptBase: string, usdcBase: string, markPrice: number): number {
+  const apt = Number(aptBase) / 10 ** APT_DECIMALS;
+  const usdc = Number(usdcBase) / 10 ** USDC_DECIMALS;
+  return side === 'buy' ? usdc - apt * markPrice : apt * markPrice - usdc;
+}
+
+export async function main() {
+  const result = await runRotate(parseArgs(process.argv.slice(2)));
+  printResult(result);
+  return result;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Rotate error:', error);
+    process.exitCode = 1;
+  });
+}
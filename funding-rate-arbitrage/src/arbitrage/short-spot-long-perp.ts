@@ -1,192 +1,78 @@
 import 'dotenv/config';
-import WebSocket from 'ws';
+import { Aptos } from '@aptos-labs/ts-sdk';
 import {
-    Account,
-    Aptos,
-    Ed25519PrivateKey,
-    Network as AptosNetwork,
-} from '@aptos-labs/ts-sdk';
-import { initHyperionSDK, type HyperionSDK } from '@hyperionxyz/sdk';
+    createLendingVenue,
+    openVenueBorrow,
+    type LendingVenue,
+} from '../borrow/venue.js';
 import {
-    MerkleClient,
-    MerkleClientConfig,
-    calcFundingInfo,
-} from '@merkletrade/ts-sdk';
-import { borrowWithAries } from '../borrow/aries.js';
+    isFundingForecastModel,
+    type FundingForecast,
+    type FundingForecastModel,
+} from '../perp/funding-forecast.js';
+import { type FundingStats } from '../perp/funding-stats.js';
+import { type PerpVenue } from '../perp/venue.js';
+import { getFaBalance } from '../spot/balances.js';
+import { type SpotCandidate, type SpotRouter } from '../spot/router.js';
 import {
     computeMinFundingBreakdown,
     computeBreakevenHoldDuration,
+    computeForecastBreakevenHold,
+    type BreakevenHoldResult,
+    type ForecastBreakevenResult,
     type MinFundingInputs,
     type MinFundingBreakdown,
 } from '../utils/minFunding';
+import { isCliEntry } from '../utils/cli.js';
+import { createArbitrageClients, type ArbitrageClients } from './clients.js';
+import {
+    DEFAULT_FORECAST_HORIZON_HOURS,
+    fundingRiskInputs,
+    readHistoricalFundingForecast,
+    readHistoricalFundingStats,
+    receivedFundingPath,
+    summarizeFundingForecast,
+    type FundingForecastSummary,
+    type FundingRiskInputs,
+} from './funding.js';
+import {
+    closePerpPosition,
+    createCompensationPlan,
+    depositPerpCollateral,
+    repayVenueBorrow,
+    reverseSpotSwap,
+    submitPayload,
+    withCompensation,
+    type CompensationReport,
+} from './compensation.js';
+import { openJournalRun } from './journal.js';
+import {
+    fetchPerpEntryPrice,
+    findOpenPosition,
+    recordOpenPosition,
+    scaleInPosition,
+    spotFillPrice,
+} from './position-book.js';
+import {
+    residualDelta,
+    sizeHedge,
+    type ResidualDelta,
+} from './sizing.js';
+import { readStrategyConfig } from './strategy-config.js';
+import {
+    printResult,
+    type ArbitrageAbortResult,
+    type ArbitrageDryRunResult,
+    type ArbitrageExecutedResult,
+    type PerpDepositResult,
+} from './types.js';
 
 // ============================================================================
 // INTEREST & COST CALCULATION HELPERS
 // ============================================================================
 
-const RAY = 1e27;
-
-function rayToDec(x: bigint): number {
-    return Number(x) / RAY;
-}
-
-/**
- * Aave-style kink model APR (as decimal, e.g. 0.12 = 12% APR)
- */
-export function borrowApr({
-    U,
-    Uopt,
-    R0,
-    slope1,
-    slope2,
-}: {
-    U: number;
-    Uopt: number;
-    R0: number;
-    slope1: number;
-    slope2: number;
-}): number {
-    if (U < Uopt) {
-        return R0 + (U / Uopt) * slope1;
-    }
-    const over = (U - Uopt) / (1 - Uopt);
-    return R0 + slope1 + over * slope2;
-}
-
-/**
- * Convert APR (decimal) into projected interest
- */
-export function projectInterest({
-    principal,
-    apr,
-    days,
-    compound = true,
-}: {
-    principal: number;
-    apr: number;
-    days: number;
-    compound?: boolean;
-}): { interest: number; endDebt: number } {
-    const t = days / 365;
-    const interest = compound
-        ? principal * (Math.pow(1 + apr, t) - 1)
-        : principal * apr * t;
-    const endDebt = principal + interest;
-    return { interest, endDebt };
-}
-
-async function getReserveConfig(aptos: Aptos, core: string, assetTag: string) {
-    const typeA = `${core}::reserve::ReserveConfig<${assetTag}>`;
-    const typeB = `${core}::reserve::ReserveConfig`;
-    try {
-        return await aptos.getAccountResource({
-            accountAddress: core,
-            resourceType: typeA,
-        });
-    } catch {
-        return await aptos.getAccountResource({
-            accountAddress: core,
-            resourceType: typeB,
-        });
-    }
-}
-
-function extractRateParams(rc: any) {
-    const data = rc?.data ?? rc;
-    const base =
-        data?.base_borrow_rate_ray != null
-            ? rayToDec(BigInt(data.base_borrow_rate_ray))
-            : Number(data?.base_borrow_rate ?? 0);
-
-    const s1 =
-        data?.variable_slope1_ray != null
-            ? rayToDec(BigInt(data.variable_slope1_ray))
-            : Number(data?.variable_slope1 ?? 0);
-
-    const s2 =
-        data?.variable_slope2_ray != null
-            ? rayToDec(BigInt(data.variable_slope2_ray))
-            : Number(data?.variable_slope2 ?? 0);
-
-    const uopt =
-        data?.optimal_utilization_ray != null
-            ? rayToDec(BigInt(data.optimal_utilization_ray))
-            : Number(data?.optimal_utilization ?? 0.8);
-
-    return { R0: base, slope1: s1, slope2: s2, Uopt: uopt };
-}
-
-function extractUtilization(stats: any): number {
-    const d = stats ?? {};
-    if (d.utilization_ray != null) return rayToDec(BigInt(d.utilization_ray));
-
-    const bor = BigInt(d?.total_borrow?.amount ?? 0n);
-    const dep = BigInt(d?.total_deposit?.amount ?? 0n);
-    const cash = dep > bor ? dep - bor : 0n;
-    const denom = Number(cash + bor);
-    return denom > 0 ? Number(bor) / denom : 0;
-}
-
-function constructTypeInfo(typeTag: string): any {
-    // Parse type tag like "0x1::aptos_coin::AptosCoin"
-    const parts = typeTag.split('::');
-    if (parts.length !== 3) {
-        throw new Error(`Invalid type tag: ${typeTag}`);
-    }
-
-    const [address, moduleName, structName] = parts;
-
-    // Convert to hex bytes
-    const moduleNameHex = '0x' + Buffer.from(moduleName).toString('hex');
-    const structNameHex = '0x' + Buffer.from(structName).toString('hex');
-
-    return {
-        account_address: address,
-        module_name: moduleNameHex,
-        struct_name: structNameHex,
-    };
-}
-
-async function getReserveStatsFor(
-    aptos: Aptos,
-    coreAddress: string,
-    assetType: string,
-) {
-    const reserves = await aptos.getAccountResource({
-        accountAddress: coreAddress,
-        resourceType: `${coreAddress}::reserve::Reserves`,
-    });
-
-    const statsHandle =
-        (reserves as any)?.data?.stats?.handle ??
-        (reserves as any)?.stats?.handle;
-    if (!statsHandle) throw new Error('Aries reserve stats handle not found');
-
-    const typeInfo = constructTypeInfo(assetType);
-
-    // Try generic first (ReserveStats<T>), as that's what Aries uses
-    try {
-        return await aptos.getTableItem({
-            handle: statsHandle,
-            data: {
-                key_type: '0x1::type_info::TypeInfo',
-                value_type: `${coreAddress}::reserve::ReserveStats<${assetType}>`,
-                key: typeInfo,
-            },
-        });
-    } catch (error) {
-        // Fallback to non-generic
-        return await aptos.getTableItem({
-            handle: statsHandle,
-            data: {
-                key_type: '0x1::type_info::TypeInfo',
-                value_type: `${coreAddress}::reserve::ReserveStats`,
-                key: typeInfo,
-                i
-            },
-        });
-    }
-}
+// Lives with the other pure carry maths so offline tools need not load this flow.
+export { projectInterest } from './carry.js';
 
 export type ProfitabilityAnalysis = {
     isProfitable: boolean;
@@ -198,65 +84,100 @@ export type ProfitabilityAnalysis = {
         gasRoundTripBps: number;
         tradingCostPct: number; // One-time cost
         borrowInterestAprPct: number;
+        /** 'venue' when read from the lender, 'override' when passed in, 'default' if the read failed. */
+        borrowAprSource: 'venue' | 'override' | 'default';
+        borrowVenue?: string;
         borrowCostPctPerHour: number; // Recurring cost per hour
+        /** Funding-risk haircut (z * std plus basis premium) charged per hour of the hold. */
+        riskBufferPctPerHour: number;
     };
     funding: {
         currentFundingPctPerHour: number;
-        fundingIncomePctPerHour: number; // What we receive
+        fundingIncomePctPerHour: number; // What we receive; negative when the long pays
         netIncomePctPerHour: number; // Funding - borrow cost
     };
 };
 
+/** `ProfitabilityAnalysis` regrouped for the flow results. */
+export type ProfitabilitySummary = {
+    oneTimeCosts: {
+        spotRoundTrip: number;
+        perpRoundTrip: number;
+        gasEstimate: number;
+        totalTradingCost: number;
+    };
+    recurringCosts: {
+        borrowApr: number;
+        borrowAprSource: ProfitabilityAnalysis['costs']['borrowAprSource'];
+        borrowCostPerHour: number;
+        riskBufferPerHour?: number;
+        fundingHistory?: FundingStats | null;
+    };
+    income: {
+        fundingRate: number;
+        fundingIncomePerHour: number;
+        netIncomePerHour: number;
+    };
+    profitability: {
+        isProfitable: boolean;
+        hoursToBreakeven?: number;
+        daysToBreakeven?: number;
+    };
+};
+
 /**
  * Analyzes profitability of short APT arbitrage strategy
  *
- * NOTE: Provide borrowAprPct manually by checking Aries UI or protocol
- * Fetching borrow rate from on-chain is complex due to Aries contract structure
+ * The borrow APR is read from `lendingVenue` unless `borrowAprPct` overrides
+ * it; without a venue, or if the read fails, the analysis falls back to 6%.
+ * `riskBufferPctPerHour` is charged on top of the borrow cost.
  */
 export async function analyzeShortAptProfitability({
     aptos,
-    merkle,
-    hyperionSdk,
+    perp,
+    spot,
     aptBorrowAmount,
     usdcTargetAmount,
     perpPair = 'APT_USD',
-    borrowAprPct = 6,
+    borrowAprPct,
+    lendingVenue,
     holdHours = 24,
     gasEstimateBps = 5,
+    riskBufferPctPerHour = 0,
 }: {
     aptos: Aptos;
-    merkle: MerkleClient;
-    hyperionSdk: HyperionSDK;
+    perp: PerpVenue;
+    spot: SpotRouter;
     aptBorrowAmount: bigint;
     usdcTargetAmount: bigint;
     perpPair?: string;
     borrowAprPct?: number;
+    /** Lender the APR is read from. */
+    lendingVenue?: LendingVenue;
     holdHours?: number;
     gasEstimateBps?: number;
+    riskBufferPctPerHour?: number;
 }): Promise<ProfitabilityAnalysis> {
     const APT_FA = '0xa';
     const USDC_FA = '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b';
 
     // 1. Calculate spot round-trip cost
-    const openQuote = await hyperionSdk.Swap.estToAmount({
+    const { quote: openQuote } = await spot.quote({
         from: APT_FA,
         to: USDC_FA,
-        amount: usdcTargetAmount.toString(),
-        safeMode: false,
+        amount: usdcTargetAmount,
+        estimate: 'to',
     });
+    const openUsdcReceived = openQuote?.amountOut ?? 0n;
 
-    const openRoute = (openQuote as any)?.bestRoute ?? openQuote;
-    const openUsdcReceived = BigInt(openRoute?.amountOut ?? 0);
-
-    const closeQuote = await hyperionSdk.Swap.estToAmount({
+    // Buy back exactly the APT the open sold.
+    const { quote: closeQuote } = await spot.quote({
         from: USDC_FA,
         to: APT_FA,
-        amount: openUsdcReceived.toString(),
-        safeMode: false,
+        amount: openQuote?.amountIn ?? 0n,
+        estimate: 'to',
     });
-
-    const closeRoute = (closeQuote as any)?.bestRoute ?? closeQuote;
-    const closeUsdcSpent = BigInt(closeRoute?.amountIn ?? 0);
+    const closeUsdcSpent = closeQuote?.amountIn ?? 0n;
 
     const usdcScale = 1_000_000;
     const openUsdc = Number(openUsdcReceived) / usdcScale;
@@ -265,39 +186,40 @@ export async function analyzeShortAptProfitability({
     const spotRoundTripBps = Math.max(spotRoundTripPct * 100, 0);
 
     // 2. Calculate perp round-trip cost
-    const pairInfo = await merkle.getPairInfo({ pairId: perpPair });
-    const takerFeeFraction = Number(pairInfo.takerFee) / 1_000_000;
-    const perpRoundTripBps = takerFeeFraction * 2 * 10_000;
-
-    // 3. Use provided borrow APR (or default to 6%)
-    const borrowInterestAprPct = borrowAprPct;
-    const borrowAprDec = borrowAprPct / 100;
+    const pairInfo = await perp.getPairInfo(perpPair);
+    const perpRoundTripBps = pairInfo.takerFeeBps * 2;
+
+    // 3. Borrow APR: override, else the venue's live rate, else 6%
+    let borrowInterestAprPct = borrowAprPct ?? 6;
+    let borrowAprSource: ProfitabilityAnalysis['costs']['borrowAprSource'] = borrowAprPct === undefined
+        ? 'default'
+        : 'override';
+    if (borrowAprPct === undefined && lendingVenue) {
+        try {
+            const rates = await lendingVenue.getRates();
+            borrowInterestAprPct = rates.borrowAprPct;
+            borrowAprSource = 'venue';
+        } catch (error) {
+            console.warn(`Unable to read the ${lendingVenue.name} borrow APR; assuming 6%:`, (error as Error).message);
+        }
+    }
+    const borrowAprDec = borrowInterestAprPct / 100;
 
     // Convert borrow APR to cost per hour
     const borrowCostPctPerHour = borrowAprDec / (365 * 24) * 100;
 
     // 4. Get current funding rate
-    const pairState = await merkle.getPairState({ pairId: perpPair });
-    const nowSec = BigInt(Math.floor(Date.now() / 1000));
-    const { currentFundingRate } = calcFundingInfo({
-        pairInfo,
-        pairState,
-        timestampSec: nowSec,
-    });
-    const MERKLE_FUNDING_RATE_SCALE = 10 ** 8;
-    const HOURS_IN_DAY = 24;
-    const fundingRatePerDay = Number(currentFundingRate) / MERKLE_FUNDING_RATE_SCALE;
-    const fundingPctPerHour = (fundingRatePerDay / HOURS_IN_DAY) * 100;
+    const { fundingPctPerHour } = await perp.getFunding(perpPair);
 
     // 5. Calculate costs
     // One-time trading costs (paid once to enter/exit)
     const tradingCostPct = (spotRoundTripBps + perpRoundTripBps + gasEstimateBps) / 100;
 
-    // Recurring costs per hour (borrow interest)
-    const recurringCostPctPerHour = borrowCostPctPerHour;
+    // Recurring costs per hour (borrow interest plus the funding-risk haircut)
+    const recurringCostPctPerHour = borrowCostPctPerHour + riskBufferPctPerHour;
 
-    // For long perp: negative funding = we receive payments (shorts pay longs)
-    const fundingIncomePctPerHour = Math.abs(fundingPctPerHour);
+    // The long perp receives funding when it is negative (shorts pay longs) and pays it when positive.
+    const fundingIncomePctPerHour = -fundingPctPerHour;
 
     // Net income per hour = funding income - recurring costs
     const netIncomePctPerHour = fundingIncomePctPerHour - recurringCostPctPerHour;
@@ -317,345 +239,33 @@ export async function analyzeShortAptProfitability({
             gasRoundTripBps: gasEstimateBps,
             tradingCostPct, // One-time cost
             borrowInterestAprPct,
-            borrowCostPctPerHour: recurringCostPctPerHour, // Recurring cost per hour
+            borrowAprSource,
+            borrowVenue: lendingVenue?.name,
+            borrowCostPctPerHour, // Recurring cost per hour
+            riskBufferPctPerHour,
         },
         funding: {
             currentFundingPctPerHour: fundingPctPerHour,
-            fundingIncomePctPerHour, // What we receive (absolute value)
+            fundingIncomePctPerHour, // What we receive; negative when the long pays
             netIncomePctPerHour, // Funding income - borrow cost
         },
     };
 }
 
 // ============================================================================
-// CORE ARBITRAGE FUNCTION
-// ============================================================================
-
-export type ShortAptArbitrageParams = {
-    account: Account;
-    aptos: Aptos;
-    merkle: MerkleClient;
-    hyperionSdk: HyperionSDK;
-    aptBorrowAmount: bigint;
-    usdcTargetAmount: bigint;
-    perpPair?: string;
-    perpCollateralDelta?: bigint;
-    slippageBps?: number;
-    checkProfitability?: boolean;
-    minNetFundingPctPerHour?: number;
-    ariesConfig?: {
-        coreAddress?: string;
-        moduleName?: string;
-        registerModuleName?: string;
-        depositModuleName?: string;
-        withdrawModuleName?: string;
-        profileName?: string;
-        collateralType?: string;
-        wrappedCollateralType?: string;
-        collateralAmount?: string;
-        collateralKind?: 'coin' | 'fa';
-        borrowType?: string;
-        borrowKind?: 'coin' | 'fa';
-        skipRegistration?: boolean;
-        skipDeposit?: boolean;
-        waitForSuccess?: boolean;
-    };
-};
-
-export type ShortAptArbitrageResult = {
-    borrowTxHash?: string;
-    swapTxHash: string;
-    perpTxHash: string;
-    aptBorrowed: bigint;
-    usdcReceived: bigint;
-    perpSizeDelta: bigint;
-    perpCollateralDelta: bigint;
-};
-
-/**
- * Executes a short APT arbitrage strategy:
- * 1. Analyzes profitability (optional check)
- * 2. Borrows APT from Aries
- * 3. Sells APT for USDC on Hyperion
- * 4. Opens long APT perp position on Merkle
- */
-export async function executeShortAptArbitrage(
-    params: ShortAptArbitrageParams
-): Promise<ShortAptArbitrageResult> {
-    const {
-        account,
-        aptos,
-        merkle,
-        hyperionSdk,
-        aptBorrowAmount,
-        usdcTargetAmount,
-        perpPair = 'ATP_USD',
-        perpCollateralDelta,
-        slippageBps = 50,
-        ariesConfig,
-        checkProfitability = true,
-        minNetFundingPctPerHour = 0.001,
-    } = params;
-
-    let profitabilityAnalysis = null;
-
-    // Step 0: Check profitability if requested
-    if (checkProfitability) {
-        const analysis = await analyzeShortAptProfitability({
-            aptos,
-            merkle,
-            hyperionSdk,
-            aptBorrowAmount,
-            usdcTargetAmount,
-            perpPair,
-            borrowAprPct: 6, // Default 6% APR for APT borrowing
-        });
-
-        profitabilityAnalysis = {
-            oneTimeCosts: {
-                spotRoundTrip: analysis.costs.spotRoundTripBps,
-                perpRoundTrip: analysis.costs.perpRoundTripBps,
-                gasEstimate: analysis.costs.gasRoundTripBps,
-                totalTradingCost: analysis.costs.tradingCostPct
-            },
-            recurringCosts: {
-                borrowApr: analysis.costs.borrowInterestAprPct,
-                borrowCostPerHour: analysis.costs.borrowCostPctPerHour
-            },
-            income: {
-                fundingRate: analysis.funding.currentFundingPctPerHour,
-                fundingIncomePerHour: analysis.funding.fundingIncomePctPerHour,
-                netIncomePerHour: analysis.funding.netIncomePctPerHour
-            },
-            profitability: {
-                isProfitable: analysis.isProfitable,
-                hoursToBreakeven: analysis.hoursToBreakeven,
-                daysToBreakeven: analysis.daysToBreakeven
-            }
-        };
-
-        if (analysis.isProfitable && analysis.hoursToBreakeven) {
-            // Profitable - continue
-        } else {
-            const abortResult = {
-                action: 'abort',
-                reason: 'not_profitable',
-                analysis: profitabilityAnalysis,
-                message: 'Strategy not profitable: net income insufficient'
-            };
-            console.log(JSON.stringify(abortResult, null, 2));
-            return;
-        }
-
-        if (analysis.funding.netIncomePctPerHour < minNetFundingPctPerHour) {
-            const abortResult = {
-                action: 'abort',
-                reason: 'below_minimum_threshold',
-                netIncome: analysis.funding.netIncomePctPerHour,
-                minimumThreshold: minNetFundingPctPerHour,
-                analysis: profitabilityAnalysis
-            };
-            console.log(JSON.stringify(abortResult, null, 2));
-            return;
-        }
-    }
-
-    const APT_FA = '0xa';
-    const USDC_FA = '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b';
-    const APT_TYPE_TAG = '0x1::aptos_coin::AptosCoin';
-    const WRAPPED_USDC_TYPE = '0x9770fa9c725cbd97eb50b2be5f7416efdfd1f1554beb0750d4dae4c64e860da3::wrapped_coins::WrappedUSDC';
-    const DEFAULT_ARIES_CORE = '0x9770fa9c725cbd97eb50b2be5f7416efdfd1f1554beb0750d4dae4c64e860da3';
-
-    // Step 1: Borrow APT from Aries
-    const ariesResult = await borrowWithAries({
-        aptos,
-        account,
-        coreAddress: ariesConfig?.coreAddress ?? DEFAULT_ARIES_CORE,
-        moduleName: ariesConfig?.moduleName ?? 'controller',
-        registerModuleName: ariesConfig?.registerModuleName,
-        depositModuleName: ariesConfig?.depositModuleName,
-        withdrawModuleName: ariesConfig?.withdrawModuleName,
-        profileName: ariesConfig?.profileName ?? 'main',
-        collateralType: ariesConfig?.wrappedCollateralType ?? WRAPPED_USDC_TYPE,
-        collateralAmount: ariesConfig?.collateralAmount ?? '0',
-        wrappedCollateralType: ariesConfig?.wrappedCollateralType ?? WRAPPED_USDC_TYPE,
-        collateralKind: ariesConfig?.collateralKind ?? 'fa',
-        borrowType: ariesConfig?.borrowType ?? APT_TYPE_TAG,
-        borrowAmount: aptBorrowAmount.toString(),
-        borrowKind: ariesConfig?.borrowKind ?? 'coin',
-        skipRegistration: ariesConfig?.skipRegistration ?? false,
-        skipDeposit: ariesConfig?.skipDeposit ?? false,
-        repayOnly: false,
-        allowBorrow: true,
-        waitForSuccess: ariesConfig?.waitForSuccess ?? true,
-    });
-
-    const ariesBorrow = {
-        action: 'apt_borrowed',
-        transactionHash: ariesResult.borrowTxHash,
-        borrowAmount: aptBorrowAmount.toString(),
-        collateralType: ariesConfig?.wrappedCollateralType ?? WRAPPED_USDC_TYPE
-    };
-
-    // Step 2: Get quote and swap APT -> USDC on Hyperion
-    const quote = await hyperionSdk.Swap.estToAmount({
-        from: APT_FA,
-        to: USDC_FA,
-        amount: usdcTargetAmount.toString(),
-        safeMode: false,
-    });
-
-    const bestRoute = (quote as any)?.bestRoute ?? quote;
-    if (!bestRoute?.path || bestRoute.path.length === 0) {
-        const errorResult = {
-            action: 'abort',
-            reason: 'hyperion_no_route',
-            message: 'Hyperion returned no route for APT -> USDC swap',
-            rawResponse: quote
-        };
-        console.log(JSON.stringify(errorResult, null, 2));
-        return;
-    }
-
-    const swapPayload = await hyperionSdk.Swap.swapTransactionPayload({
-        currencyA: APT_FA,
-        currencyB: USDC_FA,
-        currencyAAmount: bestRoute.amountIn,
-        currencyBAmount: bestRoute.amountOut,
-        slippage: slippageBps / 100,
-        poolRoute: bestRoute.path ?? [],
-        recipient: account.accountAddress.toString(),
-    });
-
-    const swapTxn = await aptos.transaction.build.simple({
-        sender: account.accountAddress,
-        data: swapPayload,
-    });
-    const swapPending = await aptos.signAndSubmitTransaction({
-        signer: account,
-        transaction: swapTxn,
-    });
-    await aptos.waitForTransaction({
-        transactionHash: swapPending.hash,
-    });
-
-    const hyperionSwap = {
-        action: 'apt_swapped_for_usdc',
-        transactionHash: swapPending.hash,
-        routePath: bestRoute.path,
-        amountIn: bestRoute.amountIn,
-        amountOut: bestRoute.amountOut,
-        slippageBps: slippageBps
-    };
-
-    // Step 3: Deposit USDC to Merkle (if needed)
-    const pairInfo = await merkle.getPairInfo({ pairId: perpPair });
-    const minSize = pairInfo.minimumPositionSize as unknown as bigint;
-    const minCollateral = pairInfo.minimumOrderCollateral as unknown as bigint;
-
-    const usdcReceived = BigInt(bestRoute.amountOut);
-    const sizeDelta = usdcReceived > minSize ? usdcReceived : minSize;
-
-    // Default to 1x leverage (collateral = size) unless specified otherwise
-    const collateralDelta = perpCollateralDelta ??
-        (sizeDelta > minCollateral ? sizeDelta : minCollateral);
-
-    const merkleBalance = await merkle.getUsdcBalance({ accountAddress: account.accountAddress });
-    let depositResult = null;
-
-    if (merkleBalance < collateralDelta) {
-        const deficit = collateralDelta - merkleBalance;
-
-        // Deposit USDC to Merkle vault using SDK
-        const depositPayload = await merkle.payloads.depositUsdc({
-            userAddress: account.accountAddress,
-            amount: deficit,
-        });
-
-        const depositTxn = await aptos.transaction.build.simple({
-            sender: account.accountAddress,
-            data: depositPayload,
-        });
-        const depositPending = await aptos.signAndSubmitTransaction({
-            signer: account,
-            transaction: depositTxn,
-        });
-        await aptos.waitForTransaction({
-            transactionHash: depositPending.hash,
-        });
-
-        depositResult = {
-            action: 'usdc_deposited',
-            deficit: deficit.toString(),
-            transactionHash: depositPending.hash,
-            merkleBalanceBefore: merkleBalance.toString()
-        };
-    }
-
-    // Step 4: Open long perp position on Merkle
-    const perpPayload = await merkle.payloads.placeMarketOrder({
-        pair: perpPair,
-        userAddress: account.accountAddress,
-        sizeDelta,
-        collateralDelta,
-        isLong: true,
-        isIncrease: true,
-    });
-
-    const perpTxn = await aptos.transaction.build.simple({
-        sender: account.accountAddress,
-        data: perpPayload,
-    });
-    const perpPending = await aptos.signAndSubmitTransaction({
-        signer: account,
-        transaction: perpTxn,
-    });
-    await aptos.waitForTransaction({
-        transactionHash: perpPending.hash,
-    });
-
-    const perpExecution = {
-        action: 'long_perp_position_opened',
-        transactionHash: perpPending.hash,
-        pair: perpPair,
-        sizeDelta: sizeDelta.toString(),
-        collateralDelta: collateralDelta.toString(),
-        direction: 'LONG'
-    };
-
-    const executionResult = {
-        action: 'arbitrage_executed',
-        strategy: 'short_spot_long_perp',
-        hyperionQuote: hyperionQuote,
-        ariesBorrow: ariesBorrow,
-        hyperionSwap: hyperionSwap,
-        depositResult: depositResult,
-        perpExecution: perpExecution,
-        profitabilityAnalysis: profitabilityAnalysis
-    };
-
-    console.log(JSON.stringify(executionResult, null, 2));
-    return {
-        borrowTxHash: ariesResult.borrowTxHash,
-        swapTxHash: swapPending.hash,
-        perpTxHash: perpPending.hash,
-        aptBorrowed: aptBorrowAmount,
-        usdcReceived,
-        perpSizeDelta: sizeDelta,
-        perpCollateralDelta: collateralDelta,
-    };
-}
-
-// ============================================================================
-// CLI SCRIPT (uses the core function above)
+// CLI SCRIPT
 // ============================================================================
 
-type Args = {
+export type ShortSpotLongPerpParams = {
     spotFromFa?: string;
     spotToFa?: string;
     spotInDecimals?: number;
     spotOut?: string;
     spotOutDecimals?: number;
+    /** USD notional to hedge; overrides `spotOut` and is converted at the perp venue's mark price. */
+    notionalUsd?: number;
+    /** Strategy config (see `arb:optimize`) applied under the flags; ARB_STRATEGY_CONFIG when omitted. */
+    config?: string;
     slippageBps?: number;
     hyperionNetwork?: string;
     safeMode?: boolean;
@@ -663,16 +273,32 @@ type Args = {
     perpCollateral?: string;
     submitSpot?: boolean;
     submitPerp?: boolean;
-    minFundingRate?: string;
+    /** 'auto' uses the live perp funding rate; a number is a manual %/hr funding assumption. */
+    minFunding?: 'auto' | number;
     perpNetwork?: string;
+    /** Registered perp venue; defaults to PERP_VENUE, else Merkle. */
+    perpVenue?: string;
+    /** Spot venues to route swaps over; defaults to SPOT_VENUES, else Hyperion. */
+    spotVenues?: string[];
     spotRoundTripBps?: number;
     perpRoundTripBps?: number;
     gasRoundTripBps?: number;
     capitalAprPct?: number;
+    /** APT borrow APR (%); read from the lending venue when omitted. */
+    borrowAprPct?: number;
     holdHours?: number;
     fundingStdPctPerHr?: number;
     zScore?: number;
     basisPremiumPctPerHr?: number;
+    /** Recorded funding history the 'auto' risk buffer is derived from; one week by default. */
+    fundingWindowHours?: number;
+    /**
+     * Model the 'auto' breakeven projects funding with over the hold (default
+     * `mean_reverting`); 'none' assumes the live rate holds flat.
+     */
+    fundingForecast?: FundingForecastModel | 'none';
+    /** Lender to borrow from: a registered venue name (default LENDING_VENUE, else Aries) or a built venue. */
+    lendingVenue?: string | LendingVenue;
     ariesCoreAddress?: string;
     ariesModuleName?: string;
     ariesRegisterModuleName?: string;
@@ -690,8 +316,96 @@ type Args = {
     ariesSkipDeposit?: string;
     ariesAllowBorrow?: string;
     ariesWaitForSuccess?: string;
+    /** Aries health factor to keep after borrowing; sizes the USDC collateral deposit. */
+    ariesTargetHealth?: string;
+    /** Add to the open short-spot hedge instead of recording a new one. */
+    scaleIn?: boolean;
+    /** Position book entry to scale into; defaults to the latest open short-spot hedge on the pair. */
+    positionId?: string;
+    /** Pre-built clients; created from the network params and PRIVATE_KEY when omitted. */
+    clients?: ArbitrageClients;
+};
+
+type SpotLegQuote = {
+    /** Spot venue the router picked. */
+    venue: string;
+    network: string;
+    outputToken: string;
+    outputAmount: string;
+    inputToken: string;
+    slippageBps: number;
+    routePath: unknown[];
+    amountIn: string;
+    amountOut: string;
+    amountInBase: string;
+    amountOutBase: string;
+    candidates: SpotCandidate[];
+};
+
+type SpotLeg = {
+    borrowAmount: string;
+    usdcProceeds: string;
+    spotQuote: SpotLegQuote;
+};
+
+type PerpLeg = {
+    pair: string;
+    sizeDelta: string;
+    collateralDelta: string;
+    direction: 'LONG';
+    markPrice: number;
+    residualDelta: ResidualDelta;
 };
 
+/** Funding assumed over the hold and the breakeven it implies for the long perp. */
+export type ShortSpotFundingAnalysis = {
+    currentFundingRate: { value: number; unit: '%/hr'; source: 'pair_state' };
+    fundingForHold: {
+        value: number;
+        unit: '%/hr';
+        mode: 'auto' | 'manual';
+        source: 'forecast' | 'pair_state' | 'manual';
+        manualInput: number | undefined;
+    };
+    forecast: FundingForecastSummary | null;
+    breakeven: {
+        possible: boolean;
+        holdHours?: number;
+        holdDays?: number;
+        expectedHoldHours?: number;
+        expectedNetPct?: number;
+        lowerNetPct?: number;
+        tradingCostPct: number;
+        netFundingPerHour: number;
+    };
+};
+
+export type ShortSpotLongPerpResult =
+    | ArbitrageDryRunResult<{
+        spotLeg: SpotLeg;
+        perpLeg: PerpLeg;
+        fundingAnalysis: ShortSpotFundingAnalysis | null;
+        steps?: CompensationReport;
+        journalId?: string;
+    }>
+    | ArbitrageAbortResult
+    | ArbitrageExecutedResult<{
+        spotLeg: SpotLeg;
+        perpLeg: PerpLeg;
+        fundingAnalysis: ShortSpotFundingAnalysis | null;
+        depositResult: PerpDepositResult | null;
+        perpTransaction: {
+            hash: string;
+            version?: string;
+            pair: string;
+            sizeDelta: string;
+            collateralDelta: string;
+        };
+        steps: CompensationReport;
+        journalId: string;
+        positionId: string;
+    }>;
+
 const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>> = {
     mainnet: {
         apt: '0xa',
@@ -703,16 +417,11 @@ const DEFAULT_FA: Record<'mainnet' | 'testnet', Record<'apt' | 'usdc', string>>
     },
 };
 
-const USDC_FA_TYPE = '0xf22bede237a07e121b56d91a491eb7bcdfd1f5907926a9e58338f964a01b17fa::asset::USDC';
-const WRAPPED_USDC_TYPE = '0x9770fa9c725cbd97eb50b2be5f7416efdfd1f1554beb0750d4dae4c64e860da3::wrapped_coins::WrappedUSDC';
-const APT_TYPE_TAG = '0x1::aptos_coin::AptosCoin';
 const USDC_DECIMALS = 6;
 const APT_DECIMALS = 8;
-const MERKLE_FUNDING_RATE_SCALE = 10 ** 8;
-const HOURS_IN_DAY = 24;
 
-function parseArgs(argv: string[]): Args {
-    const result: Args = {};
+function parseArgs(argv: string[]): ShortSpotLongPerpParams {
+    const result: ShortSpotLongPerpParams = {};
     for (let i = 0; i < argv.length; i += 1) {
         const arg = argv[i];
         if (!arg.startsWith('--')) continue;
@@ -735,6 +444,10 @@ function parseArgs(argv: string[]): Args {
                 result.spotOutDecimals = Number(next);
                 i += 1;
                 break;
+            case 'notional-usd':
+                result.notionalUsd = Number(next);
+                i += 1;
+                break;
             case 'spot-in-decimals':
                 result.spotInDecimals = Number(next);
                 i += 1;
@@ -768,13 +481,21 @@ function parseArgs(argv: string[]): Args {
                 i += 1;
                 break;
             case 'min-funding':
-                result.minFundingRate = next;
+                result.minFunding = parseMinFunding(next);
                 i += 1;
                 break;
             case 'perp-network':
                 result.perpNetwork = next;
                 i += 1;
                 break;
+            case 'perp-venue':
+                result.perpVenue = next;
+                i += 1;
+                break;
+            case 'spot-venues':
+                result.spotVenues = next.split(',').map((name) => name.trim()).filter(Boolean);
+                i += 1;
+                break;
             case 'spot-round-trip-bps':
                 result.spotRoundTripBps = Number(next);
                 i += 1;
@@ -791,6 +512,10 @@ function parseArgs(argv: string[]): Args {
                 result.capitalAprPct = Number(next);
                 i += 1;
                 break;
+            case 'borrow-apr-pct':
+                result.borrowAprPct = Number(next);
+                i += 1;
+                break;
             case 'hold-hours':
                 result.holdHours = Number(next);
                 i += 1;
@@ -807,6 +532,21 @@ function parseArgs(argv: string[]): Args {
                 result.basisPremiumPctPerHr = Number(next);
                 i += 1;
                 break;
+            case 'funding-window-hours':
+                result.fundingWindowHours = Number(next);
+                i += 1;
+                break;
+            case 'funding-forecast':
+                if (next !== 'none' && !isFundingForecastModel(next)) {
+                    throw new Error(`Invalid --funding-forecast '${next}'. Use ewma, mean_reverting or none.`);
+                }
+                result.fundingForecast = next;
+                i += 1;
+                break;
+            case 'lending-venue':
+                result.lendingVenue = next;
+                i += 1;
+                break;
             case 'aries-core-address':
                 result.ariesCoreAddress = next;
                 i += 1;
@@ -875,6 +615,22 @@ function parseArgs(argv: string[]): Args {
                 result.ariesWaitForSuccess = next;
                 i += 1;
                 break;
+            case 'aries-target-health':
+                result.ariesTargetHealth = next;
+                i += 1;
+                break;
+            case 'scale-in':
+                result.scaleIn = next?.toLowerCase() === 'true';
+                i += 1;
+                break;
+            case 'position-id':
+                result.positionId = next;
+                i += 1;
+                break;
+            case 'config':
+                result.config = next;
+                i += 1;
+                break;
             default:
                 break;
         }
@@ -888,17 +644,25 @@ function normalizeFa(address?: string): string {
     return match ? `0x${match[1].toLowerCase()}` : address;
 }
 
-function ensureWebSocketGlobal() {
-    const globalRef = globalThis as unknown as { WebSocket?: typeof WebSocket };
-    if (!globalRef.WebSocket) {
-        globalRef.WebSocket = WebSocket as unknown as typeof WebSocket;
-    }
+function parseMinFunding(value: string | undefined): 'auto' | number | undefined {
+    if (value === undefined) return undefined;
+    if (value.toLowerCase() === 'auto') return 'auto';
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+    console.warn(
+        `Invalid --min-funding value '${value}'. Ignoring hold-duration request.`,
+    );
+    return undefined;
 }
 
-export async function main() {
-    console.log('🚀 [DEBUG] Starting short-spot-long-perp main function');
-    const args = parseArgs(process.argv.slice(2));
-    console.log('🔧 [DEBUG] Parsed args:', JSON.stringify(args, null, 2));
+/**
+ * Borrows APT on Aries, sells it on the best-quoting spot venue and hedges with a perp long.
+ * Supports dry runs and submitting the spot leg without the perp leg.
+ */
+export async function runShortSpotLongPerp(
+    params: ShortSpotLongPerpParams = {},
+): Promise<ShortSpotLongPerpResult> {
+    const args = params;
 
     const hyperionNetwork = (args.hyperionNetwork ?? 'mainnet').toLowerCase();
     if (hyperionNetwork !== 'mainnet' && hyperionNetwork !== 'testnet') {
@@ -911,82 +675,86 @@ export async function main() {
     const spotOutDecimals = args.spotOutDecimals ?? USDC_DECIMALS;
     const slippageBps = args.slippageBps ?? 50;
     const safeMode = args.safeMode ?? false;
-    const perpPair = args.perpPair ?? 'APT_USD';
     const submitSpot = args.submitSpot ?? false;
     const submitPerp = args.submitPerp ?? false;
-    const perpNetwork = (args.perpNetwork ?? 'mainnet').toLowerCase();
+
+    const scaleTarget = args.scaleIn
+        ? findOpenPosition({ direction: 'short_spot_long_perp', perpPair: args.perpPair, id: args.positionId })
+        : undefined;
+    if (args.scaleIn && !scaleTarget) {
+        return {
+            action: 'abort',
+            reason: 'no_position_to_scale',
+            positionId: args.positionId,
+            message: 'Scale-in needs an open short-spot hedge in the position book.'
+        };
+    }
+    if (args.scaleIn && submitSpot !== submitPerp) {
+        // Adding one leg alone would leave the hedge's notionals mismatched.
+        return {
+            action: 'abort',
+            reason: 'scale_in_requires_both_legs',
+            message: 'Scale-in submits both legs or neither (use --submit-spot and --submit-perp together).'
+        };
+    }
+    const perpPair = args.perpPair ?? scaleTarget?.perpPair ?? 'APT_USD';
 
     const spotOutHuman = args.spotOut ?? '100';
     const spotOutBaseUnits = toBaseUnits(spotOutHuman, spotOutDecimals, 'spot-out');
 
-    ensureWebSocketGlobal();
-
-    const sdk = initHyperionSDK({
-        network:
-            hyperionNetwork === 'testnet'
-                ? AptosNetwork.TESTNET
-                : AptosNetwork.MAINNET,
-        APTOS_API_KEY: process.env.APTOS_API_KEY ?? '',
+    const clients = args.clients ?? await createArbitrageClients({
+        hyperionNetwork,
+        perpNetwork: args.perpNetwork,
+        perpVenue: args.perpVenue,
+        spotVenues: args.spotVenues,
     });
+    const { account, aptos, perp, spot } = clients;
+    const venue = lendingVenueFor(args, clients);
 
-    const quote = await sdk.Swap.estToAmount({
-        from: spotFromFa,
-        to: spotToFa,
-        amount: spotOutBaseUnits.toString(),
+    // `spotOut` is the USDC to raise, i.e. the notional when none is given.
+    const sized = await sizeHedge({
+        perp,
+        spot,
+        pair: perpPair,
+        direction: 'short_spot_long_perp',
+        aptFa: spotFromFa,
+        usdcFa: spotToFa,
+        target: { notionalUsd: args.notionalUsd ?? Number(spotOutBaseUnits) / 10 ** spotOutDecimals },
         safeMode,
     });
-
-    const bestRoute = (quote as any)?.bestRoute ?? quote;
-    if (!bestRoute?.path || bestRoute.path.length === 0) {
-        const errorResult = {
-            error: 'Hyperion returned no route',
-            rawResponse: quote
+    if (!sized.ok) {
+        return {
+            action: 'abort',
+            reason: 'spot_no_route',
+            message: 'No spot venue returned a route for APT -> USDC swap',
+            rawResponse: sized.rawQuote
         };
-        console.log(JSON.stringify(errorResult, null, 2));
-        return;
     }
+    const { sizing } = sized;
 
-    const { amountIn, amountOut, path } = bestRoute;
+    const { amountIn, amountOut, path } = sizing.route;
     const amountInBase = BigInt(amountIn); // APT sold (8 decimals by default)
     const amountOutBase = BigInt(amountOut); // USDC received (6 decimals by default)
 
-    const hyperionQuote = {
+    const spotQuote: SpotLegQuote = {
+        venue: sizing.route.venue,
         network: hyperionNetwork,
         outputToken: spotToFa,
-        outputAmount: spotOutHuman,
+        outputAmount: (Number(amountOut) / 10 ** spotOutDecimals).toString(),
         inputToken: spotFromFa,
         slippageBps: slippageBps,
         routePath: path,
         amountIn: amountIn,
         amountOut: amountOut,
         amountInBase: amountInBase.toString(),
-        amountOutBase: amountOutBase.toString()
+        amountOutBase: amountOutBase.toString(),
+        candidates: sizing.candidates,
     };
 
-    const slippagePercent = slippageBps / 100;
-
-    const privateKeyHex = process.env.PRIVATE_KEY?.trim();
-    if (!privateKeyHex) {
-        throw new Error('Missing PRIVATE_KEY in environment.');
-    }
-    const privateKey = new Ed25519PrivateKey(privateKeyHex);
-    const account = Account.fromPrivateKey({ privateKey });
-
-    let merkleConfig;
-    if (perpNetwork === 'mainnet') {
-        merkleConfig = await MerkleClientConfig.mainnet();
-    } else if (perpNetwork === 'testnet') {
-        merkleConfig = await MerkleClientConfig.testnet();
-    } else {
-        throw new Error(`Unsupported perp network '${perpNetwork}'. Use 'mainnet' or 'testnet'.`);
-    }
-    const merkle = new MerkleClient(merkleConfig);
-    const aptos = new Aptos(merkleConfig.aptosConfig);
-
-    console.log('📊 [DEBUG] Getting pair info and state for:', perpPair);
-    const pairInfo = await merkle.getPairInfo({ pairId: perpPair });
-    const pairState = await merkle.getPairState({ pairId: perpPair });
-    console.log('📈 [DEBUG] Pair info retrieved, funding rate:', Number(pairState.fundingRate) / 1_000_000);
+    const [pairInfo, perpFunding] = await Promise.all([
+        perp.getPairInfo(perpPair),
+        perp.getFunding(perpPair),
+    ]);
     let autoSpotRoundTripBps: number | undefined;
     let autoPerpRoundTripBps: number | undefined;
     let spotRoundTripUsed: number | undefined;
@@ -994,24 +762,14 @@ export async function main() {
     let gasRoundTripBpsUsed: number | undefined;
     let costInputs: MinFundingInputs | undefined;
     let costBreakdown: MinFundingBreakdown | undefined;
+    let fundingHistory: FundingStats | undefined;
+    let fundingAnalysis: ShortSpotFundingAnalysis | null = null;
 
-    const holdAnalysisArg = args.minFundingRate;
     let holdAnalysisMode: 'auto' | 'manual' | undefined;
-    let manualFundingRatePct: number | undefined;
-    if (typeof holdAnalysisArg === 'string') {
-        if (holdAnalysisArg.toLowerCase() === 'auto') {
-            holdAnalysisMode = 'auto';
-        } else {
-            const parsed = Number(holdAnalysisArg);
-            if (Number.isFinite(parsed)) {
-                holdAnalysisMode = 'manual';
-                manualFundingRatePct = parsed;
-            } else {
-                console.warn(
-                    `Invalid --min-funding value '${holdAnalysisArg}'. Ignoring hold-duration request.`,
-                );
-            }
-        }
+    if (args.minFunding === 'auto') {
+        holdAnalysisMode = 'auto';
+    } else if (typeof args.minFunding === 'number' && Number.isFinite(args.minFunding)) {
+        holdAnalysisMode = 'manual';
     }
 
     if (holdAnalysisMode) {
@@ -1039,16 +797,17 @@ export async function main() {
             holdAnalysisMode === 'auto' || userSpotRoundTripBps === undefined;
         if (shouldEstimateSpotCost) {
             try {
-                const closeQuote = await sdk.Swap.estToAmount({
+                const { quote: closeQuote } = await spot.quote({
                     from: spotToFa,
                     to: spotFromFa,
-                    amount: amountOutBase.toString(),
+                    amount: amountInBase,
+                    estimate: 'to',
                     safeMode,
                 });
 
                 const openUsdcReceived = amountOutBase;
-                const closeUsdcSpent = BigInt(closeQuote?.amountIn ?? 0);
-                const closeAptReceived = BigInt(closeQuote?.amountOut ?? 0);
+                const closeUsdcSpent = closeQuote?.amountIn ?? 0n;
+                const closeAptReceived = closeQuote?.amountOut ?? 0n;
 
                 if (closeAptReceived !== amountInBase) {
                     console.warn(
@@ -1076,13 +835,33 @@ export async function main() {
             }
         }
 
-        const takerFeeFraction = Number(pairInfo.takerFee) / 1_000_000;
-        autoPerpRoundTripBps = takerFeeFraction * 2 * 10_000;
+        autoPerpRoundTripBps = pairInfo.takerFeeBps * 2;
         if (Number.isFinite(autoPerpRoundTripBps)) {
             // Store for JSON output
         } else {
             autoPerpRoundTripBps = undefined;
-            console.warn('Failed to auto-estimate perp round-trip cost from Merkle fees.');
+            console.warn(`Failed to auto-estimate perp round-trip cost from ${perp.name} fees.`);
+        }
+
+        // In auto mode the risk buffer comes from the recorded funding history; explicit flags still win.
+        let fundingRisk: FundingRiskInputs | undefined;
+        if (holdAnalysisMode === 'auto') {
+            let fundingStats: FundingStats | undefined;
+            try {
+                fundingStats = readHistoricalFundingStats(perp, clients.perpNetwork, perpPair, args.fundingWindowHours);
+            } catch (error) {
+                console.warn('Failed to read the recorded funding history:', (error as Error).message);
+            }
+            if (fundingStats) {
+                fundingRisk = fundingRiskInputs(fundingStats, {
+                    direction: 'short_spot_long_perp',
+                    holdHours: args.holdHours,
+                    zScore: args.zScore,
+                });
+                fundingHistory = fundingStats;
+            } else {
+                console.warn(`[cost inputs] Not enough recorded ${perp.name} funding history for ${perpPair}; the risk buffer uses the CLI flags only.`);
+            }
         }
 
         spotRoundTripUsed = userSpotRoundTripBps ?? autoSpotRoundTripBps;
@@ -1094,9 +873,9 @@ export async function main() {
             gasRoundTripBps: gasRoundTripBpsUsed,
             capitalAprPct: args.capitalAprPct,
             holdHours: args.holdHours,
-            fundingStdPctPerHr: args.fundingStdPctPerHr,
-            zScore: args.zScore,
-            extraBasisPremiumPctPerHr: args.basisPremiumPctPerHr,
+            fundingStdPctPerHr: args.fundingStdPctPerHr ?? fundingRisk?.fundingStdPctPerHr,
+            zScore: args.zScore ?? fundingRisk?.zScore,
+            extraBasisPremiumPctPerHr: args.basisPremiumPctPerHr ?? fundingRisk?.extraBasisPremiumPctPerHr,
         } satisfies MinFundingInputs;
 
         costBreakdown = computeMinFundingBreakdown(costInputs);
@@ -1104,24 +883,94 @@ export async function main() {
         // Store cost analysis for JSON output
     }
 
-    const minSize = pairInfo.minimumPositionSize as unknown as bigint;
-    const minCollateral = pairInfo.minimumOrderCollateral as unknown as bigint;
+    const minSize = pairInfo.minimumPositionSize;
+    const minCollateral = pairInfo.minimumOrderCollateral;
 
     if (holdAnalysisMode) {
         // Use the better analysis function that includes borrow interest
         const analysis = await analyzeShortAptProfitability({
             aptos,
-            merkle,
-            hyperionSdk: sdk,
+            perp,
+            spot,
             aptBorrowAmount: amountInBase,
             usdcTargetAmount: amountOutBase,
             perpPair,
-            borrowAprPct: args.capitalAprPct ?? 6, // Use capital APR as borrow APR
+            borrowAprPct: args.borrowAprPct,
+            lendingVenue: venue,
             holdHours: args.holdHours ?? 24,
             gasEstimateBps: args.gasRoundTripBps ?? 5,
+            riskBufferPctPerHour: costBreakdown
+                ? costBreakdown.riskBufferPctPerHour + costBreakdown.basisPremiumPctPerHour
+                : undefined,
         });
 
-        const profitabilityAnalysis = {
+        const fundingPctPerHourActual = perpFunding.fundingPctPerHour;
+        const manualFundingRatePct = holdAnalysisMode === 'manual' ? args.minFunding as number : undefined;
+
+        // Auto mode projects funding over the hold from the recorded history; without enough of it
+        // the live rate is assumed to hold flat.
+        let forecast: FundingForecast | undefined;
+        if (holdAnalysisMode === 'auto' && args.fundingForecast !== 'none') {
+            try {
+                forecast = readHistoricalFundingForecast(perp, clients.perpNetwork, perpPair, {
+                    model: args.fundingForecast,
+                    horizonHours: args.holdHours ?? DEFAULT_FORECAST_HORIZON_HOURS,
+                    currentPctPerHour: fundingPctPerHourActual,
+                    zScore: args.zScore,
+                    windowHours: args.fundingWindowHours,
+                });
+            } catch (error) {
+                console.warn('Failed to forecast funding from the recorded history:', (error as Error).message);
+            }
+        }
+
+        const fundingForHold = forecast
+            ? forecast.expectedPctPerHour
+            : manualFundingRatePct ?? fundingPctPerHourActual;
+
+        // The borrow is the capital this hedge ties up, so its APR is the capital cost.
+        const breakevenInputs: MinFundingInputs = {
+            spotRoundTripBps: analysis.costs.spotRoundTripBps,
+            perpRoundTripBps: analysis.costs.perpRoundTripBps,
+            gasRoundTripBps: analysis.costs.gasRoundTripBps,
+            capitalAprPct: analysis.costs.borrowInterestAprPct,
+            fundingStdPctPerHr: costInputs?.fundingStdPctPerHr,
+            zScore: costInputs?.zScore,
+            extraBasisPremiumPctPerHr: costInputs?.extraBasisPremiumPctPerHr,
+        };
+        // The long perp receives funding when it is negative.
+        const breakeven: BreakevenHoldResult & Partial<ForecastBreakevenResult> = forecast
+            ? computeForecastBreakevenHold(breakevenInputs, receivedFundingPath(forecast, 'short_spot_long_perp'))
+            : computeBreakevenHoldDuration(breakevenInputs, -fundingForHold);
+        const isProfitable = breakeven.breakevenPossible && breakeven.netFundingPerHour > 0;
+
+        fundingAnalysis = {
+            currentFundingRate: {
+                value: fundingPctPerHourActual,
+                unit: '%/hr',
+                source: 'pair_state'
+            },
+            fundingForHold: {
+                value: fundingForHold,
+                unit: '%/hr',
+                mode: holdAnalysisMode,
+                source: forecast ? 'forecast' : holdAnalysisMode === 'auto' ? 'pair_state' : 'manual',
+                manualInput: manualFundingRatePct
+            },
+            forecast: forecast ? summarizeFundingForecast(forecast) : null,
+            breakeven: {
+                possible: breakeven.breakevenPossible,
+                holdHours: breakeven.holdHours,
+                holdDays: breakeven.holdDays,
+                expectedHoldHours: breakeven.expectedHoldHours,
+                expectedNetPct: breakeven.expectedNetPct,
+                lowerNetPct: breakeven.lowerNetPct,
+                tradingCostPct: breakeven.tradingCostPct,
+                netFundingPerHour: breakeven.netFundingPerHour
+            }
+        };
+
+        const profitabilityAnalysis: ProfitabilitySummary = {
             oneTimeCosts: {
                 spotRoundTrip: analysis.costs.spotRoundTripBps,
                 perpRoundTrip: analysis.costs.perpRoundTripBps,
@@ -1130,34 +979,35 @@ export async function main() {
             },
             recurringCosts: {
                 borrowApr: analysis.costs.borrowInterestAprPct,
-                borrowCostPerHour: analysis.costs.borrowCostPctPerHour
+                borrowAprSource: analysis.costs.borrowAprSource,
+                borrowCostPerHour: analysis.costs.borrowCostPctPerHour,
+                riskBufferPerHour: analysis.costs.riskBufferPctPerHour,
+                fundingHistory: fundingHistory ?? null
             },
             income: {
-                fundingRate: analysis.funding.currentFundingPctPerHour,
-                fundingIncomePerHour: analysis.funding.fundingIncomePctPerHour,
-                netIncomePerHour: analysis.funding.netIncomePctPerHour
+                fundingRate: fundingForHold,
+                fundingIncomePerHour: -fundingForHold,
+                netIncomePerHour: breakeven.netFundingPerHour
             },
             profitability: {
-                isProfitable: analysis.isProfitable,
-                hoursToBreakeven: analysis.hoursToBreakeven,
-                daysToBreakeven: analysis.daysToBreakeven
+                isProfitable,
+                hoursToBreakeven: breakeven.holdHours,
+                daysToBreakeven: breakeven.holdDays
             }
         };
 
-        if (!analysis.isProfitable) {
-            const abortResult = {
+        if (!isProfitable) {
+            return {
                 action: 'abort',
                 reason: 'not_profitable',
                 analysis: profitabilityAnalysis,
+                fundingAnalysis,
                 message: 'Strategy not profitable, aborting'
             };
-            console.log(JSON.stringify(abortResult, null, 2));
-            return;
         }
     }
 
-    const requiredUsdc = amountOutBase;
-    const sizeDelta = requiredUsdc > minSize ? requiredUsdc : minSize;
+    const sizeDelta = sizing.perpSize > minSize ? sizing.perpSize : minSize;
 
     // Default to 1x leverage (collateral = size) unless specified otherwise
     const collateralInput = args.perpCollateral
@@ -1167,260 +1017,211 @@ export async function main() {
         ? collateralInput
         : minCollateral;
 
-    const spotLeg = {
+    const spotLeg: SpotLeg = {
         borrowAmount: amountInBase.toString(),
         usdcProceeds: amountOutBase.toString(),
-        hyperionQuote: hyperionQuote
+        spotQuote: spotQuote
     };
 
-    if (submitSpot) {
-        await executeBorrowForShortLeg({
-            args,
-            account,
-            aptos,
-            borrowAmount: amountInBase,
-        });
-
-        const payload = await sdk.Swap.swapTransactionPayload({
-            currencyA: spotFromFa,
-            currencyB: spotToFa,
-            currencyAAmount: amountIn,
-            currencyBAmount: amountOut,
-            slippage: slippagePercent,
-            poolRoute: path ?? [],
-            recipient: account.accountAddress.toString(),
-        });
-
-        await submitAptosTransaction({ aptos, account, payload, label: 'Hyperion APT->USDC swap' });
-    } else {
-        const dryRunResult = {
-            action: 'dry_run',
-            message: 'Spot leg dry run (pass --submit-spot true to execute borrow + swap).',
-            spotLeg: spotLeg,
-            perpLeg: {
-                pair: perpPair,
-                sizeDelta: sizeDelta.toString(),
-                collateralDelta: collateralDelta.toString(),
-                direction: 'LONG'
-            }
-        };
-        console.log(JSON.stringify(dryRunResult, null, 2));
-        return;
-    }
-
-    const perpLeg = {
+    const perpLeg: PerpLeg = {
         pair: perpPair,
         sizeDelta: sizeDelta.toString(),
         collateralDelta: collateralDelta.toString(),
-        direction: 'LONG'
+        direction: 'LONG',
+        markPrice: sizing.markPrice,
+        // Spot is short, so the borrowed APT counts against the long perp.
+        residualDelta: residualDelta(-amountInBase, -sizeDelta, sizing.markPrice)
     };
 
-    if (!submitPerp) {
-        const dryRunResult = {
+    if (!submitSpot) {
+        return {
             action: 'dry_run',
-            message: 'Perp leg dry run (pass --submit-perp true to execute).',
+            message: 'Spot leg dry run (pass --submit-spot true to execute borrow + swap).',
             spotLeg: spotLeg,
-            perpLeg: perpLeg
+            perpLeg: perpLeg,
+            fundingAnalysis: fundingAnalysis
         };
-        console.log(JSON.stringify(dryRunResult, null, 2));
-        return;
     }
 
-    // Check and deposit USDC to Merkle if needed
-    const merkleBalance = await merkle.getUsdcBalance({ accountAddress: account.accountAddress });
-    let depositResult = null;
-
-    if (merkleBalance < collateralDelta) {
-        const deficit = collateralDelta - merkleBalance;
-
-        // Deposit USDC to Merkle vault using SDK
-        const depositPayload = await merkle.payloads.depositUsdc({
-            userAddress: account.accountAddress,
-            amount: deficit,
+    const owner = account.accountAddress.toString();
+    const journal = openJournalRun('short_spot_long_perp', {
+        hyperionNetwork,
+        perpNetwork: clients.perpNetwork,
+        perp: { venue: clients.perp.name, config: clients.perp.describe() },
+        spotVenues: clients.spot.venues.map((venue) => venue.name),
+        perpPair,
+        aptFa: spotFromFa,
+        usdcFa: spotToFa,
+        slippageBps,
+        borrowAmount: amountInBase.toString(),
+        usdcQuoted: amountOutBase.toString(),
+        sizeDelta: sizeDelta.toString(),
+        collateralDelta: collateralDelta.toString(),
+        scaleInto: scaleTarget?.id,
+    });
+    const plan = createCompensationPlan({ journal });
+
+    return withCompensation(plan, async (): Promise<ShortSpotLongPerpResult> => {
+        const borrow = await plan.run('aries_borrow', () => openVenueBorrow(venue, amountInBase), {
+            transactionHash: (borrow) => borrow.borrowTxHash,
+            detail: () => ({ lending: { venue: venue.name, config: venue.describe() } }),
+            compensate: () => repayVenueBorrow({
+                aptos,
+                account,
+                venue,
+                borrowAmount: amountInBase,
+            }),
         });
 
-        const depositTxn = await aptos.transaction.build.simple({
-            sender: account.accountAddress,
-            data: depositPayload,
-        });
-        const depositPending = await aptos.signAndSubmitTransaction({
-            signer: account,
-            transaction: depositTxn,
-        });
-        await aptos.waitForTransaction({
-            transactionHash: depositPending.hash,
+        const usdcBefore = await getFaBalance(aptos, owner, spotToFa);
+        const swapHash = await plan.run('hyperion_swap', async () => {
+            const payload = await spot.buildSwapPayload({
+                quote: sizing.quote,
+                slippageBps,
+                recipient: owner,
+            });
+
+            return submitPayload(aptos, account, payload);
+        }, {
+            transactionHash: (hash) => hash,
+            detail: () => ({ venue: sizing.quote.venue, usdcReceived: amountOutBase.toString() }),
+            compensate: async () => {
+                const usdcNow = await getFaBalance(aptos, owner, spotToFa);
+                const available = usdcNow > usdcBefore ? usdcNow - usdcBefore : 0n;
+                return reverseSpotSwap({
+                    aptos,
+                    account,
+                    spot,
+                    fromFa: spotToFa,
+                    toFa: spotFromFa,
+                    amount: available < amountOutBase ? available : amountOutBase,
+                    slippageBps,
+                });
+            },
         });
 
-        depositResult = {
-            action: 'usdc_deposited',
-            deficit: deficit.toString(),
-            transactionHash: depositPending.hash,
-            merkleBalanceBefore: merkleBalance.toString()
-        };
-    }
-
-    const payload = await merkle.payloads.placeMarketOrder({
-        pair: perpPair,
-        userAddress: account.accountAddress,
-        sizeDelta,
-        collateralDelta,
-        isLong: true,
-        isIncrease: true,
-    });
+        if (!submitPerp) {
+            return {
+                action: 'dry_run',
+                message: 'Perp leg dry run (pass --submit-perp true to execute).',
+                spotLeg: spotLeg,
+                perpLeg: perpLeg,
+                fundingAnalysis: fundingAnalysis,
+                steps: plan.report(),
+                journalId: journal.id
+            };
+        }
 
-    const rawTxn = await aptos.transaction.build.simple({
-        sender: account.accountAddress,
-        data: payload,
-    });
+        const depositResult = await depositPerpCollateral(plan, perp, collateralDelta);
 
-    const pending = await aptos.signAndSubmitTransaction({
-        signer: account,
-        transaction: rawTxn,
-    });
-    const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-
-    const executionResult = {
-        action: 'arbitrage_executed',
-        strategy: 'short_spot_long_perp',
-        spotLeg: spotLeg,
-        perpLeg: perpLeg,
-        depositResult: depositResult,
-        perpTransaction: {
-            hash: pending.hash,
-            version: committed.version,
+        const perpOrder = await plan.run('perp_open', () => perp.placeMarketOrder({
             pair: perpPair,
-            sizeDelta: sizeDelta.toString(),
-            collateralDelta: collateralDelta.toString()
-        }
-    };
+            sizeDelta,
+            collateralDelta,
+            isLong: true,
+            isIncrease: true,
+        }), {
+            transactionHash: (order) => order.transactionHash,
+            // Recording the hedge can still fail; never leave the long open without its spot leg.
+            compensate: () => closePerpPosition({ perp, pair: perpPair, size: sizeDelta, isLong: true }),
+        });
 
-    console.log(JSON.stringify(executionResult, null, 2));
+        const legs = {
+            spotQuantity: amountInBase.toString(),
+            perpSize: sizeDelta.toString(),
+            perpCollateral: collateralDelta.toString(),
+            ariesLoanAmount: amountInBase.toString(),
+            entryPrices: {
+                spot: spotFillPrice(amountOutBase, amountInBase),
+                perp: await fetchPerpEntryPrice(perp, perpPair),
+            },
+            transactions: {
+                borrow: borrow.borrowTxHash,
+                spot: swapHash,
+                deposit: depositResult?.transactionHash,
+                perp: perpOrder.transactionHash,
+            },
+        };
+        const position = scaleTarget
+            ? scaleInPosition(scaleTarget.id, legs) ?? scaleTarget
+            : recordOpenPosition({
+                direction: 'short_spot_long_perp',
+                perpPair,
+                spotAsset: spotFromFa,
+                ...legs,
+                journalId: journal.id,
+            });
+
+        return {
+            action: 'arbitrage_executed',
+            strategy: 'short_spot_long_perp',
+            spotLeg: spotLeg,
+            perpLeg: perpLeg,
+            fundingAnalysis: fundingAnalysis,
+            depositResult: depositResult,
+            perpTransaction: {
+                hash: perpOrder.transactionHash,
+                version: perpOrder.version,
+                pair: perpPair,
+                sizeDelta: sizeDelta.toString(),
+                collateralDelta: collateralDelta.toString()
+            },
+            steps: plan.report(),
+            journalId: journal.id,
+            positionId: position.id
+        };
+    });
 }
 
-main().catch((error) => {
-    console.error('Arbitrage script error:', error);
-    process.exitCode = 1;
-});
-
-type BorrowContext = {
-    args: Args;
-    account: Account;
-    aptos: Aptos;
-    borrowAmount: bigint;
-};
-
-async function executeBorrowForShortLeg(context: BorrowContext) {
-    const { args, account, aptos, borrowAmount } = context;
-
-    const coreAddress = args.ariesCoreAddress ?? process.env.ARIES_CORE_ADDRESS;
-    if (!coreAddress) {
-        throw new Error('Set ARIES_CORE_ADDRESS or pass --aries-core-address when submitting the spot leg.');
-    }
-
-    const moduleName = args.ariesModuleName ?? process.env.ARIES_MODULE_NAME ?? 'controller';
-    const registerModule = args.ariesRegisterModuleName ?? process.env.ARIES_REGISTER_MODULE ?? moduleName;
-    const depositModule = args.ariesDepositModuleName ?? process.env.ARIES_DEPOSIT_MODULE ?? moduleName;
-    const withdrawModule = args.ariesWithdrawModuleName ?? process.env.ARIES_WITHDRAW_MODULE ?? moduleName;
-
-    const profileName = args.ariesProfile ?? process.env.ARIES_PROFILE_NAME ?? 'main';
-
-    const collateralTypeInput =
-        args.ariesCollateralType ?? process.env.ARIES_COLLATERAL_TYPE ?? USDC_FA_TYPE;
-
-    const collateralKind = inferKind(
-        args.ariesCollateralKind ?? process.env.ARIES_COLLATERAL_KIND,
-        collateralTypeInput,
-        'fa',
-    );
-
-    const wrappedCollateralOverride =
-        args.ariesWrappedCollateralType ?? process.env.ARIES_WRAPPED_COLLATERAL_TYPE;
-    const wrappedCollateralType =
-        wrappedCollateralOverride ?? resolveWrappedType(collateralTypeInput, collateralKind);
-    if (collateralKind === 'fa' && !wrappedCollateralType) {
-        throw new Error(
-            `Unsupported FA collateral type '${collateralTypeInput}'. Provide --aries-wrapped-collateral-type or ARIES_WRAPPED_COLLATERAL_TYPE.`,
-        );
-    }
-
-    const collateralAmount =
-        args.ariesCollateralAmount
-        ?? parseHumanAmount(
-            args.ariesCollateralUsdc ?? process.env.ARIES_COLLATERAL_USDC,
-            USDC_DECIMALS,
-            'aries collateral',
-        )
-        ?? process.env.ARIES_COLLATERAL_AMOUNT
-        ?? '0'; // Default to 0, which triggers auto-deposit of required amount
-
-    const borrowType =
-        args.ariesBorrowType ?? process.env.ARIES_BORROW_TYPE ?? APT_TYPE_TAG;
-    const borrowKind = inferKind(
-        args.ariesBorrowKind ?? process.env.ARIES_BORROW_KIND,
-        borrowType,
-        'coin',
-    );
-
-    const skipRegistration =
-        parseBool(args.ariesSkipRegistration ?? process.env.ARIES_SKIP_REGISTRATION) ?? false;
-    const skipDeposit =
-        parseBool(args.ariesSkipDeposit ?? process.env.ARIES_SKIP_DEPOSIT) ?? false;
-    const allowBorrow =
-        parseBool(args.ariesAllowBorrow ?? process.env.ARIES_ALLOW_BORROW) ?? true;
-    const waitForSuccess =
-        parseBool(args.ariesWaitForSuccess ?? process.env.ARIES_WAIT_FOR_SUCCESS) ?? true;
-
-    const borrowAmountString = borrowAmount.toString();
-    const borrowAmountHuman = formatAssetAmount(borrowAmount, APT_DECIMALS, 'APT');
-
-    // Aries borrow request details stored for JSON output
-
-    await borrowWithAries({
-        aptos,
-        account,
-        coreAddress,
-        moduleName,
-        registerModuleName: registerModule,
-        depositModuleName: depositModule,
-        withdrawModuleName: withdrawModule,
-        profileName,
-        collateralType: wrappedCollateralType ?? collateralTypeInput,
-        collateralAmount,
-        wrappedCollateralType,
-        collateralKind,
-        borrowType,
-        borrowAmount: borrowAmountString,
-        borrowKind,
-        skipRegistration,
-        skipDeposit,
-        repayOnly: false,
-        allowBorrow,
-        waitForSuccess,
-    });
+export async function main() {
+    console.log('🚀 [DEBUG] Starting short-spot-long-perp main function');
+    const args = parseArgs(process.argv.slice(2));
+    const params: ShortSpotLongPerpParams = { ...readStrategyConfig(args.config), ...args };
+    console.log('🔧 [DEBUG] Parsed args:', JSON.stringify(params, null, 2));
+    const result = await runShortSpotLongPerp(params);
+    printResult(result);
+    return result;
 }
 
-async function submitAptosTransaction(args: {
-    aptos: Aptos;
-    account: Account;
-    payload: any;
-    label: string;
-}) {
-    const { aptos, account, payload, label } = args;
-    const rawTxn = await aptos.transaction.build.simple({
-        sender: account.accountAddress,
-        data: payload,
+if (isCliEntry(import.meta.url)) {
+    main().catch((error) => {
+        console.error('Arbitrage script error:', error);
+        process.exitCode = 1;
     });
-    const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
-    const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
-    // Transaction details stored for JSON output
 }
 
-function parseBool(value: string | undefined): boolean | undefined {
-    if (value === undefined) return undefined;
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'true' || normalized === '1') return true;
-    if (normalized === 'false' || normalized === '0') return false;
-    return undefined;
+/**
+ * The venue named by `--lending-venue` (or LENDING_VENUE, else Aries). The
+ * `--aries-*` flags are handed over as config; other venues ignore them.
+ */
+function lendingVenueFor(args: ShortSpotLongPerpParams, clients: ArbitrageClients): LendingVenue {
+    if (args.lendingVenue && typeof args.lendingVenue !== 'string') {
+        return args.lendingVenue;
+    }
+    return createLendingVenue(args.lendingVenue, {
+        aptos: clients.aptos,
+        account: clients.account,
+        config: {
+            coreAddress: args.ariesCoreAddress,
+            moduleName: args.ariesModuleName,
+            registerModuleName: args.ariesRegisterModuleName,
+            depositModuleName: args.ariesDepositModuleName,
+            withdrawModuleName: args.ariesWithdrawModuleName,
+            profileName: args.ariesProfile,
+            collateralType: args.ariesCollateralType,
+            wrappedCollateralType: args.ariesWrappedCollateralType,
+            collateralAmount: args.ariesCollateralAmount,
+            collateralUsdc: args.ariesCollateralUsdc,
+            collateralKind: args.ariesCollateralKind,
+            borrowType: args.ariesBorrowType,
+            borrowKind: args.ariesBorrowKind,
+            skipRegistration: args.ariesSkipRegistration,
+            skipDeposit: args.ariesSkipDeposit,
+            allowBorrow: args.ariesAllowBorrow,
+            waitForSuccess: args.ariesWaitForSuccess,
+            targetHealthFactor: args.ariesTargetHealth,
+        },
+    });
 }
 
 function parseHumanAmount(value: string | undefined, decimals: number, label: string): string | undefined {
@@ -1440,40 +1241,3 @@ function toBaseUnits(value: string, decimals: number, label: string): bigint {
     if (!parsed) return 0n;
     return BigInt(parsed);
 }
-
-function inferKind(value: string | undefined, typeTag: string, defaultKind: 'coin' | 'fa'): 'coin' | 'fa' {
-    if (value) {
-        const normalized = value.trim().toLowerCase();
-        if (normalized === 'coin' || normalized === 'fa') {
-            return normalized;
-        }
-        throw new Error(`Invalid token kind '${value}'. Use 'coin' or 'fa'.`);
-    }
-
-    if (typeTag.includes('::fungible_asset::') || typeTag.endsWith('::coin::T')) {
-        return 'fa';
-    }
-
-    return defaultKind;
-}
-
-function resolveWrappedType(typeTag: string, kind: 'coin' | 'fa'): string | undefined {
-    if (kind !== 'fa') return undefined;
-    if (typeTag === USDC_FA_TYPE || typeTag === '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b::coin::T') {
-        return WRAPPED_USDC_TYPE;
-    }
-    return undefined;
-}
-
-function formatAssetAmount(value: bigint, decimals: number, symbol: string): string {
-    if (decimals === 0) return `${value.toString()} ${symbol}`;
-    const divisor = Number(10n ** BigInt(decimals));
-    const numeric = Number(value) / divisor;
-    if (Number.isFinite(numeric)) {
-        return `${numeric.toLocaleString(undefined, {
-            minimumFractionDigits: 0,
-            maximumFractionDigits: decimals,
-        })} ${symbol}`;
-    }
-    return `${value.toString()} base units (${symbol})`;
-}
@@ -0,0 +1,123 @@
+import { type PerpVenue } from '../perp/venue.js';
+import { type SpotCandidate, type SpotRouter } from '../spot/router.js';
+import { type SpotQuote } from '../spot/venue.js';
+import { type HedgeDirection } from './position-book.js';
+
+/**
+ * USD-notional sizing shared by the open flows. A target notional becomes a
+ * spot APT quantity at the perp venue's mark price, the spot leg is quoted for
+ * that quantity, and the perp size is that quantity valued at the same mark,
+ * so both legs carry the same delta. What rounding or minimum sizes leave over is
+ * reported as the residual delta.
+ */
+
+const APT_DECIMALS = 8;
+const USDC_DECIMALS = 6;
+
+export type SizingTarget =
+  | { notionalUsd: number }
+  /** APT in base units. */
+  | { spotQuantity: bigint };
+
+export type ResidualDelta = {
+  /** Spot APT minus perp APT-equivalent; positive means net long. */
+  apt: number;
+  usd: number;
+};
+
+export type HedgeSizing = {
+  markPrice: number;
+  targetNotionalUsd: number;
+  /** APT bought (long spot) or borrowed and sold (short spot), base units. */
+  spotQuantity: bigint;
+  /** USDC paid or received for `spotQuantity` per the quote, base units. */
+  usdcAmount: bigint;
+  /** USDC per APT implied by the quote. */
+  quotePrice: number;
+  /** Perp notional in the venue's collateral base units. */
+  perpSize: bigint;
+  residual: ResidualDelta;
+  route: { venue: string; amountIn: string; amountOut: string; path: string[] };
+  /** Winning spot quote, for executing the swap on the venue that gave it. */
+  quote: SpotQuote;
+  /** Every venue the router asked, with what it quoted. */
+  candidates: SpotCandidate[];
+};
+
+export type HedgeSizingResult =
+  | { ok: true; sizing: HedgeSizing }
+  | { ok: false; rawQuote: unknown };
+
+/** Perp size (USDC base units) carrying the same delta as `spotBase` APT at `markPrice`. */
+export function perpSizeForSpot(spotBase: bigint, markPrice: number): bigint {
+  const usd = (Number(spotBase) / 10 ** APT_DECIMALS) * markPrice;
+  return BigInt(Math.round(usd * 10 ** USDC_DECIMALS));
+}
+
+export function residualDelta(spotBase: bigint, perpSize: bigint, markPrice: number): ResidualDelta {
+  const spotApt = Number(spotBase) / 10 ** APT_DECIMALS;
+  const perpUsd = Number(perpSize) / 10 ** USDC_DECIMALS;
+  return {
+    apt: spotApt - perpUsd / markPrice,
+    usd: spotApt * markPrice - perpUsd,
+  };
+}
+
+/**
+ * Sizes both legs of a hedge for `target`. Long spot quotes USDC -> exactly
+ * `spotQuantity` APT; short spot quotes selling exactly `spotQuantity` APT.
+ */
+export async function sizeHedge(args: {
+  perp: PerpVenue;
+  spot: SpotRouter;
+  pair: string;
+  direction: HedgeDirection;
+  aptFa: string;
+  usdcFa: string;
+  target: SizingTarget;
+  safeMode?: boolean;
+}): Promise<HedgeSizingResult> {
+  const { perp, spot, pair, direction, aptFa, usdcFa, target } = args;
+  const safeMode = args.safeMode ?? false;
+  const markPrice = await perp.getMarkPrice(pair);
+
+  const spotQuantity = 'spotQuantity' in target
+    ? target.spotQuantity
+    : BigInt(Math.round((target.notionalUsd / markPrice) * 10 ** APT_DECIMALS));
+  const targetNotionalUsd = 'notionalUsd' in target
+    ? target.notionalUsd
+    : (Number(spotQuantity) / 10 ** APT_DECIMALS) * markPrice;
+
+  const isLongSpot = direction === 'long_spot_short_perp';
+  const { quote, candidates } = await spot.quote(isLongSpot
+    ? { from: usdcFa, to: aptFa, amount: spotQuantity, estimate: 'to', safeMode }
+    : { from: aptFa, to: usdcFa, amount: spotQuantity, estimate: 'from', safeMode });
+  if (!quote) {
+    return { ok: false, rawQuote: candidates };
+  }
+
+  const usdcAmount = isLongSpot ? quote.amountIn : quote.amountOut;
+  const perpSize = perpSizeForSpot(spotQuantity, markPrice);
+  return {
+    ok: true,
+    sizing: {
+      markPrice,
+      targetNotionalUsd,
+      spotQuantity,
+      usdcAmount,
+      quotePrice: spotQuantity > 0n
+        ? (Number(usdcAmount) / 10 ** USDC_DECIMALS) / (Number(spotQuantity) / 10 ** APT_DECIMALS)
+        : 0,
+      perpSize,
+      residual: residualDelta(spotQuantity, perpSize, markPrice),
+      route: {
+        venue: quote.venue,
+        amountIn: quote.amountIn.toString(),
+        amountOut: quote.amountOut.toString(),
+        path: quote.path,
+      },
+      quote,
+      candidates,
+    },
+  };
+}
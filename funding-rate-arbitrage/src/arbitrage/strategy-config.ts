@@ -0,0 +1,68 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeJsonAtomic } from '../utils/jsonFile.js';
+
+/**
+ * Strategy parameters shared between the optimizer and the live scripts.
+ * `arb:optimize --export` writes the winning set here; the daemon and the
+ * open flows read it with `--config <file>` (or ARB_STRATEGY_CONFIG) and
+ * apply it underneath their own flags, so a flag always wins over the file.
+ */
+
+export type StrategyParams = {
+  holdHours?: number;
+  zScore?: number;
+  fundingStdPctPerHr?: number;
+  basisPremiumPctPerHr?: number;
+  /** Minimum net funding (%/hr) to open; the daemon's entry threshold. */
+  entryThresholdPctPerHr?: number;
+  exitThresholdPctPerHr?: number;
+  confirmations?: number;
+  slippageBps?: number;
+  /** USD notional of each hedge. */
+  notionalUsd?: number;
+  spotRoundTripBps?: number;
+  perpRoundTripBps?: number;
+  gasRoundTripBps?: number;
+  capitalAprPct?: number;
+  borrowAprPct?: number;
+};
+
+export type StrategyConfig = {
+  version: 1;
+  generatedAt: string;
+  /** Perp pair the params were fitted on, when known. */
+  pair?: string;
+  /** Out-of-sample metrics of the params, as the optimizer reported them. */
+  metrics?: Record<string, number>;
+  params: StrategyParams;
+};
+
+export function strategyConfigPath(path?: string): string {
+  return path ?? process.env.ARB_STRATEGY_CONFIG ?? '.arb-strategy.json';
+}
+
+/**
+ * Params from the config file, or none when no file was asked for. An
+ * explicit path (argument or ARB_STRATEGY_CONFIG) that does not exist is an
+ * error rather than a silent fall back to defaults.
+ */
+export function readStrategyConfig(path?: string): StrategyParams {
+  const file = path ?? process.env.ARB_STRATEGY_CONFIG;
+  if (!file) return {};
+  if (!existsSync(file)) {
+    throw new Error(`Strategy config '${file}' does not exist.`);
+  }
+  const parsed = JSON.parse(readFileSync(file, 'utf8')) as Partial<StrategyConfig>;
+  if (parsed.version !== 1 || typeof parsed.params !== 'object' || parsed.params === null) {
+    throw new Error(`Strategy config '${file}' is not a version 1 config.`);
+  }
+  return Object.fromEntries(
+    Object.entries(parsed.params).filter(([, value]) => typeof value === 'number' && Number.isFinite(value)),
+  ) as StrategyParams;
+}
+
+export function writeStrategyConfig(config: Omit<StrategyConfig, 'version' | 'generatedAt'>, path?: string): string {
+  const file = strategyConfigPath(path);
+  writeJsonAtomic(file, { version: 1, generatedAt: new Date().toISOString(), ...config } satisfies StrategyConfig);
+  return file;
+}
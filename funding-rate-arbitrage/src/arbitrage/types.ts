@@ -0,0 +1,68 @@
+/**
+ * Result shapes shared by the open/close arbitrage flows. Every flow resolves
+ * to exactly one of these, discriminated on `action`; bigint amounts are
+ * carried as base-unit strings so results can be JSON-serialised as-is.
+ */
+
+export type ArbitrageStrategy =
+  | 'long_spot_short_perp'
+  | 'short_spot_long_perp'
+  | 'close_long_spot_short_perp'
+  | 'close_short_spot_long_perp'
+  | 'perp_spread'
+  | 'close_perp_spread';
+
+export type ArbitrageDryRunResult<T = {}> = {
+  action: 'dry_run';
+  message: string;
+} & T;
+
+export type ArbitrageAbortResult = {
+  action: 'abort';
+  reason: string;
+  message?: string;
+  [detail: string]: unknown;
+};
+
+export type ArbitrageExecutedResult<T = {}> = {
+  action: 'arbitrage_executed';
+  strategy: ArbitrageStrategy;
+} & T;
+
+export type ArbitrageClosedResult<T = {}> = {
+  action: 'arbitrage_closed';
+  strategy: ArbitrageStrategy;
+} & T;
+
+export type ArbitrageResumedResult<T = {}> = {
+  action: 'arbitrage_resumed';
+  strategy: ArbitrageStrategy;
+  journalId: string;
+  mode: 'continue' | 'unwind';
+} & T;
+
+export type ArbitrageRotatedResult<T = {}> = {
+  action: 'arbitrage_rotated';
+  from: ArbitrageStrategy;
+  to: ArbitrageStrategy;
+} & T;
+
+export type PerpDepositResult = {
+  action: 'collateral_deposited';
+  venue: string;
+  deficit: string;
+  transactionHash: string;
+  balanceBefore: string;
+};
+
+export type ArbitrageResult =
+  | ArbitrageDryRunResult<Record<string, unknown>>
+  | ArbitrageAbortResult
+  | ArbitrageExecutedResult<Record<string, unknown>>
+  | ArbitrageClosedResult<Record<string, unknown>>
+  | ArbitrageResumedResult<Record<string, unknown>>
+  | ArbitrageRotatedResult<Record<string, unknown>>;
+
+export function printResult(result: ArbitrageResult) {
+  console.log(JSON.stringify(result, null, 2));
+}
@@ -0,0 +1,323 @@
+import { Aptos } from '@aptos-labs/ts-sdk';
+import { getAriesLoanPosition } from './aries.js';
+import {
+  computeAriesHealth,
+  getAriesReserveRisk,
+  type AriesBalance,
+  type AriesReserveRisk,
+} from './health.js';
+import { DEFAULT_ARIES_CORE_ADDRESS, getAriesReserveRates } from './rates.js';
+
+/**
+ * Everything an owner holds on Aries, per profile. The reserves a profile
+ * uses are read from the iterable tables on its `Profile` resource, so any
+ * asset shows up, not only the ones the strategies trade. Each reserve is
+ * valued at the Aries oracle price and carries its live APRs; the profile's
+ * health factor aggregates all of them.
+ */
+
+const TYPE_INFO = '0x1::type_info::TypeInfo';
+// Guards against a corrupt or cyclic linked list.
+const MAX_RESERVES = 64;
+
+export type AriesReserveBalance = {
+  /** Base units. */
+  amount: string;
+  /** Human units. */
+  formatted: string;
+  shares: string;
+  /** Null when the reserve's oracle price could not be read. */
+  usd: number | null;
+};
+
+export type AriesReserveEntry = {
+  assetType: string;
+  decimals: number | null;
+  priceUsd: number | null;
+  deposit: AriesReserveBalance | null;
+  loan: AriesReserveBalance | null;
+  supplyAprPct: number | null;
+  borrowAprPct: number | null;
+};
+
+export type AriesProfileOverview = {
+  profileName: string;
+  profileAddress: string | null;
+  exists: boolean;
+  reserves: AriesReserveEntry[];
+  collateralUsd: number;
+  debtUsd: number;
+  borrowLimitUsd: number;
+  /** Null without debt. */
+  healthFactor: number | null;
+  /** Reserves left out of the health figures because they could not be priced. */
+  unpricedReserves: string[];
+};
+
+export type AriesAccountOverview = {
+  coreAddress: string;
+  owner: string;
+  profiles: AriesProfileOverview[];
+  collateralUsd: number;
+  debtUsd: number;
+};
+
+/** Profile names from ARIES_PROFILE_NAMES (comma-separated), else ARIES_PROFILE_NAME, else 'main'. */
+export function ariesProfileNamesFromEnv(): string[] {
+  const list = process.env.ARIES_PROFILE_NAMES ?? process.env.ARIES_PROFILE_NAME ?? 'main';
+  return list.split(',').map((name) => name.trim()).filter(Boolean);
+}
+
+export async function getAriesAccountOverview(args: {
+  aptos: Aptos;
+  owner: string;
+  profileNames?: string[];
+  coreAddress?: string;
+}): Promise<AriesAccountOverview> {
+  const { aptos, owner } = args;
+  const coreAddress = (args.coreAddress ?? DEFAULT_ARIES_CORE_ADDRESS).toLowerCase();
+  const profileNames = args.profileNames?.length ? args.profileNames : ariesProfileNamesFromEnv();
+
+  // Risk and rates are per reserve, so profiles sharing a reserve share the reads.
+  const risks = new Map<string, Promise<AriesReserveRisk | null>>();
+  const rates = new Map<string, Promise<{ supplyAprPct: number; borrowAprPct: number } | null>>();
+  const reserve = {
+    risk: (assetType: string) => memo(risks, assetType, () => getAriesReserveRisk({ aptos, assetType, coreAddress })),
+    rates: (assetType: string) => memo(rates, assetType, () => getAriesReserveRates({ aptos, assetType, coreAddress })),
+  };
+
+  const profiles: AriesProfileOverview[] = [];
+  for (const profileName of profileNames) {
+    profiles.push(await getProfileOverview({ aptos, owner, coreAddress, profileName, reserve }));
+  }
+
+  return {
+    coreAddress,
+    owner,
+    profiles,
+    collateralUsd: profiles.reduce((sum, profile) => sum + profile.collateralUsd, 0),
+    debtUsd: profiles.reduce((sum, profile) => sum + profile.debtUsd, 0),
+  };
+}
+
+type ReserveReads = {
+  risk: (assetType: string) => Promise<AriesReserveRisk | null>;
+  rates: (assetType: string) => Promise<{ supplyAprPct: number; borrowAprPct: number } | null>;
+};
+
+function memo<T>(cache: Map<string, Promise<T | null>>, key: string, load: () => Promise<T>): Promise<T | null> {
+  if (!cache.has(key)) {
+    cache.set(key, load().catch((error) => {
+      if (process.env.ARIES_DEBUG === 'true') {
+        console.warn(`Aries reserve ${key} unavailable:`, (error as Error).message);
+      }
+      return null;
+    }));
+  }
+  return cache.get(key)!;
+}
+
+async function getProfileOverview(args: {
+  aptos: Aptos;
+  owner: string;
+  coreAddress: string;
+  profileName: string;
+  reserve: ReserveReads;
+}): Promise<AriesProfileOverview> {
+  const { aptos, owner, coreAddress, profileName, reserve } = args;
+  const overview: AriesProfileOverview = {
+    profileName,
+    profileAddress: null,
+    exists: false,
+    reserves: [],
+    collateralUsd: 0,
+    debtUsd: 0,
+    borrowLimitUsd: 0,
+    healthFactor: null,
+    unpricedReserves: [],
+  };
+
+  const [exists] = await aptos.view({
+    payload: {
+      function: `${coreAddress}::profile::profile_exists` as `${string}::${string}::${string}`,
+      typeArguments: [],
+      functionArguments: [owner, profileName],
+    },
+  }).catch(() => [false]);
+  if (!exists) return overview;
+  overview.exists = true;
+
+  const [profileAddress] = await aptos.view({
+    payload: {
+      function: `${coreAddress}::profile::get_profile_address` as `${string}::${string}::${string}`,
+      typeArguments: [],
+      functionArguments: [owner, profileName],
+    },
+  });
+  overview.profileAddress = String(profileAddress);
+
+  const { deposited, borrowed } = await listProfileReserves(aptos, coreAddress, overview.profileAddress);
+  const assetTypes = Array.from(new Set([...deposited, ...borrowed]));
+
+  const deposits: AriesBalance[] = [];
+  const loans: AriesBalance[] = [];
+  for (const assetType of assetTypes) {
+    const [risk, rate, deposit, loan] = await Promise.all([
+      reserve.risk(assetType),
+      reserve.rates(assetType),
+      deposited.includes(assetType) ? readDeposit(aptos, coreAddress, owner, profileName, assetType) : null,
+      borrowed.includes(assetType)
+        ? getAriesLoanPosition({ aptos, coreAddress, owner, loanType: assetType, profileName })
+        : null,
+    ]);
+
+    if (risk) {
+      if (deposit) deposits.push({ risk, amount: deposit.amount });
+      if (loan) loans.push({ risk, amount: loan.amount });
+    } else {
+      overview.unpricedReserves.push(assetType);
+    }
+
+    overview.reserves.push({
+      assetType,
+      decimals: risk?.decimals ?? null,
+      priceUsd: risk?.priceUsd ?? null,
+      deposit: deposit ? toBalance(deposit, risk) : null,
+      loan: loan ? toBalance(loan, risk) : null,
+      supplyAprPct: rate?.supplyAprPct ?? null,
+      borrowAprPct: rate?.borrowAprPct ?? null,
+    });
+  }
+
+  const health = computeAriesHealth(deposits, loans);
+  overview.collateralUsd = health.collateralUsd;
+  overview.debtUsd = loans.reduce((sum, loan) => sum + usdValue(loan.amount, loan.risk), 0);
+  overview.borrowLimitUsd = health.borrowLimitUsd;
+  overview.healthFactor = Number.isFinite(health.healthFactor) ? health.healthFactor : null;
+  return overview;
+}
+
+async function readDeposit(
+  aptos: Aptos,
+  coreAddress: string,
+  owner: string,
+  profileName: string,
+  assetType: string,
+): Promise<{ amount: bigint; shares: bigint }> {
+  const result = await aptos.view({
+    payload: {
+      function: `${coreAddress}::profile::profile_deposit` as `${string}::${string}::${string}`,
+      typeArguments: [assetType],
+      functionArguments: [owner, profileName],
+    },
+  });
+  const values = Array.isArray(result) ? result : [];
+  return { amount: BigInt(String(values[0] ?? '0')), shares: BigInt(String(values[1] ?? '0')) };
+}
+
+function toBalance(
+  position: { amount: bigint; shares: bigint },
+  risk: AriesReserveRisk | null,
+): AriesReserveBalance {
+  return {
+    amount: position.amount.toString(),
+    formatted: risk ? (Number(position.amount) / 10 ** risk.decimals).toString() : position.amount.toString(),
+    shares: position.shares.toString(),
+    usd: risk ? usdValue(position.amount, risk) : null,
+  };
+}
+
+function usdValue(amount: bigint, risk: AriesReserveRisk): number {
+  return (Number(amount) / 10 ** risk.decimals) * risk.priceUsd;
+}
+
+/**
+ * Asset types in the profile's `deposited_reserves` and `borrowed_reserves`.
+ * Both are iterable tables keyed by TypeInfo: the resource holds the head key
+ * and every table entry links to the next one.
+ */
+async function listProfileReserves(
+  aptos: Aptos,
+  coreAddress: string,
+  profileAddress: string,
+): Promise<{ deposited: string[]; borrowed: string[] }> {
+  const resource = await aptos.getAccountResource({
+    accountAddress: profileAddress,
+    resourceType: `${coreAddress}::profile::Profile` as `${string}::${string}::${string}`,
+  });
+  const data = (resource as any)?.data ?? resource;
+  const [deposited, borrowed] = await Promise.all([
+    walkIterableTable(aptos, data?.deposited_reserves, `${coreAddress}::profile::Deposit`, coreAddress),
+    walkIterableTable(aptos, data?.borrowed_reserves, `${coreAddress}::profile::Loan`, coreAddress),
+  ]);
+  return { deposited, borrowed };
+}
+
+async function walkIterableTable(
+  aptos: Aptos,
+  table: any,
+  valueType: string,
+  coreAddress: string,
+): Promise<string[]> {
+  const handle = table?.inner?.handle ?? table?.inner?.inner?.handle;
+  let key = optionValue(table?.head);
+  if (!handle || !key) return [];
+
+  const types: string[] = [];
+  while (key && types.length < MAX_RESERVES) {
+    const assetType = decodeTypeInfo(key);
+    if (!assetType || types.includes(assetType)) break;
+    types.push(assetType);
+    const entry = await aptos.getTableItem<any>({
+      handle,
+      data: {
+        key_type: TYPE_INFO,
+        value_type: `${coreAddress}::iterable_table::IterableValue<${TYPE_INFO}, ${valueType}>`,
+        key,
+      },
+    });
+    key = optionValue(entry?.next);
+  }
+  return types;
+}
+
+/** Move `Option<T>` as returned by the REST API: `{ vec: [] }` or `{ vec: [value] }`. */
+function optionValue(option: any): any {
+  return option?.vec?.[0];
+}
+
+function decodeTypeInfo(typeInfo: any): string | undefined {
+  if (!typeInfo) return undefined;
+  if (typeof typeInfo === 'string') return typeInfo;
+
+  const addr = typeInfo.account_address ?? typeInfo.address;
+  const moduleNameVal = typeInfo.module_name ?? typeInfo.module ?? typeInfo.module_name_hex;
+  const structNameVal = typeInfo.struct_name ?? typeInfo.struct ?? typeInfo.struct_name_hex;
+
+  if (!addr || moduleNameVal === undefined || structNameVal === undefined) return undefined;
+
+  const toUtf8 = (value: any) => {
+    if (typeof value === 'string') {
+      if (value.startsWith('0x')) {
+        try {
+          return Buffer.from(value.slice(2), 'hex').toString('utf8');
+        } catch (error) {
+          return value;
+        }
+      }
+      return value;
+    }
+    if (Array.isArray(value)) {
+      try {
+        return Buffer.from(Uint8Array.from(value)).toString('utf8');
+      } catch (error) {
+        return value.toString();
+      }
+    }
+    return String(value ?? '');
+  };
+
+  const moduleName = toUtf8(moduleNameVal).replace(/\0+$/, '');
+  const structName = toUtf8(structNameVal).replace(/\0+$/, '');
+  return `0x${String(addr).replace(/^0x/, '').toLowerCase()}::${moduleName}::${structName}`;
+}
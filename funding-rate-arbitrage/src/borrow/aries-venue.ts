@@ -0,0 +1,296 @@
+import { Account, Aptos } from '@aptos-labs/ts-sdk';
+import {
+  assessAriesBorrow,
+  borrowWithAries,
+  depositToAries,
+  getAriesLoan,
+  registerAriesProfile,
+  repayWithAries,
+  withdrawFromAries,
+} from './aries.js';
+import { DEFAULT_ARIES_CORE_ADDRESS, getAriesReserveRates } from './rates.js';
+import { type LendingVenue, type LendingVenueContext } from './venue.js';
+
+/**
+ * Aries as a `LendingVenue`. Settings come from the config the caller passes
+ * (CLI flags) and fall back to the ARIES_* env vars, then to the mainnet
+ * defaults: USDC collateral deposited as FA and held as WrappedUSDC, APT
+ * borrowed as a coin.
+ */
+
+const USDC_FA_TYPE = '0xf22bede237a07e121b56d91a491eb7bcdfd1f5907926a9e58338f964a01b17fa::asset::USDC';
+const USDC_FA_ADDRESS_COIN = '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b::coin::T';
+const APT_TYPE_TAG = '0x1::aptos_coin::AptosCoin';
+const USDC_DECIMALS = 6;
+// Deficits below 0.01 USDC are not worth a deposit transaction.
+const MIN_DEPOSIT = 10_000n;
+
+export type AriesVenueConfig = {
+  coreAddress: string;
+  moduleName: string;
+  registerModuleName: string;
+  depositModuleName: string;
+  withdrawModuleName: string;
+  profileName: string;
+  /** Collateral as the wallet holds it (native USDC FA by default). */
+  collateralType: string;
+  /** Collateral as Aries holds it; required for FA collateral. */
+  wrappedCollateralType?: string;
+  collateralKind: 'coin' | 'fa';
+  /** Deposit cap in base units; '0' deposits whatever the target health needs. */
+  collateralAmount: string;
+  borrowType: string;
+  borrowKind: 'coin' | 'fa';
+  skipRegistration: boolean;
+  skipDeposit: boolean;
+  allowBorrow: boolean;
+  waitForSuccess: boolean;
+  targetHealthFactor?: number;
+};
+
+/** Config fields as strings, the way CLI flags and env vars carry them. */
+export type AriesVenueOverrides = {
+  [K in keyof AriesVenueConfig]?: AriesVenueConfig[K] | string;
+} & {
+  /** Human USDC; used when `collateralAmount` is not given. */
+  collateralUsdc?: string;
+};
+
+export function resolveAriesVenueConfig(overrides: AriesVenueOverrides = {}): AriesVenueConfig {
+  const env = process.env;
+  const moduleName = text(overrides.moduleName) ?? env.ARIES_MODULE_NAME ?? 'controller';
+  const collateralType = text(overrides.collateralType) ?? env.ARIES_COLLATERAL_TYPE ?? USDC_FA_TYPE;
+  const collateralKind = inferKind(text(overrides.collateralKind) ?? env.ARIES_COLLATERAL_KIND, collateralType, 'fa');
+  const wrappedCollateralType = text(overrides.wrappedCollateralType)
+    ?? env.ARIES_WRAPPED_COLLATERAL_TYPE
+    ?? resolveWrappedType(collateralType, collateralKind);
+  if (collateralKind === 'fa' && !wrappedCollateralType) {
+    throw new Error(
+      `Unsupported FA collateral type '${collateralType}'. Provide --aries-wrapped-collateral-type or ARIES_WRAPPED_COLLATERAL_TYPE.`,
+    );
+  }
+  const borrowType = text(overrides.borrowType) ?? env.ARIES_BORROW_TYPE ?? APT_TYPE_TAG;
+  const targetHealth = text(overrides.targetHealthFactor) ?? env.ARIES_TARGET_HEALTH;
+
+  return {
+    coreAddress: text(overrides.coreAddress) ?? env.ARIES_CORE_ADDRESS ?? DEFAULT_ARIES_CORE_ADDRESS,
+    moduleName,
+    registerModuleName: text(overrides.registerModuleName) ?? env.ARIES_REGISTER_MODULE ?? moduleName,
+    depositModuleName: text(overrides.depositModuleName) ?? env.ARIES_DEPOSIT_MODULE ?? moduleName,
+    withdrawModuleName: text(overrides.withdrawModuleName) ?? env.ARIES_WITHDRAW_MODULE ?? moduleName,
+    profileName: text(overrides.profileName) ?? env.ARIES_PROFILE_NAME ?? 'main',
+    collateralType,
+    wrappedCollateralType,
+    collateralKind,
+    collateralAmount: text(overrides.collateralAmount)
+      ?? humanToBase(overrides.collateralUsdc ?? env.ARIES_COLLATERAL_USDC)
+      ?? env.ARIES_COLLATERAL_AMOUNT
+      ?? '0',
+    borrowType,
+    borrowKind: inferKind(text(overrides.borrowKind) ?? env.ARIES_BORROW_KIND, borrowType, 'coin'),
+    skipRegistration: flag(overrides.skipRegistration, env.ARIES_SKIP_REGISTRATION, false),
+    skipDeposit: flag(overrides.skipDeposit, env.ARIES_SKIP_DEPOSIT, false),
+    allowBorrow: flag(overrides.allowBorrow, env.ARIES_ALLOW_BORROW, true),
+    waitForSuccess: flag(overrides.waitForSuccess, env.ARIES_WAIT_FOR_SUCCESS, true),
+    targetHealthFactor: targetHealth ? Number(targetHealth) : undefined,
+  };
+}
+
+/**
+ * Overrides that make the Aries venue hold spot APT as supply: APT is the
+ * deposited asset and borrowing is disabled. It sits on its own profile
+ * (ARIES_SUPPLY_PROFILE, else `spot-supply`) so the supply never backs the
+ * short-spot loans and can be withdrawn in full.
+ */
+export function ariesSpotSupplyConfig(profileName?: string): AriesVenueOverrides {
+  return {
+    profileName: profileName ?? process.env.ARIES_SUPPLY_PROFILE ?? 'spot-supply',
+    collateralType: APT_TYPE_TAG,
+    // Aries holds APT as itself; set explicitly so ARIES_WRAPPED_COLLATERAL_TYPE cannot leak in.
+    wrappedCollateralType: APT_TYPE_TAG,
+    collateralKind: 'coin',
+    allowBorrow: false,
+  };
+}
+
+export function createAriesLendingVenue(context: LendingVenueContext): LendingVenue {
+  const { aptos, account } = context;
+  const config = resolveAriesVenueConfig(context.config as AriesVenueOverrides | undefined);
+  const heldCollateral = config.wrappedCollateralType ?? config.collateralType;
+  const owner = account.accountAddress.toString();
+  const base = {
+    aptos,
+    account,
+    coreAddress: config.coreAddress,
+    profileName: config.profileName,
+    waitForSuccess: config.waitForSuccess,
+  };
+  const assess = (borrowAmount?: bigint) => assessAriesBorrow({
+    aptos,
+    coreAddress: config.coreAddress,
+    owner,
+    profileName: config.profileName,
+    collateralType: heldCollateral,
+    borrowType: config.borrowType,
+    borrowAmount,
+    targetHealthFactor: config.targetHealthFactor,
+  });
+
+  return {
+    name: 'aries',
+    borrowAsset: config.borrowType,
+    collateralAsset: heldCollateral,
+    // Only the coin deposit entry takes repay_only; deposit_fa turns any excess into a deposit.
+    repayCapsAtDebt: config.borrowKind === 'coin',
+
+    async register() {
+      if (config.skipRegistration) return undefined;
+      const { registerTxHash } = await registerAriesProfile({
+        ...base,
+        registerModuleName: config.registerModuleName,
+      });
+      return registerTxHash;
+    },
+
+    async collateralRequired(borrowAmount) {
+      if (config.skipDeposit) return 0n;
+      const cap = BigInt(config.collateralAmount);
+      let deficit: bigint;
+      try {
+        deficit = (await assess(borrowAmount)).requiredDeposit;
+      } catch (error) {
+        if (cap === 0n) {
+          throw new Error(
+            `Unable to size the Aries collateral deposit (${(error as Error).message}); pass an explicit collateral amount.`,
+          );
+        }
+        console.warn(`Unable to size the Aries collateral deposit; depositing the requested ${cap}.`);
+        return cap;
+      }
+      if (deficit <= MIN_DEPOSIT) return 0n;
+      return cap > 0n && cap < deficit ? cap : deficit;
+    },
+
+    async depositCollateral(amount) {
+      const { depositTxHash } = await depositToAries({
+        ...base,
+        depositModuleName: config.depositModuleName,
+        depositType: heldCollateral,
+        depositAmount: amount,
+        depositKind: config.collateralKind,
+      });
+      return depositTxHash;
+    },
+
+    async borrow(amount) {
+      const { borrowTxHash } = await borrowWithAries({
+        ...base,
+        moduleName: config.moduleName,
+        withdrawModuleName: config.withdrawModuleName,
+        collateralType: heldCollateral,
+        collateralAmount: 0,
+        borrowType: config.borrowType,
+        borrowAmount: amount,
+        borrowKind: config.borrowKind,
+        skipRegistration: true,
+        skipDeposit: true,
+        allowBorrow: config.allowBorrow,
+      });
+      return borrowTxHash;
+    },
+
+    async repay(amount) {
+      const { repayTxHash } = await repayWithAries({
+        ...base,
+        depositModuleName: config.depositModuleName,
+        repayType: config.borrowType,
+        repayAmount: amount,
+        repayKind: config.borrowKind,
+      });
+      return repayTxHash;
+    },
+
+    async withdrawCollateral(amount) {
+      const { withdrawTxHash } = await withdrawFromAries({
+        ...base,
+        withdrawModuleName: config.withdrawModuleName,
+        withdrawType: heldCollateral,
+        withdrawAmount: amount,
+        withdrawKind: config.collateralKind,
+      });
+      return withdrawTxHash;
+    },
+
+    getLoan() {
+      return getAriesLoan({
+        aptos,
+        coreAddress: config.coreAddress,
+        owner,
+        loanType: config.borrowType,
+        profileName: config.profileName,
+      });
+    },
+
+    async getCollateral() {
+      const assessment = await assess();
+      return { deposited: assessment.deposited, minimum: assessment.minimumCollateral };
+    },
+
+    async getRates(assetType = config.borrowType) {
+      const rates = await getAriesReserveRates({ aptos, coreAddress: config.coreAddress, assetType });
+      return { assetType, borrowAprPct: rates.borrowAprPct, supplyAprPct: rates.supplyAprPct };
+    },
+
+    describe() {
+      return { ...config };
+    },
+  };
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function flag(value: unknown, envValue: string | undefined, fallback: boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  const normalized = (text(value) ?? envValue)?.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') return true;
+  if (normalized === 'false' || normalized === '0') return false;
+  return fallback;
+}
+
+function humanToBase(value: string | undefined): string | undefined {
+  const trimmed = text(value);
+  if (!trimmed) return undefined;
+  const numeric = Number(trimmed);
+  if (!Number.isFinite(numeric) || numeric < 0) {
+    throw new Error('aries collateral must be a non-negative number.');
+  }
+  return BigInt(Math.round(numeric * 10 ** USDC_DECIMALS)).toString();
+}
+
+function inferKind(value: string | undefined, typeTag: string, defaultKind: 'coin' | 'fa'): 'coin' | 'fa' {
+  if (value) {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'coin' || normalized === 'fa') {
+      return normalized;
+    }
+    throw new Error(`Invalid token kind '${value}'. Use 'coin' or 'fa'.`);
+  }
+
+  if (typeTag.includes('::fungible_asset::') || typeTag.endsWith('::coin::T')) {
+    return 'fa';
+  }
+
+  return defaultKind;
+}
+
+function resolveWrappedType(typeTag: string, kind: 'coin' | 'fa'): string | undefined {
+  if (kind !== 'fa') return undefined;
+  if (typeTag === USDC_FA_TYPE || typeTag === USDC_FA_ADDRESS_COIN) {
+    return `${DEFAULT_ARIES_CORE_ADDRESS}::wrapped_coins::WrappedUSDC`;
+  }
+  return undefined;
+}
@@ -1,4 +1,11 @@
 import { Account, Aptos } from '@aptos-labs/ts-sdk';
+import {
+  computeAriesHealth,
+  depositForHealth,
+  getAriesReserveRisk,
+  maxBorrowable,
+  type AriesHealth,
+} from './health.js';
 
 const textEncoder = new TextEncoder();
 
@@ -8,6 +15,8 @@ const DEFAULT_PROFILE = 'main';
 
 const MAX_U64 = (1n << 64n) - 1n;
 
+const DEFAULT_TARGET_HEALTH_FACTOR = 1.5;
+
 export type AriesBorrowOptions = {
   aptos: Aptos;
   account: Account;
@@ -29,6 +38,8 @@ export type AriesBorrowOptions = {
   skipRegistration?: boolean;
   skipDeposit?: boolean;
   waitForSuccess?: boolean;
+  /** Health factor the profile should have after the borrow; sizes the collateral deposit. */
+  targetHealthFactor?: number;
 };
 
 export type AriesBorrowResult = {
@@ -39,7 +50,7 @@ export type AriesBorrowResult = {
 
 async function getExistingCollateral(
   aptos: Aptos,
-  account: Account,
+  owner: string,
   coreAddress: string,
   profileName: string,
   collateralType: string,
@@ -49,7 +60,7 @@ async function getExistingCollateral(
       payload: {
         function: `${coreAddress}::profile::profile_deposit`,
         typeArguments: [collateralType],
-        functionArguments: [account.accountAddress.toString(), profileName],
+        functionArguments: [owner, profileName],
       },
     });
     const values = Array.isArray(result) ? result : [];
@@ -61,31 +72,59 @@ async function getExistingCollateral(
   }
 }
 
-async function getRequiredCollateral(
-  aptos: Aptos,
-  coreAddress: string,
-  borrowType: string,
-  borrowAmount: bigint,
-): Promise<bigint> {
-  try {
-    // Get the collateral factor for the borrow asset
-    // This is a simplified approach - in production you'd query the actual health factor requirements
-    await aptos.view({
-      payload: {
-        function: `${coreAddress}::reserve::get_reserve_config`,
-        typeArguments: [borrowType],
-        functionArguments: [],
-      },
-    });
+export type AriesBorrowAssessment = {
+  /** Health of the profile as it stands. */
+  current: AriesHealth;
+  /** Health once `borrowAmount` more is borrowed, before any new deposit. */
+  afterBorrow: AriesHealth;
+  /** Base units of the borrow asset still available against current collateral. */
+  maxBorrowable: bigint;
+  /** Base units of collateral to deposit to reach the target health factor after the borrow. */
+  requiredDeposit: bigint;
+  /** Collateral deposited now, base units. */
+  deposited: bigint;
+  /** Collateral the current loan needs at the target health factor, base units. */
+  minimumCollateral: bigint;
+};
 
-    // Typically collateral factor is around 0.75-0.85
-    // We'll use a conservative 1.5x multiplier (1/0.67 collateral factor) for safety
-    // This means for every $1 borrowed, we need $1.50 in collateral
-    return (borrowAmount * 3n) / 2n;
-  } catch {
-    // Fallback to 2x collateral requirement if we can't fetch config
-    return borrowAmount * 2n;
-  }
+/**
+ * Health of an Aries profile for one collateral and one borrow reserve, and
+ * the collateral a further borrow needs. Deposits and loans in other reserves
+ * are not counted.
+ */
+export async function assessAriesBorrow(args: {
+  aptos: Aptos;
+  coreAddress: string;
+  owner: string;
+  profileName?: string;
+  collateralType: string;
+  borrowType: string;
+  borrowAmount?: bigint;
+  targetHealthFactor?: number;
+}): Promise<AriesBorrowAssessment> {
+  const { aptos, owner, collateralType, borrowType } = args;
+  const coreAddress = normalizeAddress(args.coreAddress);
+  const profileName = args.profileName ?? DEFAULT_PROFILE;
+  const [collateralRisk, borrowRisk, deposited, loan] = await Promise.all([
+    getAriesReserveRisk({ aptos, coreAddress, assetType: collateralType }),
+    getAriesReserveRisk({ aptos, coreAddress, assetType: borrowType }),
+    getExistingCollateral(aptos, owner, coreAddress, profileName, collateralType),
+    getAriesLoan({ aptos, coreAddress, owner, loanType: borrowType, profileName }).catch(() => 0n),
+  ]);
+  const targetHealthFactor = args.targetHealthFactor ?? DEFAULT_TARGET_HEALTH_FACTOR;
+  const deposits = [{ risk: collateralRisk, amount: deposited }];
+  const loans = [{ risk: borrowRisk, amount: loan }];
+  const current = computeAriesHealth(deposits, loans);
+  const afterBorrow = computeAriesHealth(deposits, [{ risk: borrowRisk, amount: loan + (args.borrowAmount ?? 0n) }]);
+  return {
+    current,
+    afterBorrow,
+    maxBorrowable: maxBorrowable(current, borrowRisk),
+    requiredDeposit: depositForHealth(afterBorrow, collateralRisk, targetHealthFactor),
+    deposited,
+    // What an empty profile would have to deposit to carry the current loan.
+    minimumCollateral: depositForHealth(computeAriesHealth([], loans), collateralRisk, targetHealthFactor),
+  };
 }
 
 export async function borrowWithAries(options: AriesBorrowOptions): Promise<AriesBorrowResult> {
@@ -122,22 +161,14 @@ export async function borrowWithAries(options: AriesBorrowOptions): Promise<Arie
 
   let registerTxHash: string | undefined;
   if (!skipRegistration) {
-    try {
-      registerTxHash = await submitEntryFunction({
-        aptos,
-        account,
-        waitForSuccess,
-        data: {
-          function: buildFunction(coreAddress, registerModule, 'register_user'),
-          typeArguments: [],
-          functionArguments: [profileBytes],
-        },
-      });
-    } catch (error) {
-      if (!isAlreadyRegistered(error)) {
-        throw error;
-      }
-    }
+    ({ registerTxHash } = await registerAriesProfile({
+      aptos,
+      account,
+      coreAddress,
+      registerModuleName: registerModule,
+      profileName,
+      waitForSuccess,
+    }));
   }
 
   let depositTxHash: string | undefined;
@@ -146,25 +177,38 @@ export async function borrowWithAries(options: AriesBorrowOptions): Promise<Arie
     // Check existing collateral
     const existingCollateral = await getExistingCollateral(
       aptos,
-      account,
+      account.accountAddress.toString(),
       coreAddress,
       profileName,
       wrappedCollateralType ?? collateralType,
     );
 
-    // Calculate required collateral for this borrow
+    // Collateral still missing for the target health factor once this borrow lands
     const borrowAmountBigInt = BigInt(toU64String(borrowAmount, 'borrowAmount'));
-    const requiredCollateral = await getRequiredCollateral(
-      aptos,
-      coreAddress,
-      borrowType,
-      borrowAmountBigInt,
-    );
-
-    // Calculate how much more collateral we need
-    const collateralDeficit = requiredCollateral > existingCollateral
-      ? requiredCollateral - existingCollateral
-      : 0n;
+    let collateralDeficit: bigint;
+    try {
+      const assessment = await assessAriesBorrow({
+        aptos,
+        coreAddress,
+        owner: account.accountAddress.toString(),
+        profileName,
+        collateralType: wrappedCollateralType ?? collateralType,
+        borrowType,
+        borrowAmount: borrowAmountBigInt,
+        targetHealthFactor: options.targetHealthFactor,
+      });
+      collateralDeficit = assessment.requiredDeposit;
+    } catch (error) {
+      const requested = BigInt(toU64String(collateralAmount, 'collateralAmount'));
+      if (requested === 0n) {
+        throw new Error(
+          `Unable to size the Aries collateral deposit (${extractErrorMessage(error)}); pass an explicit collateral amount.`,
+        );
+      }
+      console.warn(`Unable to size the Aries collateral deposit; depositing the requested ${requested}.`);
+      collateralDeficit = requested;
+    }
+    const requiredCollateral = existingCollateral + collateralDeficit;
 
     let actualDepositAmount = 0n;
 
@@ -199,28 +243,18 @@ export async function borrowWithAries(options: AriesBorrowOptions): Promise<Arie
     }
 
     if (actualDepositAmount > 0n) {
-      const depositFunction = collateralKind === 'fa'
-        ? buildFunction(coreAddress, depositModule, 'deposit_fa')
-        : buildFunction(coreAddress, depositModule, 'deposit');
-
-      const functionArguments = collateralKind === 'fa'
-        ? [profileBytes, actualDepositAmount.toString()]
-        : [
-          profileBytes,
-          actualDepositAmount.toString(),
-          repayOnly,
-        ];
-
-      depositTxHash = await submitEntryFunction({
+      ({ depositTxHash } = await depositToAries({
         aptos,
         account,
+        coreAddress,
+        depositModuleName: depositModule,
+        profileName,
+        depositType: wrappedCollateralType ?? collateralType,
+        depositAmount: actualDepositAmount,
+        depositKind: collateralKind,
+        repayOnly,
         waitForSuccess,
-        data: {
-          function: depositFunction,
-          typeArguments: [normalizeTypeTag(wrappedCollateralType ?? collateralType)],
-          functionArguments,
-        },
-      });
+      }));
     }
   }
 
@@ -253,6 +287,250 @@ export async function borrowWithAries(options: AriesBorrowOptions): Promise<Arie
   };
 }
 
+export type AriesRegisterOptions = {
+  aptos: Aptos;
+  account: Account;
+  coreAddress: string;
+  moduleName?: string;
+  registerModuleName?: string;
+  profileName?: string;
+  waitForSuccess?: boolean;
+};
+
+/** Creates the Aries profile; an already registered profile is not an error. */
+export async function registerAriesProfile(options: AriesRegisterOptions): Promise<{ registerTxHash?: string }> {
+  const { aptos, account, waitForSuccess = true } = options;
+  const coreAddress = normalizeAddress(options.coreAddress);
+  const registerModule = options.registerModuleName ?? options.moduleName ?? 'controller';
+  try {
+    const registerTxHash = await submitEntryFunction({
+      aptos,
+      account,
+      waitForSuccess,
+      data: {
+        function: buildFunction(coreAddress, registerModule, 'register_user'),
+        typeArguments: [],
+        functionArguments: [encodeProfile(options.profileName ?? DEFAULT_PROFILE)],
+      },
+    });
+    return { registerTxHash };
+  } catch (error) {
+    if (!isAlreadyRegistered(error)) {
+      throw error;
+    }
+    return {};
+  }
+}
+
+export type AriesDepositOptions = {
+  aptos: Aptos;
+  account: Account;
+  coreAddress: string;
+  moduleName?: string;
+  depositModuleName?: string;
+  profileName?: string;
+  depositType: string;
+  depositAmount: NumericInput;
+  /** 'fa' deposits the native fungible asset, which Aries wraps on the way in. */
+  depositKind?: 'coin' | 'fa';
+  /** Coin deposits only; `deposit_fa` has no such flag. */
+  repayOnly?: boolean;
+  waitForSuccess?: boolean;
+};
+
+export async function depositToAries(options: AriesDepositOptions): Promise<{ depositTxHash?: string }> {
+  const {
+    aptos,
+    account,
+    depositType,
+    depositAmount,
+    depositKind = 'coin',
+    repayOnly = false,
+    waitForSuccess = true,
+  } = options;
+
+  const coreAddress = normalizeAddress(options.coreAddress);
+  const depositModule = options.depositModuleName ?? options.moduleName ?? 'controller';
+  const profileBytes = encodeProfile(options.profileName ?? DEFAULT_PROFILE);
+
+  const depositAmountU64 = toU64String(depositAmount, 'depositAmount');
+  if (depositAmountU64 === '0') {
+    return {};
+  }
+
+  const depositTxHash = await submitEntryFunction({
+    aptos,
+    account,
+    waitForSuccess,
+    data: {
+      function: buildFunction(coreAddress, depositModule, depositKind === 'fa' ? 'deposit_fa' : 'deposit'),
+      typeArguments: [normalizeTypeTag(depositType)],
+      functionArguments: depositKind === 'fa'
+        ? [profileBytes, depositAmountU64]
+        : [profileBytes, depositAmountU64, repayOnly],
+    },
+  });
+
+  return { depositTxHash };
+}
+
+export type AriesRepayOptions = {
+  aptos: Aptos;
+  account: Account;
+  coreAddress: string;
+  moduleName?: string;
+  depositModuleName?: string;
+  profileName?: string;
+  repayType: string;
+  repayAmount: NumericInput;
+  repayKind?: 'coin' | 'fa';
+  waitForSuccess?: boolean;
+};
+
+export type AriesRepayResult = {
+  repayTxHash?: string;
+};
+
+/**
+ * Repays outstanding debt by depositing the borrowed asset with
+ * `repay_only = true`, so nothing is left over as a new deposit.
+ */
+export async function repayWithAries(options: AriesRepayOptions): Promise<AriesRepayResult> {
+  const {
+    aptos,
+    account,
+    repayType,
+    repayAmount,
+    repayKind = 'coin',
+    waitForSuccess = true,
+  } = options;
+
+  const coreAddress = normalizeAddress(options.coreAddress);
+  const depositModule = options.depositModuleName ?? options.moduleName ?? 'controller';
+  const profileBytes = encodeProfile(options.profileName ?? DEFAULT_PROFILE);
+
+  const repayAmountU64 = toU64String(repayAmount, 'repayAmount');
+  if (repayAmountU64 === '0') {
+    return {};
+  }
+
+  const repayTxHash = await submitEntryFunction({
+    aptos,
+    account,
+    waitForSuccess,
+    data: {
+      function: repayKind === 'fa'
+        ? buildFunction(coreAddress, depositModule, 'deposit_fa')
+        : buildFunction(coreAddress, depositModule, 'deposit'),
+      typeArguments: [normalizeTypeTag(repayType)],
+      functionArguments: repayKind === 'fa'
+        ? [profileBytes, repayAmountU64]
+        : [profileBytes, repayAmountU64, true],
+    },
+  });
+
+  return { repayTxHash };
+}
+
+export type AriesLoanQuery = {
+  aptos: Aptos;
+  coreAddress: string;
+  owner: string;
+  loanType: string;
+  profileName?: string;
+};
+
+export type AriesLoanPosition = {
+  /** Debt in base units, accrued interest included. */
+  amount: bigint;
+  /** Borrow shares of the reserve, 1e18-scaled. */
+  shares: bigint;
+};
+
+/** Debt and borrow shares of `loanType` on an Aries profile. */
+export async function getAriesLoanPosition(query: AriesLoanQuery): Promise<AriesLoanPosition> {
+  const { aptos, owner, loanType } = query;
+  const coreAddress = normalizeAddress(query.coreAddress);
+  const result = await aptos.view({
+    payload: {
+      function: `${coreAddress}::profile::profile_loan`,
+      typeArguments: [normalizeTypeTag(loanType)],
+      functionArguments: [owner, query.profileName ?? DEFAULT_PROFILE],
+    },
+  });
+  // profile_loan returns (shares, amount as a 1e18-scaled decimal). Rounding
+  // up means any dust left on the profile still reads as a non-zero debt.
+  const values = Array.isArray(result) ? result : [];
+  const scale = 10n ** 18n;
+  return {
+    amount: (BigInt(String(values[1] ?? '0')) + scale - 1n) / scale,
+    shares: BigInt(String(values[0] ?? '0')),
+  };
+}
+
+/**
+ * Outstanding debt of `loanType` on an Aries profile, accrued interest
+ * included, in the asset's base units.
+ */
+export async function getAriesLoan(query: AriesLoanQuery): Promise<bigint> {
+  return (await getAriesLoanPosition(query)).amount;
+}
+
+export type AriesWithdrawOptions = {
+  aptos: Aptos;
+  account: Account;
+  coreAddress: string;
+  moduleName?: string;
+  withdrawModuleName?: string;
+  profileName?: string;
+  withdrawType: string;
+  withdrawAmount: NumericInput;
+  /** 'fa' unwraps wrapped coins (e.g. WrappedUSDC) into the native fungible asset. */
+  withdrawKind?: 'coin' | 'fa';
+  waitForSuccess?: boolean;
+};
+
+export type AriesWithdrawResult = {
+  withdrawTxHash?: string;
+};
+
+/**
+ * Withdraws a deposit without borrowing (`allow_borrow = false`), so it
+ * fails instead of opening a loan when the amount exceeds the deposit.
+ */
+export async function withdrawFromAries(options: AriesWithdrawOptions): Promise<AriesWithdrawResult> {
+  const {
+    aptos,
+    account,
+    withdrawType,
+    withdrawAmount,
+    withdrawKind = 'coin',
+    waitForSuccess = true,
+  } = options;
+
+  const coreAddress = normalizeAddress(options.coreAddress);
+  const withdrawModule = options.withdrawModuleName ?? options.moduleName ?? 'controller';
+  const profileBytes = encodeProfile(options.profileName ?? DEFAULT_PROFILE);
+
+  const withdrawAmountU64 = toU64String(withdrawAmount, 'withdrawAmount');
+  if (withdrawAmountU64 === '0') {
+    return {};
+  }
+
+  const withdrawTxHash = await submitEntryFunction({
+    aptos,
+    account,
+    waitForSuccess,
+    data: {
+      function: buildFunction(coreAddress, withdrawModule, withdrawKind === 'fa' ? 'withdraw_fa' : 'withdraw'),
+      typeArguments: [normalizeTypeTag(withdrawType)],
+      functionArguments: [profileBytes, withdrawAmountU64, false],
+    },
+  });
+
+  return { withdrawTxHash };
+}
+
 type SubmitArgs = {
   aptos: Aptos;
   account: Account;
@@ -0,0 +1,163 @@
+import { Aptos } from '@aptos-labs/ts-sdk';
+import { DEFAULT_ARIES_CORE_ADDRESS, getReserveConfig } from './rates.js';
+
+/**
+ * Aries account health from reserve risk parameters and oracle prices.
+ * Collateral counts at its loan-to-value (for new borrows) or liquidation
+ * threshold (for the health factor); debt is divided by the reserve's borrow
+ * factor. Every amount is valued in USD, so assets with different decimals and
+ * prices can be compared.
+ */
+
+const DECIMAL_SCALE = 10 ** 18;
+
+export type AriesReserveRisk = {
+  assetType: string;
+  decimals: number;
+  /** USD per whole token. */
+  priceUsd: number;
+  /** 0..1 share of deposit value that can be borrowed against. */
+  loanToValue: number;
+  /** 0..1 share of deposit value counted before liquidation. */
+  liquidationThreshold: number;
+  /** 0..1; debt counts as value / borrowFactor. */
+  borrowFactor: number;
+};
+
+export type AriesBalance = {
+  risk: AriesReserveRisk;
+  /** Base units. */
+  amount: bigint;
+};
+
+export type AriesHealth = {
+  collateralUsd: number;
+  /** Collateral at loan-to-value: the borrow limit. */
+  borrowLimitUsd: number;
+  /** Collateral at liquidation threshold. */
+  liquidationLimitUsd: number;
+  /** Debt after borrow factors. */
+  adjustedDebtUsd: number;
+  /** Liquidation limit over adjusted debt; Infinity without debt. */
+  healthFactor: number;
+};
+
+function toUsd(balance: AriesBalance): number {
+  return (Number(balance.amount) / 10 ** balance.risk.decimals) * balance.risk.priceUsd;
+}
+
+/** Aries stores these as whole percentages (70 = 70%); values already in 0..1 pass through. */
+function toFraction(value: unknown, label: string): number {
+  const number = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(number)) {
+    throw new Error(`Aries reserve config is missing ${label}.`);
+  }
+  return number > 1 ? number / 100 : number;
+}
+
+function readDecimal(value: unknown): number {
+  const raw = (value as any)?.val ?? (value as any)?.value ?? value;
+  return Number(BigInt(String(raw ?? '0'))) / DECIMAL_SCALE;
+}
+
+async function getCoinDecimals(aptos: Aptos, assetType: string): Promise<number> {
+  const [decimals] = await aptos.view({
+    payload: {
+      function: '0x1::coin::decimals',
+      typeArguments: [assetType],
+      functionArguments: [],
+    },
+  });
+  return Number(decimals);
+}
+
+async function getOraclePrice(aptos: Aptos, coreAddress: string, assetType: string): Promise<number> {
+  const [price] = await aptos.view({
+    payload: {
+      function: `${coreAddress}::oracle::get_price` as `${string}::${string}::${string}`,
+      typeArguments: [assetType],
+      functionArguments: [],
+    },
+  });
+  return readDecimal(price);
+}
+
+/**
+ * Risk parameters and oracle price of the Aries reserve for `assetType`.
+ * `priceUsd` overrides the oracle, e.g. to stress-test a lower price.
+ */
+export async function getAriesReserveRisk(args: {
+  aptos: Aptos;
+  assetType: string;
+  coreAddress?: string;
+  priceUsd?: number;
+}): Promise<AriesReserveRisk> {
+  const { aptos, assetType } = args;
+  const coreAddress = args.coreAddress ?? DEFAULT_ARIES_CORE_ADDRESS;
+  const [config, decimals, priceUsd] = await Promise.all([
+    getReserveConfig(aptos, coreAddress, assetType),
+    getCoinDecimals(aptos, assetType),
+    args.priceUsd ?? getOraclePrice(aptos, coreAddress, assetType),
+  ]);
+  const data = (config as any)?.data ?? config;
+  if (!(priceUsd > 0)) {
+    throw new Error(`Aries oracle returned no price for ${assetType}.`);
+  }
+  return {
+    assetType,
+    decimals,
+    priceUsd,
+    loanToValue: toFraction(data?.loan_to_value, 'loan_to_value'),
+    liquidationThreshold: toFraction(data?.liquidation_threshold, 'liquidation_threshold'),
+    borrowFactor: data?.borrow_factor == null ? 1 : toFraction(data.borrow_factor, 'borrow_factor'),
+  };
+}
+
+export function computeAriesHealth(deposits: AriesBalance[], loans: AriesBalance[]): AriesHealth {
+  let collateralUsd = 0;
+  let borrowLimitUsd = 0;
+  let liquidationLimitUsd = 0;
+  for (const deposit of deposits) {
+    const usd = toUsd(deposit);
+    collateralUsd += usd;
+    borrowLimitUsd += usd * deposit.risk.loanToValue;
+    liquidationLimitUsd += usd * deposit.risk.liquidationThreshold;
+  }
+  const adjustedDebtUsd = loans.reduce((sum, loan) => sum + toUsd(loan) / loan.risk.borrowFactor, 0);
+  return {
+    collateralUsd,
+    borrowLimitUsd,
+    liquidationLimitUsd,
+    adjustedDebtUsd,
+    healthFactor: adjustedDebtUsd > 0 ? liquidationLimitUsd / adjustedDebtUsd : Infinity,
+  };
+}
+
+/** Base units of `asset` that can still be borrowed before hitting the borrow limit. */
+export function maxBorrowable(health: AriesHealth, asset: AriesReserveRisk): bigint {
+  const headroomUsd = health.borrowLimitUsd - health.adjustedDebtUsd;
+  if (headroomUsd <= 0) return 0n;
+  const units = (headroomUsd * asset.borrowFactor / asset.priceUsd) * 10 ** asset.decimals;
+  return BigInt(Math.floor(units));
+}
+
+/**
+ * Base units of `collateral` to add so the account stays within its borrow
+ * limit and reaches `targetHealthFactor`, rounded up. Zero when it already does.
+ */
+export function depositForHealth(
+  health: AriesHealth,
+  collateral: AriesReserveRisk,
+  targetHealthFactor: number,
+): bigint {
+  if (!(targetHealthFactor >= 1)) {
+    throw new Error(`Target health factor must be at least 1; got ${targetHealthFactor}.`);
+  }
+  const unitUsd = collateral.priceUsd / 10 ** collateral.decimals;
+  const forHealth = (targetHealthFactor * health.adjustedDebtUsd - health.liquidationLimitUsd)
+    / (unitUsd * collateral.liquidationThreshold);
+  const forBorrowLimit = (health.adjustedDebtUsd - health.borrowLimitUsd)
+    / (unitUsd * collateral.loanToValue);
+  const needed = Math.max(forHealth, forBorrowLimit, 0);
+  return BigInt(Math.ceil(needed));
+}
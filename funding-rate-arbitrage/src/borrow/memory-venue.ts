@@ -0,0 +1,151 @@
+import { type LendingVenue, type LendingVenueContext } from './venue.js';
+
+/**
+ * In-memory `LendingVenue` for tests and dry runs. Nothing touches the
+ * chain: balances live in the closure, every write returns a fake hash and
+ * interest only accrues when `accrue` is called.
+ */
+
+export type MemoryLendingVenueOptions = {
+  name?: string;
+  borrowAsset?: string;
+  collateralAsset?: string;
+  borrowAprPct?: number;
+  supplyAprPct?: number;
+  /** Collateral base units required per borrowed base unit; defaults to 1. */
+  collateralPerBorrow?: number;
+  loan?: bigint;
+  collateral?: bigint;
+  repayCapsAtDebt?: boolean;
+};
+
+export type MemoryLendingVenue = LendingVenue & {
+  /** Accrues `seconds` of interest at the borrow APR, rounding up. */
+  accrue(seconds: number): void;
+  state(): { registered: boolean; loan: bigint; collateral: bigint; transactions: string[] };
+};
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Registry factory behind `--lending-venue memory` / LENDING_VENUE=memory.
+ * Every build starts from `config` afresh; base-unit amounts may be strings
+ * or numbers so the config survives JSON.
+ */
+export function createMemoryLendingVenueFromContext(context: LendingVenueContext): MemoryLendingVenue {
+  const config = (context.config ?? {}) as Record<string, any>;
+  const base = (value: unknown) => (value === undefined ? undefined : BigInt(value as string));
+  return createMemoryLendingVenue({
+    name: 'memory',
+    borrowAsset: config.borrowAsset,
+    collateralAsset: config.collateralAsset,
+    borrowAprPct: config.borrowAprPct,
+    supplyAprPct: config.supplyAprPct,
+    collateralPerBorrow: config.collateralPerBorrow,
+    loan: base(config.loan),
+    collateral: base(config.collateral),
+    repayCapsAtDebt: config.repayCapsAtDebt,
+  });
+}
+
+export function createMemoryLendingVenue(options: MemoryLendingVenueOptions = {}): MemoryLendingVenue {
+  const name = options.name ?? 'memory';
+  const borrowAsset = options.borrowAsset ?? '0x1::aptos_coin::AptosCoin';
+  const collateralAsset = options.collateralAsset ?? 'memory::USDC';
+  const borrowAprPct = options.borrowAprPct ?? 6;
+  const supplyAprPct = options.supplyAprPct ?? 3;
+  const ratio = options.collateralPerBorrow ?? 1;
+  const repayCapsAtDebt = options.repayCapsAtDebt ?? true;
+
+  let registered = false;
+  let loan = options.loan ?? 0n;
+  let collateral = options.collateral ?? 0n;
+  const transactions: string[] = [];
+
+  const record = (label: string) => {
+    const hash = `${name}-${transactions.length + 1}-${label}`;
+    transactions.push(hash);
+    return hash;
+  };
+  const collateralFor = (debt: bigint) => BigInt(Math.ceil(Number(debt) * ratio));
+  const requireAmount = (amount: bigint, label: string) => {
+    if (amount <= 0n) throw new Error(`${label} amount must be positive.`);
+  };
+
+  return {
+    name,
+    borrowAsset,
+    collateralAsset,
+    repayCapsAtDebt,
+
+    async register() {
+      if (registered) return undefined;
+      registered = true;
+      return record('register');
+    },
+
+    async collateralRequired(borrowAmount) {
+      const needed = collateralFor(loan + borrowAmount);
+      return needed > collateral ? needed - collateral : 0n;
+    },
+
+    async depositCollateral(amount) {
+      requireAmount(amount, 'Deposit');
+      collateral += amount;
+      return record('deposit');
+    },
+
+    async borrow(amount) {
+      requireAmount(amount, 'Borrow');
+      if (!registered) throw new Error(`${name}: register before borrowing.`);
+      if (collateralFor(loan + amount) > collateral) {
+        throw new Error(`${name}: insufficient collateral to borrow ${amount}.`);
+      }
+      loan += amount;
+      return record('borrow');
+    },
+
+    async repay(amount) {
+      requireAmount(amount, 'Repay');
+      if (!repayCapsAtDebt && amount > loan) {
+        throw new Error(`${name}: repaying ${amount} exceeds the ${loan} debt.`);
+      }
+      loan = amount >= loan ? 0n : loan - amount;
+      return record('repay');
+    },
+
+    async withdrawCollateral(amount) {
+      requireAmount(amount, 'Withdraw');
+      if (amount > collateral || collateral - amount < collateralFor(loan)) {
+        throw new Error(`${name}: withdrawing ${amount} would leave the loan undercollateralised.`);
+      }
+      collateral -= amount;
+      return record('withdraw');
+    },
+
+    async getLoan() {
+      return loan;
+    },
+
+    async getCollateral() {
+      return { deposited: collateral, minimum: collateralFor(loan) };
+    },
+
+    async getRates(assetType = borrowAsset) {
+      return { assetType, borrowAprPct, supplyAprPct };
+    },
+
+    describe() {
+      return { name, borrowAsset, collateralAsset, borrowAprPct, supplyAprPct, collateralPerBorrow: ratio };
+    },
+
+    accrue(seconds) {
+      const interest = Number(loan) * (borrowAprPct / 100) * (seconds / SECONDS_PER_YEAR);
+      loan += BigInt(Math.ceil(interest));
+    },
+
+    state() {
+      return { registered, loan, collateral, transactions: [...transactions] };
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { Aptos } from '@aptos-labs/ts-sdk';
+
+/**
+ * Live Aries reserve rates. The borrow APR comes from the reserve's kink
+ * interest model at current utilisation; lenders receive that interest pro
+ * rata to utilisation, less the share Aries keeps as reserves.
+ */
+
+export const DEFAULT_ARIES_CORE_ADDRESS = '0x9770fa9c725cbd97eb50b2be5f7416efdfd1f1554beb0750d4dae4c64e860da3';
+
+const RAY = 1e27;
+
+export type AriesReserveRates = {
+  assetType: string;
+  /** Borrowed share of the reserve, 0..1. */
+  utilization: number;
+  borrowAprPct: number;
+  supplyAprPct: number;
+  /** Share of borrow interest Aries keeps, 0..1. */
+  reserveFactor: number;
+};
+
+function rayToDec(x: bigint): number {
+  return Number(x) / RAY;
+}
+
+/**
+ * Aave-style kink model APR (as decimal, e.g. 0.12 = 12% APR)
+ */
+export function borrowApr({
+  U,
+  Uopt,
+  R0,
+  slope1,
+  slope2,
+}: {
+  U: number;
+  Uopt: number;
+  R0: number;
+  slope1: number;
+  slope2: number;
+}): number {
+  if (U < Uopt) {
+    return R0 + (U / Uopt) * slope1;
+  }
+  const over = (U - Uopt) / (1 - Uopt);
+  return R0 + slope1 + over * slope2;
+}
+
+export async function getReserveConfig(aptos: Aptos, core: string, assetTag: string) {
+  const typeA = `${core}::reserve::ReserveConfig<${assetTag}>` as `${string}::${string}::${string}`;
+  const typeB = `${core}::reserve::ReserveConfig` as `${string}::${string}::${string}`;
+  try {
+    return await aptos.getAccountResource({
+      accountAddress: core,
+      resourceType: typeA,
+    });
+  } catch {
+    return await aptos.getAccountResource({
+      accountAddress: core,
+      resourceType: typeB,
+    });
+  }
+}
+
+function extractRateParams(rc: any) {
+  const data = rc?.data ?? rc;
+  const base =
+    data?.base_borrow_rate_ray != null
+      ? rayToDec(BigInt(data.base_borrow_rate_ray))
+      : Number(data?.base_borrow_rate ?? 0);
+
+  const s1 =
+    data?.variable_slope1_ray != null
+      ? rayToDec(BigInt(data.variable_slope1_ray))
+      : Number(data?.variable_slope1 ?? 0);
+
+  const s2 =
+    data?.variable_slope2_ray != null
+      ? rayToDec(BigInt(data.variable_slope2_ray))
+      : Number(data?.variable_slope2 ?? 0);
+
+  const uopt =
+    data?.optimal_utilization_ray != null
+      ? rayToDec(BigInt(data.optimal_utilization_ray))
+      : Number(data?.optimal_utilization ?? 0.8);
+
+  return { R0: base, slope1: s1, slope2: s2, Uopt: uopt };
+}
+
+function extractReserveFactor(rc: any): number {
+  const data = rc?.data ?? rc;
+  if (data?.reserve_factor_ray != null) return rayToDec(BigInt(data.reserve_factor_ray));
+  // Aries stores the reserve ratio as a whole percentage.
+  if (data?.reserve_ratio != null) return Number(data.reserve_ratio) / 100;
+  return 0;
+}
+
+function extractUtilization(stats: any): number {
+  const d = stats ?? {};
+  if (d.utilization_ray != null) return rayToDec(BigInt(d.utilization_ray));
+
+  const bor = BigInt(d?.total_borrow?.amount ?? 0n);
+  const dep = BigInt(d?.total_deposit?.amount ?? 0n);
+  const cash = dep > bor ? dep - bor : 0n;
+  const denom = Number(cash + bor);
+  return denom > 0 ? Number(bor) / denom : 0;
+}
+
+function constructTypeInfo(typeTag: string): any {
+  // Parse type tag like "0x1::aptos_coin::AptosCoin"
+  const parts = typeTag.split('::');
+  if (parts.length !== 3) {
+    throw new Error(`Invalid type tag: ${typeTag}`);
+  }
+
+  const [address, moduleName, structName] = parts;
+
+  // Convert to hex bytes
+  const moduleNameHex = '0x' + Buffer.from(moduleName).toString('hex');
+  const structNameHex = '0x' + Buffer.from(structName).toString('hex');
+
+  return {
+    account_address: address,
+    module_name: moduleNameHex,
+    struct_name: structNameHex,
+  };
+}
+
+async function getReserveStatsFor(
+  aptos: Aptos,
+  coreAddress: string,
+  assetType: string,
+) {
+  const reserves = await aptos.getAccountResource({
+    accountAddress: coreAddress,
+    resourceType: `${coreAddress}::reserve::Reserves`,
+  });
+
+  const statsHandle =
+    (reserves as any)?.data?.stats?.handle ??
+    (reserves as any)?.data?.stats?.inner?.handle ??
+    (reserves as any)?.stats?.handle;
+  if (!statsHandle) throw new Error('Aries reserve stats handle not found');
+
+  const typeInfo = constructTypeInfo(assetType);
+
+  // Try generic first (ReserveStats<T>), as that's what Aries uses
+  try {
+    return await aptos.getTableItem({
+      handle: statsHandle,
+      data: {
+        key_type: '0x1::type_info::TypeInfo',
+        value_type: `${coreAddress}::reserve::ReserveStats<${assetType}>`,
+        key: typeInfo,
+      },
+    });
+  } catch {
+    // Fallback to non-generic
+    return await aptos.getTableItem({
+      handle: statsHandle,
+      data: {
+        key_type: '0x1::type_info::TypeInfo',
+        value_type: `${coreAddress}::reserve::ReserveStats`,
+        key: typeInfo,
+      },
+    });
+  }
+}
+
+/** Current borrow and supply APR of the Aries reserve for `assetType`. */
+export async function getAriesReserveRates(args: {
+  aptos: Aptos;
+  assetType: string;
+  coreAddress?: string;
+}): Promise<AriesReserveRates> {
+  const { aptos, assetType } = args;
+  const coreAddress = args.coreAddress ?? DEFAULT_ARIES_CORE_ADDRESS;
+
+  const [config, stats] = await Promise.all([
+    getReserveConfig(aptos, coreAddress, assetType),
+    getReserveStatsFor(aptos, coreAddress, assetType),
+  ]);
+  const utilization = extractUtilization(stats);
+  const reserveFactor = extractReserveFactor(config);
+  const borrowAprDec = borrowApr({ U: utilization, ...extractRateParams(config) });
+
+  return {
+    assetType,
+    utilization,
+    borrowAprPct: borrowAprDec * 100,
+    supplyAprPct: borrowAprDec * utilization * (1 - reserveFactor) * 100,
+    reserveFactor,
+  };
+}
@@ -0,0 +1,32 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { planFullRepay } from './repay.js';
+
+describe('planFullRepay', () => {
+  it('projects interest over the lead time and rounds the buffer up', () => {
+    // 10 APT at 36.5% for an hour: 1e9 * 0.365 / 8760 = 41666.67 octas of interest.
+    const plan = planFullRepay({ loan: 1_000_000_000n, borrowAprPct: 36.5, leadSec: 3600 });
+    assert.equal(plan.projectedInterest, '41667');
+    // 20 bps of 1_000_041_667 is 2_000_083.33.
+    assert.equal(plan.buffer, '2000084');
+    assert.equal(plan.repayAmount, '1002041751');
+    assert.equal(plan.borrowAprSource, 'override');
+  });
+
+  it('never rounds the buffer down to nothing', () => {
+    const plan = planFullRepay({ loan: 1n, borrowAprPct: 0, leadSec: 0 });
+    assert.equal(plan.projectedInterest, '0');
+    assert.equal(plan.buffer, '1');
+    assert.equal(plan.repayAmount, '2');
+  });
+
+  it('plans nothing for a cleared loan', () => {
+    const plan = planFullRepay({ loan: 0n, borrowAprPct: 10 });
+    assert.equal(plan.repayAmount, '0');
+  });
+
+  it('rejects negative inputs', () => {
+    assert.throws(() => planFullRepay({ loan: 1n, borrowAprPct: -1 }), /non-negative/);
+    assert.throws(() => planFullRepay({ loan: 1n, borrowAprPct: 5, leadSec: -1 }), /non-negative/);
+  });
+});
@@ -0,0 +1,93 @@
+import { type LendingVenue } from './venue.js';
+
+/**
+ * Sizing for repaying a loan in full. Interest keeps accruing between
+ * reading the loan, buying the asset back and the repay landing, so the plan
+ * projects interest over the expected lead time and adds a buffer on top.
+ * On venues where `repayCapsAtDebt` holds, repaying the buffered amount
+ * clears the debt and leaves the excess in the wallet.
+ */
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const BPS = 10_000n;
+
+export const DEFAULT_REPAY_LEAD_SEC = 120;
+export const DEFAULT_REPAY_BUFFER_BPS = 20;
+const FALLBACK_BORROW_APR_PCT = 6;
+
+export type RepayPlan = {
+  /** Debt when read, base units. */
+  loan: string;
+  borrowAprPct: number;
+  /** 'venue' when read from the lender's live rates. */
+  borrowAprSource: 'venue' | 'override' | 'default';
+  leadSec: number;
+  bufferBps: number;
+  /** Interest expected to accrue over `leadSec`, base units. */
+  projectedInterest: string;
+  buffer: string;
+  /** Loan, projected interest and buffer: what to buy and repay. */
+  repayAmount: string;
+};
+
+/** Projects `loan` forward by `leadSec` at `borrowAprPct` and adds `bufferBps`, rounding up. */
+export function planFullRepay(args: {
+  loan: bigint;
+  borrowAprPct: number;
+  borrowAprSource?: RepayPlan['borrowAprSource'];
+  leadSec?: number;
+  bufferBps?: number;
+}): RepayPlan {
+  const { loan, borrowAprPct } = args;
+  const leadSec = args.leadSec ?? DEFAULT_REPAY_LEAD_SEC;
+  const bufferBps = args.bufferBps ?? DEFAULT_REPAY_BUFFER_BPS;
+  if (!(leadSec >= 0) || !(bufferBps >= 0) || !(borrowAprPct >= 0)) {
+    throw new Error('Repay lead time, buffer and borrow APR must be non-negative.');
+  }
+
+  const interest = Number(loan) * (borrowAprPct / 100) * (leadSec / SECONDS_PER_YEAR);
+  const projectedInterest = loan > 0n ? BigInt(Math.ceil(interest)) : 0n;
+  const projected = loan + projectedInterest;
+  const buffer = (projected * BigInt(Math.round(bufferBps)) + BPS - 1n) / BPS;
+
+  return {
+    loan: loan.toString(),
+    borrowAprPct,
+    borrowAprSource: args.borrowAprSource ?? 'override',
+    leadSec,
+    bufferBps,
+    projectedInterest: projectedInterest.toString(),
+    buffer: buffer.toString(),
+    repayAmount: (projected + buffer).toString(),
+  };
+}
+
+/**
+ * `planFullRepay` with the borrow APR read from `venue` unless `borrowAprPct`
+ * overrides it. Falls back to 6% when the rate can't be read.
+ */
+export async function planFullRepayLive(args: {
+  venue: LendingVenue;
+  loan: bigint;
+  borrowAprPct?: number;
+  leadSec?: number;
+  bufferBps?: number;
+}): Promise<RepayPlan> {
+  const { venue, loan, leadSec, bufferBps } = args;
+  if (args.borrowAprPct !== undefined) {
+    return planFullRepay({ loan, borrowAprPct: args.borrowAprPct, leadSec, bufferBps });
+  }
+  try {
+    const rates = await venue.getRates();
+    return planFullRepay({ loan, borrowAprPct: rates.borrowAprPct, borrowAprSource: 'venue', leadSec, bufferBps });
+  } catch (error) {
+    console.warn(`Unable to read the ${venue.name} borrow APR; assuming 6%:`, (error as Error).message);
+    return planFullRepay({
+      loan,
+      borrowAprPct: FALLBACK_BORROW_APR_PCT,
+      borrowAprSource: 'default',
+      leadSec,
+      bufferBps,
+    });
+  }
+}
@@ -38,6 +38,7 @@ type CliArgs = {
   allowBorrow?: boolean;
   network?: string;
   waitForSuccess?: boolean;
+  targetHealth?: number;
 };
 
 function parseArgs(argv: string[]): CliArgs {
@@ -183,6 +184,12 @@ function parseArgs(argv: string[]): CliArgs {
       case 'no-wait':
         result.waitForSuccess = false;
         break;
+      case 'target-health':
+        if (hasValue) {
+          result.targetHealth = Number(next);
+          i += 1;
+        }
+        break;
       default:
         break;
     }
@@ -281,6 +288,8 @@ async function main() {
     ? false
     : cli.allowBorrow ?? envBool(process.env.ARIES_ALLOW_BORROW) ?? true;
   const waitForSuccess = cli.waitForSuccess ?? envBool(process.env.ARIES_WAIT_FOR_SUCCESS) ?? true;
+  const targetHealthFactor = cli.targetHealth
+    ?? (process.env.ARIES_TARGET_HEALTH ? Number(process.env.ARIES_TARGET_HEALTH) : undefined);
 
   const network = resolveNetwork(cli.network);
 
@@ -320,6 +329,7 @@ async function main() {
     repayOnly,
     allowBorrow,
     waitForSuccess,
+    targetHealthFactor,
   });
 
   const result = await borrowWithAries({
@@ -343,6 +353,7 @@ async function main() {
     repayOnly,
     allowBorrow,
     waitForSuccess,
+    targetHealthFactor,
   });
 
   console.log('Aries borrow completed:', result);
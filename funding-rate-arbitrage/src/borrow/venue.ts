@@ -0,0 +1,99 @@
+import { Account, Aptos } from '@aptos-labs/ts-sdk';
+import { createAriesLendingVenue } from './aries-venue.js';
+import { createMemoryLendingVenueFromContext } from './memory-venue.js';
+
+/**
+ * A lender the short-spot leg borrows from. Strategies only talk to this
+ * interface; each lender is registered under a name and built from its own
+ * config (or env vars), so adding one needs no strategy changes. Amounts are
+ * base units of the venue's borrow or collateral asset; every write returns
+ * the transaction hash, or undefined when there was nothing to submit.
+ */
+
+export type LendingRates = {
+  assetType: string;
+  borrowAprPct: number;
+  supplyAprPct: number;
+};
+
+export type LendingCollateral = {
+  deposited: bigint;
+  /** What the current loan needs at the venue's target health; the rest can be withdrawn. */
+  minimum: bigint;
+};
+
+export type LendingVenue = {
+  /** Registry name, journaled so resume and rollback rebuild the same venue. */
+  readonly name: string;
+  /** Type tag of the asset borrowed. */
+  readonly borrowAsset: string;
+  /** Type tag of the collateral asset. */
+  readonly collateralAsset: string;
+  /**
+   * True when repaying more than the debt leaves the excess in the wallet,
+   * so a buffered amount can be repaid to clear the loan in one go.
+   */
+  readonly repayCapsAtDebt: boolean;
+  /** Opens the borrower's account if the venue needs one; a no-op once it exists. */
+  register(): Promise<string | undefined>;
+  /** Collateral still to deposit before `borrowAmount` more can be borrowed. */
+  collateralRequired(borrowAmount: bigint): Promise<bigint>;
+  depositCollateral(amount: bigint): Promise<string | undefined>;
+  borrow(amount: bigint): Promise<string | undefined>;
+  repay(amount: bigint): Promise<string | undefined>;
+  withdrawCollateral(amount: bigint): Promise<string | undefined>;
+  /** Outstanding debt, accrued interest included. */
+  getLoan(): Promise<bigint>;
+  getCollateral(): Promise<LendingCollateral>;
+  /** Rates of `assetType`'s market; defaults to the borrow asset. */
+  getRates(assetType?: string): Promise<LendingRates>;
+  /** Resolved config; passing it back to the factory rebuilds this venue. */
+  describe(): Record<string, unknown>;
+};
+
+export type LendingVenueContext = {
+  aptos: Aptos;
+  account: Account;
+  /** Venue-specific settings; anything missing falls back to the venue's env vars. */
+  config?: Record<string, unknown>;
+};
+
+export type LendingVenueFactory = (context: LendingVenueContext) => LendingVenue;
+
+export type VenueBorrowResult = {
+  registerTxHash?: string;
+  depositTxHash?: string;
+  borrowTxHash?: string;
+  collateralDeposited: bigint;
+};
+
+export const DEFAULT_LENDING_VENUE = 'aries';
+
+const factories = new Map<string, LendingVenueFactory>([
+  ['aries', createAriesLendingVenue],
+  ['memory', createMemoryLendingVenueFromContext],
+]);
+
+export function registerLendingVenue(name: string, factory: LendingVenueFactory): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/** Builds the venue registered as `name` (default: LENDING_VENUE, else Aries). */
+export function createLendingVenue(name: string | undefined, context: LendingVenueContext): LendingVenue {
+  const key = (name ?? process.env.LENDING_VENUE ?? DEFAULT_LENDING_VENUE).toLowerCase();
+  const factory = factories.get(key);
+  if (!factory) {
+    const known = Array.from(factories.keys()).join(', ') || 'none';
+    throw new Error(`Unknown lending venue '${key}'. Registered venues: ${known}.`);
+  }
+  return factory(context);
+}
+
+/** Registers, tops up collateral for `amount` and borrows it. */
+export async function openVenueBorrow(venue: LendingVenue, amount: bigint): Promise<VenueBorrowResult> {
+  const registerTxHash = await venue.register();
+  const collateral = await venue.collateralRequired(amount);
+  const depositTxHash = collateral > 0n ? await venue.depositCollateral(collateral) : undefined;
+  const borrowTxHash = await venue.borrow(amount);
+  return { registerTxHash, depositTxHash, borrowTxHash, collateralDeposited: collateral };
+}
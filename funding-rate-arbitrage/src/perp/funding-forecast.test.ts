@@ -0,0 +1,73 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { forecastFunding } from './funding-forecast.js';
+import { type HourlyFunding } from './funding-stats.js';
+
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+
+function near(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-12, `expected ${expected}, got ${actual}`);
+}
+
+function hourly(values: number[]): HourlyFunding[] {
+  return values.map((fundingPctPerHour, index) => ({
+    hour: new Date(T0 + index * 3_600_000).toISOString(),
+    fundingPctPerHour,
+    samples: 1,
+  }));
+}
+
+// Slow swings, so the lag-1 autocorrelation is clearly positive.
+const TRENDING = hourly([0.01, 0.02, 0.03, 0.04, 0.03, 0.02, 0.01, 0.02, 0.03, 0.04, 0.03, 0.02]);
+
+describe('forecastFunding', () => {
+  it('decays the mean-reverting forecast from the current rate toward the mean', () => {
+    const forecast = forecastFunding(TRENDING, { model: 'mean_reverting', horizonHours: 48, currentPctPerHour: 0.1 });
+    const { levelPctPerHour: mean, phi = 0 } = forecast.params;
+    assert.ok(phi > 0 && phi < 1);
+    forecast.path.forEach((point) => {
+      near(point.expectedPctPerHour, mean + phi ** point.hours * (0.1 - mean));
+    });
+    near(forecast.expectedPctPerHour, forecast.expectedCumulativePct / 48);
+  });
+
+  it('grows the AR(1) band faster than independent hours, up to the persistent-shock limit', () => {
+    const forecast = forecastFunding(TRENDING, { model: 'mean_reverting', horizonHours: 48 });
+    const { residualStdPctPerHour: residualStd, phi = 0 } = forecast.params;
+    const variances = forecast.path.map((point) => point.stdCumulativePct ** 2);
+
+    // One hour in there is a single shock.
+    near(variances[0], residualStd ** 2);
+    for (let k = 1; k < variances.length; k += 1) {
+      const increment = variances[k] - variances[k - 1];
+      // The shock m hours back counts (1 - phi^m) / (1 - phi) times.
+      near(increment, residualStd ** 2 * ((1 - phi ** (k + 1)) / (1 - phi)) ** 2);
+      assert.ok(increment > variances[0]);
+      assert.ok(increment <= (residualStd / (1 - phi)) ** 2 * (1 + 1e-12));
+    }
+  });
+
+  it('widens the EWMA band with the square root of the horizon', () => {
+    const forecast = forecastFunding(TRENDING, { model: 'ewma', horizonHours: 16 });
+    const [first] = forecast.path;
+    near(forecast.path[3].stdCumulativePct, 2 * first.stdCumulativePct);
+    near(forecast.path[15].stdCumulativePct, 4 * first.stdCumulativePct);
+    forecast.path.forEach((point) => {
+      near(point.expectedPctPerHour, forecast.params.levelPctPerHour);
+    });
+  });
+
+  it('puts the band z standard deviations either side of the expected path', () => {
+    const forecast = forecastFunding(TRENDING, { horizonHours: 24, zScore: 2 });
+    assert.equal(forecast.model, 'mean_reverting');
+    for (const point of forecast.path) {
+      near(point.lowerCumulativePct, point.expectedCumulativePct - 2 * point.stdCumulativePct);
+      near(point.upperCumulativePct, point.expectedCumulativePct + 2 * point.stdCumulativePct);
+    }
+  });
+
+  it('needs two hours of history and a positive horizon', () => {
+    assert.throws(() => forecastFunding(hourly([0.01]), { horizonHours: 24 }), /at least two hours/);
+    assert.throws(() => forecastFunding(TRENDING, { horizonHours: 0 }), /must be positive/);
+  });
+});
@@ -0,0 +1,244 @@
+import 'dotenv/config';
+import { isCliEntry } from '../utils/cli.js';
+import {
+  computeFundingStats,
+  loadHourlyFunding,
+  type FundingStatsQuery,
+  type HourlyFunding,
+} from './funding-stats.js';
+
+/**
+ * Projects hourly funding over a hold window from recorded history.
+ *
+ * - `ewma`: funding stays at its exponentially weighted level; hourly
+ *   deviations from it are independent, so the cumulative band widens with
+ *   the square root of the horizon.
+ * - `mean_reverting`: an AR(1) fitted to the hourly series; funding decays
+ *   from the current rate toward the historical mean, and the band accounts
+ *   for shocks persisting across hours.
+ */
+
+export type FundingForecastModel = 'ewma' | 'mean_reverting';
+
+export const FUNDING_FORECAST_MODELS: FundingForecastModel[] = ['ewma', 'mean_reverting'];
+
+export type FundingForecastOptions = {
+  /** Defaults to `mean_reverting`. */
+  model?: FundingForecastModel;
+  horizonHours: number;
+  /** Live funding to project from; the last recorded hour when omitted. */
+  currentPctPerHour?: number;
+  /** EWMA half-life; 24h by default. */
+  halfLifeHours?: number;
+  /** Width of the confidence band in standard deviations; 1.645 (one-sided 95%) by default. */
+  zScore?: number;
+};
+
+export type FundingForecastPoint = {
+  /** Hours from now. */
+  hours: number;
+  expectedPctPerHour: number;
+  expectedCumulativePct: number;
+  stdCumulativePct: number;
+  lowerCumulativePct: number;
+  upperCumulativePct: number;
+};
+
+export type FundingForecast = {
+  model: FundingForecastModel;
+  horizonHours: number;
+  historyHours: number;
+  currentPctPerHour: number;
+  zScore: number;
+  /** Average expected funding over the horizon; positive means longs pay. */
+  expectedPctPerHour: number;
+  expectedCumulativePct: number;
+  stdCumulativePct: number;
+  lowerCumulativePct: number;
+  upperCumulativePct: number;
+  params: {
+    /** EWMA level, or the long-run mean the AR(1) reverts to. */
+    levelPctPerHour: number;
+    /** Standard deviation of one hour's surprise. */
+    residualStdPctPerHour: number;
+    halfLifeHours?: number;
+    /** AR(1) coefficient. */
+    phi?: number;
+    /** Hours for half of a deviation from the mean to decay. */
+    reversionHalfLifeHours?: number;
+  };
+  /** One point per hour up to the horizon. */
+  path: FundingForecastPoint[];
+};
+
+/** `windowHours` is the history the model is fitted on and `to` the forecast origin. */
+export type FundingForecastQuery = FundingForecastOptions & FundingStatsQuery;
+
+export function isFundingForecastModel(value: string | undefined): value is FundingForecastModel {
+  return FUNDING_FORECAST_MODELS.includes(value as FundingForecastModel);
+}
+
+/** Forecast from `hourly`, sorted oldest first; needs at least two hours. */
+export function forecastFunding(hourly: HourlyFunding[], options: FundingForecastOptions): FundingForecast {
+  if (hourly.length < 2) {
+    throw new Error(`Funding forecast needs at least two hours of history; got ${hourly.length}.`);
+  }
+  if (!(options.horizonHours > 0)) {
+    throw new Error(`Funding forecast horizon must be positive; got ${options.horizonHours}.`);
+  }
+  const model = options.model ?? 'mean_reverting';
+  const zScore = options.zScore ?? 1.645;
+  const horizon = Math.max(1, Math.ceil(options.horizonHours));
+  const current = options.currentPctPerHour ?? hourly[hourly.length - 1].fundingPctPerHour;
+
+  // Expected funding and the cumulative variance after `k` hours, for k = 1..horizon.
+  let expectedAt: (k: number) => number;
+  let varianceIncrement: (k: number) => number;
+  let params: FundingForecast['params'];
+
+  if (model === 'ewma') {
+    const halfLifeHours = options.halfLifeHours ?? 24;
+    if (!(halfLifeHours > 0)) {
+      throw new Error(`EWMA half-life must be positive; got ${halfLifeHours}.`);
+    }
+    const alpha = 1 - 0.5 ** (1 / halfLifeHours);
+    const values = [...hourly.map((entry) => entry.fundingPctPerHour), ...(options.currentPctPerHour === undefined ? [] : [current])];
+    let level = values[0];
+    let variance = 0;
+    for (const value of values.slice(1)) {
+      variance = (1 - alpha) * variance + alpha * (value - level) ** 2;
+      level = (1 - alpha) * level + alpha * value;
+    }
+    const residualStd = Math.sqrt(variance);
+    expectedAt = () => level;
+    varianceIncrement = () => variance;
+    params = { levelPctPerHour: level, residualStdPctPerHour: residualStd, halfLifeHours };
+  } else {
+    const stats = computeFundingStats(hourly);
+    const phi = Math.min(Math.max(stats.autocorrelation, 0), 0.999);
+    const mean = stats.meanPctPerHour;
+    const residualStd = stats.stdPctPerHour * Math.sqrt(1 - phi ** 2);
+    expectedAt = (k) => mean + phi ** k * (current - mean);
+    // A shock m hours before the end still counts (1 - phi^m) / (1 - phi) times in the sum.
+    varianceIncrement = (m) => residualStd ** 2 * (phi === 0 ? 1 : ((1 - phi ** m) / (1 - phi)) ** 2);
+    params = {
+      levelPctPerHour: mean,
+      residualStdPctPerHour: residualStd,
+      phi,
+      reversionHalfLifeHours: phi > 0 ? Math.log(0.5) / Math.log(phi) : 0,
+    };
+  }
+
+  const path: FundingForecastPoint[] = [];
+  let cumulative = 0;
+  let variance = 0;
+  for (let k = 1; k <= horizon; k += 1) {
+    const expected = expectedAt(k);
+    cumulative += expected;
+    variance += varianceIncrement(k);
+    const std = Math.sqrt(variance);
+    path.push({
+      hours: k,
+      expectedPctPerHour: expected,
+      expectedCumulativePct: cumulative,
+      stdCumulativePct: std,
+      lowerCumulativePct: cumulative - zScore * std,
+      upperCumulativePct: cumulative + zScore * std,
+    });
+  }
+  const end = path[path.length - 1];
+
+  return {
+    model,
+    horizonHours: horizon,
+    historyHours: hourly.length,
+    currentPctPerHour: current,
+    zScore,
+    expectedPctPerHour: end.expectedCumulativePct / horizon,
+    expectedCumulativePct: end.expectedCumulativePct,
+    stdCumulativePct: end.stdCumulativePct,
+    lowerCumulativePct: end.lowerCumulativePct,
+    upperCumulativePct: end.upperCumulativePct,
+    params,
+    path,
+  };
+}
+
+export function loadFundingForecast(query: FundingForecastQuery): FundingForecast {
+  return forecastFunding(loadHourlyFunding(query), query);
+}
+
+function parseArgs(argv: string[]): Partial<FundingForecastQuery> {
+  const result: Partial<FundingForecastQuery> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'pair':
+        result.pair = next;
+        i += 1;
+        break;
+      case 'network':
+        if (next !== 'mainnet' && next !== 'testnet') {
+          throw new Error(`Invalid --network '${next}'. Use 'mainnet' or 'testnet'.`);
+        }
+        result.network = next;
+        i += 1;
+        break;
+      case 'model':
+        if (!isFundingForecastModel(next)) {
+          throw new Error(`Invalid --model '${next}'. Use ${FUNDING_FORECAST_MODELS.join(' or ')}.`);
+        }
+        result.model = next;
+        i += 1;
+        break;
+      case 'horizon-hours':
+        result.horizonHours = Number(next);
+        i += 1;
+        break;
+      case 'half-life-hours':
+        result.halfLifeHours = Number(next);
+        i += 1;
+        break;
+      case 'z-score':
+        result.zScore = Number(next);
+        i += 1;
+        break;
+      case 'window-hours':
+        result.windowHours = Number(next);
+        i += 1;
+        break;
+      case 'to':
+        result.to = next;
+        i += 1;
+        break;
+      case 'dir':
+        result.dir = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+export async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const { path, ...forecast } = loadFundingForecast({
+    ...args,
+    pair: args.pair ?? 'APT_USD',
+    horizonHours: args.horizonHours ?? 24,
+  });
+  console.log(JSON.stringify({ pair: args.pair ?? 'APT_USD', ...forecast }, null, 2));
+  return { ...forecast, path };
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Funding forecast error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,162 @@
+import 'dotenv/config';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { isCliEntry } from '../utils/cli.js';
+import { appendJsonLines, readJsonLines } from '../utils/jsonFile.js';
+import { type PerpNetwork } from './venue.js';
+
+/**
+ * Local time series of Merkle funding, one JSON Lines file per network and
+ * pair under ARB_FUNDING_HISTORY_DIR (default `.arb-funding`). Samples are
+ * only ever appended, in time order, by `funding-recorder.ts`; everything
+ * here reads them back.
+ */
+
+export type FundingSampleSource =
+  /** Read from the pair state at `at`. */
+  | 'live'
+  /** Projected from a later pair state over a stretch with no trades, so the value is exact. */
+  | 'backfill_exact'
+  /** Average over a stretch the recorder missed; only the accumulated funding is known. */
+  | 'backfill_average';
+
+export type FundingSample = {
+  pair: string;
+  at: string;
+  source: FundingSampleSource;
+  /** Funding rate stored in the pair state (per day, 1e8 scale). */
+  fundingRate: string;
+  /** `calcFundingInfo().currentFundingRate` at `at`. */
+  currentFundingRate: string;
+  /** Accumulated funding per size stored in the pair state. */
+  accFundingFeePerSize: string;
+  /** Accumulated funding per size projected to `at`; what gap filling interpolates. */
+  currentAccFundingFeePerSize: string;
+  /** `currentFundingRate` in %/hr; positive means longs pay. */
+  fundingPctPerHour: number;
+  /** Null on backfilled samples: the summary only has the price at read time. */
+  markPrice: number | null;
+};
+
+export type FundingHistoryQuery = {
+  pair: string;
+  network?: PerpNetwork;
+  /** Inclusive bounds, ISO strings or Dates. */
+  from?: string | Date;
+  to?: string | Date;
+  dir?: string;
+};
+
+export function fundingHistoryDir(dir?: string): string {
+  return dir ?? process.env.ARB_FUNDING_HISTORY_DIR ?? '.arb-funding';
+}
+
+export function fundingHistoryPath(pair: string, network: PerpNetwork = 'mainnet', dir?: string): string {
+  return join(fundingHistoryDir(dir), network, `${pair}.jsonl`);
+}
+
+export function appendFundingSamples(
+  samples: FundingSample[],
+  network: PerpNetwork = 'mainnet',
+  dir?: string,
+) {
+  const byPair = new Map<string, FundingSample[]>();
+  for (const sample of samples) {
+    byPair.set(sample.pair, [...(byPair.get(sample.pair) ?? []), sample]);
+  }
+  for (const [pair, pairSamples] of byPair) {
+    appendJsonLines(fundingHistoryPath(pair, network, dir), pairSamples);
+  }
+}
+
+/** Samples of `pair` between `from` and `to`, oldest first. */
+export function queryFundingHistory(query: FundingHistoryQuery): FundingSample[] {
+  const from = query.from === undefined ? -Infinity : new Date(query.from).getTime();
+  const to = query.to === undefined ? Infinity : new Date(query.to).getTime();
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error(`Invalid funding history range ${String(query.from)} .. ${String(query.to)}.`);
+  }
+  return readJsonLines<FundingSample>(fundingHistoryPath(query.pair, query.network, query.dir))
+    .filter((sample) => {
+      const at = Date.parse(sample.at);
+      return at >= from && at <= to;
+    })
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Most recent sample of `pair`, if any were recorded. */
+export function lastFundingSample(
+  pair: string,
+  network: PerpNetwork = 'mainnet',
+  dir?: string,
+): FundingSample | undefined {
+  const samples = readJsonLines<FundingSample>(fundingHistoryPath(pair, network, dir));
+  return samples[samples.length - 1];
+}
+
+/** Pairs with recorded history on `network`. */
+export function listFundingPairs(network: PerpNetwork = 'mainnet', dir?: string): string[] {
+  const path = join(fundingHistoryDir(dir), network);
+  if (!existsSync(path)) return [];
+  return readdirSync(path)
+    .filter((file) => file.endsWith('.jsonl'))
+    .map((file) => file.slice(0, -'.jsonl'.length))
+    .sort();
+}
+
+function parseArgs(argv: string[]): Partial<FundingHistoryQuery> {
+  const result: Partial<FundingHistoryQuery> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'pair':
+        result.pair = next;
+        i += 1;
+        break;
+      case 'network':
+        if (next !== 'mainnet' && next !== 'testnet') {
+          throw new Error(`Invalid --network '${next}'. Use 'mainnet' or 'testnet'.`);
+        }
+        result.network = next;
+        i += 1;
+        break;
+      case 'from':
+        result.from = next;
+        i += 1;
+        break;
+      case 'to':
+        result.to = next;
+        i += 1;
+        break;
+      case 'dir':
+        result.dir = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+export async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.pair) {
+    const pairs = listFundingPairs(args.network, args.dir);
+    console.log(JSON.stringify({ network: args.network ?? 'mainnet', pairs }, null, 2));
+    return pairs;
+  }
+  const samples = queryFundingHistory({ ...args, pair: args.pair });
+  console.log(JSON.stringify(samples, null, 2));
+  return samples;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Funding history error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,345 @@
+import 'dotenv/config';
+import {
+  calcFundingInfo,
+  type MerkleClient,
+  type PairInfo,
+  type PairState,
+  type SummaryPair,
+  type SummaryPrice,
+} from '@merkletrade/ts-sdk';
+import { isCliEntry } from '../utils/cli.js';
+import {
+  appendFundingSamples,
+  lastFundingSample,
+  type FundingSample,
+} from './funding-history.js';
+import { getMerkleClient, merkleFundingPctPerHour } from './merkle-venue.js';
+import { parsePairId } from './utils.js';
+import { type PerpNetwork } from './venue.js';
+
+/**
+ * Samples funding for every visible Merkle pair on an interval and appends it
+ * to the funding history store. After downtime the gap since a pair's last
+ * sample is filled at the same interval before the live sample is written:
+ * from the pair's last trade (`lastAccrueTimestamp`) onward the funding curve
+ * is deterministic, so those points are exact; before it only the funding
+ * accumulated over the gap is known, so those points carry its average.
+ */
+
+const SECONDS_IN_DAY = 86_400n;
+
+export type FundingRecorderParams = {
+  network?: string;
+  intervalSec?: number;
+  /** Stop after this many iterations; runs until signalled when omitted. */
+  maxIterations?: number;
+  /** Most samples backfilled per pair after downtime; one week of intervals by default. */
+  maxBackfillSamples?: number;
+  /** Record only these pairs; defaults to every visible pair in the summary. */
+  pairs?: string[];
+  /** History directory; defaults to ARB_FUNDING_HISTORY_DIR, else `.arb-funding`. */
+  dir?: string;
+  /** Pre-built Merkle client; the shared one for `network` when omitted. */
+  merkle?: MerkleClient;
+  /** Called with every iteration's record; defaults to one JSON line on stdout. */
+  onIteration?: (record: FundingRecorderIteration) => void;
+  /** Aborting stops the loop after the current iteration. */
+  signal?: AbortSignal;
+};
+
+export type FundingRecorderIteration = {
+  iteration: number;
+  at: string;
+  pairs?: number;
+  recorded?: number;
+  backfilled?: number;
+  /** Pairs that could not be sampled this iteration, with the reason. */
+  skipped?: Record<string, string>;
+  error?: string;
+};
+
+export type FundingRecorderSummary = {
+  action: 'funding_recorder_stopped';
+  iterations: number;
+  failures: number;
+  recorded: number;
+  backfilled: number;
+};
+
+function parseArgs(argv: string[]): FundingRecorderParams {
+  const result: FundingRecorderParams = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'network':
+        result.network = next;
+        i += 1;
+        break;
+      case 'interval-sec':
+        result.intervalSec = Number(next);
+        i += 1;
+        break;
+      case 'max-iterations':
+        result.maxIterations = Number(next);
+        i += 1;
+        break;
+      case 'max-backfill-samples':
+        result.maxBackfillSamples = Number(next);
+        i += 1;
+        break;
+      case 'pairs':
+        result.pairs = next.split(',').map((pair) => pair.trim()).filter(Boolean);
+        i += 1;
+        break;
+      case 'dir':
+        result.dir = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+function resolveNetwork(value: string | undefined): PerpNetwork {
+  const network = (value ?? process.env.MERKLE_NETWORK ?? 'mainnet').toLowerCase();
+  if (network !== 'mainnet' && network !== 'testnet') {
+    throw new Error(`Unsupported Merkle network '${network}'. Use 'mainnet' or 'testnet'.`);
+  }
+  return network;
+}
+
+/** Funding of `pairState` projected to `timestampSec`. */
+function projectFunding(pairInfo: PairInfo, pairState: PairState, timestampSec: number) {
+  const info = calcFundingInfo({ pairInfo, pairState, timestampSec: BigInt(timestampSec) });
+  return {
+    currentFundingRate: BigInt(info.currentFundingRate),
+    currentAccFundingFeePerSize: BigInt(info.currentAccFundingFeePerSize),
+  };
+}
+
+/**
+ * Samples for the gap between `previous` and `nowSec`, one every `stepSec`,
+ * keeping at most the newest `maxSamples`. Empty when the gap is under one
+ * and a half steps.
+ */
+export function backfillFunding(args: {
+  previous: FundingSample;
+  pairInfo: PairInfo;
+  pairState: PairState;
+  nowSec: number;
+  stepSec: number;
+  maxSamples: number;
+}): FundingSample[] {
+  const { previous, pairInfo, pairState, nowSec, stepSec } = args;
+  const previousSec = Math.floor(Date.parse(previous.at) / 1000);
+  if (!(stepSec > 0) || nowSec - previousSec < stepSec * 1.5) return [];
+
+  const lastTradeSec = Number(pairState.lastAccrueTimestamp);
+  const previousAcc = BigInt(previous.currentAccFundingFeePerSize);
+  const stateAcc = BigInt(pairState.accFundingFeePerSize);
+  const blindSec = BigInt(lastTradeSec - previousSec);
+
+  const times: number[] = [];
+  for (let at = previousSec + stepSec; at <= nowSec - stepSec / 2; at += stepSec) {
+    times.push(at);
+  }
+
+  return times.slice(-Math.max(0, args.maxSamples)).map((at): FundingSample => {
+    if (at >= lastTradeSec || blindSec <= 0n) {
+      const projected = projectFunding(pairInfo, pairState, at);
+      return {
+        pair: previous.pair,
+        at: new Date(at * 1000).toISOString(),
+        source: 'backfill_exact',
+        fundingRate: pairState.fundingRate.toString(),
+        currentFundingRate: projected.currentFundingRate.toString(),
+        accFundingFeePerSize: pairState.accFundingFeePerSize.toString(),
+        currentAccFundingFeePerSize: projected.currentAccFundingFeePerSize.toString(),
+        fundingPctPerHour: merkleFundingPctPerHour(projected.currentFundingRate),
+        markPrice: null,
+      };
+    }
+    // Accumulated funding grows by rate * dt / 1 day, so its slope is the average rate.
+    const accrued = stateAcc - previousAcc;
+    const averageRate = (accrued * SECONDS_IN_DAY) / blindSec;
+    const acc = previousAcc + (accrued * BigInt(at - previousSec)) / blindSec;
+    return {
+      pair: previous.pair,
+      at: new Date(at * 1000).toISOString(),
+      source: 'backfill_average',
+      fundingRate: averageRate.toString(),
+      currentFundingRate: averageRate.toString(),
+      accFundingFeePerSize: acc.toString(),
+      currentAccFundingFeePerSize: acc.toString(),
+      fundingPctPerHour: merkleFundingPctPerHour(averageRate),
+      markPrice: null,
+    };
+  });
+}
+
+/**
+ * Takes one live sample of every visible pair (or `pairs`), backfilling each
+ * pair's gap first, and appends them to the store.
+ */
+export async function recordFundingOnce(args: {
+  merkle: MerkleClient;
+  network: PerpNetwork;
+  intervalSec: number;
+  maxBackfillSamples: number;
+  pairs?: string[];
+  dir?: string;
+  now?: Date;
+}): Promise<{ pairs: number; recorded: number; backfilled: number; skipped: Record<string, string> }> {
+  const { merkle, network } = args;
+  const [summary, pairInfos, pairStates] = await Promise.all([
+    merkle.getSummary(),
+    merkle.getAllPairInfos(),
+    merkle.getAllPairStates(),
+  ]);
+  const now = args.now ?? new Date();
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const infos = new Map<string, PairInfo>(
+    pairInfos.map((info: PairInfo) => [parsePairId(info.pairType), info]),
+  );
+  const states = new Map<string, PairState>(
+    pairStates.map((state: PairState) => [parsePairId(state.pairType), state]),
+  );
+  const prices = new Map<string, number | undefined>(
+    summary.prices.map((entry: SummaryPrice) => [entry.id, entry.price]),
+  );
+  const visible: string[] = summary.pairs
+    .filter((pair: SummaryPair) => pair.visible !== false)
+    .map((pair: SummaryPair) => pair.id)
+    .filter((pair: string) => !args.pairs || args.pairs.includes(pair));
+
+  const samples: FundingSample[] = [];
+  const skipped: Record<string, string> = {};
+  let backfilled = 0;
+
+  for (const pair of visible) {
+    const pairInfo = infos.get(pair);
+    const pairState = states.get(pair);
+    if (!pairInfo || !pairState) {
+      skipped[pair] = 'no pair info or state';
+      continue;
+    }
+
+    const previous = lastFundingSample(pair, network, args.dir);
+    const filled = previous
+      ? backfillFunding({
+        previous,
+        pairInfo,
+        pairState,
+        nowSec,
+        stepSec: args.intervalSec,
+        maxSamples: args.maxBackfillSamples,
+      })
+      : [];
+    backfilled += filled.length;
+
+    const projected = projectFunding(pairInfo, pairState, nowSec);
+    const price = prices.get(pair);
+    samples.push(...filled, {
+      pair,
+      at: now.toISOString(),
+      source: 'live',
+      fundingRate: pairState.fundingRate.toString(),
+      currentFundingRate: projected.currentFundingRate.toString(),
+      accFundingFeePerSize: pairState.accFundingFeePerSize.toString(),
+      currentAccFundingFeePerSize: projected.currentAccFundingFeePerSize.toString(),
+      fundingPctPerHour: merkleFundingPctPerHour(projected.currentFundingRate),
+      markPrice: typeof price === 'number' && Number.isFinite(price) ? price : null,
+    });
+  }
+
+  appendFundingSamples(samples, network, args.dir);
+  return { pairs: visible.length, recorded: samples.length - backfilled, backfilled, skipped };
+}
+
+/** Records funding every `intervalSec` until stopped; a failing iteration is logged and the loop carries on. */
+export async function runFundingRecorder(params: FundingRecorderParams = {}): Promise<FundingRecorderSummary> {
+  const network = resolveNetwork(params.network);
+  const intervalSec = params.intervalSec ?? 300;
+  if (!(intervalSec > 0)) {
+    throw new Error(`Interval must be positive; got ${intervalSec}.`);
+  }
+  const maxBackfillSamples = params.maxBackfillSamples ?? Math.ceil((7 * 86_400) / intervalSec);
+  const merkle = params.merkle ?? await getMerkleClient(network);
+  const report = params.onIteration ?? ((record: FundingRecorderIteration) => console.log(JSON.stringify(record)));
+
+  const summary: FundingRecorderSummary = {
+    action: 'funding_recorder_stopped',
+    iterations: 0,
+    failures: 0,
+    recorded: 0,
+    backfilled: 0,
+  };
+
+  while (!params.signal?.aborted) {
+    summary.iterations += 1;
+    const record: FundingRecorderIteration = { iteration: summary.iterations, at: new Date().toISOString() };
+
+    try {
+      const result = await recordFundingOnce({
+        merkle,
+        network,
+        intervalSec,
+        maxBackfillSamples,
+        pairs: params.pairs,
+        dir: params.dir,
+      });
+      record.pairs = result.pairs;
+      record.recorded = result.recorded;
+      record.backfilled = result.backfilled;
+      if (Object.keys(result.skipped).length > 0) record.skipped = result.skipped;
+      summary.recorded += result.recorded;
+      summary.backfilled += result.backfilled;
+    } catch (error) {
+      summary.failures += 1;
+      record.error = (error as Error)?.message ?? String(error);
+    }
+
+    report(record);
+
+    if (params.maxIterations && summary.iterations >= params.maxIterations) break;
+    await sleep(intervalSec * 1000, params.signal);
+  }
+
+  return summary;
+}
+
+export async function main() {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const summary = await runFundingRecorder({ ...parseArgs(process.argv.slice(2)), signal: controller.signal });
+  console.log(JSON.stringify(summary, null, 2));
+  return summary;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Funding recorder error:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,61 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { computeFundingStats, hourlyFunding, type HourlyFunding } from './funding-stats.js';
+
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+
+function near(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-12, `expected ${expected}, got ${actual}`);
+}
+
+/** One entry per value at the given hour offsets (consecutive hours by default). */
+function hourly(values: number[], offsets = values.map((_, index) => index)): HourlyFunding[] {
+  return values.map((fundingPctPerHour, index) => ({
+    hour: new Date(T0 + offsets[index] * 3_600_000).toISOString(),
+    fundingPctPerHour,
+    samples: 1,
+  }));
+}
+
+describe('hourlyFunding', () => {
+  it('averages the samples of each UTC hour, oldest first', () => {
+    const buckets = hourlyFunding([
+      { at: '2025-01-01T01:05:00Z', fundingPctPerHour: 0.05 },
+      { at: '2025-01-01T00:10:00Z', fundingPctPerHour: 0.01 },
+      { at: '2025-01-01T00:40:00Z', fundingPctPerHour: 0.03 },
+      { at: 'not a date', fundingPctPerHour: 1 },
+    ]);
+    assert.equal(buckets.length, 2);
+    assert.equal(buckets[0].hour, '2025-01-01T00:00:00.000Z');
+    near(buckets[0].fundingPctPerHour, 0.02);
+    assert.equal(buckets[0].samples, 2);
+    assert.equal(buckets[1].fundingPctPerHour, 0.05);
+  });
+});
+
+describe('computeFundingStats', () => {
+  it('measures an alternating series as fully anti-correlated', () => {
+    const stats = computeFundingStats(hourly([0.01, -0.01, 0.01, -0.01]));
+    assert.equal(stats.hours, 4);
+    near(stats.meanPctPerHour, 0);
+    near(stats.stdPctPerHour, Math.sqrt(0.0004 / 3));
+    near(stats.autocorrelation, -1);
+    assert.equal(stats.signFlipRate, 1);
+    near(stats.meanPositivePctPerHour, 0.005);
+    near(stats.meanNegativePctPerHour, 0.005);
+  });
+
+  it('never pairs hours across a gap in the history', () => {
+    // Hour 2 is missing, so the sign change between hours 1 and 3 is not a flip.
+    const stats = computeFundingStats(hourly([0.01, 0.01, -0.01, -0.01], [0, 1, 3, 4]));
+    assert.equal(stats.signFlipRate, 0);
+    near(stats.autocorrelation, 1);
+  });
+
+  it('is all zeros without history', () => {
+    const stats = computeFundingStats([]);
+    assert.equal(stats.hours, 0);
+    assert.equal(stats.stdPctPerHour, 0);
+    assert.equal(stats.autocorrelation, 0);
+  });
+});
@@ -0,0 +1,194 @@
+import 'dotenv/config';
+import { isCliEntry } from '../utils/cli.js';
+import { queryFundingHistory, type FundingSample } from './funding-history.js';
+import { type PerpNetwork } from './venue.js';
+
+/**
+ * Statistics of hourly funding over a trailing window of recorded history.
+ * Samples are averaged into UTC hours first so the recorder's interval does
+ * not change the numbers; lag-1 autocorrelation and sign flips only compare
+ * adjacent hours, so a gap in the history never pairs hours across it.
+ */
+
+const HOUR_MS = 3_600_000;
+
+export type HourlyFunding = {
+  /** Start of the UTC hour. */
+  hour: string;
+  /** Mean of the hour's samples; positive means longs pay. */
+  fundingPctPerHour: number;
+  samples: number;
+};
+
+export type FundingStats = {
+  /** Hours with at least one sample. */
+  hours: number;
+  from?: string;
+  to?: string;
+  meanPctPerHour: number;
+  /** Sample standard deviation of hourly funding. */
+  stdPctPerHour: number;
+  /** Lag-1 autocorrelation over adjacent hours; 0 when undefined. */
+  autocorrelation: number;
+  /** Share of adjacent hour pairs where funding changed sign. */
+  signFlipRate: number;
+  /** Mean of the positive part of hourly funding (what shorts were paid on average). */
+  meanPositivePctPerHour: number;
+  /** Mean of the negative part, as a positive number (what longs were paid on average). */
+  meanNegativePctPerHour: number;
+};
+
+export type FundingStatsQuery = {
+  pair: string;
+  network?: PerpNetwork;
+  /** Trailing window; one week by default. */
+  windowHours?: number;
+  /** End of the window; now by default. */
+  to?: string | Date;
+  dir?: string;
+};
+
+export function hourlyFunding(samples: Pick<FundingSample, 'at' | 'fundingPctPerHour'>[]): HourlyFunding[] {
+  const buckets = new Map<number, { sum: number; count: number }>();
+  for (const sample of samples) {
+    const at = Date.parse(sample.at);
+    if (!Number.isFinite(at) || !Number.isFinite(sample.fundingPctPerHour)) continue;
+    const hour = Math.floor(at / HOUR_MS) * HOUR_MS;
+    const bucket = buckets.get(hour) ?? { sum: 0, count: 0 };
+    bucket.sum += sample.fundingPctPerHour;
+    bucket.count += 1;
+    buckets.set(hour, bucket);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([hour, { sum, count }]) => ({
+      hour: new Date(hour).toISOString(),
+      fundingPctPerHour: sum / count,
+      samples: count,
+    }));
+}
+
+/** Stats of `hourly`, which must be sorted oldest first (as `hourlyFunding` returns it). */
+export function computeFundingStats(hourly: HourlyFunding[]): FundingStats {
+  const values = hourly.map((entry) => entry.fundingPctPerHour);
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((sum, value) => sum + value, 0) / n : 0;
+  const squares = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  const std = n > 1 ? Math.sqrt(squares / (n - 1)) : 0;
+
+  let covariance = 0;
+  let adjacentPairs = 0;
+  let signedPairs = 0;
+  let flips = 0;
+  for (let i = 1; i < n; i += 1) {
+    if (Date.parse(hourly[i].hour) - Date.parse(hourly[i - 1].hour) !== HOUR_MS) continue;
+    adjacentPairs += 1;
+    covariance += (values[i] - mean) * (values[i - 1] - mean);
+    const previousSign = Math.sign(values[i - 1]);
+    const sign = Math.sign(values[i]);
+    if (previousSign !== 0 && sign !== 0) {
+      signedPairs += 1;
+      if (previousSign !== sign) flips += 1;
+    }
+  }
+
+  return {
+    hours: n,
+    from: hourly[0]?.hour,
+    to: hourly[n - 1]?.hour,
+    meanPctPerHour: mean,
+    stdPctPerHour: std,
+    autocorrelation: adjacentPairs > 0 && squares > 0 ? (covariance / adjacentPairs) / (squares / n) : 0,
+    signFlipRate: signedPairs > 0 ? flips / signedPairs : 0,
+    meanPositivePctPerHour: n > 0 ? values.reduce((sum, value) => sum + Math.max(value, 0), 0) / n : 0,
+    meanNegativePctPerHour: n > 0 ? values.reduce((sum, value) => sum + Math.max(-value, 0), 0) / n : 0,
+  };
+}
+
+/** Stats of the `windowHours` hours up to and including each hour of `hourly`. */
+export function rollingFundingStats(
+  hourly: HourlyFunding[],
+  windowHours: number,
+): Array<FundingStats & { hour: string }> {
+  const windowMs = windowHours * HOUR_MS;
+  let start = 0;
+  return hourly.map((entry, index) => {
+    const end = Date.parse(entry.hour);
+    while (Date.parse(hourly[start].hour) <= end - windowMs) start += 1;
+    return { hour: entry.hour, ...computeFundingStats(hourly.slice(start, index + 1)) };
+  });
+}
+
+/** Hourly funding of `pair` over the trailing window of recorded history. */
+export function loadHourlyFunding(query: FundingStatsQuery): HourlyFunding[] {
+  const windowHours = query.windowHours ?? 168;
+  if (!(windowHours > 0)) {
+    throw new Error(`Funding history window must be positive; got ${windowHours}.`);
+  }
+  const to = query.to === undefined ? new Date() : new Date(query.to);
+  return hourlyFunding(queryFundingHistory({
+    pair: query.pair,
+    network: query.network,
+    dir: query.dir,
+    from: new Date(to.getTime() - windowHours * HOUR_MS),
+    to,
+  }));
+}
+
+/** Stats of `pair` over the trailing window of recorded history. */
+export function loadFundingStats(query: FundingStatsQuery): FundingStats {
+  return computeFundingStats(loadHourlyFunding(query));
+}
+
+function parseArgs(argv: string[]): Partial<FundingStatsQuery> {
+  const result: Partial<FundingStatsQuery> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    switch (key) {
+      case 'pair':
+        result.pair = next;
+        i += 1;
+        break;
+      case 'network':
+        if (next !== 'mainnet' && next !== 'testnet') {
+          throw new Error(`Invalid --network '${next}'. Use 'mainnet' or 'testnet'.`);
+        }
+        result.network = next;
+        i += 1;
+        break;
+      case 'window-hours':
+        result.windowHours = Number(next);
+        i += 1;
+        break;
+      case 'to':
+        result.to = next;
+        i += 1;
+        break;
+      case 'dir':
+        result.dir = next;
+        i += 1;
+        break;
+      default:
+        break;
+    }
+  }
+  return result;
+}
+
+export async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const pair = args.pair ?? 'APT_USD';
+  const stats = loadFundingStats({ ...args, pair });
+  console.log(JSON.stringify({ pair, windowHours: args.windowHours ?? 168, ...stats }, null, 2));
+  return stats;
+}
+
+if (isCliEntry(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Funding stats error:', error);
+    process.exitCode = 1;
+  });
+}
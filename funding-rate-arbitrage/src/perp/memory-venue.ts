@@ -0,0 +1,216 @@
+import {
+  type PerpFunding,
+  type PerpPairInfo,
+  type PerpPosition,
+  type PerpVenue,
+  type PerpVenueContext,
+} from './venue.js';
+
+/**
+ * In-memory `PerpVenue` for tests and dry runs. Nothing touches the chain:
+ * prices and funding are whatever the caller sets, market orders fill at the
+ * mark price without fees, and every write returns a fake hash.
+ */
+
+export type MemoryPerpVenueOptions = {
+  name?: string;
+  collateralAsset?: string;
+  collateralDecimals?: number;
+  /** Mark prices by pair; defaults to APT_USD at 10. */
+  markPrices?: Record<string, number>;
+  /** Signed %/hr by pair; defaults to 0. */
+  fundingPctPerHour?: Record<string, number>;
+  takerFeeBps?: number;
+  makerFeeBps?: number;
+  minimumPositionSize?: bigint;
+  minimumOrderCollateral?: bigint;
+  maxLeverage?: number;
+  /** Free collateral at the venue. */
+  collateral?: bigint;
+};
+
+export type MemoryPerpVenue = PerpVenue & {
+  setMarkPrice(pair: string, price: number): void;
+  setFunding(pair: string, fundingPctPerHour: number): void;
+  state(): { collateral: bigint; positions: PerpPosition[]; transactions: string[] };
+};
+
+/**
+ * Registry factory behind `--perp-venue memory` / PERP_VENUE=memory. Every
+ * build starts from `config` afresh; base-unit amounts may be strings or
+ * numbers so the config survives JSON.
+ */
+export function createMemoryPerpVenueFromContext(context: PerpVenueContext): MemoryPerpVenue {
+  const config = (context.config ?? {}) as Record<string, any>;
+  const base = (value: unknown) => (value === undefined ? undefined : BigInt(value as string));
+  return createMemoryPerpVenue({
+    name: 'memory',
+    collateralAsset: config.collateralAsset,
+    collateralDecimals: config.collateralDecimals,
+    markPrices: config.markPrices,
+    fundingPctPerHour: config.fundingPctPerHour,
+    takerFeeBps: config.takerFeeBps,
+    makerFeeBps: config.makerFeeBps,
+    minimumPositionSize: base(config.minimumPositionSize),
+    minimumOrderCollateral: base(config.minimumOrderCollateral),
+    maxLeverage: config.maxLeverage,
+    collateral: base(config.collateral),
+  });
+}
+
+export function createMemoryPerpVenue(options: MemoryPerpVenueOptions = {}): MemoryPerpVenue {
+  const name = options.name ?? 'memory';
+  const collateralAsset = options.collateralAsset ?? 'memory::USDC';
+  const collateralDecimals = options.collateralDecimals ?? 6;
+  const markPrices = new Map(Object.entries(options.markPrices ?? { APT_USD: 10 }));
+  const funding = new Map(Object.entries(options.fundingPctPerHour ?? {}));
+  const pairInfo = (pair: string): PerpPairInfo => ({
+    pair,
+    takerFeeBps: options.takerFeeBps ?? 0,
+    makerFeeBps: options.makerFeeBps ?? 0,
+    minimumPositionSize: options.minimumPositionSize ?? 0n,
+    minimumOrderCollateral: options.minimumOrderCollateral ?? 0n,
+    maxLeverage: options.maxLeverage ?? 150,
+  });
+
+  let collateral = options.collateral ?? 0n;
+  const positions = new Map<string, PerpPosition>();
+  const transactions: string[] = [];
+
+  const record = (label: string) => {
+    const hash = `${name}-${transactions.length + 1}-${label}`;
+    transactions.push(hash);
+    return { transactionHash: hash };
+  };
+  const requireAmount = (amount: bigint, label: string) => {
+    if (amount <= 0n) throw new Error(`${label} amount must be positive.`);
+  };
+  const markPrice = (pair: string) => {
+    const price = markPrices.get(pair);
+    if (price === undefined) throw new Error(`${name}: no mark price for ${pair}.`);
+    return price;
+  };
+
+  return {
+    name,
+    collateralAsset,
+    collateralDecimals,
+
+    async getPairInfo(pair) {
+      markPrice(pair);
+      return pairInfo(pair);
+    },
+
+    async getFunding(pair): Promise<PerpFunding> {
+      return { pair, fundingPctPerHour: funding.get(pair) ?? 0, timestamp: new Date().toISOString() };
+    },
+
+    async getMarkPrice(pair) {
+      return markPrice(pair);
+    },
+
+    async getPositions() {
+      return Array.from(positions.values()).map((position) => ({ ...position }));
+    },
+
+    async getOrders() {
+      // Market orders fill immediately, so nothing is ever resting.
+      return [];
+    },
+
+    async getCollateralBalance() {
+      return collateral;
+    },
+
+    async depositCollateral(amount) {
+      requireAmount(amount, 'Deposit');
+      collateral += amount;
+      return record('deposit');
+    },
+
+    async withdrawCollateral(amount) {
+      requireAmount(amount, 'Withdraw');
+      if (amount > collateral) {
+        throw new Error(`${name}: withdrawing ${amount} exceeds the ${collateral} free collateral.`);
+      }
+      collateral -= amount;
+      return record('withdraw');
+    },
+
+    async placeMarketOrder(order) {
+      const price = markPrice(order.pair);
+      const info = pairInfo(order.pair);
+      const existing = positions.get(order.pair);
+      if (existing && existing.isLong !== order.isLong) {
+        throw new Error(`${name}: ${order.pair} is open on the other side.`);
+      }
+
+      if (order.isIncrease) {
+        if (order.collateralDelta > collateral) {
+          throw new Error(`${name}: order needs ${order.collateralDelta} collateral, ${collateral} available.`);
+        }
+        const size = (existing?.size ?? 0n) + order.sizeDelta;
+        const positionCollateral = (existing?.collateral ?? 0n) + order.collateralDelta;
+        if (size < info.minimumPositionSize) {
+          throw new Error(`${name}: position size ${size} is below the ${info.minimumPositionSize} minimum.`);
+        }
+        if (positionCollateral <= 0n || Number(size) / Number(positionCollateral) > info.maxLeverage) {
+          throw new Error(`${name}: order exceeds the ${info.maxLeverage}x leverage cap.`);
+        }
+        const avgPrice = existing && existing.size > 0n
+          ? (existing.avgPrice * Number(existing.size) + price * Number(order.sizeDelta)) / Number(size)
+          : price;
+        collateral -= order.collateralDelta;
+        positions.set(order.pair, {
+          pair: order.pair,
+          isLong: order.isLong,
+          size,
+          collateral: positionCollateral,
+          avgPrice,
+        });
+        return record('increase');
+      }
+
+      if (!existing) throw new Error(`${name}: no ${order.pair} position to reduce.`);
+      const sizeDelta = order.sizeDelta > existing.size ? existing.size : order.sizeDelta;
+      const closing = sizeDelta === existing.size;
+      // Realised PnL in collateral units, settled into free collateral with the released margin.
+      const move = (price - existing.avgPrice) / existing.avgPrice;
+      const pnl = BigInt(Math.round(Number(sizeDelta) * move * (existing.isLong ? 1 : -1)));
+      const released = closing
+        ? existing.collateral
+        : order.collateralDelta > existing.collateral ? existing.collateral : order.collateralDelta;
+      collateral += released + pnl;
+      if (closing) {
+        positions.delete(order.pair);
+      } else {
+        positions.set(order.pair, {
+          ...existing,
+          size: existing.size - sizeDelta,
+          collateral: existing.collateral - released,
+        });
+      }
+      return record('decrease');
+    },
+
+    describe() {
+      return { name, collateralAsset, collateralDecimals };
+    },
+
+    setMarkPrice(pair, price) {
+      markPrices.set(pair, price);
+    },
+
+    setFunding(pair, fundingPctPerHour) {
+      funding.set(pair, fundingPctPerHour);
+    },
+
+    state() {
+      return {
+        collateral,
+        positions: Array.from(positions.values()).map((position) => ({ ...position })),
+        transactions: [...transactions],
+      };
+    },
+  };
+}
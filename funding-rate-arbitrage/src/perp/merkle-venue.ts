@@ -0,0 +1,162 @@
+import { Account, Aptos, type InputGenerateTransactionPayloadData } from '@aptos-labs/ts-sdk';
+import {
+  MerkleClient,
+  MerkleClientConfig,
+  calcFundingInfo,
+  type Order,
+  type Position,
+  type SummaryCoin,
+  type SummaryPrice,
+} from '@merkletrade/ts-sdk';
+import { parsePairId, priceToNumber } from './utils.js';
+import { type PerpNetwork, type PerpVenue, type PerpVenueContext } from './venue.js';
+
+/**
+ * Merkle Trade as a `PerpVenue`, the reference implementation. Collateral is
+ * USDC; funding comes from the SDK's `calcFundingInfo` at the current time.
+ */
+
+const MERKLE_FUNDING_RATE_SCALE = 10 ** 8;
+const MERKLE_FEE_SCALE = 1_000_000;
+const HOURS_IN_DAY = 24;
+const USDC_DECIMALS = 6;
+
+// Client configs are fetched from Merkle's API, so build one per network.
+const clients = new Map<PerpNetwork, Promise<MerkleClient>>();
+
+/** Shared Merkle client for `network`. */
+export function getMerkleClient(network: PerpNetwork): Promise<MerkleClient> {
+  const existing = clients.get(network);
+  if (existing) return existing;
+  const config = network === 'testnet' ? MerkleClientConfig.testnet() : MerkleClientConfig.mainnet();
+  const created: Promise<MerkleClient> = config.then((resolved: MerkleClientConfig) => new MerkleClient(resolved));
+  clients.set(network, created);
+  // A failed config fetch should not poison later attempts.
+  created.catch(() => clients.delete(network));
+  return created;
+}
+
+/** Merkle's per-day funding rate (1e8 scale) as %/hr; positive means longs pay. */
+export function merkleFundingPctPerHour(rate: bigint): number {
+  return (Number(rate) / MERKLE_FUNDING_RATE_SCALE / HOURS_IN_DAY) * 100;
+}
+
+export async function createMerklePerpVenue(context: PerpVenueContext): Promise<PerpVenue> {
+  const { aptos, account, network } = context;
+  const merkle = await getMerkleClient(network);
+  const owner = account.accountAddress;
+  const usdc = merkle.config.summary.coins.find((coin: SummaryCoin) => coin.id === 'usdc');
+
+  return {
+    name: 'merkle',
+    collateralAsset: usdc?.assetType ?? usdc?.coinType ?? 'usdc',
+    collateralDecimals: USDC_DECIMALS,
+
+    async getPairInfo(pair) {
+      const info = await merkle.getPairInfo({ pairId: pair });
+      return {
+        pair,
+        takerFeeBps: (Number(info.takerFee) / MERKLE_FEE_SCALE) * 10_000,
+        makerFeeBps: (Number(info.makerFee) / MERKLE_FEE_SCALE) * 10_000,
+        minimumPositionSize: info.minimumPositionSize as unknown as bigint,
+        minimumOrderCollateral: info.minimumOrderCollateral as unknown as bigint,
+        maxLeverage: Number(info.maxLeverage) / MERKLE_FEE_SCALE,
+      };
+    },
+
+    async getFunding(pair) {
+      const [pairInfo, pairState] = await Promise.all([
+        merkle.getPairInfo({ pairId: pair }),
+        merkle.getPairState({ pairId: pair }),
+      ]);
+      const now = Date.now();
+      const { currentFundingRate } = calcFundingInfo({
+        pairInfo,
+        pairState,
+        timestampSec: BigInt(Math.floor(now / 1000)),
+      });
+      return {
+        pair,
+        fundingPctPerHour: merkleFundingPctPerHour(currentFundingRate),
+        timestamp: new Date(now).toISOString(),
+      };
+    },
+
+    async getMarkPrice(pair) {
+      const summary = await merkle.getSummary();
+      const price = summary.prices.find((entry: SummaryPrice) => entry.id === pair)?.price;
+      if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+        throw new Error(`Merkle returned no mark price for ${pair}.`);
+      }
+      return price;
+    },
+
+    async getPositions() {
+      const positions = await merkle.getPositions({ address: owner.toString() as `0x${string}` });
+      return positions.map((position: Position) => ({
+        pair: parsePairId(position.pairType),
+        isLong: position.isLong,
+        size: position.size as unknown as bigint,
+        collateral: position.collateral as unknown as bigint,
+        avgPrice: priceToNumber(position.avgPrice),
+      }));
+    },
+
+    async getOrders() {
+      const orders = await merkle.getOrders({ address: owner.toString() as `0x${string}` });
+      return orders.map((order: Order) => ({
+        orderId: String(order.orderId),
+        pair: parsePairId(order.pairType),
+        isLong: order.isLong,
+        isIncrease: order.isIncrease,
+        isMarket: order.isMarket,
+        sizeDelta: order.sizeDelta as unknown as bigint,
+        collateralDelta: order.collateralDelta as unknown as bigint,
+        price: priceToNumber(order.price),
+      }));
+    },
+
+    async getCollateralBalance() {
+      return (await merkle.getUsdcBalance({ accountAddress: owner })) as unknown as bigint;
+    },
+
+    async depositCollateral(amount) {
+      const payload = await merkle.payloads.depositUsdc({ userAddress: owner, amount });
+      return submit(aptos, account, payload);
+    },
+
+    async withdrawCollateral(amount) {
+      const payload = await merkle.payloads.withdrawUsdc({ userAddress: owner, amount });
+      return submit(aptos, account, payload);
+    },
+
+    async placeMarketOrder(order) {
+      const payload = await merkle.payloads.placeMarketOrder({
+        pair: order.pair,
+        userAddress: owner,
+        sizeDelta: order.sizeDelta,
+        collateralDelta: order.collateralDelta,
+        isLong: order.isLong,
+        isIncrease: order.isIncrease,
+      });
+      return submit(aptos, account, payload);
+    },
+
+    describe() {
+      return { network };
+    },
+  };
+}
+
+async function submit(aptos: Aptos, account: Account, payload: InputGenerateTransactionPayloadData) {
+  const rawTxn = await aptos.transaction.build.simple({
+    sender: account.accountAddress,
+    data: payload,
+  });
+  const pending = await aptos.signAndSubmitTransaction({ signer: account, transaction: rawTxn });
+  const committed = await aptos.waitForTransaction({
+    transactionHash: pending.hash,
+    options: { checkSuccess: true },
+  });
+  return { transactionHash: pending.hash, version: String(committed.version) };
+}
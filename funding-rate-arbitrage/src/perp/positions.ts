@@ -12,6 +12,7 @@ import {
   calcRolloverFee,
 } from '@merkletrade/ts-sdk';
 
+import { getAriesAccountOverview } from '../borrow/account.js';
 import {
   collateralToNumber,
   formatFunding,
@@ -22,10 +23,6 @@ import {
   priceToNumber,
 } from './utils.js';
 
-const DEFAULT_ARIES_CORE_ADDRESS = '0x9770fa9c725cbd97eb50b2be5f7416efdfd1f1554beb0750d4dae4c64e860da3';
-const DEFAULT_WRAPPED_USDC = `${DEFAULT_ARIES_CORE_ADDRESS}::wrapped_coins::WrappedUSDC`;
-const ARIES_USDC_DECIMALS = 6;
-
 /**
  * Get the current funding rate for a given pair
  * @param merkle - Merkle client instance
@@ -292,315 +289,17 @@ main().catch((error) => {
   process.exitCode = 1;
 });
 
-function decodeBytes(data: unknown): string | undefined {
-  if (typeof data === 'string') {
-    if (data.startsWith('0x')) {
-      try {
-        return Buffer.from(data.slice(2), 'hex').toString('utf8').replace(/\0+$/, '');
-      } catch (error) {
-        return undefined;
-      }
-    }
-    return data;
-  }
-  if (Array.isArray(data)) {
-    try {
-      return Buffer.from(Uint8Array.from(data as number[])).toString('utf8').replace(/\0+$/, '');
-    } catch (error) {
-      return undefined;
-    }
-  }
-  return undefined;
-}
-
-function formatWithDecimals(value: bigint, decimals: number): string {
-  const absolute = Number(value) / 10 ** decimals;
-  return Number.isFinite(absolute) ? absolute.toString() : value.toString();
-}
-
-function formatAssetAmount(value: bigint, decimals: number, symbol: string, divisorOverride?: bigint): string {
-  const divisor = divisorOverride ?? BigInt(10) ** BigInt(decimals);
-  if (divisor === 0n) {
-    return `${value.toString()} ${symbol}`;
-  }
-  const numeric = Number(value) / Number(divisor);
-  if (Number.isFinite(numeric)) {
-    return `${numeric.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: decimals })} ${symbol}`;
-  }
-  return `${value.toString()} base units (${symbol})`;
-}
-
-function extractTableEntries(tableLike: unknown): Array<{ key: any; value: any }> {
-  if (!tableLike) return [];
-
-  const walk = (input: unknown): Array<{ key: any; value: any }> => {
-    if (!input) return [];
-    if (Array.isArray(input)) {
-      return input.flatMap((entry) => {
-        if (entry && typeof entry === 'object') {
-          const key = (entry as any).key ?? (entry as any).fields?.key;
-          const value = (entry as any).value ?? (entry as any).fields?.value;
-          if (key !== undefined && value !== undefined) {
-            return [{ key, value }];
-          }
-        }
-        return [];
-      });
-    }
-    if (typeof input === 'object') {
-      const obj = input as Record<string, unknown>;
-      if (obj.data) return walk(obj.data);
-      if (obj.inner) return walk(obj.inner);
-    }
-    return [];
-  };
-
-  return walk(tableLike);
-}
-
-function decodeTypeInfo(typeInfo: any): string | undefined {
-  if (!typeInfo) return undefined;
-  if (typeof typeInfo === 'string') return typeInfo;
-
-  const addr = typeInfo.account_address ?? typeInfo.address;
-  const moduleNameVal = typeInfo.module_name ?? typeInfo.module ?? typeInfo.module_name_hex;
-  const structNameVal = typeInfo.struct_name ?? typeInfo.struct ?? typeInfo.struct_name_hex;
-
-  if (!addr || moduleNameVal === undefined || structNameVal === undefined) return undefined;
-
-  const toUtf8 = (value: any) => {
-    if (typeof value === 'string') {
-      if (value.startsWith('0x')) {
-        try {
-          return Buffer.from(value.slice(2), 'hex').toString('utf8');
-        } catch (error) {
-          return value;
-        }
-      }
-      return value;
-    }
-    if (Array.isArray(value)) {
-      try {
-        return Buffer.from(Uint8Array.from(value)).toString('utf8');
-      } catch (error) {
-        return value.toString();
-      }
-    }
-    return String(value ?? '');
-  };
-
-  const moduleName = toUtf8(moduleNameVal).replace(/\0+$/, '');
-  const structName = toUtf8(structNameVal).replace(/\0+$/, '');
-  return `0x${String(addr).replace(/^0x/, '').toLowerCase()}::${moduleName}::${structName}`;
-}
-
-async function callAriesView(
-  aptos: Aptos,
-  coreAddress: string,
-  moduleName: string,
-  functionName: string,
-  typeArguments: string[],
-  args: any[],
-) {
-  const fqn = `${coreAddress}::${moduleName}::${functionName}`;
-  return aptos.view({ payload: { function: fqn as any, typeArguments, functionArguments: args } });
-}
-
-async function getTypeInfo(aptos: Aptos, typeTag: string) {
-  const [typeInfo] = await aptos.view({
-    payload: {
-      function: '0x1::type_info::type_of',
-      typeArguments: [typeTag],
-      functionArguments: [],
-    },
-  });
-  return typeInfo;
-}
-
-async function getReserveStatsFor(
-  aptos: Aptos,
-  coreAddress: string,
-  assetType: string,
-) {
-  const reserves = await aptos.getAccountResource({
-    accountAddress: coreAddress,
-    resourceType: `${coreAddress}::reserve::Reserves`,
-  });
-
-  const statsHandle =
-    (reserves as any)?.data?.stats?.handle ??
-    (reserves as any)?.data?.stats?.inner?.handle;
-  if (!statsHandle) throw new Error('Aries reserve stats handle not found');
-
-  const typeInfo = await getTypeInfo(aptos, assetType);
-
-  // try non-generic ReserveStats first
-  try {
-    return await aptos.getTableItem({
-      handle: statsHandle,
-      data: {
-        key_type: '0x1::type_info::TypeInfo',
-        value_type: `${coreAddress}::reserve::ReserveStats`,
-        key: typeInfo,
-      },
-    });
-  } catch {
-    // fallback: generic ReserveStats<T>
-    return await aptos.getTableItem({
-      handle: statsHandle,
-      data: {
-        key_type: '0x1::type_info::TypeInfo',
-        value_type: `${coreAddress}::reserve::ReserveStats<${assetType}>`,
-        key: typeInfo,
-      },
-    });
-  }
-}
-
-
-function computeAmountFromShares(
-  shares: bigint,
-  totalAmount: bigint,
-  totalShares: bigint,
-): bigint {
-  if (shares === 0n || totalShares === 0n) return 0n;
-  return (shares * totalAmount) / totalShares;
-}
-
 async function showAriesOverview(aptos: Aptos, account: Account) {
-  console.log('🔍 [DEBUG] showAriesOverview: Getting Aries data for account:', account.accountAddress.toString());
-
-  const ariesAddressRaw = process.env.ARIES_CORE_ADDRESS ?? DEFAULT_ARIES_CORE_ADDRESS;
-  const ariesAddress = ariesAddressRaw.toLowerCase();
-  const wrappedType = process.env.ARIES_WRAPPED_COLLATERAL_TYPE ?? DEFAULT_WRAPPED_USDC;
-  const profileName = process.env.ARIES_PROFILE_NAME ?? 'main';
-
-  console.log('🏦 [DEBUG] showAriesOverview: Aries address:', ariesAddress);
-  console.log('🪙 [DEBUG] showAriesOverview: Wrapped type:', wrappedType);
-  console.log('👤 [DEBUG] showAriesOverview: Profile name:', profileName);
-
-  const ariesData = {
-    wrappedUsdcCoinBalance: '0',
-    profileExists: false,
-    profileAddress: null as string | null,
-    wrappedUsdcDeposited: '0',
-    wrappedUsdcShares: '0',
-    aptBorrowed: '0',
-    aptShares: '0'
-  };
-
   try {
-    const coinStoreType = `0x1::coin::CoinStore<${wrappedType}>` as any;
-    console.log('🔍 [DEBUG] showAriesOverview: Checking coin store type:', coinStoreType);
-    let wrappedBalance = 0n;
-    try {
-      const coinStore = await aptos.getAccountResource({
-        accountAddress: account.accountAddress,
-        resourceType: coinStoreType,
-      });
-      const raw = (coinStore as any)?.data?.coin?.value ?? '0';
-      wrappedBalance = BigInt(raw);
-      console.log('💰 [DEBUG] showAriesOverview: Raw wrapped balance:', raw);
-    } catch (error) {
-      console.log('⚠️ [DEBUG] showAriesOverview: Coin store resource missing or error:', (error as Error).message);
-      // resource missing means zero balance; ignore
-    }
-
-    ariesData.wrappedUsdcCoinBalance = formatWithDecimals(wrappedBalance, ARIES_USDC_DECIMALS);
-    console.log('💵 [DEBUG] showAriesOverview: Formatted wrapped balance:', ariesData.wrappedUsdcCoinBalance);
-
-    const accountHex = account.accountAddress.toString();
-    const views = [
-      {
-        key: 'profileExists',
-        module: 'profile',
-        name: 'profile_exists',
-        typeArgs: [],
-        args: [accountHex, profileName] as any,
-        extract: (result: unknown[]) => result?.[0] ? true : false,
-      },
-      {
-        key: 'profileAddress',
-        module: 'profile',
-        name: 'get_profile_address',
-        typeArgs: [],
-        args: [accountHex, profileName] as any,
-        extract: (result: unknown[]) => String(result?.[0] ?? 'unknown'),
-      },
-      {
-        key: 'wrappedUsdcDeposit',
-        module: 'profile',
-        name: 'profile_deposit',
-        typeArgs: [wrappedType],
-        args: [accountHex, profileName] as any,
-        extract: (result: unknown[]) => {
-          const values = Array.isArray(result) ? result : [];
-          const amountRaw = values[0] ?? '0';
-          const sharesRaw = values[1] ?? '0';
-          const amount = BigInt(amountRaw);
-          const shares = BigInt(sharesRaw);
-          return {
-            amount: formatAssetAmount(amount, ARIES_USDC_DECIMALS, 'USDC'),
-            shares: shares.toString()
-          };
-        },
-      },
-      {
-        key: 'aptBorrowed',
-        module: 'profile',
-        name: 'profile_loan',
-        typeArgs: ['0x1::aptos_coin::AptosCoin'],
-        args: [accountHex, profileName] as any,
-        extract: (result: unknown[]) => {
-          const v = Array.isArray(result) ? result : [];
-          const shares = BigInt(v[0] ?? '0');  // shares FIRST
-          const mantissa = BigInt(v[1] ?? '0');  // 1e18 mantissa SECOND
-          const baseUnits = mantissa / (10n ** 19n); // 1e18 -> 1e8
-          return {
-            amount: formatAssetAmount(baseUnits, 8, 'APT'),
-            shares: shares.toString()
-          };
-        },
-      },
-    ];
-
-    for (const view of views) {
-      try {
-        const result = await callAriesView(
-          aptos,
-          ariesAddress,
-          view.module,
-          view.name,
-          view.typeArgs,
-          view.args,
-        );
-        const values = Array.isArray(result) ? result : [];
-        const extracted = view.extract(values);
-
-        if (view.key === 'profileExists') {
-          ariesData.profileExists = extracted as boolean;
-        } else if (view.key === 'profileAddress') {
-          ariesData.profileAddress = extracted as string;
-        } else if (view.key === 'wrappedUsdcDeposit') {
-          const data = extracted as { amount: string; shares: string };
-          ariesData.wrappedUsdcDeposited = data.amount;
-          ariesData.wrappedUsdcShares = data.shares;
-        } else if (view.key === 'aptBorrowed') {
-          const data = extracted as { amount: string; shares: string };
-          ariesData.aptBorrowed = data.amount;
-          ariesData.aptShares = data.shares;
-        }
-      } catch (error) {
-        if (process.env.ARIES_DEBUG === 'true') {
-          console.warn(` ${view.key} unavailable:`, (error as Error).message);
-        }
-      }
-    }
+    return await getAriesAccountOverview({
+      aptos,
+      owner: account.accountAddress.toString(),
+      coreAddress: process.env.ARIES_CORE_ADDRESS,
+    });
   } catch (error) {
     console.warn('Failed to fetch Aries profile information:', (error as Error).message);
+    return null;
   }
-
-  return ariesData;
 }
 
 async function showHyperionOverview() {
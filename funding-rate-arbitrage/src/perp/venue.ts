@@ -0,0 +1,126 @@
+import { Account, Aptos } from '@aptos-labs/ts-sdk';
+import { createMemoryPerpVenueFromContext } from './memory-venue.js';
+import { createMerklePerpVenue } from './merkle-venue.js';
+
+/**
+ * A perp DEX the hedged strategies trade on. Flows only talk to this
+ * interface; each venue is registered under a name and built from its own
+ * config, so pointing a strategy at another exchange is a matter of
+ * `--perp-venue` / PERP_VENUE. Sizes and collateral are base units of the
+ * venue's collateral asset (USDC on Merkle); prices are USD numbers.
+ */
+
+export type PerpNetwork = 'mainnet' | 'testnet';
+
+export type PerpPairInfo = {
+  pair: string;
+  /** Per side, in bps of notional. */
+  takerFeeBps: number;
+  makerFeeBps: number;
+  minimumPositionSize: bigint;
+  minimumOrderCollateral: bigint;
+  maxLeverage: number;
+};
+
+export type PerpFunding = {
+  pair: string;
+  /** Signed; positive means longs pay shorts. */
+  fundingPctPerHour: number;
+  timestamp: string;
+};
+
+export type PerpPosition = {
+  pair: string;
+  isLong: boolean;
+  size: bigint;
+  collateral: bigint;
+  avgPrice: number;
+};
+
+export type PerpOrder = {
+  orderId: string;
+  pair: string;
+  isLong: boolean;
+  isIncrease: boolean;
+  isMarket: boolean;
+  sizeDelta: bigint;
+  collateralDelta: bigint;
+  price: number;
+};
+
+export type PerpMarketOrder = {
+  pair: string;
+  isLong: boolean;
+  isIncrease: boolean;
+  sizeDelta: bigint;
+  collateralDelta: bigint;
+};
+
+export type PerpTransaction = {
+  transactionHash: string;
+  version?: string;
+};
+
+export type PerpVenue = {
+  /** Registry name, journaled so resume and rollback rebuild the same venue. */
+  readonly name: string;
+  /** Type tag of the collateral asset. */
+  readonly collateralAsset: string;
+  readonly collateralDecimals: number;
+  getPairInfo(pair: string): Promise<PerpPairInfo>;
+  getFunding(pair: string): Promise<PerpFunding>;
+  getMarkPrice(pair: string): Promise<number>;
+  getPositions(): Promise<PerpPosition[]>;
+  getOrders(): Promise<PerpOrder[]>;
+  /** Collateral the venue can put behind a new order without a deposit. */
+  getCollateralBalance(): Promise<bigint>;
+  depositCollateral(amount: bigint): Promise<PerpTransaction>;
+  withdrawCollateral(amount: bigint): Promise<PerpTransaction>;
+  /** Submits the order and waits for it to land. */
+  placeMarketOrder(order: PerpMarketOrder): Promise<PerpTransaction>;
+  /** Resolved config; passing it back to the factory rebuilds this venue. */
+  describe(): Record<string, unknown>;
+};
+
+export type PerpVenueContext = {
+  aptos: Aptos;
+  account: Account;
+  network: PerpNetwork;
+  /** Venue-specific settings; anything missing falls back to the venue's env vars. */
+  config?: Record<string, unknown>;
+};
+
+export type PerpVenueFactory = (context: PerpVenueContext) => PerpVenue | Promise<PerpVenue>;
+
+export const DEFAULT_PERP_VENUE = 'merkle';
+
+const factories = new Map<string, PerpVenueFactory>([
+  ['merkle', createMerklePerpVenue],
+  ['memory', createMemoryPerpVenueFromContext],
+]);
+
+export function registerPerpVenue(name: string, factory: PerpVenueFactory): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/** Name of the venue to build: `name`, else PERP_VENUE, else Merkle. */
+export function resolvePerpVenueName(name?: string): string {
+  return (name ?? process.env.PERP_VENUE ?? DEFAULT_PERP_VENUE).toLowerCase();
+}
+
+/** Builds the venue registered as `name` (default: PERP_VENUE, else Merkle). */
+export async function createPerpVenue(name: string | undefined, context: PerpVenueContext): Promise<PerpVenue> {
+  const key = resolvePerpVenueName(name);
+  const factory = factories.get(key);
+  if (!factory) {
+    const known = Array.from(factories.keys()).join(', ') || 'none';
+    throw new Error(`Unknown perp venue '${key}'. Registered venues: ${known}.`);
+  }
+  return factory(context);
+}
+
+/** The account's open position on `pair`, if any. */
+export async function findPerpPosition(venue: PerpVenue, pair: string): Promise<PerpPosition | undefined> {
+  const positions = await venue.getPositions();
+  return positions.find((position) => position.pair === pair && position.size > 0n);
+}
@@ -0,0 +1,38 @@
+import { Aptos } from '@aptos-labs/ts-sdk';
+
+const APT_FA = '0xa';
+const APT_COIN_TYPE = '0x1::aptos_coin::AptosCoin';
+
+/**
+ * Wallet balance of a fungible asset, in base units. APT is read through
+ * `coin::balance` so funds still sitting in a legacy CoinStore are included.
+ */
+export async function getFaBalance(
+  aptos: Aptos,
+  owner: string,
+  faAddress: string,
+): Promise<bigint> {
+  const result = faAddress === APT_FA
+    ? await aptos.view({
+      payload: {
+        function: '0x1::coin::balance',
+        typeArguments: [APT_COIN_TYPE],
+        functionArguments: [owner],
+      },
+    })
+    : await aptos.view({
+      payload: {
+        function: '0x1::primary_fungible_store::balance',
+        typeArguments: ['0x1::fungible_asset::Metadata'],
+        functionArguments: [owner, faAddress],
+      },
+    });
+  const values = Array.isArray(result) ? result : [];
+  return BigInt(String(values[0] ?? '0'));
+}
+
+/** Octas charged for a committed user transaction (gas_used * gas_unit_price). */
+export function gasFeeOctas(committed: unknown): bigint {
+  const txn = committed as { gas_used?: string; gas_unit_price?: string };
+  return BigInt(txn.gas_used ?? '0') * BigInt(txn.gas_unit_price ?? '0');
+}
@@ -0,0 +1,92 @@
+import { Network as AptosNetwork } from '@aptos-labs/ts-sdk';
+import { initHyperionSDK, type HyperionSDK } from '@hyperionxyz/sdk';
+import { type SpotNetwork, type SpotVenue, type SpotVenueContext } from './venue.js';
+
+/**
+ * Hyperion as a `SpotVenue`, the reference implementation. Quoted amounts
+ * already have the pool fees taken out, so `feeAmount` is always zero; the gas
+ * figure is a flat estimate (HYPERION_SWAP_GAS_UNITS) since the SDK does not
+ * simulate.
+ */
+
+const DEFAULT_SWAP_GAS_UNITS = 1_500;
+
+export type HyperionVenueConfig = {
+  swapGasUnits: number;
+};
+
+const sdks = new Map<SpotNetwork, HyperionSDK>();
+
+/** Shared Hyperion SDK for `network`. */
+export function getHyperionSdk(network: SpotNetwork): HyperionSDK {
+  let sdk = sdks.get(network);
+  if (!sdk) {
+    sdk = initHyperionSDK({
+      network: network === 'testnet' ? AptosNetwork.TESTNET : AptosNetwork.MAINNET,
+      APTOS_API_KEY: process.env.APTOS_API_KEY ?? '',
+    });
+    sdks.set(network, sdk);
+  }
+  return sdk;
+}
+
+export function resolveHyperionVenueConfig(config: Record<string, unknown> = {}): HyperionVenueConfig {
+  const gasUnits = Number(config.swapGasUnits ?? process.env.HYPERION_SWAP_GAS_UNITS ?? DEFAULT_SWAP_GAS_UNITS);
+  if (!Number.isFinite(gasUnits) || gasUnits < 0) {
+    throw new Error(`Invalid Hyperion swap gas units '${String(config.swapGasUnits ?? process.env.HYPERION_SWAP_GAS_UNITS)}'.`);
+  }
+  return { swapGasUnits: gasUnits };
+}
+
+export function createHyperionSpotVenue(context: SpotVenueContext): SpotVenue {
+  const config = resolveHyperionVenueConfig(context.config);
+  const sdk = getHyperionSdk(context.network);
+
+  return {
+    name: 'hyperion',
+
+    async quote(request) {
+      const args = {
+        from: request.from,
+        to: request.to,
+        amount: request.amount.toString(),
+        safeMode: request.safeMode ?? false,
+      };
+      // The SDK names the side it estimates: estFromAmount takes an exact output.
+      const raw = request.estimate === 'to'
+        ? await sdk.Swap.estFromAmount(args)
+        : await sdk.Swap.estToAmount(args);
+      const route = (raw as any)?.bestRoute ?? raw;
+      if (!route?.path || route.path.length === 0) return undefined;
+      return {
+        venue: 'hyperion',
+        from: request.from,
+        to: request.to,
+        estimate: request.estimate,
+        amountIn: BigInt(route.amountIn ?? 0),
+        amountOut: BigInt(route.amountOut ?? 0),
+        feeAmount: 0n,
+        gasUnits: config.swapGasUnits,
+        path: route.path,
+        raw,
+      };
+    },
+
+    async buildSwapPayload(swap) {
+      const { quote } = swap;
+      return sdk.Swap.swapTransactionPayload({
+        currencyA: quote.from,
+        currencyB: quote.to,
+        currencyAAmount: (swap.amountIn ?? quote.amountIn).toString(),
+        currencyBAmount: (swap.amountOut ?? quote.amountOut).toString(),
+        slippage: swap.slippageBps / 100,
+        poolRoute: quote.path,
+        recipient: swap.recipient,
+      });
+    },
+
+    describe() {
+      return { name: 'hyperion', network: context.network, ...config };
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { type InputGenerateTransactionPayloadData } from '@aptos-labs/ts-sdk';
+import {
+  type SpotQuote,
+  type SpotQuoteRequest,
+  type SpotSwap,
+  type SpotVenue,
+} from './venue.js';
+
+/**
+ * Best-quote routing across spot venues. Every venue is quoted in parallel and
+ * the quotes are ranked on what the trader actually gets: for an exact-input
+ * ('from') quote, the estimated amount out minus unpaid fees and gas, highest
+ * first; for an exact-output ('to') quote, the estimated amount in plus both,
+ * lowest first. Gas is priced in APT and converted at the quote's own
+ * rate when APT is one side of the swap, and ignored otherwise since every
+ * venue then pays roughly the same.
+ */
+
+// Octas per gas unit; the Aptos minimum, which is what swaps usually pay.
+const DEFAULT_GAS_UNIT_PRICE = 100;
+const APT_ASSETS = new Set(['0xa', '0x1::aptos_coin::aptoscoin']);
+
+export type SpotCandidate = {
+  venue: string;
+  amountIn?: string;
+  amountOut?: string;
+  /** Amount the ranking compared, in base units of the estimated side. */
+  netAmount?: string;
+  /** Why the venue produced no quote. */
+  error?: string;
+};
+
+export type SpotRouting = {
+  /** Winning quote; undefined when no venue had a route. */
+  quote?: SpotQuote;
+  candidates: SpotCandidate[];
+};
+
+export type SpotRouter = {
+  readonly venues: SpotVenue[];
+  quote(request: SpotQuoteRequest): Promise<SpotRouting>;
+  /** Builds the swap on the venue that produced `swap.quote`. */
+  buildSwapPayload(swap: SpotSwap): Promise<InputGenerateTransactionPayloadData>;
+  describe(): Record<string, unknown>[];
+};
+
+export type SpotRouterOptions = {
+  gasUnitPrice?: number;
+};
+
+export function isAptAsset(asset: string): boolean {
+  return APT_ASSETS.has(asset.toLowerCase());
+}
+
+/** Gas cost of `quote`'s swap in base units of its estimated side. */
+export function quoteGasCost(quote: SpotQuote, gasUnitPrice = DEFAULT_GAS_UNIT_PRICE): bigint {
+  const octas = BigInt(Math.ceil(quote.gasUnits * gasUnitPrice));
+  const side = quote.estimate === 'to' ? quote.from : quote.to;
+  const other = quote.estimate === 'to' ? quote.to : quote.from;
+  if (isAptAsset(side)) return octas;
+  if (!isAptAsset(other)) return 0n;
+  const [sideAmount, otherAmount] = quote.estimate === 'to'
+    ? [quote.amountIn, quote.amountOut]
+    : [quote.amountOut, quote.amountIn];
+  return otherAmount > 0n ? (octas * sideAmount) / otherAmount : 0n;
+}
+
+/** What ranking compares: all-in input for exact-output ('to') quotes, net output for exact-input ('from') ones. */
+export function netQuoteAmount(quote: SpotQuote, gasUnitPrice = DEFAULT_GAS_UNIT_PRICE): bigint {
+  const costs = quote.feeAmount + quoteGasCost(quote, gasUnitPrice);
+  return quote.estimate === 'to' ? quote.amountIn + costs : quote.amountOut - costs;
+}
+
+export function createSpotRouter(venues: SpotVenue[], options: SpotRouterOptions = {}): SpotRouter {
+  if (venues.length === 0) {
+    throw new Error('A spot router needs at least one venue.');
+  }
+  const gasUnitPrice = options.gasUnitPrice ?? DEFAULT_GAS_UNIT_PRICE;
+  const byName = new Map(venues.map((venue) => [venue.name, venue]));
+
+  return {
+    venues,
+
+    async quote(request) {
+      const settled = await Promise.allSettled(venues.map((venue) => venue.quote(request)));
+      const candidates: SpotCandidate[] = [];
+      let best: { quote: SpotQuote; net: bigint } | undefined;
+
+      settled.forEach((result, index) => {
+        const venue = venues[index].name;
+        if (result.status === 'rejected') {
+          candidates.push({ venue, error: (result.reason as Error)?.message ?? String(result.reason) });
+          return;
+        }
+        if (!result.value) {
+          candidates.push({ venue, error: 'no route' });
+          return;
+        }
+        const quote = result.value;
+        const net = netQuoteAmount(quote, gasUnitPrice);
+        candidates.push({
+          venue,
+          amountIn: quote.amountIn.toString(),
+          amountOut: quote.amountOut.toString(),
+          netAmount: net.toString(),
+        });
+        const better = !best || (request.estimate === 'to' ? net < best.net : net > best.net);
+        if (better) best = { quote, net };
+      });
+
+      return { quote: best?.quote, candidates };
+    },
+
+    async buildSwapPayload(swap) {
+      const venue = byName.get(swap.quote.venue);
+      if (!venue) {
+        throw new Error(`Quote came from spot venue '${swap.quote.venue}', which this router does not hold.`);
+      }
+      return venue.buildSwapPayload(swap);
+    },
+
+    describe() {
+      return venues.map((venue) => venue.describe());
+    },
+  };
+}
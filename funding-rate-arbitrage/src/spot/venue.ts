@@ -0,0 +1,98 @@
+import { type InputGenerateTransactionPayloadData } from '@aptos-labs/ts-sdk';
+import { createHyperionSpotVenue } from './hyperion-venue.js';
+
+/**
+ * A DEX the spot legs swap on. Flows quote and swap through a `SpotRouter`
+ * over every configured venue; each venue is registered under a name, so
+ * adding a DEX needs no strategy changes. Amounts are base units of the asset
+ * on their side of the swap.
+ */
+
+export type SpotNetwork = 'mainnet' | 'testnet';
+
+export type SpotQuoteRequest = {
+  from: string;
+  to: string;
+  amount: bigint;
+  /**
+   * Which side `amount` fixes. 'to' is exact output: what input buys exactly
+   * `amount` of `to`. 'from' is exact input: what exactly `amount` of `from`
+   * sells for. The venue estimates the other side; quotes only compare against
+   * others of the same mode.
+   */
+  estimate: 'to' | 'from';
+  safeMode?: boolean;
+};
+
+export type SpotQuote = {
+  /** Venue that produced the quote and will execute the swap. */
+  venue: string;
+  from: string;
+  to: string;
+  estimate: SpotQuoteRequest['estimate'];
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Venue fee not already taken out of the quoted amounts, in base units of the estimated side. */
+  feeAmount: bigint;
+  /** Gas units the swap is expected to burn. */
+  gasUnits: number;
+  /** Venue route handed back when building the swap (pool path on Hyperion). */
+  path: string[];
+  raw: unknown;
+};
+
+export type SpotSwap = {
+  quote: SpotQuote;
+  slippageBps: number;
+  recipient: string;
+  /** Override the quoted amounts, e.g. a minimum output already discounted for slippage. */
+  amountIn?: bigint;
+  amountOut?: bigint;
+};
+
+export type SpotVenue = {
+  readonly name: string;
+  /** Best route on this venue, or undefined when it has none. */
+  quote(request: SpotQuoteRequest): Promise<SpotQuote | undefined>;
+  buildSwapPayload(swap: SpotSwap): Promise<InputGenerateTransactionPayloadData>;
+  /** Resolved config; passing it back to the factory rebuilds this venue. */
+  describe(): Record<string, unknown>;
+};
+
+export type SpotVenueContext = {
+  network: SpotNetwork;
+  /** Venue-specific settings; anything missing falls back to the venue's env vars. */
+  config?: Record<string, unknown>;
+};
+
+export type SpotVenueFactory = (context: SpotVenueContext) => SpotVenue;
+
+export const DEFAULT_SPOT_VENUES = ['hyperion'];
+
+const factories = new Map<string, SpotVenueFactory>([
+  ['hyperion', createHyperionSpotVenue],
+]);
+
+export function registerSpotVenue(name: string, factory: SpotVenueFactory): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/** Venue names to route over: `names`, else the comma-separated SPOT_VENUES, else Hyperion. */
+export function resolveSpotVenueNames(names?: string[]): string[] {
+  const fromEnv = process.env.SPOT_VENUES?.split(',').map((name) => name.trim()).filter(Boolean);
+  const resolved = names && names.length > 0
+    ? names
+    : fromEnv && fromEnv.length > 0 ? fromEnv : DEFAULT_SPOT_VENUES;
+  return Array.from(new Set(resolved.map((name) => name.toLowerCase())));
+}
+
+/** Builds the venue registered as `name`. */
+export function createSpotVenue(name: string, context: SpotVenueContext): SpotVenue {
+  const key = name.toLowerCase();
+  const factory = factories.get(key);
+  if (!factory) {
+    const known = Array.from(factories.keys()).join(', ') || 'none';
+    throw new Error(`Unknown spot venue '${key}'. Registered venues: ${known}.`);
+  }
+  return factory(context);
+}
@@ -0,0 +1,11 @@
+import { pathToFileURL } from 'url';
+
+/**
+ * True when the module at `moduleUrl` was launched directly (e.g. `tsx src/...`)
+ * rather than imported. Lets a file export its flow and still act as a CLI.
+ */
+export function isCliEntry(moduleUrl: string): boolean {
+  const entry = process.argv[1];
+  if (!entry) return false;
+  return pathToFileURL(entry).href === moduleUrl;
+}
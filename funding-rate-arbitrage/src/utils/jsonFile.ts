@@ -0,0 +1,50 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/** Reads a JSON array from `file`; a missing file is an empty list. */
+export function readJsonArray<T>(file: string): T[] {
+  if (!existsSync(file)) return [];
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/** Write-then-rename so a crash mid-write never leaves a truncated file. */
+export function writeJsonAtomic(file: string, value: unknown) {
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, `${JSON.stringify(value, null, 2)}\n`);
+  renameSync(tmp, file);
+}
+
+/** Inserts `item` or replaces the element with the same `id`, then rewrites the file. */
+export function upsertJsonItem<T extends { id: string }>(file: string, item: T) {
+  const items = readJsonArray<T>(file);
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index === -1) {
+    items.push(item);
+  } else {
+    items[index] = item;
+  }
+  writeJsonAtomic(file, items);
+}
+
+/** Appends `values` to `file` as JSON Lines, creating the file and its directory as needed. */
+export function appendJsonLines(file: string, values: unknown[]) {
+  if (values.length === 0) return;
+  mkdirSync(dirname(file), { recursive: true });
+  appendFileSync(file, values.map((value) => `${JSON.stringify(value)}\n`).join(''));
+}
+
+/** Reads a JSON Lines file; a missing file is an empty list and a torn last line is skipped. */
+export function readJsonLines<T>(file: string): T[] {
+  if (!existsSync(file)) return [];
+  const items: T[] = [];
+  for (const line of readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      items.push(JSON.parse(line));
+    } catch {
+      // Only an append cut short by a crash leaves a partial line.
+    }
+  }
+  return items;
+}
@@ -0,0 +1,65 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import {
+  computeBreakevenHoldDuration,
+  computeForecastBreakevenHold,
+  type FundingPathPoint,
+  type MinFundingInputs,
+} from './minFunding.js';
+
+function near(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+// 20 bps of round trips: 0.2% to earn back.
+const INPUTS: MinFundingInputs = { spotRoundTripBps: 10, perpRoundTripBps: 10 };
+
+/** Expected funding 0.02 %/hr with a low edge of 0.01 %/hr, for `hours` hours. */
+function linearPath(hours: number): FundingPathPoint[] {
+  return Array.from({ length: hours }, (_, index) => ({
+    hours: index + 1,
+    expectedCumulativePct: 0.02 * (index + 1),
+    lowerCumulativePct: 0.01 * (index + 1),
+  }));
+}
+
+describe('computeForecastBreakevenHold', () => {
+  it('breaks even on the low edge of the band, and reports the expected path beside it', () => {
+    const result = computeForecastBreakevenHold(INPUTS, linearPath(30));
+    assert.equal(result.breakevenPossible, true);
+    near(result.tradingCostPct, 0.2);
+    near(result.holdHours, 20);
+    near(result.holdDays, 20 / 24);
+    near(result.expectedHoldHours, 10);
+    assert.equal(result.horizonHours, 30);
+    near(result.expectedNetPct, 0.4);
+    near(result.lowerNetPct, 0.1);
+    near(result.netFundingPerHour, 0.01);
+  });
+
+  it('matches the flat breakeven when the band is a flat rate', () => {
+    const flat = computeBreakevenHoldDuration(INPUTS, 0.01);
+    near(flat.holdHours, 20);
+  });
+
+  it('interpolates the crossing within the hour', () => {
+    const result = computeForecastBreakevenHold(INPUTS, [
+      { hours: 1, expectedCumulativePct: 0.1, lowerCumulativePct: 0.1 },
+      { hours: 2, expectedCumulativePct: 0.3, lowerCumulativePct: 0.3 },
+    ]);
+    near(result.holdHours, 1.5);
+  });
+
+  it('is not possible when the low edge never pays the costs back within the horizon', () => {
+    const result = computeForecastBreakevenHold(INPUTS, linearPath(15));
+    assert.equal(result.breakevenPossible, false);
+    assert.equal(result.holdHours, undefined);
+    near(result.expectedHoldHours, 10);
+  });
+
+  it('charges the basis premium against the forecast', () => {
+    // 0.005 %/hr of premium halves the low edge's carry, pushing breakeven to 40h.
+    const result = computeForecastBreakevenHold({ ...INPUTS, extraBasisPremiumPctPerHr: 0.005 }, linearPath(48));
+    near(result.holdHours, 40);
+  });
+});
@@ -7,6 +7,8 @@ export type MinFundingInputs = {
   fundingStdPctPerHr?: number;
   zScore?: number;
   extraBasisPremiumPctPerHr?: number;
+  /** APR earned on the spot leg while it is supplied to a lending venue; offsets the capital cost. */
+  supplyAprPct?: number;
 };
 
 type NormalizedInputs = Required<Pick<MinFundingInputs,
@@ -18,6 +20,7 @@ type NormalizedInputs = Required<Pick<MinFundingInputs,
   | 'fundingStdPctPerHr'
   | 'zScore'
   | 'extraBasisPremiumPctPerHr'
+  | 'supplyAprPct'
 >>;
 
 export type MinFundingBreakdown = {
@@ -25,6 +28,7 @@ export type MinFundingBreakdown = {
   breakevenPctPerHour: number;
   tradingCostPctPerHour: number;
   capitalCostPctPerHour: number;
+  supplyYieldPctPerHour: number;
   riskBufferPctPerHour: number;
   basisPremiumPctPerHour: number;
   normalizedInputs: NormalizedInputs;
@@ -63,6 +67,9 @@ function normalizeInputs(inputs: MinFundingInputs): NormalizedInputs {
     extraBasisPremiumPctPerHr: Number.isFinite(inputs.extraBasisPremiumPctPerHr)
       ? (inputs.extraBasisPremiumPctPerHr as number)
       : 0,
+    supplyAprPct: Number.isFinite(inputs.supplyAprPct)
+      ? (inputs.supplyAprPct as number)
+      : 0,
   };
 }
 
@@ -80,8 +87,11 @@ export function computeMinFundingBreakdown(
 
   const capitalCostPctPerHour =
     normalized.capitalAprPct / 100 / (365 * 24);
+  const supplyYieldPctPerHour =
+    normalized.supplyAprPct / 100 / (365 * 24);
 
-  const breakevenPctPerHour = tradingCostPctPerHour + capitalCostPctPerHour;
+  const breakevenPctPerHour =
+    tradingCostPctPerHour + capitalCostPctPerHour - supplyYieldPctPerHour;
 
   const riskBufferPctPerHour =
     normalized.zScore * normalized.fundingStdPctPerHr;
@@ -95,6 +105,7 @@ export function computeMinFundingBreakdown(
     breakevenPctPerHour,
     tradingCostPctPerHour,
     capitalCostPctPerHour,
+    supplyYieldPctPerHour,
     riskBufferPctPerHour,
     basisPremiumPctPerHour,
     normalizedInputs: normalized,
@@ -117,11 +128,13 @@ export function computeBreakevenHoldDuration(
   const tradingCostPct = spotCostPct + perpCostPct + gasCostPct;
 
   const capitalCostPctPerHour = normalized.capitalAprPct / 100 / (365 * 24);
+  const supplyYieldPctPerHour = normalized.supplyAprPct / 100 / (365 * 24);
   const riskBufferPctPerHour = normalized.zScore * normalized.fundingStdPctPerHr;
   const basisPremiumPctPerHour = normalized.extraBasisPremiumPctPerHr;
 
   const netFundingPerHour =
     fundingPctPerHour
+    + supplyYieldPctPerHour
     - capitalCostPctPerHour
     - riskBufferPctPerHour
     - basisPremiumPctPerHour;
@@ -155,3 +168,85 @@ export function computeBreakevenHoldDuration(
     normalizedInputs: normalized,
   };
 }
+
+/** Funding the hedge expects to receive by `hours` into the hold, in %. */
+export type FundingPathPoint = {
+  hours: number;
+  expectedCumulativePct: number;
+  /** Low edge of the forecast's confidence band. */
+  lowerCumulativePct: number;
+};
+
+export type ForecastBreakevenResult = BreakevenHoldResult & {
+  /** Breakeven on the expected path; `holdHours` is on the low edge of the band. */
+  expectedHoldHours?: number;
+  horizonHours: number;
+  /** Net of trading costs at the end of the horizon, on the expected path and the low edge. */
+  expectedNetPct: number;
+  lowerNetPct: number;
+};
+
+/**
+ * Breakeven against a funding forecast instead of a flat rate. The forecast's
+ * confidence band stands in for the z * std risk buffer, so breakeven is when
+ * the low edge of the band, plus supply yield and minus capital cost and the
+ * basis premium, has paid back the round-trip trading costs. Not possible if
+ * that doesn't happen within the forecast horizon.
+ */
+export function computeForecastBreakevenHold(
+  inputs: MinFundingInputs,
+  path: FundingPathPoint[],
+): ForecastBreakevenResult {
+  const normalized = normalizeInputs(inputs);
+
+  const tradingCostPct =
+    (normalized.spotRoundTripBps + normalized.perpRoundTripBps + normalized.gasRoundTripBps) / 100;
+  const carryPctPerHour =
+    normalized.supplyAprPct / 100 / (365 * 24)
+    - normalized.capitalAprPct / 100 / (365 * 24)
+    - normalized.extraBasisPremiumPctPerHr;
+
+  const expectedNet = (point: FundingPathPoint) =>
+    point.expectedCumulativePct + carryPctPerHour * point.hours - tradingCostPct;
+  const lowerNet = (point: FundingPathPoint) =>
+    point.lowerCumulativePct + carryPctPerHour * point.hours - tradingCostPct;
+
+  const end = path[path.length - 1];
+  const horizonHours = end?.hours ?? 0;
+  const holdHours = firstCrossing(path, lowerNet, -tradingCostPct);
+  const expectedHoldHours = firstCrossing(path, expectedNet, -tradingCostPct);
+  const netFundingPerHour = end ? (end.lowerCumulativePct / end.hours) + carryPctPerHour : 0;
+
+  return {
+    breakevenPossible: holdHours !== undefined,
+    holdHours,
+    holdDays: holdHours !== undefined ? holdHours / 24 : undefined,
+    expectedHoldHours,
+    tradingCostPct,
+    netFundingPerHour,
+    horizonHours,
+    expectedNetPct: end ? expectedNet(end) : -tradingCostPct,
+    lowerNetPct: end ? lowerNet(end) : -tradingCostPct,
+    normalizedInputs: normalized,
+  };
+}
+
+/** First time `net` reaches zero along `path`, interpolating within the hour; `start` is its value at hour 0. */
+function firstCrossing(
+  path: FundingPathPoint[],
+  net: (point: FundingPathPoint) => number,
+  start: number,
+): number | undefined {
+  if (start >= 0) return 0;
+  let previousHours = 0;
+  let previousNet = start;
+  for (const point of path) {
+    const value = net(point);
+    if (value >= 0) {
+      return previousHours + ((point.hours - previousHours) * -previousNet) / (value - previousNet);
+    }
+    previousHours = point.hours;
+    previousNet = value;
+  }
+  return undefined;
+}
@@ -11,19 +11,20 @@ import { Telegraf } from "telegraf";
 import fetch from "node-fetch";
 import "dotenv/config";
 
-// ...existing code... (kept the later runTsCli variant below)
-
-import { spawn } from "child_process";
 import path from "path";
 import { fileURLToPath } from "url";
 
 import { main as seePosition } from "../funding-rate-arbitrage/src/perp/positions.ts";
 
-import { main as close_short_spot_long_perp } from "../funding-rate-arbitrage/src/arbitrage/close-short-spot-long-perp.ts";
-import { main as close_long_spot_short_perp } from "../funding-rate-arbitrage/src/arbitrage/close-long-spot-short-perp.ts";
+import { runCloseShortSpotLongPerp } from "../funding-rate-arbitrage/src/arbitrage/close-short-spot-long-perp.ts";
+import { runCloseLongSpotShortPerp } from "../funding-rate-arbitrage/src/arbitrage/close-long-spot-short-perp.ts";
 
-import { main as long_spot_short_perp } from "../funding-rate-arbitrage/src/arbitrage/long-spot-short-perp.ts";
-import { main as short_spot_long_perp } from "../funding-rate-arbitrage/src/arbitrage/short-spot-long-perp.ts";
+import { runLongSpotShortPerp } from "../funding-rate-arbitrage/src/arbitrage/long-spot-short-perp.ts";
+import { runShortSpotLongPerp } from "../funding-rate-arbitrage/src/arbitrage/short-spot-long-perp.ts";
+import {
+  accountFromPrivateKey,
+  createArbitrageClients,
+} from "../funding-rate-arbitrage/src/arbitrage/clients.ts";
 
 import { getFundingRate } from "../funding-rate-arbitrage/src/perp/positions.ts";
 
@@ -32,55 +33,6 @@ import { checkLatestDeposit } from "./scraper.js"; // reusing scraper for indexe
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Paths to your TS CLIs
-const ARB_ROOT = path.resolve(__dirname, "../funding-rate-arbitrage");
-const LONG_CLI = path.join(ARB_ROOT, "src/arbitrage/long-spot-short-perp.ts");
-const SHORT_CLI = path.join(ARB_ROOT, "src/arbitrage/short-spot-long-perp.ts");
-
-const CLOSE_LONG_SHORT_CLI = path.join(
-  ARB_ROOT,
-  "src/arbitrage/close-long-spot-short-perp.ts"
-);
-const CLOSE_SHORT_LONG_CLI = path.join(
-  ARB_ROOT,
-  "src/arbitrage/close-short-spot-long-perp.ts"
-);
-
-const FORMATTED_APTOS_PK = (() => {
-  try {
-    return PrivateKey.formatPrivateKey(process.env.APTOS_PK || "", "ed25519");
-  } catch (e) {
-    console.warn(
-      "Warning: could not format APTOS_PK to AIP-80:",
-      e?.message || e
-    );
-    return process.env.APTOS_PK || "";
-  }
-})();
-
-// Run a TS CLI with npx tsx, in the funding-rate-arbitrage project
-function runTsCli(tsFile, args = []) {
-  return new Promise((resolve, reject) => {
-    const proc = spawn("npx", ["-y", "tsx", tsFile, ...args], {
-      cwd: ARB_ROOT, // <<< important: use the arb project folder
-      stdio: ["ignore", "pipe", "pipe"],
-      env: {
-        ...process.env,
-        // Inject formatted private key for the child process
-        APTOS_PK: FORMATTED_APTOS_PK,
-      },
-    });
-    let out = "",
-      err = "";
-    proc.stdout.on("data", (d) => (out += d));
-    proc.stderr.on("data", (d) => (err += d));
-    proc.on("close", (code) => {
-      if (code === 0) resolve(out.trim());
-      else reject(new Error(`exit ${code}\n${err || out}`));
-    });
-  });
-}
-
 // Small helpers for polling and output excerpting
 function sleep(ms) {
   return new Promise((r) => setTimeout(r, ms));
@@ -163,6 +115,19 @@ const pk = new Ed25519PrivateKey(APTOS_PK);
 export const hotWallet = Account.fromPrivateKey({ privateKey: pk });
 const address = hotWallet.accountAddress.toString();
 
+// The arb flows sign with the hot wallet; left to themselves they would read
+// PRIVATE_KEY from this process's env instead. Built once, on first use.
+let arbClients;
+function getArbClients() {
+  arbClients ??= createArbitrageClients({
+    account: accountFromPrivateKey(APTOS_PK),
+  }).catch((error) => {
+    arbClients = undefined;
+    throw error;
+  });
+  return arbClients;
+}
+
 // --- Helper: get USDC deposit activities (FA v2) using the SDK/indexer helper ---
 // This uses the SDK's indexer helper which already normalizes FA activities.
 async function getUsdcFaActivitiesFor(
@@ -531,20 +496,20 @@ bot.command("close_position", async (ctx) => {
       );
     }
 
-    // --- 2) Close positions according to funding-rate sign (run CLI files with required args)
+    // --- 2) Close positions according to funding-rate sign
     await ctx.reply("Closing open positions on perp + spot legs…");
 
-    // required arg for your close CLIs
-    const closeArgs = ["--perp-pair", "APT_USD"];
     try {
-    const out1 = await runTsCli(CLOSE_LONG_SHORT_CLI, closeArgs);
-    const out2 = await runTsCli(CLOSE_SHORT_LONG_CLI, closeArgs);
-
-    if (out1) console.log("[close_long_spot_short_perp output]\n" + out1);
-    if (out2) console.log("[close_short_spot_long_perp output]\n" + out2);
+      const closeParams = { perpPair: "APT_USD", clients: await getArbClients() };
+      const out1 = await runCloseLongSpotShortPerp(closeParams);
+      const out2 = await runCloseShortSpotLongPerp(closeParams);
 
-    "All positions closed (or no open positions). Proceeding to payout…"
-    
+      console.log(
+        "[close_long_spot_short_perp result]\n" + JSON.stringify(out1, null, 2)
+      );
+      console.log(
+        "[close_short_spot_long_perp result]\n" + JSON.stringify(out2, null, 2)
+      );
     } catch (closeErr) {
       console.error("Error while closing positions:", closeErr);
       await ctx.reply(
@@ -740,42 +705,38 @@ async function pollDepositsOnce() {
       // === Immediately deploy the deposit into a position based on funding rate ===
       try {
         const fr = await getFundingRate(); // positive => long spot / short perp; negative => short spot / long perp
-        const baseArgs = [
-          "--spot-out",
-          "5",
-          "--perp-pair",
-          "APT_USD",
-          "--perp-collateral",
-          "5",
-          "--min-funding",
-          "auto",
-          "--submit-spot",
-          "true",
-          "--submit-perp",
-          "true",
-        ];
-
-        let cliOut = "";
+        const baseParams = {
+          clients: await getArbClients(),
+          spotOut: "5",
+          perpPair: "APT_USD",
+          perpCollateral: "5",
+          minFunding: "auto",
+          submitSpot: true,
+          submitPerp: true,
+        };
+
+        let tradeResult;
         if (typeof fr === "number" && fr > 0) {
           await bot.telegram.sendMessage(
             savedChatId,
             `Funding rate positive (${fr}). Opening Long Spot / Short Perp…`
           );
-          cliOut = await runTsCli(LONG_CLI, baseArgs);
+          tradeResult = await runLongSpotShortPerp(baseParams);
         } else {
           await bot.telegram.sendMessage(
             savedChatId,
             `Funding rate negative (${fr}). Opening Short Spot / Long Perp…`
           );
-          cliOut = await runTsCli(SHORT_CLI, baseArgs);
+          tradeResult = await runShortSpotLongPerp(baseParams);
         }
 
-        if (cliOut) {
-          console.log("[auto-trade CLI output]\n" + cliOut);
+        if (tradeResult) {
+          const tradeOut = JSON.stringify(tradeResult, null, 2);
+          console.log("[auto-trade result]\n" + tradeOut);
           // Send a short excerpt so you can see what happened
           await bot.telegram.sendMessage(
             savedChatId,
-            "Trade output (excerpt):\n```\n" + cliOut + "\n```",
+            "Trade output (excerpt):\n```\n" + tradeOut + "\n```",
             { parse_mode: "Markdown" }
           );
         }